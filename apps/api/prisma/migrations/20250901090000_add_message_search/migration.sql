@@ -0,0 +1,4 @@
+-- CreateIndex
+-- Expression index backing full-text message search; the expression must
+-- match the one used by ChatService.searchMessages to be picked up.
+CREATE INDEX "Message_content_search_idx" ON "public"."Message" USING GIN (to_tsvector('simple', "content"));
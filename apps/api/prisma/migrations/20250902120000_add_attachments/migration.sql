@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "public"."Attachment" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT,
+    "uploaderId" TEXT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "mimeType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Attachment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Attachment_storageKey_key" ON "public"."Attachment"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "Attachment_messageId_idx" ON "public"."Attachment"("messageId");
+
+-- CreateIndex
+CREATE INDEX "Attachment_uploaderId_createdAt_idx" ON "public"."Attachment"("uploaderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Attachment" ADD CONSTRAINT "Attachment_uploaderId_fkey" FOREIGN KEY ("uploaderId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "placeholderColor" TEXT,
+ADD COLUMN     "thumbnailWidths" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "width" INTEGER;
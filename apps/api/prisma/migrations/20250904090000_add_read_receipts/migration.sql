@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Membership" ADD COLUMN     "lastDeliveredAt" TIMESTAMP(3),
+ADD COLUMN     "lastReadAt" TIMESTAMP(3),
+ADD COLUMN     "lastReadMessageId" TEXT;
@@ -0,0 +1,12 @@
+-- Existing members start caught up instead of with their whole history unread
+UPDATE "public"."Membership" AS mb
+SET "lastReadMessageId" = latest."id",
+    "lastReadAt" = latest."createdAt",
+    "lastDeliveredAt" = COALESCE(mb."lastDeliveredAt", latest."createdAt")
+FROM (
+    SELECT DISTINCT ON ("roomId") "roomId", "id", "createdAt"
+    FROM "public"."Message"
+    ORDER BY "roomId", "createdAt" DESC, "id" DESC
+) AS latest
+WHERE mb."roomId" = latest."roomId"
+  AND mb."lastReadAt" IS NULL;
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."Membership" ADD COLUMN     "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "type" TEXT NOT NULL DEFAULT 'text';
+
+-- AlterTable
+ALTER TABLE "public"."Room" ADD COLUMN     "avatar" TEXT;
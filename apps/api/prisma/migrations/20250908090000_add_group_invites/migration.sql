@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "public"."GroupInvite" (
+    "id" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "createdById" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3),
+    "maxUses" INTEGER,
+    "uses" INTEGER NOT NULL DEFAULT 0,
+    "requiresApproval" BOOLEAN NOT NULL DEFAULT false,
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroupInvite_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."GroupJoinRequest" (
+    "id" TEXT NOT NULL,
+    "inviteId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GroupJoinRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupInvite_token_key" ON "public"."GroupInvite"("token");
+
+-- CreateIndex
+CREATE INDEX "GroupInvite_roomId_createdAt_idx" ON "public"."GroupInvite"("roomId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "GroupJoinRequest_roomId_userId_key" ON "public"."GroupJoinRequest"("roomId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "public"."GroupInvite" ADD CONSTRAINT "GroupInvite_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GroupInvite" ADD CONSTRAINT "GroupInvite_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GroupJoinRequest" ADD CONSTRAINT "GroupJoinRequest_inviteId_fkey" FOREIGN KEY ("inviteId") REFERENCES "public"."GroupInvite"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GroupJoinRequest" ADD CONSTRAINT "GroupJoinRequest_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."GroupJoinRequest" ADD CONSTRAINT "GroupJoinRequest_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
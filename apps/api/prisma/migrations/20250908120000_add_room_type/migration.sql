@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."RoomType" AS ENUM ('dm', 'group', 'channel');
+
+-- AlterTable
+ALTER TABLE "public"."Room" ADD COLUMN     "type" "public"."RoomType" NOT NULL DEFAULT 'dm';
+
+-- Backfill: every existing multi-member room is a group
+UPDATE "public"."Room" SET "type" = 'group' WHERE "isGroup" = true;
+
+-- CreateIndex
+CREATE INDEX "Room_type_name_idx" ON "public"."Room"("type", "name");
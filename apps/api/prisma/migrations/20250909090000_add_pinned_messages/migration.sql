@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."PinnedMessage" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "pinnedById" TEXT NOT NULL,
+    "pinnedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PinnedMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PinnedMessage_messageId_key" ON "public"."PinnedMessage"("messageId");
+
+-- CreateIndex
+CREATE INDEX "PinnedMessage_roomId_pinnedAt_idx" ON "public"."PinnedMessage"("roomId", "pinnedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."PinnedMessage" ADD CONSTRAINT "PinnedMessage_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PinnedMessage" ADD CONSTRAINT "PinnedMessage_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PinnedMessage" ADD CONSTRAINT "PinnedMessage_pinnedById_fkey" FOREIGN KEY ("pinnedById") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
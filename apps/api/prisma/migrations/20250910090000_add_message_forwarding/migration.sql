@@ -0,0 +1,11 @@
+-- DropIndex
+DROP INDEX "public"."Attachment_storageKey_key";
+
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "forwardedFromId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Attachment_storageKey_idx" ON "public"."Attachment"("storageKey");
+
+-- AddForeignKey
+ALTER TABLE "public"."Message" ADD CONSTRAINT "Message_forwardedFromId_fkey" FOREIGN KEY ("forwardedFromId") REFERENCES "public"."Message"("id") ON DELETE SET NULL ON UPDATE CASCADE;
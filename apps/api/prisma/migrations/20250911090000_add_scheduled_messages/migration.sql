@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."ScheduledMessage" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "senderId" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "replyToId" TEXT,
+    "sendAt" TIMESTAMP(3) NOT NULL,
+    "lockedUntil" TIMESTAMP(3),
+    "sentAt" TIMESTAMP(3),
+    "messageId" TEXT,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledMessage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledMessage_sendAt_idx" ON "public"."ScheduledMessage"("sendAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledMessage_senderId_sendAt_idx" ON "public"."ScheduledMessage"("senderId", "sendAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledMessage" ADD CONSTRAINT "ScheduledMessage_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "public"."Room"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledMessage" ADD CONSTRAINT "ScheduledMessage_senderId_fkey" FOREIGN KEY ("senderId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
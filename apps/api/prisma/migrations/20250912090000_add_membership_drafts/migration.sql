@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."Membership" ADD COLUMN     "draft" TEXT,
+ADD COLUMN     "draftUpdatedAt" TIMESTAMP(3);
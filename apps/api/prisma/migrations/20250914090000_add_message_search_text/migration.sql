@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "public"."Message" ADD COLUMN     "searchText" TEXT NOT NULL DEFAULT '';
+
+-- Existing messages keep their raw content as search text until edited;
+-- formatting markers are punctuation the search parser skips anyway
+UPDATE "public"."Message" SET "searchText" = "content" WHERE "deletedAt" IS NULL;
+
+-- DropIndex
+DROP INDEX "public"."Message_content_search_idx";
+
+-- CreateIndex
+-- Expression index backing full-text message search; the expression must
+-- match the one used by ChatService.searchMessages to be picked up.
+CREATE INDEX "Message_searchText_search_idx" ON "public"."Message" USING GIN (to_tsvector('simple', "searchText"));
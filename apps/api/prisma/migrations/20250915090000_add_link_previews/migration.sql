@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."LinkPreview" (
+    "id" TEXT NOT NULL,
+    "messageId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT,
+    "description" TEXT,
+    "imageUrl" TEXT,
+    "siteName" TEXT,
+    "removedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LinkPreview_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LinkPreview_messageId_key" ON "public"."LinkPreview"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "public"."LinkPreview" ADD CONSTRAINT "LinkPreview_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "public"."Message"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "public"."Attachment" ADD COLUMN     "durationMs" INTEGER,
+ADD COLUMN     "playedAt" TIMESTAMP(3),
+ADD COLUMN     "waveform" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
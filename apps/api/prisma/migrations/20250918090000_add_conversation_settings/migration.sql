@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."Membership" ADD COLUMN     "archivedAt" TIMESTAMP(3),
+ADD COLUMN     "muted" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "mutedUntil" TIMESTAMP(3),
+ADD COLUMN     "pinOrder" INTEGER;
@@ -14,6 +14,7 @@ import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
 import { CacheModule } from './common/cache/cache.module';
 import { CacheInterceptor } from './common/cache/cache.interceptor';
 import { DebugModule } from './debug/debug.module';
+import { AttachmentsModule } from './attachments/attachments.module';
 
 @Module({
   imports: [
@@ -36,6 +37,28 @@ import { DebugModule } from './debug/debug.module';
         CACHE_CONVERSATIONS_TTL: Joi.number().integer().min(60).default(900),
         CACHE_MESSAGES_TTL: Joi.number().integer().min(60).default(600),
         CACHE_SESSION_TTL: Joi.number().integer().min(60).default(3300),
+        MESSAGE_DELETE_WINDOW: Joi.number().integer().min(0).default(172800),
+        ATTACHMENTS_DRIVER: Joi.string().valid('local', 's3').default('local'),
+        ATTACHMENTS_MAX_BYTES: Joi.number().integer().min(1).default(10485760),
+        ATTACHMENTS_ALLOWED_TYPES: Joi.string().optional(),
+        ATTACHMENTS_DIR: Joi.string().optional(),
+        ATTACHMENTS_THUMBNAIL_WIDTHS: Joi.string()
+          .pattern(/^\d+(,\d+)*$/)
+          .optional(),
+        S3_ENDPOINT: Joi.string().uri().optional(),
+        S3_REGION: Joi.string().optional(),
+        S3_BUCKET: Joi.string().when('ATTACHMENTS_DRIVER', {
+          is: 's3',
+          then: Joi.required(),
+        }),
+        S3_ACCESS_KEY_ID: Joi.string().when('ATTACHMENTS_DRIVER', {
+          is: 's3',
+          then: Joi.required(),
+        }),
+        S3_SECRET_ACCESS_KEY: Joi.string().when('ATTACHMENTS_DRIVER', {
+          is: 's3',
+          then: Joi.required(),
+        }),
       }),
       expandVariables: true,
       load: [appConfig],
@@ -43,6 +66,7 @@ import { DebugModule } from './debug/debug.module';
     AuthModule,
     ChatModule,
     UsersModule,
+    AttachmentsModule,
     CacheModule,
     ...(process.env.NODE_ENV !== 'production' ? [DebugModule] : []),
   ],
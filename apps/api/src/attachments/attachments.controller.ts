@@ -0,0 +1,79 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Res,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import type { Response } from 'express';
+import { JwtHttpGuard } from 'src/auth/jwt-http.guard';
+import { UserId } from 'src/auth/user.decorator';
+import { RateLimitByUser } from '../common/cache/cache.decorators';
+import { AttachmentsService } from './attachments.service';
+import type { UploadedFileData } from './attachments.types';
+import { UploadAttachmentDto } from './dto/upload-attachment.dto';
+
+@UseGuards(JwtHttpGuard)
+@Controller('attachments')
+export class AttachmentsController {
+  constructor(private readonly attachments: AttachmentsService) {}
+
+  @Post()
+  @RateLimitByUser(60, 20) // 20 uploads per user per minute
+  @UseInterceptors(FileInterceptor('file'))
+  async upload(
+    @UserId() me: string,
+    @UploadedFile() file: UploadedFileData | undefined,
+    @Body() voice: UploadAttachmentDto,
+  ) {
+    return this.attachments.upload(me, file, voice);
+  }
+
+  @Get(':id')
+  async download(
+    @UserId() me: string,
+    @Param('id') id: string,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const { attachment, stream } = await this.attachments.open(me, id);
+
+    // Only images and voice notes are shown inline; never let the browser
+    // guess a type
+    const disposition = /^(image|audio)\//.test(attachment.mimeType)
+      ? 'inline'
+      : 'attachment';
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+
+    return new StreamableFile(stream, {
+      type: attachment.mimeType,
+      length: attachment.size,
+      disposition: `${disposition}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+    });
+  }
+
+  @Get(':id/thumbnails/:width')
+  async thumbnail(
+    @UserId() me: string,
+    @Param('id') id: string,
+    @Param('width', ParseIntPipe) width: number,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const stream = await this.attachments.openThumbnail(me, id, width);
+
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Cache-Control', 'private, max-age=86400');
+
+    return new StreamableFile(stream, {
+      type: 'image/webp',
+      disposition: 'inline',
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MulterModule } from '@nestjs/platform-express';
+import { AuthModule } from '../auth/auth.module';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { STORAGE_DRIVER, type StorageDriver } from './storage/storage-driver';
+import { LocalStorageDriver } from './storage/local-storage.driver';
+import { S3StorageDriver } from './storage/s3-storage.driver';
+
+function createStorageDriver(config: ConfigService): StorageDriver {
+  if (config.get<string>('app.attachments.driver') === 's3') {
+    return new S3StorageDriver({
+      endpoint: config.get<string>('app.attachments.s3.endpoint'),
+      region: config.get<string>('app.attachments.s3.region', 'us-east-1'),
+      bucket: config.getOrThrow<string>('app.attachments.s3.bucket'),
+      accessKeyId: config.getOrThrow<string>('app.attachments.s3.accessKeyId'),
+      secretAccessKey: config.getOrThrow<string>(
+        'app.attachments.s3.secretAccessKey',
+      ),
+    });
+  }
+  return new LocalStorageDriver(
+    config.get<string>('app.attachments.localDir', './uploads'),
+  );
+}
+
+@Module({
+  imports: [
+    AuthModule,
+    // Multer stops reading oversized uploads early; the service re-checks
+    MulterModule.registerAsync({
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => ({
+        limits: {
+          fileSize: config.get<number>('app.attachments.maxBytes'),
+          files: 1,
+        },
+      }),
+    }),
+  ],
+  controllers: [AttachmentsController],
+  providers: [
+    AttachmentsService,
+    PrismaService,
+    CacheService,
+    {
+      provide: STORAGE_DRIVER,
+      inject: [ConfigService],
+      useFactory: createStorageDriver,
+    },
+  ],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,289 @@
+import {
+  ForbiddenException,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import sharp from 'sharp';
+import { Readable } from 'stream';
+import { AttachmentsService } from './attachments.service';
+import { PrismaService } from '../prisma.service';
+import { STORAGE_DRIVER } from './storage/storage-driver';
+
+describe('AttachmentsService', () => {
+  let service: AttachmentsService;
+  let prisma: any;
+  let storage: any;
+
+  let png: Buffer;
+
+  const file = (overrides: Record<string, unknown> = {}) => ({
+    originalname: 'cat.png',
+    mimetype: 'image/png',
+    size: png.length,
+    buffer: png,
+    ...overrides,
+  });
+
+  // Returns what the service asked to insert, like Prisma would
+  const echoCreate = ({ data }: { data: Record<string, unknown> }) => ({
+    id: 'att1',
+    ...data,
+  });
+
+  beforeAll(async () => {
+    png = await sharp({
+      create: { width: 200, height: 100, channels: 3, background: '#336699' },
+    })
+      .png()
+      .toBuffer();
+  });
+
+  beforeEach(async () => {
+    const config: Record<string, unknown> = {
+      'app.attachments.maxBytes': 4096,
+      'app.attachments.allowedMimeTypes': [
+        'image/png',
+        'image/tiff',
+        'audio/webm',
+        'application/pdf',
+      ],
+      'app.attachments.thumbnailWidths': [160, 320],
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AttachmentsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            attachment: { create: jest.fn(), findUnique: jest.fn() },
+            membership: { findUnique: jest.fn() },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn((key: string) => config[key]) },
+        },
+        {
+          provide: STORAGE_DRIVER,
+          useValue: {
+            put: jest.fn(),
+            get: jest.fn().mockResolvedValue(Readable.from(['data'])),
+            delete: jest.fn().mockResolvedValue(undefined),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(AttachmentsService);
+    prisma = module.get(PrismaService);
+    storage = module.get(STORAGE_DRIVER);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('upload', () => {
+    it('stores the image and its thumbnails and records its metadata', async () => {
+      prisma.attachment.create.mockImplementation(echoCreate);
+
+      const result = await service.upload('user1', file());
+
+      const [key] = storage.put.mock.calls[0];
+      expect(key).toMatch(/^user1\//);
+      expect(storage.put).toHaveBeenCalledWith(
+        `${key}_w160`,
+        expect.any(Buffer),
+        'image/webp',
+      );
+      expect(result).toMatchObject({
+        url: '/attachments/att1',
+        mimeType: 'image/png',
+        width: 200,
+        height: 100,
+        placeholderColor: expect.stringMatching(/^#[0-9a-f]{6}$/),
+        thumbnails: [{ width: 160, url: '/attachments/att1/thumbnails/160' }],
+      });
+    });
+
+    it('renames converted images to their new format', async () => {
+      const tiff = await sharp(png).tiff().toBuffer();
+      prisma.attachment.create.mockImplementation(echoCreate);
+
+      const result = await service.upload(
+        'user1',
+        file({
+          originalname: 'scan.tiff',
+          mimetype: 'image/tiff',
+          size: tiff.length,
+          buffer: tiff,
+        }),
+      );
+
+      expect(result.fileName).toBe('scan.jpg');
+      expect(result.mimeType).toBe('image/jpeg');
+    });
+
+    it('stores other files untouched', async () => {
+      const pdf = Buffer.from('%PDF-1.4');
+      prisma.attachment.create.mockImplementation(echoCreate);
+
+      const result = await service.upload(
+        'user1',
+        file({
+          originalname: 'doc.pdf',
+          mimetype: 'application/pdf',
+          size: pdf.length,
+          buffer: pdf,
+        }),
+      );
+
+      expect(storage.put).toHaveBeenCalledTimes(1);
+      expect(storage.put).toHaveBeenCalledWith(
+        expect.any(String),
+        pdf,
+        'application/pdf',
+      );
+      expect(result).toMatchObject({ width: null, thumbnails: [] });
+    });
+
+    it('keeps the duration and waveform measured for a voice note', async () => {
+      const audio = Buffer.from('webm audio');
+      prisma.attachment.create.mockImplementation(echoCreate);
+
+      const result = await service.upload(
+        'user1',
+        file({
+          originalname: 'voice-note.webm',
+          mimetype: 'audio/webm',
+          size: audio.length,
+          buffer: audio,
+        }),
+        { durationMs: 4200, waveform: [0, 40, 100, 20] },
+      );
+
+      expect(result).toMatchObject({
+        mimeType: 'audio/webm',
+        durationMs: 4200,
+        waveform: [0, 40, 100, 20],
+        playedAt: null,
+      });
+    });
+
+    it('only takes voice note measurements for audio', async () => {
+      await expect(
+        service.upload('user1', file(), { durationMs: 4200 }),
+      ).rejects.toThrow('Only audio files can be voice notes');
+      await expect(
+        service.upload(
+          'user1',
+          file({ mimetype: 'audio/webm', buffer: Buffer.from('webm') }),
+          { waveform: [10, 20] },
+        ),
+      ).rejects.toThrow('A waveform needs the note duration');
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('rejects files over the size limit', async () => {
+      await expect(
+        service.upload('user1', file({ size: 8192 })),
+      ).rejects.toBeInstanceOf(PayloadTooLargeException);
+      expect(storage.put).not.toHaveBeenCalled();
+    });
+
+    it('rejects types outside the allow-list', async () => {
+      await expect(
+        service.upload('user1', file({ mimetype: 'text/html' })),
+      ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+    });
+
+    it('rejects images whose content does not match the declared type', async () => {
+      await expect(
+        service.upload('user1', file({ buffer: Buffer.from('<svg></svg>') })),
+      ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+    });
+
+    it('removes the stored files when the database insert fails', async () => {
+      prisma.attachment.create.mockRejectedValue(new Error('db down'));
+
+      await expect(service.upload('user1', file())).rejects.toThrow('db down');
+      const [key] = storage.put.mock.calls[0];
+      expect(storage.delete).toHaveBeenCalledWith(key);
+      expect(storage.delete).toHaveBeenCalledWith(`${key}_w160`);
+    });
+  });
+
+  describe('open', () => {
+    const row = (message: unknown) => ({
+      id: 'att1',
+      fileName: 'cat.png',
+      mimeType: 'image/png',
+      size: 4,
+      width: 200,
+      height: 100,
+      placeholderColor: '#336699',
+      thumbnailWidths: [160],
+      storageKey: 'user1/key',
+      uploaderId: 'user1',
+      message,
+    });
+
+    it('lets room members read sent attachments', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(
+        row({ roomId: 'room1', deletedAt: null }),
+      );
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+
+      const result = await service.open('user2', 'att1');
+
+      expect(storage.get).toHaveBeenCalledWith('user1/key');
+      expect(result.attachment.id).toBe('att1');
+    });
+
+    it('rejects non-members', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(
+        row({ roomId: 'room1', deletedAt: null }),
+      );
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(service.open('user3', 'att1')).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+    });
+
+    it('hides attachments of messages deleted for everyone', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(
+        row({ roomId: 'room1', deletedAt: new Date() }),
+      );
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+
+      await expect(service.open('user2', 'att1')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+    });
+
+    it('only shows unsent attachments to their uploader', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(row(null));
+
+      await expect(service.open('user2', 'att1')).rejects.toBeInstanceOf(
+        NotFoundException,
+      );
+      await expect(service.open('user1', 'att1')).resolves.toBeDefined();
+    });
+
+    it('serves thumbnails that were generated', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(row(null));
+
+      await service.openThumbnail('user1', 'att1', 160);
+      expect(storage.get).toHaveBeenCalledWith('user1/key_w160');
+
+      await expect(
+        service.openThumbnail('user1', 'att1', 999),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import type { Readable } from 'stream';
+import { PrismaService } from '../prisma.service';
+import { STORAGE_DRIVER, type StorageDriver } from './storage/storage-driver';
+import { processImage } from './image-processing';
+import type {
+  AttachmentInfo,
+  UploadedFileData,
+  VoiceNoteMeta,
+} from './attachments.types';
+
+export const ATTACHMENT_SELECT = {
+  id: true,
+  fileName: true,
+  mimeType: true,
+  size: true,
+  width: true,
+  height: true,
+  placeholderColor: true,
+  thumbnailWidths: true,
+  durationMs: true,
+  waveform: true,
+  playedAt: true,
+} as const;
+
+export function toAttachmentInfo(row: {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  width: number | null;
+  height: number | null;
+  placeholderColor: string | null;
+  thumbnailWidths: number[];
+  durationMs: number | null;
+  waveform: number[];
+  playedAt: Date | null;
+}): AttachmentInfo {
+  return {
+    id: row.id,
+    fileName: row.fileName,
+    mimeType: row.mimeType,
+    size: row.size,
+    url: `/attachments/${row.id}`,
+    width: row.width,
+    height: row.height,
+    placeholderColor: row.placeholderColor,
+    thumbnails: row.thumbnailWidths.map((width) => ({
+      width,
+      url: `/attachments/${row.id}/thumbnails/${width}`,
+    })),
+    durationMs: row.durationMs,
+    waveform: row.waveform,
+    playedAt: row.playedAt?.toISOString() ?? null,
+  };
+}
+
+const thumbnailKey = (storageKey: string, width: number) =>
+  `${storageKey}_w${width}`;
+
+// Keeps the uploaded name but swaps the extension after a format conversion
+const withExtension = (fileName: string, extension: string) =>
+  `${fileName.replace(/\.[^./\\]*$/, '')}.${extension}`;
+
+@Injectable()
+export class AttachmentsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly config: ConfigService,
+    @Inject(STORAGE_DRIVER) private readonly storage: StorageDriver,
+  ) {}
+
+  /**
+   * Validates and stores an upload. The attachment stays unlinked (and only
+   * visible to the uploader) until it is sent with a message. Voice notes
+   * come with their duration and waveform; the server can't decode audio,
+   * so both are taken from the recording client as they are.
+   */
+  async upload(
+    userId: string,
+    file: UploadedFileData | undefined,
+    voice: VoiceNoteMeta = {},
+  ): Promise<AttachmentInfo> {
+    if (!file) {
+      throw new BadRequestException('No file uploaded');
+    }
+
+    const maxBytes = this.config.get<number>('app.attachments.maxBytes', 0);
+    if (file.size > maxBytes) {
+      throw new PayloadTooLargeException(
+        `File exceeds the ${maxBytes} byte limit`,
+      );
+    }
+
+    const allowed = this.config.get<string[]>(
+      'app.attachments.allowedMimeTypes',
+      [],
+    );
+    if (!allowed.includes(file.mimetype)) {
+      throw new UnsupportedMediaTypeException(
+        `File type ${file.mimetype} is not allowed`,
+      );
+    }
+
+    if (
+      (voice.durationMs !== undefined || voice.waveform) &&
+      !file.mimetype.startsWith('audio/')
+    ) {
+      throw new BadRequestException('Only audio files can be voice notes');
+    }
+    if (voice.waveform && voice.durationMs === undefined) {
+      throw new BadRequestException('A waveform needs the note duration');
+    }
+
+    // Images are decoded and re-encoded, which also proves they are images
+    const image = file.mimetype.startsWith('image/')
+      ? await processImage(
+          file.buffer,
+          this.config.get<number[]>('app.attachments.thumbnailWidths', []),
+        )
+      : null;
+
+    const body = image?.buffer ?? file.buffer;
+    const mimeType = image?.mimeType ?? file.mimetype;
+    const fileName = image?.converted
+      ? withExtension(file.originalname, image.extension)
+      : file.originalname;
+
+    const storageKey = `${userId}/${randomUUID()}`;
+    const storedKeys: string[] = [];
+
+    try {
+      await this.storage.put(storageKey, body, mimeType);
+      storedKeys.push(storageKey);
+      for (const thumbnail of image?.thumbnails ?? []) {
+        const key = thumbnailKey(storageKey, thumbnail.width);
+        await this.storage.put(key, thumbnail.buffer, 'image/webp');
+        storedKeys.push(key);
+      }
+
+      const attachment = await this.prisma.attachment.create({
+        data: {
+          uploaderId: userId,
+          storageKey,
+          fileName: fileName.slice(0, 255),
+          mimeType,
+          size: body.length,
+          width: image?.width ?? null,
+          height: image?.height ?? null,
+          placeholderColor: image?.placeholderColor ?? null,
+          thumbnailWidths: image?.thumbnails.map((t) => t.width) ?? [],
+          durationMs: voice.durationMs ?? null,
+          waveform: voice.waveform ?? [],
+        },
+        select: ATTACHMENT_SELECT,
+      });
+
+      console.log(
+        `📎 Stored attachment ${attachment.id} (${body.length} bytes)`,
+      );
+      return toAttachmentInfo(attachment);
+    } catch (error) {
+      // Don't leave orphaned files behind
+      await Promise.all(
+        storedKeys.map((key) =>
+          this.storage.delete(key).catch(() => undefined),
+        ),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Opens an attachment for download. Sent attachments are readable by room
+   * members; unsent ones only by their uploader.
+   */
+  async open(
+    userId: string,
+    attachmentId: string,
+  ): Promise<{ attachment: AttachmentInfo; stream: Readable }> {
+    const attachment = await this.findReadable(userId, attachmentId);
+    const stream = await this.storage.get(attachment.storageKey);
+    return { attachment: toAttachmentInfo(attachment), stream };
+  }
+
+  /**
+   * Opens one of an image's WebP thumbnails, with the same access rules
+   */
+  async openThumbnail(
+    userId: string,
+    attachmentId: string,
+    width: number,
+  ): Promise<Readable> {
+    const attachment = await this.findReadable(userId, attachmentId);
+    if (!attachment.thumbnailWidths.includes(width)) {
+      throw new NotFoundException('Thumbnail not found');
+    }
+    return this.storage.get(thumbnailKey(attachment.storageKey, width));
+  }
+
+  private async findReadable(userId: string, attachmentId: string) {
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id: attachmentId },
+      select: {
+        ...ATTACHMENT_SELECT,
+        storageKey: true,
+        uploaderId: true,
+        message: { select: { roomId: true, deletedAt: true } },
+      },
+    });
+
+    if (!attachment) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    if (attachment.message) {
+      const membership = await this.prisma.membership.findUnique({
+        where: {
+          userId_roomId: { userId, roomId: attachment.message.roomId },
+        },
+        select: { id: true },
+      });
+      if (!membership) {
+        throw new ForbiddenException('User is not a member of this room');
+      }
+      // Deleting a message for everyone takes its files with it
+      if (attachment.message.deletedAt) {
+        throw new NotFoundException('Attachment not found');
+      }
+    } else if (attachment.uploaderId !== userId) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    return attachment;
+  }
+}
@@ -0,0 +1,35 @@
+export interface AttachmentInfo {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string; // API path serving the file, e.g. /attachments/<id>
+  // Images only (null/empty for other files)
+  width: number | null;
+  height: number | null;
+  placeholderColor: string | null; // #rrggbb shown until the image loads
+  thumbnails: AttachmentThumbnail[]; // WebP, smallest first
+  // Voice notes only (null/empty for other files)
+  durationMs: number | null;
+  waveform: number[]; // peak levels 0-100
+  playedAt: string | null; // DMs: when the recipient first listened
+}
+
+export interface AttachmentThumbnail {
+  width: number;
+  url: string;
+}
+
+// The parts of a multer file the attachments service relies on
+export interface UploadedFileData {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Measurements a recording client sends along with a voice note
+export interface VoiceNoteMeta {
+  durationMs?: number;
+  waveform?: number[];
+}
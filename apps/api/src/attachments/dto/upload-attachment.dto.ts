@@ -0,0 +1,37 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export const MAX_VOICE_NOTE_MS = 15 * 60 * 1000;
+export const MAX_WAVEFORM_SAMPLES = 128;
+
+// Multipart fields arrive as text
+const toNumbers = ({ value }: { value: unknown }) =>
+  typeof value === 'string' ? value.split(',').map(Number) : value;
+
+export class UploadAttachmentDto {
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_VOICE_NOTE_MS)
+  durationMs?: number;
+
+  // Comma-separated peak levels from 0 to 100
+  @IsOptional()
+  @Transform(toNumbers)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_WAVEFORM_SAMPLES)
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(100, { each: true })
+  waveform?: number[];
+}
@@ -0,0 +1,76 @@
+import { UnsupportedMediaTypeException } from '@nestjs/common';
+import sharp from 'sharp';
+import { processImage } from './image-processing';
+
+const solid = (width: number, height: number) =>
+  sharp({
+    create: {
+      width,
+      height,
+      channels: 3,
+      background: { r: 200, g: 30, b: 30 },
+    },
+  });
+
+describe('processImage', () => {
+  it('strips EXIF metadata and applies the orientation', async () => {
+    // 400x200 stored sideways (orientation 6 = rotate 90° clockwise)
+    const input = await solid(400, 200)
+      .jpeg()
+      .withExif({ IFD0: { Make: 'Phone', Model: 'Camera' } })
+      .withMetadata({ orientation: 6 })
+      .toBuffer();
+
+    const result = await processImage(input, []);
+    const metadata = await sharp(result.buffer).metadata();
+
+    expect(result.mimeType).toBe('image/jpeg');
+    expect(result.converted).toBe(false);
+    expect([result.width, result.height]).toEqual([200, 400]);
+    expect(metadata.exif).toBeUndefined();
+    expect(metadata.orientation).toBeUndefined();
+  });
+
+  it('records a placeholder colour', async () => {
+    const input = await solid(64, 64).png().toBuffer();
+
+    const result = await processImage(input, []);
+
+    expect(result.placeholderColor).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it('renders WebP thumbnails only for widths below the image width', async () => {
+    const input = await solid(500, 250).png().toBuffer();
+
+    const result = await processImage(input, [640, 160, 320]);
+
+    expect(result.thumbnails.map((t) => t.width)).toEqual([160, 320]);
+    const thumb = await sharp(result.thumbnails[0]?.buffer).metadata();
+    expect(thumb.format).toBe('webp');
+    expect([thumb.width, thumb.height]).toEqual([160, 80]);
+  });
+
+  it('converts TIFF to JPEG', async () => {
+    const input = await solid(32, 32).tiff().toBuffer();
+
+    const result = await processImage(input, []);
+
+    expect(result.converted).toBe(true);
+    expect(result.mimeType).toBe('image/jpeg');
+    expect(result.extension).toBe('jpg');
+    expect((await sharp(result.buffer).metadata()).format).toBe('jpeg');
+  });
+
+  it('refuses SVG and content that is not an image', async () => {
+    const svg = Buffer.from(
+      '<svg xmlns="http://www.w3.org/2000/svg" width="10" height="10"/>',
+    );
+
+    await expect(processImage(svg, [])).rejects.toBeInstanceOf(
+      UnsupportedMediaTypeException,
+    );
+    await expect(
+      processImage(Buffer.from('not an image'), []),
+    ).rejects.toBeInstanceOf(UnsupportedMediaTypeException);
+  });
+});
@@ -0,0 +1,115 @@
+import { UnsupportedMediaTypeException } from '@nestjs/common';
+import sharp from 'sharp';
+
+export interface ProcessedImage {
+  buffer: Buffer;
+  mimeType: string;
+  extension: string; // without the dot
+  converted: boolean; // stored in a different format than uploaded
+  width: number;
+  height: number;
+  placeholderColor: string; // #rrggbb
+  thumbnails: Array<{ width: number; buffer: Buffer }>; // WebP
+}
+
+type WebFormat = 'jpeg' | 'png' | 'webp' | 'gif';
+
+// Formats browsers display as-is
+const WEB_FORMATS: Record<WebFormat, { mimeType: string; extension: string }> =
+  {
+    jpeg: { mimeType: 'image/jpeg', extension: 'jpg' },
+    png: { mimeType: 'image/png', extension: 'png' },
+    webp: { mimeType: 'image/webp', extension: 'webp' },
+    gif: { mimeType: 'image/gif', extension: 'gif' },
+  };
+
+const isWebFormat = (format: string): format is WebFormat =>
+  format in WEB_FORMATS;
+
+// Accepted but converted on upload; SVG and other decodable formats are refused
+const CONVERTED_FORMATS = new Set(['heif', 'tiff']);
+
+const toHex = (value: number) => value.toString(16).padStart(2, '0');
+
+/**
+ * Re-encodes an uploaded image so no EXIF/XMP metadata (GPS location,
+ * camera details) survives, applying the EXIF orientation first. HEIF and
+ * TIFF become JPEG (PNG when transparent). Also measures the image, picks a
+ * placeholder colour and renders WebP thumbnails for the widths that are
+ * smaller than the image itself.
+ */
+export async function processImage(
+  input: Buffer,
+  thumbnailWidths: number[],
+): Promise<ProcessedImage> {
+  let metadata: sharp.Metadata;
+  try {
+    metadata = await sharp(input).metadata();
+  } catch {
+    throw new UnsupportedMediaTypeException(
+      'File content does not match its type',
+    );
+  }
+
+  const format = metadata.format ?? '';
+  if (!isWebFormat(format) && !CONVERTED_FORMATS.has(format)) {
+    throw new UnsupportedMediaTypeException(
+      `Image format ${format || 'unknown'} is not supported`,
+    );
+  }
+
+  const converted = !isWebFormat(format);
+  const targetFormat: WebFormat = isWebFormat(format)
+    ? format
+    : metadata.hasAlpha
+      ? 'png'
+      : 'jpeg';
+  const target = WEB_FORMATS[targetFormat];
+
+  // Sharp drops metadata unless asked to keep it, so re-encoding strips EXIF
+  const animated = targetFormat === 'gif' || targetFormat === 'webp';
+  const pipeline = sharp(input, { animated })
+    .rotate()
+    .toFormat(targetFormat, targetFormat === 'jpeg' ? { mozjpeg: true } : {});
+
+  let output: { data: Buffer; info: sharp.OutputInfo };
+  try {
+    output = await pipeline.toBuffer({ resolveWithObject: true });
+  } catch {
+    // e.g. HEVC-encoded HEIC when libvips is built without a decoder
+    throw new UnsupportedMediaTypeException(
+      'This image could not be converted; please send it as JPEG or PNG',
+    );
+  }
+
+  const width = output.info.width;
+  // Animated images are laid out as a vertical strip of frames
+  const height = output.info.pageHeight ?? output.info.height;
+
+  const { dominant } = await sharp(output.data).stats();
+  const placeholderColor = `#${toHex(dominant.r)}${toHex(dominant.g)}${toHex(dominant.b)}`;
+
+  const thumbnails = await Promise.all(
+    [...new Set(thumbnailWidths)]
+      .filter((thumbWidth) => thumbWidth < width)
+      .sort((a, b) => a - b)
+      .map(async (thumbWidth) => ({
+        width: thumbWidth,
+        buffer: await sharp(output.data)
+          .resize({ width: thumbWidth })
+          .webp({ quality: 75 })
+          .toBuffer(),
+      })),
+  );
+
+  return {
+    buffer: output.data,
+    mimeType: target.mimeType,
+    extension: target.extension,
+    converted,
+    width,
+    height,
+    placeholderColor,
+    thumbnails,
+  };
+}
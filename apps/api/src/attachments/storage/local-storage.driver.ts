@@ -0,0 +1,54 @@
+import { NotFoundException } from '@nestjs/common';
+import { createReadStream } from 'fs';
+import { mkdir, stat, unlink, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import type { Readable } from 'stream';
+import type { StorageDriver } from './storage-driver';
+
+const isMissing = (error: unknown) =>
+  (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+/**
+ * Stores attachments on the local filesystem under a root directory
+ */
+export class LocalStorageDriver implements StorageDriver {
+  private readonly root: string;
+
+  constructor(rootDir: string) {
+    this.root = resolve(rootDir);
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const path = this.pathFor(key);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, body);
+  }
+
+  async get(key: string): Promise<Readable> {
+    const path = this.pathFor(key);
+    try {
+      await stat(path);
+    } catch (error) {
+      if (isMissing(error)) throw new NotFoundException('File not found');
+      throw error;
+    }
+    return createReadStream(path);
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await unlink(this.pathFor(key));
+    } catch (error) {
+      if (!isMissing(error)) throw error;
+    }
+  }
+
+  // Keys never leave the root directory
+  private pathFor(key: string): string {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  }
+}
@@ -0,0 +1,161 @@
+import { NotFoundException } from '@nestjs/common';
+import { createHash, createHmac } from 'crypto';
+import { Readable } from 'stream';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { StorageDriver } from './storage-driver';
+
+export interface S3StorageConfig {
+  endpoint?: string; // defaults to AWS; set for MinIO and other S3-compatibles
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+const sha256 = (data: string | Uint8Array) =>
+  createHash('sha256').update(data).digest('hex');
+
+const hmac = (key: string | Buffer, data: string) =>
+  createHmac('sha256', key).update(data).digest();
+
+// RFC 3986 encoding, as SigV4 requires for path segments
+const encodeSegment = (segment: string) =>
+  encodeURIComponent(segment).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`,
+  );
+
+/**
+ * Signs a request with AWS Signature Version 4 and returns every header
+ * that was signed, Authorization included. Query strings are not supported.
+ */
+export function signS3Request(input: {
+  method: string;
+  url: URL;
+  headers?: Record<string, string>;
+  payloadHash: string;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  now?: Date;
+}): Record<string, string> {
+  // e.g. 20130524T000000Z
+  const amzDate = (input.now ?? new Date())
+    .toISOString()
+    .replace(/[:-]|\.\d{3}/g, '');
+  const date = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {
+    host: input.url.host,
+    'x-amz-content-sha256': input.payloadHash,
+    'x-amz-date': amzDate,
+  };
+  for (const [name, value] of Object.entries(input.headers ?? {})) {
+    headers[name.toLowerCase()] = value.trim();
+  }
+
+  const entries = Object.entries(headers).sort(([a], [b]) =>
+    a < b ? -1 : a > b ? 1 : 0,
+  );
+  const signedHeaders = entries.map(([name]) => name).join(';');
+  const canonicalRequest = [
+    input.method,
+    input.url.pathname
+      .split('/')
+      .map((segment) => encodeSegment(decodeURIComponent(segment)))
+      .join('/'),
+    '', // no query string
+    entries.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    input.payloadHash,
+  ].join('\n');
+
+  const scope = `${date}/${input.region}/s3/aws4_request`;
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    sha256(canonicalRequest),
+  ].join('\n');
+
+  const signingKey = ['s3', 'aws4_request'].reduce(
+    (key, part) => hmac(key, part),
+    hmac(hmac(`AWS4${input.secretAccessKey}`, date), input.region),
+  );
+  const signature = createHmac('sha256', signingKey)
+    .update(stringToSign)
+    .digest('hex');
+
+  return {
+    ...headers,
+    authorization: `AWS4-HMAC-SHA256 Credential=${input.accessKeyId}/${scope},SignedHeaders=${signedHeaders},Signature=${signature}`,
+  };
+}
+
+/**
+ * Stores attachments in an S3-compatible bucket (AWS S3, MinIO, ...) using
+ * path-style URLs and signed fetch requests
+ */
+export class S3StorageDriver implements StorageDriver {
+  private readonly endpoint: string;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.endpoint = (
+      config.endpoint ?? `https://s3.${config.region}.amazonaws.com`
+    ).replace(/\/+$/, '');
+  }
+
+  async put(key: string, body: Buffer, contentType: string): Promise<void> {
+    const res = await this.send('PUT', key, new Uint8Array(body), {
+      'content-type': contentType,
+    });
+    if (!res.ok) {
+      throw new Error(`S3 upload failed with status ${res.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Readable> {
+    const res = await this.send('GET', key);
+    if (res.status === 404) {
+      throw new NotFoundException('File not found');
+    }
+    if (!res.ok || !res.body) {
+      throw new Error(`S3 download failed with status ${res.status}`);
+    }
+    return Readable.fromWeb(res.body as WebReadableStream<Uint8Array>);
+  }
+
+  async delete(key: string): Promise<void> {
+    const res = await this.send('DELETE', key);
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`S3 delete failed with status ${res.status}`);
+    }
+  }
+
+  private send(
+    method: string,
+    key: string,
+    body?: Uint8Array<ArrayBuffer>,
+    headers?: Record<string, string>,
+  ) {
+    const url = new URL(
+      `${this.endpoint}/${encodeSegment(this.config.bucket)}/${key
+        .split('/')
+        .map(encodeSegment)
+        .join('/')}`,
+    );
+    const signed = signS3Request({
+      method,
+      url,
+      headers,
+      payloadHash: sha256(body ?? ''),
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId,
+      secretAccessKey: this.config.secretAccessKey,
+    });
+    // fetch derives Host from the URL itself
+    delete signed.host;
+
+    return fetch(url, { method, headers: signed, body });
+  }
+}
@@ -0,0 +1,16 @@
+import type { Readable } from 'stream';
+
+/** Injection token for the configured StorageDriver */
+export const STORAGE_DRIVER = Symbol('STORAGE_DRIVER');
+
+/**
+ * Minimal blob store used for attachments. Keys are generated by the
+ * service and are safe to use as relative paths or object names.
+ */
+export interface StorageDriver {
+  put(key: string, body: Buffer, contentType: string): Promise<void>;
+  /** Rejects with NotFoundException when the key does not exist */
+  get(key: string): Promise<Readable>;
+  /** Deleting a missing key is not an error */
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,283 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { CallsService } from './calls.service';
+
+// A Redis shared by every node in a test, keeping just what calls use
+const store = new Map<string, { value: unknown; expiresAt: number }>();
+const live = (key: string) => {
+  const entry = store.get(key);
+  if (entry && entry.expiresAt <= Date.now()) store.delete(key);
+  return store.get(key);
+};
+jest.mock('redis', () => ({
+  createClient: () => {
+    const client = {
+      isReady: true,
+      on: jest.fn(),
+      connect: jest.fn(),
+      quit: jest.fn(),
+      get: (key: string) => live(key)?.value ?? null,
+      exists: (key: string) => (live(key) ? 1 : 0),
+      del: (key: string) => (live(key) && store.delete(key) ? 1 : 0),
+      set: (
+        key: string,
+        value: string,
+        { NX, PX }: { NX?: boolean; PX: number },
+      ) => {
+        if (NX && live(key)) return null;
+        store.set(key, { value, expiresAt: Date.now() + PX });
+        return 'OK';
+      },
+      pExpire: (key: string, ms: number) => {
+        const entry = live(key);
+        if (entry) entry.expiresAt = Date.now() + ms;
+      },
+      zAdd: (
+        key: string,
+        { score, value }: { score: number; value: string },
+      ) => {
+        const set = (live(key)?.value as Map<string, number>) ?? new Map();
+        set.set(value, score);
+        store.set(key, { value: set, expiresAt: Infinity });
+      },
+      zRem: (key: string, value: string) =>
+        (live(key)?.value as Map<string, number> | undefined)?.delete(value)
+          ? 1
+          : 0,
+      zRangeByScore: (key: string, _min: string, max: number) =>
+        [...((live(key)?.value as Map<string, number>) ?? [])]
+          .filter(([, score]) => score <= max)
+          .map(([value]) => value),
+      multi: () => {
+        const ops: (() => void)[] = [];
+        const multi = {
+          pExpire: (key: string, ms: number) => {
+            ops.push(() => client.pExpire(key, ms));
+            return multi;
+          },
+          exec: () => ops.forEach((op) => op()),
+        };
+        return multi;
+      },
+    };
+    return client;
+  },
+}));
+
+const invite = {
+  roomId: 'room1',
+  callerId: 'alice',
+  calleeId: 'bob',
+  video: true,
+  socketId: 'alice-socket',
+};
+
+describe('CallsService', () => {
+  let service: CallsService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CallsService,
+        // No Redis URL, so calls are kept in memory; 45s ring timeout
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(CallsService);
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('rings, answers and hangs up with the duration', async () => {
+    const call = await service.invite(invite);
+    expect(call).toMatchObject({
+      callerId: 'alice',
+      calleeId: 'bob',
+      video: true,
+      status: 'calling',
+      answeredAt: null,
+      iceServers: [],
+    });
+
+    await expect(service.ring(call.id, 'bob')).resolves.toMatchObject({
+      status: 'ringing',
+    });
+    // Another of bob's devices ringing isn't news to alice
+    await expect(service.ring(call.id, 'bob')).resolves.toBeNull();
+
+    const active = await service.accept(call.id, 'bob', 'bob-socket');
+    expect(active.status).toBe('active');
+
+    jest.advanceTimersByTime(65_000);
+    const end = await service.leave(call.id, 'alice');
+    expect(end).toMatchObject({ outcome: 'completed', durationMs: 65_000 });
+    await expect(service.leave(call.id, 'bob')).resolves.toBeNull();
+  });
+
+  it('records a decline or a cancelled call as such', async () => {
+    const declined = await service.invite(invite);
+    await expect(service.leave(declined.id, 'bob')).resolves.toMatchObject({
+      outcome: 'declined',
+      durationMs: null,
+    });
+
+    const cancelled = await service.invite(invite);
+    await expect(service.leave(cancelled.id, 'alice')).resolves.toMatchObject({
+      outcome: 'missed',
+    });
+    await expect(
+      service.accept(cancelled.id, 'bob', 'bob-socket'),
+    ).rejects.toThrow('Call not found');
+  });
+
+  it('rejects a call to someone already in one', async () => {
+    const first = await service.invite(invite);
+
+    await expect(
+      service.invite({
+        ...invite,
+        callerId: 'carol',
+        socketId: 'carol-socket',
+      }),
+    ).rejects.toThrow('User is busy');
+    await expect(
+      service.invite({ ...invite, calleeId: 'carol' }),
+    ).rejects.toThrow('You are already in a call');
+
+    // Once it ends both are free again
+    await service.leave(first.id, 'bob');
+    await expect(service.invite(invite)).resolves.toBeDefined();
+  });
+
+  it('only lets the callee answer, and only once', async () => {
+    const call = await service.invite(invite);
+
+    await expect(
+      service.accept(call.id, 'alice', 'alice-socket'),
+    ).rejects.toThrow('Only the callee can answer');
+    await service.accept(call.id, 'bob', 'bob-phone');
+    await expect(service.accept(call.id, 'bob', 'bob-laptop')).rejects.toThrow(
+      'The call is no longer ringing',
+    );
+  });
+
+  it('relays signals only between the two sockets in the call', async () => {
+    const call = await service.invite(invite);
+    await expect(service.peerSocket(call.id, 'alice-socket')).rejects.toThrow(
+      'The call has not been answered',
+    );
+
+    await service.accept(call.id, 'bob', 'bob-phone');
+    await expect(service.peerSocket(call.id, 'alice-socket')).resolves.toBe(
+      'bob-phone',
+    );
+    await expect(service.peerSocket(call.id, 'bob-phone')).resolves.toBe(
+      'alice-socket',
+    );
+    await expect(service.peerSocket(call.id, 'bob-laptop')).rejects.toThrow(
+      'This device is not in the call',
+    );
+  });
+
+  it('times out calls nobody answers', async () => {
+    const listener = jest.fn();
+    service.onTimeout(listener);
+    const call = await service.invite(invite);
+
+    await jest.advanceTimersByTimeAsync(44_000);
+    expect(listener).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2_000);
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ outcome: 'missed', durationMs: null }),
+    );
+    await expect(service.accept(call.id, 'bob', 'bob-socket')).rejects.toThrow(
+      'Call not found',
+    );
+  });
+
+  it('ends the calls of a socket that goes away', async () => {
+    const call = await service.invite(invite);
+    await service.accept(call.id, 'bob', 'bob-socket');
+
+    // Only the device that answered counts
+    await expect(service.disconnect('bob-laptop')).resolves.toEqual([]);
+    await expect(service.disconnect('bob-socket')).resolves.toEqual([
+      expect.objectContaining({ outcome: 'completed' }),
+    ]);
+    await expect(service.disconnect('alice-socket')).resolves.toEqual([]);
+  });
+});
+
+describe('CallsService with Redis', () => {
+  const startNode = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CallsService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string) =>
+              key === 'app.redisUrl' ? 'redis://test' : undefined,
+          },
+        },
+      ],
+    }).compile();
+
+    const node = module.get(CallsService);
+    await node.onModuleInit();
+    return node;
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store.clear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps a call going while its node is up', async () => {
+    const node = await startNode();
+    const call = await node.invite(invite);
+    await node.accept(call.id, 'bob', 'bob-socket');
+
+    await jest.advanceTimersByTimeAsync(10 * 60 * 1000);
+
+    await expect(node.peerSocket(call.id, 'alice-socket')).resolves.toBe(
+      'bob-socket',
+    );
+    await expect(node.invite({ ...invite, calleeId: 'carol' })).rejects.toThrow(
+      'You are already in a call',
+    );
+    await node.onModuleDestroy();
+  });
+
+  it("frees the parties of a crashed node's call", async () => {
+    const crashed = await startNode();
+    const other = await startNode();
+    const call = await crashed.invite(invite);
+    await crashed.accept(call.id, 'bob', 'bob-socket');
+
+    // The node goes away without its sockets disconnecting
+    await crashed.onModuleDestroy();
+    await jest.advanceTimersByTimeAsync(2 * 60 * 1000);
+
+    await expect(other.peerSocket(call.id, 'alice-socket')).rejects.toThrow(
+      'Call not found',
+    );
+    await expect(other.invite(invite)).resolves.toMatchObject({
+      callerId: 'alice',
+      calleeId: 'bob',
+    });
+    await other.onModuleDestroy();
+  });
+});
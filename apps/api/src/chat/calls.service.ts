@@ -0,0 +1,423 @@
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { createClient, RedisClientType } from 'redis';
+import type { Call, CallEnd, CallOutcome } from './chat.types';
+
+const SWEEP_MS = 1_000;
+// A call lasts until its state expires. The nodes holding its sockets
+// refresh it well before that, so only calls of a crashed node age out.
+const CALL_TTL_MS = 60_000;
+const HEARTBEAT_MS = 20_000;
+// A user's lock outlives any real call; a lock whose call has expired is
+// taken over anyway
+const MAX_CALL_MS = 12 * 60 * 60 * 1000;
+
+const callKey = (callId: string) => `call:${callId}`;
+// The call a user is in, so they can't be in two at once
+const userCallKey = (userId: string) => `call:user:${userId}`;
+// Calls waiting for an answer, scored by when they stop ringing
+const RINGING_KEY = 'calls:ringing';
+
+// Besides the call itself, which socket of each party is in it
+interface CallState extends Call {
+  callerSocketId: string;
+  calleeSocketId: string | null; // set once answered
+}
+
+const toCall = (state: CallState): Call => ({
+  id: state.id,
+  roomId: state.roomId,
+  callerId: state.callerId,
+  calleeId: state.calleeId,
+  video: state.video,
+  status: state.status,
+  startedAt: state.startedAt,
+  answeredAt: state.answeredAt,
+  iceServers: state.iceServers,
+});
+
+export interface CallInvite {
+  roomId: string;
+  callerId: string;
+  calleeId: string;
+  video: boolean;
+  socketId: string;
+}
+
+type TimeoutListener = (end: CallEnd) => void;
+
+/**
+ * Runs 1:1 calls through calling → ringing → active, ending them as
+ * missed, declined or completed. State is shared by all API nodes.
+ *
+ * Leaving the ringing states is claimed by removing the call from the
+ * ringing set, and ending an answered call by deleting it, so when both
+ * parties (or a party and the timeout sweep) act at once only one of them
+ * ends the call. A call's state expires unless the nodes holding its
+ * sockets keep refreshing it, so a crashed node doesn't leave its parties
+ * stuck in a call. Without Redis, state is kept in memory for this node only.
+ */
+@Injectable()
+export class CallsService implements OnModuleInit, OnModuleDestroy {
+  private client: RedisClientType | undefined;
+  private sweeper: NodeJS.Timeout | undefined;
+  private heartbeat: NodeJS.Timeout | undefined;
+  private timeoutListener: TimeoutListener | undefined;
+  private ringTimeoutMs = 45_000;
+  private iceServers: string[] = [];
+  // In-memory fallback
+  private calls = new Map<string, CallState>();
+  private userCalls = new Map<string, string>();
+  private ringing = new Map<string, number>(); // callId -> stops ringing at
+  // Calls each local socket is a party to, ended on disconnect
+  private socketCalls = new Map<string, Set<string>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    const ringTimeout = this.configService.get<number>('app.calls.ringTimeout');
+    if (ringTimeout) this.ringTimeoutMs = ringTimeout * 1000;
+    this.iceServers =
+      this.configService.get<string[]>('app.calls.iceServers') ?? [];
+
+    const redisUrl = this.configService.get<string>('app.redisUrl');
+    if (redisUrl) {
+      this.client = createClient({
+        url: redisUrl,
+        socket: {
+          reconnectStrategy: (retries) => Math.min(retries * 50, 1000),
+          connectTimeout: 10000,
+        },
+      });
+
+      this.client.on('error', (err) => {
+        console.error('Redis Calls Error:', err);
+      });
+
+      await this.client.connect();
+    }
+
+    this.sweeper = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_MS);
+    this.sweeper.unref();
+
+    this.heartbeat = setInterval(() => {
+      void this.refreshLocalCalls();
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.sweeper);
+    clearInterval(this.heartbeat);
+
+    if (this.client) {
+      await this.client.quit();
+    }
+  }
+
+  private isEnabled(): boolean {
+    return this.client?.isReady === true;
+  }
+
+  /** Called with calls that rang out unanswered */
+  onTimeout(listener: TimeoutListener) {
+    this.timeoutListener = listener;
+  }
+
+  /** Starts a call. Fails when either party is already in one. */
+  async invite({
+    roomId,
+    callerId,
+    calleeId,
+    video,
+    socketId,
+  }: CallInvite): Promise<Call> {
+    const now = Date.now();
+    const call: CallState = {
+      id: randomUUID(),
+      roomId,
+      callerId,
+      calleeId,
+      video,
+      status: 'calling',
+      startedAt: new Date(now).toISOString(),
+      answeredAt: null,
+      iceServers: this.iceServers,
+      callerSocketId: socketId,
+      calleeSocketId: null,
+    };
+
+    if (!(await this.lock(callerId, call.id))) {
+      throw new ConflictException('You are already in a call');
+    }
+    if (!(await this.lock(calleeId, call.id))) {
+      await this.unlock(callerId, call.id);
+      throw new ConflictException('User is busy');
+    }
+
+    await this.save(call);
+    await this.startRinging(call.id, now + this.ringTimeoutMs);
+    this.track(socketId, call.id);
+    return toCall(call);
+  }
+
+  /**
+   * One of the callee's devices is ringing. Returns the call the first time
+   * only, so the caller hears about it once.
+   */
+  async ring(callId: string, userId: string): Promise<Call | null> {
+    const call = await this.get(callId);
+    if (!call) throw new NotFoundException('Call not found');
+    if (call.calleeId !== userId) {
+      throw new ForbiddenException('Only the callee can ring');
+    }
+    if (call.status !== 'calling') return null;
+
+    call.status = 'ringing';
+    await this.save(call);
+    return toCall(call);
+  }
+
+  /** Answers the call on the given socket of the callee */
+  async accept(
+    callId: string,
+    userId: string,
+    socketId: string,
+  ): Promise<Call> {
+    const call = await this.get(callId);
+    if (!call) throw new NotFoundException('Call not found');
+    if (call.calleeId !== userId) {
+      throw new ForbiddenException('Only the callee can answer');
+    }
+    if (call.status === 'active' || !(await this.stopRinging(callId))) {
+      throw new ConflictException('The call is no longer ringing');
+    }
+
+    call.status = 'active';
+    call.answeredAt = new Date().toISOString();
+    call.calleeSocketId = socketId;
+    await this.save(call);
+    this.track(socketId, callId);
+    return toCall(call);
+  }
+
+  /**
+   * A party leaves the call. Before it's answered the callee declines and
+   * the caller cancels (the callee missed it); afterwards either of them
+   * hangs up. Returns null when the call had already ended.
+   */
+  async leave(callId: string, userId: string): Promise<CallEnd | null> {
+    const call = await this.get(callId);
+    if (!call) return null;
+    if (userId !== call.callerId && userId !== call.calleeId) {
+      throw new ForbiddenException('Not a party to this call');
+    }
+
+    const outcome =
+      call.status === 'active'
+        ? 'completed'
+        : userId === call.calleeId
+          ? 'declined'
+          : 'missed';
+    const end = await this.end(call, outcome);
+    if (end) return end;
+
+    // Answered while the caller was giving up: hang up instead
+    const latest = await this.get(callId);
+    return latest?.status === 'active' ? this.end(latest, 'completed') : null;
+  }
+
+  /**
+   * The other party's socket in an answered call, for relaying WebRTC
+   * offers, answers and ICE candidates. Only the sockets in the call may
+   * signal.
+   */
+  async peerSocket(callId: string, socketId: string): Promise<string> {
+    const call = await this.get(callId);
+    if (!call) throw new NotFoundException('Call not found');
+    if (call.status !== 'active' || !call.calleeSocketId) {
+      throw new ConflictException('The call has not been answered');
+    }
+    if (socketId === call.callerSocketId) return call.calleeSocketId;
+    if (socketId === call.calleeSocketId) return call.callerSocketId;
+    throw new ForbiddenException('This device is not in the call');
+  }
+
+  /** Ends the calls the socket was in; returns how they ended */
+  async disconnect(socketId: string): Promise<CallEnd[]> {
+    const callIds = [...(this.socketCalls.get(socketId) ?? [])];
+    this.socketCalls.delete(socketId);
+
+    const ends: CallEnd[] = [];
+    for (const callId of callIds) {
+      const call = await this.get(callId);
+      if (!call) continue;
+      const end = await this.end(
+        call,
+        call.status === 'active' ? 'completed' : 'missed',
+      );
+      if (end) ends.push(end);
+    }
+    return ends;
+  }
+
+  // Claims the call's current state, then clears everything it held
+  private async end(
+    call: CallState,
+    outcome: CallOutcome,
+  ): Promise<CallEnd | null> {
+    if (call.status === 'active') {
+      if (!(await this.remove(call.id))) return null;
+    } else {
+      if (!(await this.stopRinging(call.id))) return null;
+      await this.remove(call.id);
+    }
+
+    await this.unlock(call.callerId, call.id);
+    await this.unlock(call.calleeId, call.id);
+    this.untrack(call.callerSocketId, call.id);
+    if (call.calleeSocketId) this.untrack(call.calleeSocketId, call.id);
+
+    const durationMs =
+      outcome === 'completed' && call.answeredAt
+        ? Date.now() - Date.parse(call.answeredAt)
+        : null;
+    return { call: toCall(call), outcome, durationMs };
+  }
+
+  // Ends calls that rang for too long
+  private async sweep() {
+    try {
+      const now = Date.now();
+      const expired =
+        this.isEnabled() && this.client
+          ? await this.client.zRangeByScore(RINGING_KEY, '-inf', now)
+          : [...this.ringing]
+              .filter(([, until]) => until <= now)
+              .map(([callId]) => callId);
+
+      for (const callId of expired) {
+        const call = await this.get(callId);
+        if (!call) {
+          await this.stopRinging(callId);
+          continue;
+        }
+        const end = await this.end(call, 'missed');
+        if (end) this.timeoutListener?.(end);
+      }
+    } catch (error) {
+      console.error('Call sweep error:', error);
+    }
+  }
+
+  // Keeps the calls of this node's sockets from expiring
+  private async refreshLocalCalls() {
+    if (!this.isEnabled() || !this.client || this.socketCalls.size === 0) {
+      return;
+    }
+
+    const callIds = new Set(
+      [...this.socketCalls.values()].flatMap((ids) => [...ids]),
+    );
+    const multi = this.client.multi();
+    for (const callId of callIds) {
+      multi.pExpire(callKey(callId), CALL_TTL_MS);
+    }
+    try {
+      await multi.exec();
+    } catch (error) {
+      console.error('Call heartbeat error:', error);
+    }
+  }
+
+  private track(socketId: string, callId: string) {
+    let callIds = this.socketCalls.get(socketId);
+    if (!callIds) {
+      callIds = new Set();
+      this.socketCalls.set(socketId, callIds);
+    }
+    callIds.add(callId);
+  }
+
+  private untrack(socketId: string, callId: string) {
+    const callIds = this.socketCalls.get(socketId);
+    callIds?.delete(callId);
+    if (callIds?.size === 0) this.socketCalls.delete(socketId);
+  }
+
+  private async get(callId: string): Promise<CallState | null> {
+    if (!this.isEnabled() || !this.client) {
+      const call = this.calls.get(callId);
+      return call ? { ...call } : null;
+    }
+    const json = await this.client.get(callKey(callId));
+    return json ? (JSON.parse(json) as CallState) : null;
+  }
+
+  private async save(call: CallState) {
+    if (!this.isEnabled() || !this.client) {
+      this.calls.set(call.id, { ...call });
+      return;
+    }
+    await this.client.set(callKey(call.id), JSON.stringify(call), {
+      PX: CALL_TTL_MS,
+    });
+  }
+
+  // True for whoever actually removed it
+  private async remove(callId: string): Promise<boolean> {
+    if (!this.isEnabled() || !this.client) return this.calls.delete(callId);
+    return (await this.client.del(callKey(callId))) === 1;
+  }
+
+  private async lock(userId: string, callId: string): Promise<boolean> {
+    if (!this.isEnabled() || !this.client) {
+      if (this.userCalls.has(userId)) return false;
+      this.userCalls.set(userId, callId);
+      return true;
+    }
+    const key = userCallKey(userId);
+    if (await this.client.set(key, callId, { NX: true, PX: MAX_CALL_MS })) {
+      return true;
+    }
+    // A call whose state expired (its node died) no longer holds the user
+    const holder = await this.client.get(key);
+    if (holder && (await this.client.exists(callKey(holder)))) return false;
+    await this.client.set(key, callId, { PX: MAX_CALL_MS });
+    return true;
+  }
+
+  // Releases the user only if this call still holds them
+  private async unlock(userId: string, callId: string) {
+    if (!this.isEnabled() || !this.client) {
+      if (this.userCalls.get(userId) === callId) this.userCalls.delete(userId);
+      return;
+    }
+    const key = userCallKey(userId);
+    if ((await this.client.get(key)) === callId) await this.client.del(key);
+  }
+
+  private async startRinging(callId: string, until: number) {
+    if (!this.isEnabled() || !this.client) {
+      this.ringing.set(callId, until);
+      return;
+    }
+    await this.client.zAdd(RINGING_KEY, { score: until, value: callId });
+  }
+
+  // True for whoever actually stopped it
+  private async stopRinging(callId: string): Promise<boolean> {
+    if (!this.isEnabled() || !this.client) return this.ringing.delete(callId);
+    return (await this.client.zRem(RINGING_KEY, callId)) === 1;
+  }
+}
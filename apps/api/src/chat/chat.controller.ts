@@ -2,21 +2,54 @@
 import {
   Body,
   Controller,
+  Delete,
+  ForbiddenException,
   Get,
   Param,
+  Patch,
   Post,
+  Put,
   Query,
   UseGuards,
 } from '@nestjs/common';
 import { ChatService } from './chat.service';
 import { ChatGateway } from './chat.gateway';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { LinkPreviewsService } from './link-previews.service';
+import { PollsService } from './polls.service';
 import { JwtHttpGuard } from 'src/auth/jwt-http.guard';
 import { UserId } from 'src/auth/user.decorator';
 import { ZodBody } from '../common/zod.pipe';
-import { MessagesQueryDto } from './dto/messages-query.dto';
+import {
+  MessageContextQueryDto,
+  MessagePageQueryDto,
+  MessagesQueryDto,
+} from './dto/messages-query.dto';
+import { SearchMessagesQueryDto } from './dto/search-messages-query.dto';
 import { Cache, RateLimitByUser } from '../common/cache/cache.decorators';
 import { StartDmDto } from './dto/start-dm.dto';
 import { CreateGroupDto } from './dto/create-group.dto';
+import { EditMessageDto } from './dto/edit-message.dto';
+import { DeleteMessageQueryDto } from './dto/delete-message-query.dto';
+import { MarkReadDto } from './dto/mark-read.dto';
+import { ForwardMessagesDto } from './dto/forward-messages.dto';
+import { CreatePollDto } from './dto/create-poll.dto';
+import {
+  ScheduleMessageDto,
+  ScheduledMessagesQueryDto,
+  UpdateScheduledMessageDto,
+} from './dto/schedule-message.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
+import { AddMembersDto } from './dto/add-members.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { CreateInviteDto } from './dto/create-invite.dto';
+import { CreateChannelDto } from './dto/create-channel.dto';
+import {
+  ReorderPinnedConversationsDto,
+  UpdateConversationSettingsDto,
+} from './dto/conversation-settings.dto';
+import { ChannelsQueryDto } from './dto/channels-query.dto';
 
 @UseGuards(JwtHttpGuard)
 @Controller('chat')
@@ -24,6 +57,9 @@ export class ChatController {
   constructor(
     private readonly chatService: ChatService,
     private readonly chatGateway: ChatGateway,
+    private readonly scheduledMessages: ScheduledMessagesService,
+    private readonly linkPreviews: LinkPreviewsService,
+    private readonly polls: PollsService,
   ) {
     console.log('ChatService injected?', !!chatService);
     console.log('ChatGateway injected?', !!chatGateway);
@@ -42,25 +78,70 @@ export class ChatController {
     }
   }
 
-  @Post(':id/members')
-  async addMembers(
-    @Param('id') id: string,
-    @Body() body: { userIds: string[] },
-  ) {
-    return this.chatService.addMembers(id, body.userIds);
-  }
-
+  // Not response-cached: unread counts change on every read, and the service
+  // cache is invalidated precisely
   @Get('conversations')
-  @Cache('conversations:user::userId', 60, 10) // 60s TTL with 10% jitter
   async conversations(@UserId() userId: string) {
     return this.chatService.listConversations(userId);
   }
 
+  // Mute, archive and pin are the caller's own; their devices are synced
+  @Patch('rooms/:id/settings')
+  @RateLimitByUser(60, 60)
+  async updateConversationSettings(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: UpdateConversationSettingsDto,
+  ) {
+    const settings = await this.chatService.updateConversationSettings(
+      me,
+      roomId,
+      {
+        muted: dto.muted,
+        mutedUntil: dto.mutedUntil ? new Date(dto.mutedUntil) : undefined,
+        archived: dto.archived,
+        pinned: dto.pinned,
+      },
+    );
+    this.chatGateway.broadcastConversationSettings(me, [settings]);
+    return settings;
+  }
+
+  @Put('conversations/pin-order')
+  @RateLimitByUser(60, 30)
+  async reorderPinnedConversations(
+    @UserId() me: string,
+    @Body() dto: ReorderPinnedConversationsDto,
+  ) {
+    const settings = await this.chatService.reorderPinnedConversations(
+      me,
+      dto.roomIds,
+    );
+    this.chatGateway.broadcastConversationSettings(me, settings);
+    return settings;
+  }
+
   @Get('messages')
   @Cache('messages:room::roomId:user::userId', 30, 20) // 30s TTL with 20% jitter
   async messages(@UserId() userId: string, @Query() q: MessagesQueryDto) {
     return this.chatService.getMessages(userId, q.roomId, {
       limit: q.limit,
+      cursor: q.cursor,
+      direction: q.direction,
+    });
+  }
+
+  @Get('search')
+  @RateLimitByUser(60, 60) // 60 searches per user per minute
+  async search(@UserId() me: string, @Query() q: SearchMessagesQueryDto) {
+    return this.chatService.searchMessages(me, {
+      query: q.q,
+      roomId: q.roomId,
+      senderId: q.senderId,
+      from: q.from ? new Date(q.from) : undefined,
+      to: q.to ? new Date(q.to) : undefined,
+      cursor: q.cursor,
+      limit: q.limit,
     });
   }
 
@@ -68,15 +149,218 @@ export class ChatController {
   async listMessages(
     @UserId() me: string,
     @Param('id') roomId: string,
-    @Query('cursor') cursor?: string,
-    @Query('limit') limit?: string,
+    @Query() q: MessagePageQueryDto,
   ) {
-    // (optionally validate membership)
     return this.chatService.getMessages(me, roomId, {
-      limit: limit ? parseInt(limit, 10) : 5000,
+      limit: q.limit,
+      cursor: q.cursor,
+      direction: q.direction,
+    });
+  }
+
+  // REST fallback for the room:read socket event
+  @Post('rooms/:id/read')
+  @RateLimitByUser(60, 120) // 120 read updates per user per minute
+  async markRead(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: MarkReadDto,
+  ) {
+    const receipt = await this.chatService.markRead(me, roomId, dto.messageId);
+    if (receipt) {
+      this.chatGateway.broadcastReceipt(receipt);
+      void this.chatGateway.broadcastUnreadCounts({ roomId, userId: me });
+    }
+
+    return { receipt };
+  }
+
+  @Get('rooms/:id/receipts')
+  async readReceipts(@UserId() me: string, @Param('id') roomId: string) {
+    return this.chatService.getReadReceipts(me, roomId);
+  }
+
+  @Patch('messages/:id')
+  @RateLimitByUser(60, 30) // 30 edits per user per minute
+  async editMessage(
+    @UserId() me: string,
+    @Param('id') messageId: string,
+    @Body() dto: EditMessageDto,
+  ) {
+    const updated = await this.chatService.editMessage({
+      messageId,
+      userId: me,
+      content: dto.content,
+    });
+
+    // Keep socket clients in sync with REST edits
+    this.chatGateway.broadcastEdit(updated);
+
+    return updated;
+  }
+
+  @Delete('messages/:id')
+  @RateLimitByUser(60, 30) // 30 deletes per user per minute
+  async deleteMessage(
+    @UserId() me: string,
+    @Param('id') messageId: string,
+    @Query() q: DeleteMessageQueryDto,
+  ) {
+    const result = await this.chatService.deleteMessage({
+      messageId,
+      userId: me,
+      scope: q.scope,
+    });
+
+    this.chatGateway.broadcastDeletion(result);
+
+    return result;
+  }
+
+  @Get('messages/:id/context')
+  async messageContext(
+    @UserId() me: string,
+    @Param('id') messageId: string,
+    @Query() q: MessageContextQueryDto,
+  ) {
+    return this.chatService.getMessageContext(me, messageId, {
+      limit: q.limit,
+    });
+  }
+
+  @Get('messages/:id/replies')
+  async threadReplies(
+    @UserId() me: string,
+    @Param('id') messageId: string,
+    @Query() q: MessagePageQueryDto,
+  ) {
+    return this.chatService.getThreadReplies(me, messageId, {
+      limit: q.limit,
+      cursor: q.cursor,
+      direction: q.direction,
+    });
+  }
+
+  @Get('messages/:id/edits')
+  async messageEdits(@UserId() me: string, @Param('id') messageId: string) {
+    return this.chatService.getMessageEdits(me, messageId);
+  }
+
+  @Post('messages/forward')
+  @RateLimitByUser(60, 20) // 20 forwards per user per minute
+  async forwardMessages(@UserId() me: string, @Body() dto: ForwardMessagesDto) {
+    const results = await this.chatService.forwardMessages(
+      me,
+      dto.messageIds,
+      dto.roomIds,
+    );
+    this.chatGateway.broadcastForwards(results);
+    return results;
+  }
+
+  @Post('rooms/:id/polls')
+  @RateLimitByUser(60, 10) // 10 polls per user per minute
+  async createPoll(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: CreatePollDto,
+  ) {
+    if (!(await this.chatService.canPost(me, roomId))) {
+      throw new ForbiddenException('Only channel admins can post here');
+    }
+    const saved = await this.chatService.saveMessage({
+      roomId,
+      senderId: me,
+      content: dto.question.trim(),
+      poll: {
+        options: dto.options,
+        multipleChoice: dto.multipleChoice,
+        anonymous: dto.anonymous,
+        closesAt: dto.closesAt ? new Date(dto.closesAt) : null,
+      },
+    });
+    await this.chatGateway.broadcastNewMessage(saved);
+    return saved;
+  }
+
+  @Post('messages/:id/poll/close')
+  @RateLimitByUser(60, 30)
+  async closePoll(@UserId() me: string, @Param('id') messageId: string) {
+    const update = await this.polls.close(me, messageId);
+    this.chatGateway.broadcastPollUpdate(update);
+    return update;
+  }
+
+  @Post('rooms/:id/scheduled')
+  @RateLimitByUser(60, 30) // 30 scheduled messages per user per minute
+  async scheduleMessage(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: ScheduleMessageDto,
+  ) {
+    return this.scheduledMessages.schedule(me, roomId, {
+      content: dto.content,
+      sendAt: new Date(dto.sendAt),
+      replyToId: dto.replyToId,
     });
   }
 
+  @Get('scheduled')
+  async scheduled(@UserId() me: string, @Query() q: ScheduledMessagesQueryDto) {
+    return this.scheduledMessages.list(me, q.roomId);
+  }
+
+  @Patch('scheduled/:id')
+  @RateLimitByUser(60, 30)
+  async updateScheduled(
+    @UserId() me: string,
+    @Param('id') id: string,
+    @Body() dto: UpdateScheduledMessageDto,
+  ) {
+    return this.scheduledMessages.update(me, id, {
+      content: dto.content,
+      sendAt: dto.sendAt ? new Date(dto.sendAt) : undefined,
+    });
+  }
+
+  @Delete('scheduled/:id')
+  async cancelScheduled(@UserId() me: string, @Param('id') id: string) {
+    await this.scheduledMessages.cancel(me, id);
+    return { ok: true };
+  }
+
+  @Get('rooms/:id/pins')
+  async pins(@UserId() me: string, @Param('id') roomId: string) {
+    return this.chatService.getPinnedMessages(me, roomId);
+  }
+
+  @Post('messages/:id/pin')
+  @RateLimitByUser(60, 30) // 30 pins per user per minute
+  async pinMessage(@UserId() me: string, @Param('id') messageId: string) {
+    const pin = await this.chatService.pinMessage(me, messageId);
+    this.chatGateway.broadcastPin(pin);
+    return pin;
+  }
+
+  @Delete('messages/:id/pin')
+  @RateLimitByUser(60, 30)
+  async unpinMessage(@UserId() me: string, @Param('id') messageId: string) {
+    const removal = await this.chatService.unpinMessage(me, messageId);
+    this.chatGateway.broadcastUnpin(removal);
+    return removal;
+  }
+
+  @Delete('messages/:id/preview')
+  @RateLimitByUser(60, 30)
+  async removeLinkPreview(
+    @UserId() me: string,
+    @Param('id') messageId: string,
+  ) {
+    const update = await this.linkPreviews.remove(me, messageId);
+    this.chatGateway.broadcastLinkPreview(update);
+    return { ok: true };
+  }
+
   @Post('dm/start')
   @RateLimitByUser(60, 10) // 10 DM starts per user per minute
   async startDm(@UserId() me: string, @Body() dto: StartDmDto) {
@@ -159,4 +443,197 @@ export class ChatController {
 
     return { id: room.id };
   }
+  // ---------- GROUP ADMINISTRATION ----------
+  // Permissions are checked by ChatService; every change is broadcast to the
+  // group along with the system message recording it
+
+  @Patch('groups/:id')
+  @RateLimitByUser(60, 20) // 20 group updates per user per minute
+  async updateGroup(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: UpdateGroupDto,
+  ) {
+    const change = await this.chatService.updateGroup(me, roomId, dto);
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Post('groups/:id/members')
+  @RateLimitByUser(60, 20)
+  async addGroupMembers(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: AddMembersDto,
+  ) {
+    const change = await this.chatService.addGroupMembers(
+      me,
+      roomId,
+      dto.userIds,
+    );
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Delete('groups/:id/members/:userId')
+  @RateLimitByUser(60, 20)
+  async removeGroupMember(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Param('userId') userId: string,
+  ) {
+    const change = await this.chatService.removeGroupMember(me, roomId, userId);
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Patch('groups/:id/members/:userId')
+  @RateLimitByUser(60, 20)
+  async updateMemberRole(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Param('userId') userId: string,
+    @Body() dto: UpdateMemberRoleDto,
+  ) {
+    const change = await this.chatService.setGroupMemberRole(
+      me,
+      roomId,
+      userId,
+      dto.role,
+    );
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Post('groups/:id/owner')
+  @RateLimitByUser(60, 20)
+  async transferOwnership(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: TransferOwnershipDto,
+  ) {
+    const change = await this.chatService.transferGroupOwnership(
+      me,
+      roomId,
+      dto.userId,
+    );
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Post('groups/:id/leave')
+  async leaveGroup(@UserId() me: string, @Param('id') roomId: string) {
+    const change = await this.chatService.leaveGroup(me, roomId);
+    this.chatGateway.broadcastGroupChange(change);
+    return { ok: true };
+  }
+
+  // ---------- CHANNELS ----------
+  @Get('channels')
+  @RateLimitByUser(60, 60)
+  async channels(@UserId() me: string, @Query() q: ChannelsQueryDto) {
+    return this.chatService.listChannels(me, { query: q.q, limit: q.limit });
+  }
+
+  @Post('channels')
+  @RateLimitByUser(300, 5) // 5 channel creates per user per 5 minutes
+  async createChannel(@UserId() me: string, @Body() dto: CreateChannelDto) {
+    const change = await this.chatService.createChannel(me, dto.name);
+    this.chatGateway.broadcastGroupChange(change);
+    return { id: change.group.id };
+  }
+
+  @Post('channels/:id/join')
+  @RateLimitByUser(60, 20)
+  async joinChannel(@UserId() me: string, @Param('id') roomId: string) {
+    const change = await this.chatService.joinChannel(me, roomId);
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  // Same as leaving a group, ownership included
+  @Post('channels/:id/leave')
+  async leaveChannel(@UserId() me: string, @Param('id') roomId: string) {
+    const change = await this.chatService.leaveGroup(me, roomId);
+    this.chatGateway.broadcastGroupChange(change);
+    return { ok: true };
+  }
+
+  // ---------- INVITE LINKS ----------
+  @Post('groups/:id/invites')
+  @RateLimitByUser(60, 10) // 10 new links per user per minute
+  async createInvite(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Body() dto: CreateInviteDto,
+  ) {
+    return this.chatService.createInvite(me, roomId, dto);
+  }
+
+  @Get('groups/:id/invites')
+  async listInvites(@UserId() me: string, @Param('id') roomId: string) {
+    return this.chatService.listInvites(me, roomId);
+  }
+
+  @Delete('groups/:id/invites/:inviteId')
+  async revokeInvite(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Param('inviteId') inviteId: string,
+  ) {
+    await this.chatService.revokeInvite(me, roomId, inviteId);
+    return { ok: true };
+  }
+
+  @Get('groups/:id/join-requests')
+  async listJoinRequests(@UserId() me: string, @Param('id') roomId: string) {
+    return this.chatService.listJoinRequests(me, roomId);
+  }
+
+  @Post('groups/:id/join-requests/:userId')
+  @RateLimitByUser(60, 30)
+  async approveJoinRequest(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Param('userId') userId: string,
+  ) {
+    const change = await this.chatService.approveJoinRequest(
+      me,
+      roomId,
+      userId,
+    );
+    if (!change) return this.chatService.getGroupInfo(roomId);
+    this.chatGateway.broadcastGroupChange(change);
+    return change.group;
+  }
+
+  @Delete('groups/:id/join-requests/:userId')
+  async rejectJoinRequest(
+    @UserId() me: string,
+    @Param('id') roomId: string,
+    @Param('userId') userId: string,
+  ) {
+    await this.chatService.rejectJoinRequest(me, roomId, userId);
+    return { ok: true };
+  }
+
+  // Tokens are unguessable, but limit lookups all the same
+  @Get('invites/:token')
+  @RateLimitByUser(60, 30)
+  async previewInvite(@UserId() me: string, @Param('token') token: string) {
+    return this.chatService.previewInvite(me, token);
+  }
+
+  @Post('invites/:token')
+  @RateLimitByUser(60, 10)
+  async redeemInvite(@UserId() me: string, @Param('token') token: string) {
+    const { change, ...redemption } = await this.chatService.redeemInvite(
+      me,
+      token,
+    );
+    // Joins the user's open sockets to the room, which handleConnection
+    // only does at connect time
+    if (change) this.chatGateway.broadcastGroupChange(change);
+    return redemption;
+  }
 }
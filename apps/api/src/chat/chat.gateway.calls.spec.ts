@@ -0,0 +1,233 @@
+import { INestApplication } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test } from '@nestjs/testing';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { io, Socket as ClientSocket } from 'socket.io-client';
+import { AuthService } from '../auth/auth.service';
+import { CallsService } from './calls.service';
+import { ChatGateway } from './chat.gateway';
+import { ChatService } from './chat.service';
+import type { Call, CallEnd } from './chat.types';
+import { LinkPreviewsService } from './link-previews.service';
+import { MentionsService } from './mentions.service';
+import { PollsService } from './polls.service';
+import { PresenceService } from './presence.service';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { TypingService } from './typing.service';
+
+const ROOM = '4a0c8f6e-1f7b-4c55-9d0a-7f0f3b0c2a11';
+const ALICE = 'a1b2c3d4-0000-4000-8000-000000000001';
+const BOB = 'a1b2c3d4-0000-4000-8000-000000000002';
+const USERS: Record<string, { sub: string; username: string }> = {
+  'alice-token': { sub: ALICE, username: 'alice' },
+  'bob-token': { sub: BOB, username: 'bob' },
+};
+
+// Resolves with the next payload of the event, or fails after a while
+const next = <T>(socket: ClientSocket, event: string) =>
+  new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`No ${event} received`)),
+      4000,
+    );
+    socket.once(event, (payload: T) => {
+      clearTimeout(timer);
+      resolve(payload);
+    });
+  });
+
+/**
+ * Drives call signaling through the real gateway and CallsService with two
+ * headless socket.io clients. Everything else the gateway needs is mocked.
+ */
+describe('ChatGateway calls', () => {
+  let app: INestApplication;
+  let url: string;
+  let chat: { recordCall: jest.Mock };
+  let alice: ClientSocket;
+  let bob: ClientSocket;
+
+  const connect = async (token: string) => {
+    const socket = io(url, {
+      auth: { token },
+      transports: ['websocket'],
+      forceNew: true,
+    });
+    await next(socket, 'connected');
+    return socket;
+  };
+
+  beforeEach(async () => {
+    chat = {
+      recordCall: jest.fn((end: CallEnd) =>
+        Promise.resolve({
+          id: 'call-record',
+          roomId: end.call.roomId,
+          type: 'system',
+          content: end.outcome,
+        }),
+      ),
+    };
+
+    const module = await Test.createTestingModule({
+      providers: [
+        ChatGateway,
+        CallsService,
+        {
+          provide: ChatService,
+          useValue: {
+            ...chat,
+            validateUserExists: jest.fn(),
+            listConversations: jest
+              .fn()
+              .mockResolvedValue([
+                { id: ROOM, members: [{ id: ALICE }, { id: BOB }] },
+              ]),
+            listRoomIds: jest.fn().mockResolvedValue([ROOM]),
+            markAllDelivered: jest.fn().mockResolvedValue([]),
+            getUnreadCounts: jest.fn().mockResolvedValue([]),
+            getDmPeerId: jest.fn((userId: string) =>
+              Promise.resolve(userId === ALICE ? BOB : ALICE),
+            ),
+          },
+        },
+        {
+          provide: PresenceService,
+          useValue: {
+            connect: jest.fn().mockResolvedValue(false),
+            disconnect: jest.fn().mockResolvedValue(null),
+            getPresence: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: TypingService,
+          useValue: {
+            onExpired: jest.fn(),
+            disconnect: jest.fn().mockResolvedValue([]),
+          },
+        },
+        {
+          provide: ScheduledMessagesService,
+          useValue: { onDelivered: jest.fn() },
+        },
+        { provide: LinkPreviewsService, useValue: { onPreview: jest.fn() } },
+        { provide: MentionsService, useValue: {} },
+        { provide: PollsService, useValue: {} },
+        {
+          provide: AuthService,
+          useValue: {
+            verifyAccess: jest.fn((token: string) =>
+              Promise.resolve(USERS[token]),
+            ),
+          },
+        },
+        {
+          // Calls ring for a second here
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn((key: string) =>
+              key === 'app.calls.ringTimeout' ? 1 : undefined,
+            ),
+          },
+        },
+      ],
+    }).compile();
+
+    app = module.createNestApplication();
+    await app.listen(0);
+    const server = app.getHttpServer() as Server;
+    const { port } = server.address() as AddressInfo;
+    url = `http://localhost:${port}/chat`;
+
+    alice = await connect('alice-token');
+    bob = await connect('bob-token');
+  });
+
+  afterEach(async () => {
+    alice?.disconnect();
+    bob?.disconnect();
+    await app.close();
+  });
+
+  it('rings, connects, relays WebRTC signals and records the call', async () => {
+    const incoming = next<Call>(bob, 'call:incoming');
+    alice.emit('call:invite', { roomId: ROOM, video: true });
+    const call = await next<Call>(alice, 'call:invited');
+    expect(await incoming).toMatchObject({ id: call.id, callerId: ALICE });
+
+    const ringing = next<Call>(alice, 'call:ringing');
+    bob.emit('call:ringing', { callId: call.id });
+    expect((await ringing).status).toBe('ringing');
+
+    const accepted = next<Call>(alice, 'call:accepted');
+    bob.emit('call:accept', { callId: call.id });
+    expect((await accepted).status).toBe('active');
+
+    const offer = next(bob, 'call:offer');
+    alice.emit('call:offer', { callId: call.id, sdp: 'v=0 offer' });
+    expect(await offer).toEqual({ callId: call.id, sdp: 'v=0 offer' });
+
+    const answer = next(alice, 'call:answer');
+    bob.emit('call:answer', { callId: call.id, sdp: 'v=0 answer' });
+    expect(await answer).toEqual({ callId: call.id, sdp: 'v=0 answer' });
+
+    const candidate = {
+      candidate: 'candidate:1 1 udp 1 127.0.0.1 5000 typ host',
+      sdpMid: '0',
+      sdpMLineIndex: 0,
+    };
+    const ice = next(bob, 'call:ice');
+    alice.emit('call:ice', { callId: call.id, candidate });
+    expect(await ice).toEqual({ callId: call.id, candidate });
+
+    const ended = next<CallEnd>(bob, 'call:ended');
+    const record = next(alice, 'msg:new');
+    alice.emit('call:hangup', { callId: call.id });
+    expect(await ended).toMatchObject({ outcome: 'completed' });
+    expect(await record).toMatchObject({ content: 'completed' });
+    expect(chat.recordCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('tells the caller when the callee declines', async () => {
+    const incoming = next<Call>(bob, 'call:incoming');
+    alice.emit('call:invite', { roomId: ROOM });
+    const call = await incoming;
+    expect(call.video).toBe(false);
+
+    const ended = next<CallEnd>(alice, 'call:ended');
+    bob.emit('call:reject', { callId: call.id });
+    expect(await ended).toMatchObject({ outcome: 'declined' });
+  });
+
+  it('refuses signals before the call is answered', async () => {
+    alice.emit('call:invite', { roomId: ROOM });
+    const call = await next<Call>(alice, 'call:invited');
+
+    const nack = next(alice, 'call:nack');
+    alice.emit('call:offer', { callId: call.id, sdp: 'v=0' });
+    expect(await nack).toEqual({
+      callId: call.id,
+      error: 'The call has not been answered',
+    });
+  });
+
+  it('records an unanswered call as missed', async () => {
+    alice.emit('call:invite', { roomId: ROOM });
+    await next(bob, 'call:incoming');
+
+    const ended = await next<CallEnd>(bob, 'call:ended');
+    expect(ended).toMatchObject({ outcome: 'missed', durationMs: null });
+  });
+
+  it('hangs up when a party disconnects', async () => {
+    alice.emit('call:invite', { roomId: ROOM });
+    const call = await next<Call>(bob, 'call:incoming');
+    bob.emit('call:accept', { callId: call.id });
+    await next(alice, 'call:accepted');
+
+    const ended = next<CallEnd>(alice, 'call:ended');
+    bob.disconnect();
+    expect(await ended).toMatchObject({ outcome: 'completed' });
+  });
+});
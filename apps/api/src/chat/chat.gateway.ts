@@ -10,18 +10,51 @@ import {
 } from '@nestjs/websockets';
 import type { Server, Socket } from 'socket.io';
 import { ChatService } from './chat.service';
+import { PresenceService } from './presence.service';
+import { TypingService } from './typing.service';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { MentionsService } from './mentions.service';
+import { LinkPreviewsService } from './link-previews.service';
+import { PollsService } from './polls.service';
+import { CallsService } from './calls.service';
 import { z } from 'zod';
 import {
   MessageIn as MessageInSchema,
+  MessageEditIn as MessageEditInSchema,
+  MessageDeleteIn as MessageDeleteInSchema,
   ReactionIn as ReactionInSchema,
+  ReceiptIn as ReceiptInSchema,
+  TypingEvent as TypingEventSchema,
+  DraftIn as DraftInSchema,
+  PollVoteIn as PollVoteInSchema,
+  PollRetractIn as PollRetractInSchema,
+  VoicePlayedIn as VoicePlayedInSchema,
+  CallInviteIn as CallInviteInSchema,
+  CallIdIn as CallIdInSchema,
+  CallDescriptionIn as CallDescriptionInSchema,
+  CallIceIn as CallIceInSchema,
 } from 'shared/dto';
 import { AuthService } from '../auth/auth.service';
 import { ConfigService } from '@nestjs/config';
+import type {
+  CallEnd,
+  ChatMessage,
+  ConversationSettings,
+  ForwardResult,
+  GroupChange,
+  MessageDeletion,
+  MessagePreviewUpdate,
+  PinnedMessage,
+  PinRemoval,
+  PollUpdate,
+  PollVotes,
+  ReadReceipt,
+  UserPresence,
+  VoiceNotePlayed,
+} from './chat.types';
 
-const TypingSchema = z.object({
-  roomId: z.uuid(),
-  isTyping: z.boolean(),
-});
+// Per-user room used for events that must reach all of a user's sockets only
+const userRoom = (userId: string) => `user:${userId}`;
 
 @WebSocketGateway({
   namespace: '/chat',
@@ -31,10 +64,16 @@ export class ChatGateway
   implements OnGatewayInit, OnGatewayConnection, OnGatewayDisconnect
 {
   @WebSocketServer() server!: Server;
-  private presence = new Map<string, { userId: string; lastSeen: number }>();
 
   constructor(
     private chat: ChatService,
+    private presence: PresenceService,
+    private typing: TypingService,
+    private scheduledMessages: ScheduledMessagesService,
+    private mentions: MentionsService,
+    private linkPreviews: LinkPreviewsService,
+    private polls: PollsService,
+    private calls: CallsService,
     private auth: AuthService,
     private configService: ConfigService,
   ) {}
@@ -43,6 +82,26 @@ export class ChatGateway
     console.log('🔌 ChatGateway server initialized:', !!server);
     console.log('🔌 Server engine:', !!server.engine);
     console.log('🔌 Server ready for events');
+
+    // Typers whose clients stopped refreshing, or whose node went away
+    this.typing.onExpired((roomId, userIds) => {
+      this.server.to(roomId).emit('typing:update', { roomId, userIds });
+    });
+
+    // Scheduled messages are sent by whichever node's sweep claimed them
+    this.scheduledMessages.onDelivered((message) => {
+      void this.broadcastNewMessage(message);
+    });
+
+    // Link previews are unfurled after the message went out
+    this.linkPreviews.onPreview((update) => {
+      this.broadcastLinkPreview(update);
+    });
+
+    // Calls nobody answered, ended by whichever node's sweep claimed them
+    this.calls.onTimeout((end) => {
+      void this.broadcastCallEnd(end);
+    });
   }
 
   async handleConnection(client: Socket) {
@@ -60,10 +119,8 @@ export class ChatGateway
 
       // Validate user exists - no automatic user creation
       await this.chat.validateUserExists(payload.sub);
-      this.presence.set(client.id, {
-        userId: payload.sub,
-        lastSeen: Date.now(),
-      });
+
+      void client.join(userRoom(payload.sub));
 
       // Join all user's conversation rooms on connection
       const conversations = await this.chat.listConversations(payload.sub);
@@ -71,6 +128,23 @@ export class ChatGateway
         void client.join(conv.id);
       }
 
+      // Other devices may already be online; only the first one announces
+      client.data.presenceTracked = true;
+      if (await this.presence.connect(payload.sub, client.id)) {
+        await this.broadcastPresence({
+          userId: payload.sub,
+          online: true,
+          lastSeenAt: null,
+        });
+      }
+      await this.sendPresenceState(client, payload.sub);
+
+      // Whatever was sent while the user was offline has now reached them
+      void this.chat
+        .markAllDelivered(payload.sub)
+        .then((receipts) => receipts.forEach((r) => this.broadcastReceipt(r)))
+        .catch((error) => console.error('Delivery receipts error:', error));
+
       client.emit('connected', { ok: true });
     } catch {
       console.log(`❌ WebSocket connection failed for socket: ${client.id}`);
@@ -80,16 +154,59 @@ export class ChatGateway
   }
 
   async handleDisconnect(client: Socket) {
-    const p = this.presence.get(client.id);
-    if (p) {
-      await this.chat.updateLastSeen(p.userId); // safe upsert
-      this.presence.delete(client.id);
-      this.server.emit('presence:update', {
-        userId: p.userId,
-        online: false,
-        lastSeen: new Date().toISOString(),
-      });
+    if (!client.data.presenceTracked) return;
+    const userId = client.data.userId as string;
+
+    try {
+      const ends = await this.calls.disconnect(client.id);
+      await Promise.all(ends.map((end) => this.broadcastCallEnd(end)));
+    } catch (error) {
+      console.error('Call cleanup error:', error);
     }
+
+    try {
+      const changes = await this.typing.disconnect(userId, client.id);
+      for (const { roomId, userIds } of changes) {
+        this.server.to(roomId).emit('typing:update', { roomId, userIds });
+      }
+    } catch (error) {
+      console.error('Typing cleanup error:', error);
+    }
+
+    try {
+      const lastSeenAt = await this.presence.disconnect(userId, client.id);
+      if (lastSeenAt) {
+        await this.broadcastPresence({
+          userId,
+          online: false,
+          lastSeenAt: lastSeenAt.toISOString(),
+        });
+      }
+    } catch (error) {
+      console.error('Presence update error:', error);
+    }
+  }
+
+  // Clients that attach their listeners after connecting ask again
+  @SubscribeMessage('presence:sync')
+  async onPresenceSync(@ConnectedSocket() client: Socket) {
+    await this.sendPresenceState(client, client.data.userId as string);
+  }
+
+  // Snapshot of everyone the user shares a room with
+  private async sendPresenceState(client: Socket, userId: string) {
+    const conversations = await this.chat.listConversations(userId);
+    const contactIds = conversations
+      .flatMap((c) => c.members.map((m) => m.id))
+      .filter((id) => id !== userId);
+    client.emit('presence:state', await this.presence.getPresence(contactIds));
+  }
+
+  // Only users who share a room with the user hear about it
+  private async broadcastPresence(presence: UserPresence) {
+    const roomIds = await this.chat.listRoomIds(presence.userId);
+    if (roomIds.length === 0) return;
+    this.server.to(roomIds).emit('presence:update', presence);
   }
 
   @SubscribeMessage('room:join')
@@ -137,32 +254,411 @@ export class ChatGateway
     if (now - last < 200) return;
     (client as unknown as { [key: string]: number })[key] = now;
 
-    // save (content defaults to "")
-    const saved = await this.chat.saveMessage({
-      roomId: parsed.data.roomId,
-      senderId,
-      content: parsed.data.content ?? '',
-      clientMsgId: parsed.data.clientMsgId,
-      replyToId: parsed.data.replyToId ?? null,
-    });
+    try {
+      // Channel members can react and reply in threads, but not post
+      const allowed = await this.chat.canPost(
+        senderId,
+        parsed.data.roomId,
+        parsed.data.replyToId,
+      );
+      if (!allowed) {
+        return client.emit('msg:nack', {
+          clientMsgId: parsed.data.clientMsgId,
+          error: 'channel_read_only',
+          details:
+            'Only channel admins can post here; reply in a thread instead',
+        });
+      }
 
-    this.server.to(parsed.data.roomId).emit('msg:new', saved);
-    client.emit('msg:ack', {
-      clientMsgId: parsed.data.clientMsgId,
-      serverId: saved.id,
-    });
+      // save (content defaults to "")
+      const saved = await this.chat.saveMessage({
+        roomId: parsed.data.roomId,
+        senderId,
+        content: parsed.data.content ?? '',
+        clientMsgId: parsed.data.clientMsgId,
+        replyToId: parsed.data.replyToId ?? null,
+        attachmentIds: parsed.data.attachmentIds,
+      });
+
+      const broadcast = this.broadcastNewMessage(saved);
+      client.emit('msg:ack', {
+        clientMsgId: parsed.data.clientMsgId,
+        serverId: saved.id,
+      });
+
+      // Sending ends typing
+      const typers = await this.typing.stop(saved.roomId, senderId, client.id);
+      if (typers) {
+        client
+          .to(saved.roomId)
+          .emit('typing:update', { roomId: saved.roomId, userIds: typers });
+      }
+
+      // ...and empties the composer, unless only files were sent or the
+      // message went to a thread, which has its own composer
+      if (saved.content && !saved.replyToId) {
+        const draft = await this.chat.clearDraft(senderId, saved.roomId);
+        if (draft) client.to(userRoom(senderId)).emit('draft:updated', draft);
+      }
+
+      await broadcast;
+    } catch (error) {
+      console.error('Send error:', error);
+      client.emit('msg:nack', {
+        clientMsgId: parsed.data.clientMsgId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  @SubscribeMessage('msg:edit')
+  async onEdit(@ConnectedSocket() client: Socket, @MessageBody() raw: unknown) {
+    const parsed = MessageEditInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('msg:edit:nack', {
+        messageId: (raw as { messageId?: string })?.messageId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const userId = client.data.userId as string;
+
+    try {
+      const updated = await this.chat.editMessage({
+        messageId: parsed.data.messageId,
+        userId,
+        content: parsed.data.content,
+      });
+
+      this.broadcastEdit(updated);
+
+      client.emit('msg:edit:ack', {
+        messageId: updated.id,
+        editedAt: updated.editedAt,
+      });
+    } catch (error) {
+      console.error('Edit error:', error);
+      client.emit('msg:edit:nack', {
+        messageId: parsed.data.messageId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
   }
 
+  @SubscribeMessage('msg:delete')
+  async onDelete(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = MessageDeleteInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('msg:delete:nack', {
+        messageId: (raw as { messageId?: string })?.messageId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const userId = client.data.userId as string;
+
+    try {
+      const result = await this.chat.deleteMessage({
+        messageId: parsed.data.messageId,
+        userId,
+        scope: parsed.data.scope,
+      });
+
+      this.broadcastDeletion(result);
+
+      client.emit('msg:delete:ack', {
+        messageId: result.messageId,
+        scope: result.scope,
+      });
+    } catch (error) {
+      console.error('Delete error:', error);
+      client.emit('msg:delete:nack', {
+        messageId: parsed.data.messageId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  /**
+   * Sends a saved message to its room, along with the unread counts and
+   * the thread summary it changes.
+   */
+  async broadcastNewMessage(
+    saved: Awaited<ReturnType<ChatService['saveMessage']>>,
+  ) {
+    this.server?.to(saved.roomId).emit('msg:new', saved);
+    void this.broadcastMentions(saved, 'record');
+    void this.unarchiveForMessage(saved);
+    this.linkPreviews.enqueue(saved);
+
+    // Keep reply counts under the thread parent live
+    if (saved.replyToId) {
+      const summary = await this.chat.getThreadSummary(saved.replyToId);
+      this.server?.to(summary.roomId).emit('thread:updated', summary);
+    }
+  }
+
+  // Sends an edited message's new revision to its room. An edit can add or
+  // remove a mention, or change the link.
+  broadcastEdit(updated: Awaited<ReturnType<ChatService['editMessage']>>) {
+    this.server?.to(updated.roomId).emit('msg:edited', updated);
+    void this.broadcastMentions(updated, 'sync');
+    this.linkPreviews.enqueue(updated, true);
+  }
+
+  // Forwarded copies arrive like any other new message
+  broadcastForwards(results: ForwardResult[]) {
+    for (const result of results) {
+      if (result.status !== 'sent') continue;
+      for (const message of result.messages) {
+        this.server?.to(result.roomId).emit('msg:new', message);
+        this.linkPreviews.enqueue(message);
+      }
+      const [first] = result.messages;
+      if (first) void this.unarchiveForMessage(first);
+      void this.broadcastUnreadCounts({ roomId: result.roomId });
+    }
+  }
+
+  /** A member's own settings changed; tells all their devices */
+  broadcastConversationSettings(
+    userId: string,
+    settings: ConversationSettings[],
+  ) {
+    for (const s of settings) {
+      this.server?.to(userRoom(userId)).emit('conversation:settings', s);
+    }
+  }
+
+  // Members who archived the room see it again, unless they muted it
+  private async unarchiveForMessage({
+    roomId,
+    userId,
+  }: Pick<ChatMessage, 'roomId' | 'userId'>) {
+    try {
+      const changes = await this.chat.unarchiveOnNewMessage(roomId, userId);
+      for (const { userId: memberId, settings } of changes) {
+        this.broadcastConversationSettings(memberId, [settings]);
+      }
+    } catch (error) {
+      console.error('Unarchive error:', error);
+    }
+  }
+
+  broadcastPin(pin: PinnedMessage) {
+    this.server?.to(pin.roomId).emit('msg:pinned', pin);
+  }
+
+  broadcastUnpin(removal: PinRemoval) {
+    this.server?.to(removal.roomId).emit('msg:unpinned', removal);
+  }
+
+  broadcastLinkPreview(update: MessagePreviewUpdate) {
+    this.server?.to(update.roomId).emit('msg:preview', update);
+  }
+
+  broadcastPollUpdate(update: PollUpdate) {
+    this.server?.to(update.roomId).emit('poll:updated', update);
+  }
+
+  broadcastVoicePlayed(played: VoiceNotePlayed) {
+    this.server?.to(played.roomId).emit('voice:played', played);
+  }
+
+  /**
+   * Tombstones go to the whole room; "delete for me" only syncs the
+   * caller's other sockets.
+   */
+  broadcastDeletion(result: MessageDeletion) {
+    if (result.scope === 'everyone') {
+      this.server?.to(result.roomId).emit('msg:deleted', result);
+      void this.broadcastUnreadCounts({ roomId: result.roomId });
+    } else {
+      this.server?.to(userRoom(result.userId)).emit('msg:hidden', {
+        messageId: result.messageId,
+        roomId: result.roomId,
+      });
+      void this.broadcastUnreadCounts({
+        roomId: result.roomId,
+        userId: result.userId,
+      });
+    }
+  }
+
+  /**
+   * Moves the sockets of added and removed members in or out of the room,
+   * then sends the system message and updated group to the members.
+   */
+  broadcastGroupChange({ group, message, added, removed }: GroupChange) {
+    if (!this.server) return;
+
+    for (const userId of added) {
+      this.server.in(userRoom(userId)).socketsJoin(group.id);
+      // Same event as group creation, so new members load the conversation
+      this.server.to(userRoom(userId)).emit('conversation:created', {
+        conversationId: group.id,
+        participants: group.members.map((m) => m.id),
+        type: group.type,
+        name: group.name,
+        initiatedBy: message.userId,
+        timestamp: message.createdAt,
+      });
+    }
+    for (const userId of removed) {
+      this.server.in(userRoom(userId)).socketsLeave(group.id);
+      this.server
+        .to(userRoom(userId))
+        .emit('room:removed', { roomId: group.id });
+    }
+
+    this.server.to(group.id).emit('msg:new', message);
+    this.server.to(group.id).emit('room:updated', group);
+    void this.broadcastUnreadCounts({ roomId: group.id });
+  }
+
+  @SubscribeMessage('room:read')
+  async onRead(@ConnectedSocket() client: Socket, @MessageBody() raw: unknown) {
+    await this.updateReceipt(client, raw, 'read');
+  }
+
+  @SubscribeMessage('msg:delivered')
+  async onDelivered(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    await this.updateReceipt(client, raw, 'delivered');
+  }
+
+  private async updateReceipt(
+    client: Socket,
+    raw: unknown,
+    kind: 'read' | 'delivered',
+  ) {
+    const parsed = ReceiptInSchema.safeParse(raw);
+    if (!parsed.success) {
+      client.emit('receipt:nack', {
+        roomId: (raw as { roomId?: string })?.roomId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+      return;
+    }
+
+    const userId = client.data.userId as string;
+    const { roomId, messageId } = parsed.data;
+
+    try {
+      const receipt =
+        kind === 'read'
+          ? await this.chat.markRead(userId, roomId, messageId)
+          : await this.chat.markDelivered(userId, roomId, messageId);
+      if (receipt) this.broadcastReceipt(receipt);
+      if (receipt && kind === 'read') {
+        void this.broadcastUnreadCounts({ roomId, userId });
+      }
+    } catch (error) {
+      console.error('Receipt error:', error);
+      client.emit('receipt:nack', {
+        roomId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  // Members render ticks and "seen by" lists from these positions
+  broadcastReceipt(receipt: ReadReceipt) {
+    this.server?.to(receipt.roomId).emit('receipt:update', receipt);
+  }
+
+  /**
+   * Stores a new or edited message's mentions and tells the newly mentioned
+   * members. Mentions feed the unread counts, so those go out afterwards.
+   */
+  private async broadcastMentions(
+    message: Parameters<MentionsService['record']>[0],
+    mode: 'record' | 'sync',
+  ) {
+    try {
+      const notices = await this.mentions[mode](message);
+      for (const notice of notices) {
+        this.server?.to(userRoom(notice.userId)).emit('mention:new', notice);
+      }
+    } catch (error) {
+      console.error('Mentions error:', error);
+    }
+    await this.broadcastUnreadCounts({ roomId: message.roomId });
+  }
+
+  /**
+   * Sends the room's badge counts to each affected member's own sockets,
+   * so every device shows the same unread state.
+   */
+  async broadcastUnreadCounts(filter: { roomId: string; userId?: string }) {
+    try {
+      const counts = await this.chat.getUnreadCounts(filter);
+      for (const c of counts) {
+        this.server?.to(userRoom(c.userId)).emit('unread:update', c);
+      }
+    } catch (error) {
+      console.error('Unread counts error:', error);
+    }
+  }
+
+  // Clients send isTyping: true every few seconds while the user types and
+  // false when they stop; only changes to the room's typers are broadcast
   @SubscribeMessage('typing')
-  onTyping(
+  async onTyping(
     @ConnectedSocket() client: Socket,
     @MessageBody() body: unknown,
-  ): void {
-    const parsed = TypingSchema.safeParse(body);
+  ) {
+    const parsed = TypingEventSchema.safeParse(body);
     if (!parsed.success) return;
-    this.server
-      .to(parsed.data.roomId)
-      .emit('typing', { userId: client.data.userId as string, ...parsed.data });
+
+    const { roomId, isTyping } = parsed.data;
+    const userId = client.data.userId as string;
+
+    try {
+      let userIds: string[] | null;
+      if (isTyping) {
+        if (!(await this.chat.isMember(userId, roomId))) return;
+        userIds = await this.typing.start(roomId, userId, client.id);
+      } else {
+        userIds = await this.typing.stop(roomId, userId, client.id);
+      }
+
+      // The sender already knows it's typing
+      if (userIds) client.to(roomId).emit('typing:update', { roomId, userIds });
+    } catch (error) {
+      console.error('Typing error:', error);
+    }
+  }
+
+  @SubscribeMessage('draft:save')
+  async onDraft(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = DraftInSchema.safeParse(raw);
+    if (!parsed.success) return;
+
+    const userId = client.data.userId as string;
+
+    try {
+      const draft = await this.chat.saveDraft(
+        userId,
+        parsed.data.roomId,
+        parsed.data.content,
+      );
+      // The user's other devices; this one already shows the text
+      client.to(userRoom(userId)).emit('draft:updated', draft);
+    } catch (error) {
+      console.error('Draft error:', error);
+    }
   }
 
   @SubscribeMessage('msg:react')
@@ -205,6 +701,318 @@ export class ChatGateway
     }
   }
 
+  @SubscribeMessage('poll:vote')
+  async onPollVote(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = PollVoteInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('poll:vote:nack', {
+        messageId: (raw as { messageId?: string })?.messageId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const userId = client.data.userId as string;
+
+    try {
+      const result = await this.polls.vote(
+        userId,
+        parsed.data.messageId,
+        parsed.data.optionIds,
+      );
+      this.sendPollResult(userId, result);
+    } catch (error) {
+      console.error('Poll vote error:', error);
+      client.emit('poll:vote:nack', {
+        messageId: parsed.data.messageId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  @SubscribeMessage('poll:retract')
+  async onPollRetract(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = PollRetractInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('poll:vote:nack', {
+        messageId: (raw as { messageId?: string })?.messageId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const userId = client.data.userId as string;
+
+    try {
+      const result = await this.polls.retract(userId, parsed.data.messageId);
+      this.sendPollResult(userId, result);
+    } catch (error) {
+      console.error('Poll retract error:', error);
+      client.emit('poll:vote:nack', {
+        messageId: parsed.data.messageId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  // The room gets the tally; the voter's devices get their own choice,
+  // which the tally leaves out on anonymous polls
+  private sendPollResult(
+    userId: string,
+    result: { update: PollUpdate; votes: PollVotes },
+  ) {
+    this.broadcastPollUpdate(result.update);
+    this.server.to(userRoom(userId)).emit('poll:voted', result.votes);
+  }
+
+  @SubscribeMessage('voice:played')
+  async onVoicePlayed(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = VoicePlayedInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('voice:played:nack', {
+        attachmentId: (raw as { attachmentId?: string })?.attachmentId,
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const userId = client.data.userId as string;
+    const { roomId, attachmentId } = parsed.data;
+
+    try {
+      const played = await this.chat.markVoicePlayed(
+        userId,
+        roomId,
+        attachmentId,
+      );
+      if (played) this.broadcastVoicePlayed(played);
+    } catch (error) {
+      console.error('Voice note played error:', error);
+      client.emit('voice:played:nack', {
+        attachmentId,
+        error: error instanceof Error ? error.message : 'unknown_error',
+      });
+    }
+  }
+
+  // 1:1 calls in DMs. The server runs the call's state machine and relays
+  // WebRTC signals between the two sockets in it; media goes peer to peer.
+
+  @SubscribeMessage('call:invite')
+  async onCallInvite(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = CallInviteInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return client.emit('call:nack', {
+        error: 'invalid_payload',
+        details: z.treeifyError(parsed.error),
+      });
+    }
+
+    const callerId = client.data.userId as string;
+    const { roomId, video } = parsed.data;
+
+    try {
+      const calleeId = await this.chat.getDmPeerId(callerId, roomId);
+      const call = await this.calls.invite({
+        roomId,
+        callerId,
+        calleeId,
+        video,
+        socketId: client.id,
+      });
+      client.emit('call:invited', call);
+      this.server.to(userRoom(calleeId)).emit('call:incoming', call);
+    } catch (error) {
+      this.callNack(client, undefined, error);
+    }
+  }
+
+  // One of the callee's devices started ringing
+  @SubscribeMessage('call:ringing')
+  async onCallRinging(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const callId = this.parseCallId(client, raw);
+    if (!callId) return;
+
+    try {
+      const call = await this.calls.ring(callId, client.data.userId as string);
+      if (call) {
+        this.server.to(userRoom(call.callerId)).emit('call:ringing', call);
+      }
+    } catch (error) {
+      this.callNack(client, callId, error);
+    }
+  }
+
+  // Also reaches the callee's other devices, so they stop ringing
+  @SubscribeMessage('call:accept')
+  async onCallAccept(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const callId = this.parseCallId(client, raw);
+    if (!callId) return;
+
+    try {
+      const call = await this.calls.accept(
+        callId,
+        client.data.userId as string,
+        client.id,
+      );
+      this.server
+        .to([userRoom(call.callerId), userRoom(call.calleeId)])
+        .emit('call:accepted', call);
+    } catch (error) {
+      this.callNack(client, callId, error);
+    }
+  }
+
+  // Declining, cancelling and hanging up all leave the call; what it meant
+  // follows from the call's state, so a cancel that crosses an answer
+  // hangs up
+  @SubscribeMessage('call:reject')
+  async onCallReject(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    await this.leaveCall(client, raw);
+  }
+
+  @SubscribeMessage('call:cancel')
+  async onCallCancel(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    await this.leaveCall(client, raw);
+  }
+
+  @SubscribeMessage('call:hangup')
+  async onCallHangup(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    await this.leaveCall(client, raw);
+  }
+
+  @SubscribeMessage('call:offer')
+  async onCallOffer(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = CallDescriptionInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return this.invalidCallPayload(client, raw, parsed.error);
+    }
+    await this.relayCallSignal(client, 'call:offer', parsed.data);
+  }
+
+  @SubscribeMessage('call:answer')
+  async onCallAnswer(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = CallDescriptionInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return this.invalidCallPayload(client, raw, parsed.error);
+    }
+    await this.relayCallSignal(client, 'call:answer', parsed.data);
+  }
+
+  @SubscribeMessage('call:ice')
+  async onCallIce(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() raw: unknown,
+  ) {
+    const parsed = CallIceInSchema.safeParse(raw);
+    if (!parsed.success) {
+      return this.invalidCallPayload(client, raw, parsed.error);
+    }
+    await this.relayCallSignal(client, 'call:ice', parsed.data);
+  }
+
+  private async leaveCall(client: Socket, raw: unknown) {
+    const callId = this.parseCallId(client, raw);
+    if (!callId) return;
+
+    try {
+      const end = await this.calls.leave(callId, client.data.userId as string);
+      if (end) await this.broadcastCallEnd(end);
+    } catch (error) {
+      this.callNack(client, callId, error);
+    }
+  }
+
+  // Passes the payload on, as is, to the other socket in the call
+  private async relayCallSignal(
+    client: Socket,
+    event: 'call:offer' | 'call:answer' | 'call:ice',
+    payload: { callId: string },
+  ) {
+    try {
+      const peer = await this.calls.peerSocket(payload.callId, client.id);
+      this.server.to(peer).emit(event, payload);
+    } catch (error) {
+      this.callNack(client, payload.callId, error);
+    }
+  }
+
+  /** Tells both parties the call is over and records it in their DM */
+  async broadcastCallEnd(end: CallEnd) {
+    const { call } = end;
+    this.server
+      ?.to([userRoom(call.callerId), userRoom(call.calleeId)])
+      .emit('call:ended', end);
+
+    try {
+      const message = await this.chat.recordCall(end);
+      this.server?.to(call.roomId).emit('msg:new', message);
+      await this.unarchiveForMessage(message);
+      await this.broadcastUnreadCounts({ roomId: call.roomId });
+    } catch (error) {
+      console.error('Call history error:', error);
+    }
+  }
+
+  // For events whose payload only names the call
+  private parseCallId(client: Socket, raw: unknown): string | null {
+    const parsed = CallIdInSchema.safeParse(raw);
+    if (!parsed.success) {
+      this.invalidCallPayload(client, raw, parsed.error);
+      return null;
+    }
+    return parsed.data.callId;
+  }
+
+  private invalidCallPayload(client: Socket, raw: unknown, error: z.ZodError) {
+    client.emit('call:nack', {
+      callId: (raw as { callId?: string })?.callId,
+      error: 'invalid_payload',
+      details: z.treeifyError(error),
+    });
+  }
+
+  private callNack(client: Socket, callId: string | undefined, error: unknown) {
+    console.error('Call error:', error);
+    client.emit('call:nack', {
+      callId,
+      error: error instanceof Error ? error.message : 'unknown_error',
+    });
+  }
+
   @SubscribeMessage('ping')
   onPing(
     @ConnectedSocket() client: Socket,
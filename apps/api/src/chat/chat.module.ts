@@ -1,6 +1,13 @@
 import { Module } from '@nestjs/common';
 import { ChatGateway } from './chat.gateway';
 import { ChatService } from './chat.service';
+import { PresenceService } from './presence.service';
+import { TypingService } from './typing.service';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { MentionsService } from './mentions.service';
+import { LinkPreviewsService } from './link-previews.service';
+import { PollsService } from './polls.service';
+import { CallsService } from './calls.service';
 import { PrismaService } from '../prisma.service';
 import { CacheService } from '../common/cache.service';
 import { AuthModule } from '../auth/auth.module';
@@ -8,7 +15,19 @@ import { ChatController } from './chat.controller';
 
 @Module({
   imports: [AuthModule],
-  providers: [ChatGateway, ChatService, PrismaService, CacheService],
+  providers: [
+    ChatGateway,
+    ChatService,
+    PresenceService,
+    TypingService,
+    ScheduledMessagesService,
+    MentionsService,
+    LinkPreviewsService,
+    PollsService,
+    CallsService,
+    PrismaService,
+    CacheService,
+  ],
   controllers: [ChatController],
 })
 export class ChatModule {}
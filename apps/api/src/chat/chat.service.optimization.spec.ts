@@ -2,6 +2,7 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { ChatService } from '../chat/chat.service';
 import { PrismaService } from '../prisma.service';
 import { CacheService } from '../common/cache.service';
+import { ConfigService } from '@nestjs/config';
 
 // Mock data for testing behavior parity
 const mockUser1 = { id: 'user1', username: 'alice' };
@@ -48,7 +49,11 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
         upsert: jest.fn(),
         delete: jest.fn(),
       },
+      messageHidden: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
       $transaction: jest.fn(),
+      $queryRaw: jest.fn().mockResolvedValue([]), // unread counts
     };
 
     const mockCacheService = {
@@ -71,12 +76,16 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
           provide: CacheService,
           useValue: mockCacheService,
         },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<ChatService>(ChatService);
-    prisma = module.get(PrismaService) as jest.Mocked<PrismaService>;
-    cache = module.get(CacheService) as jest.Mocked<CacheService>;
+    prisma = module.get(PrismaService);
+    cache = module.get(CacheService);
   });
 
   afterEach(() => {
@@ -140,6 +149,7 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
                   content: true,
                   createdAt: true,
                   senderId: true,
+                  _count: { select: { attachments: true } },
                 }, // Optimized
                 orderBy: { createdAt: 'desc' },
                 take: 1,
@@ -157,6 +167,7 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
         name: 'bob', // DM uses other user's name
         avatar: null,
         isGroup: false,
+        role: 'member',
         last: 'Hello',
         members: [
           { id: 'user1', username: 'alice' },
@@ -181,6 +192,7 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
         },
       ];
 
+      prisma.membership.findUnique.mockResolvedValue({ id: 'membership1' });
       cache.getCachedMessages.mockResolvedValue(null);
       prisma.message.findMany.mockResolvedValue(mockMessages as any);
       // Mock getMessageReactions to return empty array for simplicity
@@ -190,9 +202,12 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
 
       // Verify optimized query uses select instead of include
       expect(prisma.message.findMany).toHaveBeenCalledWith({
-        where: { roomId: 'room1' },
-        orderBy: { createdAt: 'desc' },
-        take: 3000,
+        where: {
+          roomId: 'room1',
+          NOT: { replyToId: { not: null }, room: { type: 'channel' } },
+        },
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        take: 51, // default page of 50 + 1 to detect older history
         select: {
           id: true,
           roomId: true,
@@ -200,14 +215,86 @@ describe('ChatService - Prisma Optimization Parity Tests', () => {
           createdAt: true,
           clientMsgId: true,
           replyToId: true,
+          editedAt: true,
+          deletedAt: true,
+          type: true,
           senderId: true,
           sender: { select: { id: true, username: true } }, // Optimized
+          replyTo: {
+            select: {
+              id: true,
+              content: true,
+              senderId: true,
+              deletedAt: true,
+            },
+          },
+          forwardedFrom: {
+            select: {
+              id: true,
+              roomId: true,
+              senderId: true,
+              sender: { select: { username: true } },
+            },
+          },
+          _count: { select: { replies: true } },
+          replies: {
+            select: {
+              createdAt: true,
+              sender: { select: { id: true, username: true } },
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1,
+          },
+          attachments: {
+            select: {
+              id: true,
+              fileName: true,
+              mimeType: true,
+              size: true,
+              width: true,
+              height: true,
+              placeholderColor: true,
+              thumbnailWidths: true,
+              durationMs: true,
+              waveform: true,
+              playedAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          },
+          linkPreview: {
+            select: {
+              url: true,
+              title: true,
+              description: true,
+              imageUrl: true,
+              siteName: true,
+              removedAt: true,
+            },
+          },
+          poll: {
+            select: {
+              id: true,
+              multipleChoice: true,
+              anonymous: true,
+              closesAt: true,
+              closedAt: true,
+              options: {
+                select: {
+                  id: true,
+                  text: true,
+                  votes: { select: { userId: true } },
+                },
+                orderBy: { position: 'asc' },
+              },
+            },
+          },
         },
       });
 
       // Verify return structure is preserved
-      expect(result).toHaveLength(1);
-      expect(result[0]).toMatchObject({
+      expect(result.messages).toHaveLength(1);
+      expect(result.hasOlder).toBe(false);
+      expect(result.messages[0]).toMatchObject({
         id: 'msg1',
         roomId: 'room1',
         userId: 'user2', // Mapped from senderId
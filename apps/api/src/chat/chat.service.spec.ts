@@ -0,0 +1,1752 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  GoneException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ChatService, DELETED_MESSAGE_CONTENT } from './chat.service';
+import { SPOILER_PLACEHOLDER } from 'shared/markdown';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+import { PrismaOptimizer } from '../common/prisma/prisma-optimizer';
+
+describe('ChatService', () => {
+  let service: ChatService;
+  let prisma: any;
+  let cache: any;
+  let tx: any;
+
+  beforeEach(async () => {
+    tx = {
+      message: { update: jest.fn(), create: jest.fn() },
+      messageEdit: { create: jest.fn(), deleteMany: jest.fn() },
+      reaction: { deleteMany: jest.fn() },
+      pinnedMessage: { deleteMany: jest.fn() },
+      membership: {
+        create: jest.fn(),
+        createMany: jest.fn().mockResolvedValue({ count: 1 }),
+        delete: jest.fn(),
+        findFirst: jest.fn(),
+        update: jest.fn(),
+      },
+      groupInvite: {
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      groupJoinRequest: { delete: jest.fn() },
+    };
+
+    const mockPrismaService = {
+      message: {
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        create: jest.fn(),
+      },
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ id: 'user1' }),
+        findMany: jest.fn(),
+      },
+      room: { findUnique: jest.fn(), update: jest.fn() },
+      attachment: {
+        count: jest.fn(),
+        findUnique: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      messageEdit: { findMany: jest.fn() },
+      messageHidden: {
+        upsert: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+      reaction: { findMany: jest.fn().mockResolvedValue([]) },
+      membership: {
+        findUnique: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        create: jest.fn(),
+        createMany: jest.fn(),
+        delete: jest.fn(),
+        update: jest.fn(),
+      },
+      pinnedMessage: { upsert: jest.fn() },
+      groupInvite: { findUnique: jest.fn() },
+      groupJoinRequest: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        upsert: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      $transaction: jest.fn((callback: (client: any) => unknown) =>
+        callback(tx),
+      ),
+      $queryRaw: jest.fn(),
+    };
+
+    const mockCacheService = {
+      getCachedConversations: jest.fn().mockResolvedValue(null),
+      cacheConversations: jest.fn(),
+      getCachedMessages: jest.fn().mockResolvedValue(null),
+      cacheMessages: jest.fn(),
+      invalidateMessages: jest.fn(),
+      invalidateConversations: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ChatService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+        {
+          provide: ConfigService,
+          useValue: { get: jest.fn().mockReturnValue(3600) }, // 1h window
+        },
+      ],
+    }).compile();
+
+    service = module.get<ChatService>(ChatService);
+    prisma = module.get(PrismaService);
+    cache = module.get(CacheService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('listConversations', () => {
+    it('includes unread and mention counts from the read position', async () => {
+      prisma.membership.findMany.mockResolvedValue([
+        {
+          id: 'mem1',
+          role: 'member',
+          room: {
+            id: 'room1',
+            name: 'Design',
+            isGroup: true,
+            members: [],
+            messages: [],
+          },
+        },
+        {
+          id: 'mem2',
+          role: 'member',
+          room: {
+            id: 'room2',
+            name: 'Ops',
+            isGroup: true,
+            members: [],
+            messages: [],
+          },
+        },
+      ]);
+      prisma.$queryRaw.mockResolvedValue([
+        { roomId: 'room1', userId: 'user1', unreadCount: 4, mentionCount: 1 },
+      ]);
+
+      const result = await service.listConversations('user1');
+
+      expect(result.find((c) => c.id === 'room1')).toMatchObject({
+        unreadCount: 4,
+        mentionCount: 1,
+      });
+      expect(result.find((c) => c.id === 'room2')).toMatchObject({
+        unreadCount: 0,
+        mentionCount: 0,
+      });
+      expect(cache.cacheConversations).toHaveBeenCalledWith('user1', result);
+    });
+
+    it('puts pinned conversations first, in the member’s order', async () => {
+      const membership = (
+        roomId: string,
+        pinOrder: number | null,
+        lastAt: string,
+      ) => ({
+        id: `mem-${roomId}`,
+        role: 'member',
+        muted: false,
+        mutedUntil: null,
+        archivedAt: null,
+        pinOrder,
+        room: {
+          id: roomId,
+          name: roomId,
+          isGroup: true,
+          members: [],
+          messages: [
+            {
+              content: 'hi',
+              createdAt: new Date(lastAt),
+              _count: { attachments: 0 },
+            },
+          ],
+        },
+      });
+      prisma.membership.findMany.mockResolvedValue([
+        membership('latest', null, '2025-09-18T12:00:00Z'),
+        membership('pinned-second', 1, '2025-09-17T12:00:00Z'),
+        membership('older', null, '2025-09-16T12:00:00Z'),
+        membership('pinned-first', 0, '2025-09-15T12:00:00Z'),
+      ]);
+      prisma.$queryRaw.mockResolvedValue([]);
+
+      const result = await service.listConversations('user1');
+
+      expect(result.map((c) => c.id)).toEqual([
+        'pinned-first',
+        'pinned-second',
+        'latest',
+        'older',
+      ]);
+      expect(result[0]).toMatchObject({
+        muted: false,
+        archived: false,
+        pinOrder: 0,
+      });
+    });
+  });
+
+  describe('getUnreadCounts', () => {
+    it('leaves channel thread replies out of the counts', async () => {
+      prisma.$queryRaw.mockResolvedValue([]);
+
+      await service.getUnreadCounts({ roomId: 'room1' });
+
+      const [strings] = prisma.$queryRaw.mock.calls[0] as [string[]];
+      expect(strings.join('')).toContain(
+        `NOT (m."replyToId" IS NOT NULL AND r."type" = 'channel')`,
+      );
+    });
+  });
+
+  describe('getMessages', () => {
+    const row = (id: string, createdAt: string) => ({
+      id,
+      roomId: 'room1',
+      senderId: 'user1',
+      content: id,
+      createdAt: new Date(createdAt),
+      clientMsgId: null,
+      replyToId: null,
+      editedAt: null,
+      deletedAt: null,
+      replyTo: null,
+      sender: { id: 'user1', username: 'alice' },
+    });
+
+    beforeEach(() => {
+      prisma.membership.findUnique.mockResolvedValue({ id: 'membership1' });
+    });
+
+    it('returns the latest page oldest first with an older cursor', async () => {
+      // Backward query yields newest first, plus one extra row
+      prisma.message.findMany.mockResolvedValue([
+        row('m3', '2024-01-01T10:03:00Z'),
+        row('m2', '2024-01-01T10:02:00Z'),
+        row('m1', '2024-01-01T10:01:00Z'),
+      ]);
+
+      const page = await service.getMessages('user1', 'room1', { limit: 2 });
+
+      expect(page.messages.map((m) => m.id)).toEqual(['m2', 'm3']);
+      expect(page.hasOlder).toBe(true);
+      expect(page.hasNewer).toBe(false);
+      expect(page.olderCursor).toBe(
+        PrismaOptimizer.encodeCursor({
+          id: 'm2',
+          createdAt: new Date('2024-01-01T10:02:00Z'),
+        }),
+      );
+      expect(cache.cacheMessages).toHaveBeenCalledWith(
+        'room1',
+        page,
+        'before:latest:2',
+      );
+    });
+
+    it('pages older history from a cursor', async () => {
+      const cursor = PrismaOptimizer.encodeCursor({
+        id: 'm2',
+        createdAt: new Date('2024-01-01T10:02:00Z'),
+      });
+      prisma.message.findMany.mockResolvedValue([
+        row('m1', '2024-01-01T10:01:00Z'),
+      ]);
+
+      const page = await service.getMessages('user1', 'room1', {
+        limit: 2,
+        cursor,
+      });
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            roomId: 'room1',
+            NOT: { replyToId: { not: null }, room: { type: 'channel' } },
+            OR: [
+              { createdAt: { lt: new Date('2024-01-01T10:02:00Z') } },
+              {
+                createdAt: new Date('2024-01-01T10:02:00Z'),
+                id: { lt: 'm2' },
+              },
+            ],
+          },
+        }),
+      );
+      expect(page.messages.map((m) => m.id)).toEqual(['m1']);
+      expect(page.hasOlder).toBe(false);
+      expect(page.hasNewer).toBe(true);
+    });
+
+    it('rejects malformed cursors', async () => {
+      await expect(
+        service.getMessages('user1', 'room1', { cursor: 'garbage' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('refuses the history to non-members', async () => {
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.getMessages('user2', 'room1'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(cache.getCachedMessages).not.toHaveBeenCalled();
+      expect(prisma.message.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getThreadReplies', () => {
+    const parent = {
+      id: 'parent',
+      roomId: 'room1',
+      senderId: 'user1',
+      content: 'question?',
+      createdAt: new Date('2024-01-01T09:00:00Z'),
+      clientMsgId: null,
+      replyToId: null,
+      editedAt: null,
+      deletedAt: null,
+      replyTo: null,
+      sender: { id: 'user1', username: 'alice' },
+      _count: { replies: 1 },
+      replies: [
+        {
+          createdAt: new Date('2024-01-01T09:05:00Z'),
+          sender: { id: 'user2', username: 'bob' },
+        },
+      ],
+    };
+
+    it('returns the parent with its replies and thread summary', async () => {
+      prisma.message.findUnique.mockResolvedValue(parent);
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.message.findMany.mockResolvedValue([
+        {
+          ...parent,
+          id: 'reply1',
+          senderId: 'user2',
+          content: 'answer',
+          replyToId: 'parent',
+          createdAt: new Date('2024-01-01T09:05:00Z'),
+          _count: { replies: 0 },
+          replies: [],
+        },
+      ]);
+
+      const thread = await service.getThreadReplies('user2', 'parent');
+
+      expect(prisma.message.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { replyToId: 'parent' } }),
+      );
+      expect(thread.parent).toMatchObject({
+        id: 'parent',
+        replyCount: 1,
+        lastReplier: { id: 'user2', username: 'bob' },
+        lastReplyAt: '2024-01-01T09:05:00.000Z',
+      });
+      expect(thread.messages.map((m) => m.id)).toEqual(['reply1']);
+      expect(thread.hasOlder).toBe(false);
+    });
+
+    it('hides threads from non-members', async () => {
+      prisma.message.findUnique.mockResolvedValue(parent);
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.getThreadReplies('outsider', 'parent'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('getMessageContext', () => {
+    const row = (id: string, createdAt: string) => ({
+      id,
+      roomId: 'room1',
+      senderId: 'user1',
+      content: id,
+      createdAt: new Date(createdAt),
+      clientMsgId: null,
+      replyToId: null,
+      editedAt: null,
+      deletedAt: null,
+      replyTo: null,
+      sender: { id: 'user1', username: 'alice' },
+    });
+
+    it('returns the window around a message with cursors both ways', async () => {
+      prisma.message.findUnique.mockResolvedValue(
+        row('m3', '2024-01-01T10:03:00Z'),
+      );
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.message.findMany.mockImplementation(
+        (args: { orderBy: { createdAt: string }[] }) =>
+          Promise.resolve(
+            args.orderBy[0]?.createdAt === 'desc'
+              ? [
+                  row('m2', '2024-01-01T10:02:00Z'),
+                  row('m1', '2024-01-01T10:01:00Z'),
+                ]
+              : [
+                  row('m4', '2024-01-01T10:04:00Z'),
+                  row('m5', '2024-01-01T10:05:00Z'),
+                ],
+          ),
+      );
+
+      const page = await service.getMessageContext('user1', 'm3', {
+        limit: 2,
+      });
+
+      expect(page.messages.map((m) => m.id)).toEqual(['m2', 'm3', 'm4']);
+      expect(page.hasOlder).toBe(true);
+      expect(page.hasNewer).toBe(true);
+      expect(page.newerCursor).toBe(
+        PrismaOptimizer.encodeCursor({
+          id: 'm4',
+          createdAt: new Date('2024-01-01T10:04:00Z'),
+        }),
+      );
+    });
+
+    it('hides the context from non-members', async () => {
+      prisma.message.findUnique.mockResolvedValue(
+        row('m3', '2024-01-01T10:03:00Z'),
+      );
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.getMessageContext('outsider', 'm3'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('searchMessages', () => {
+    const hit = (id: string, createdAt: string) => ({
+      id,
+      roomId: 'room1',
+      senderId: 'user2',
+      createdAt: new Date(createdAt),
+      username: 'bob',
+      snippet: 'we <mark>decided</mark> to ship',
+    });
+
+    it('returns highlighted hits with a cursor for the next page', async () => {
+      prisma.$queryRaw.mockResolvedValue([
+        hit('m3', '2024-01-01T10:03:00Z'),
+        hit('m2', '2024-01-01T10:02:00Z'),
+        hit('m1', '2024-01-01T10:01:00Z'),
+      ]);
+
+      const page = await service.searchMessages('user1', {
+        query: 'decided',
+        limit: 2,
+      });
+
+      expect(page.results).toEqual([
+        {
+          id: 'm3',
+          roomId: 'room1',
+          userId: 'user2',
+          senderUsername: 'bob',
+          createdAt: '2024-01-01T10:03:00.000Z',
+          snippet: 'we <mark>decided</mark> to ship',
+        },
+        expect.objectContaining({ id: 'm2' }),
+      ]);
+      expect(page.hasMore).toBe(true);
+      expect(page.nextCursor).toBe(
+        PrismaOptimizer.encodeCursor({
+          id: 'm2',
+          createdAt: new Date('2024-01-01T10:02:00Z'),
+        }),
+      );
+    });
+
+    it('rejects room filters for rooms the user is not in', async () => {
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.searchMessages('outsider', { query: 'x', roomId: 'room1' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('rejects malformed cursors', async () => {
+      await expect(
+        service.searchMessages('user1', { query: 'x', cursor: 'garbage' }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('saveMessage', () => {
+    it('rejects replies to messages from another room', async () => {
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.message.findUnique.mockResolvedValue({ roomId: 'room2' });
+
+      await expect(
+        service.saveMessage({
+          roomId: 'room1',
+          senderId: 'user1',
+          content: 'hi',
+          replyToId: 'elsewhere',
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+
+    it('links unsent attachments to the new message', async () => {
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.attachment.count.mockResolvedValue(1);
+      prisma.message.create.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+        senderId: 'user1',
+        content: '',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        clientMsgId: null,
+        replyToId: null,
+        replyTo: null,
+        sender: { id: 'user1', username: 'alice' },
+        attachments: [
+          {
+            id: 'att1',
+            fileName: 'cat.png',
+            mimeType: 'image/png',
+            size: 42,
+            width: 8,
+            height: 6,
+            placeholderColor: '#336699',
+            thumbnailWidths: [],
+            durationMs: null,
+            waveform: [],
+            playedAt: null,
+          },
+        ],
+      });
+
+      const result = await service.saveMessage({
+        roomId: 'room1',
+        senderId: 'user1',
+        attachmentIds: ['att1', 'att1'],
+      });
+
+      expect(prisma.attachment.count).toHaveBeenCalledWith({
+        where: { id: { in: ['att1'] }, uploaderId: 'user1', messageId: null },
+      });
+      expect(prisma.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            attachments: { connect: [{ id: 'att1' }] },
+          }),
+        }),
+      );
+      expect(result.attachments).toEqual([
+        {
+          id: 'att1',
+          fileName: 'cat.png',
+          mimeType: 'image/png',
+          size: 42,
+          url: '/attachments/att1',
+          width: 8,
+          height: 6,
+          placeholderColor: '#336699',
+          thumbnails: [],
+          durationMs: null,
+          waveform: [],
+          playedAt: null,
+        },
+      ]);
+    });
+
+    it("rejects attachments that are not the sender's unsent uploads", async () => {
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.attachment.count.mockResolvedValue(0);
+
+      await expect(
+        service.saveMessage({
+          roomId: 'room1',
+          senderId: 'user1',
+          attachmentIds: ['someone-elses'],
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.message.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('editMessage', () => {
+    const original = {
+      id: 'msg1',
+      roomId: 'room1',
+      senderId: 'user1',
+      content: 'helo',
+    };
+
+    it('stores the previous revision and returns the edited message', async () => {
+      const editedAt = new Date('2024-01-01T10:00:00Z');
+      prisma.message.findUnique.mockResolvedValue(original);
+      tx.message.update.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+        senderId: 'user1',
+        content: 'hello',
+        clientMsgId: null,
+        replyToId: null,
+        editedAt,
+        createdAt: new Date('2024-01-01T09:00:00Z'),
+        sender: { id: 'user1', username: 'alice' },
+      });
+
+      const result = await service.editMessage({
+        messageId: 'msg1',
+        userId: 'user1',
+        content: ' hello ',
+      });
+
+      expect(tx.messageEdit.create).toHaveBeenCalledWith({
+        data: { messageId: 'msg1', content: 'helo' },
+      });
+      expect(tx.message.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'msg1' },
+          data: {
+            content: 'hello',
+            searchText: 'hello',
+            editedAt: expect.any(Date),
+          },
+        }),
+      );
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+      expect(result).toMatchObject({
+        id: 'msg1',
+        userId: 'user1',
+        content: 'hello',
+        edited: true,
+        editedAt: editedAt.toISOString(),
+      });
+    });
+
+    it('indexes the edited text without its formatting', async () => {
+      prisma.message.findUnique.mockResolvedValue(original);
+      tx.message.update.mockResolvedValue({
+        ...original,
+        content: '**hello** ||there||',
+        createdAt: new Date('2024-01-01T09:00:00Z'),
+        editedAt: new Date('2024-01-01T10:00:00Z'),
+        sender: { id: 'user1', username: 'alice' },
+      });
+
+      await service.editMessage({
+        messageId: 'msg1',
+        userId: 'user1',
+        content: '**hello** ||there||',
+      });
+
+      // Spoilers stay out of search results and their snippets
+      expect(tx.message.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            content: '**hello** ||there||',
+            searchText: `hello ${SPOILER_PLACEHOLDER}`,
+          }),
+        }),
+      );
+    });
+
+    it('rejects edits from anyone but the sender', async () => {
+      prisma.message.findUnique.mockResolvedValue(original);
+
+      await expect(
+        service.editMessage({
+          messageId: 'msg1',
+          userId: 'user2',
+          content: 'hijacked',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('throws when the message does not exist', async () => {
+      prisma.message.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.editMessage({
+          messageId: 'missing',
+          userId: 'user1',
+          content: 'hello',
+        }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('deleteMessage', () => {
+    const message = {
+      id: 'msg1',
+      roomId: 'room1',
+      senderId: 'user1',
+      createdAt: new Date(),
+      deletedAt: null,
+    };
+
+    it('hides the message only for the caller with scope "me"', async () => {
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.membership.findUnique.mockResolvedValue({ role: 'member' });
+
+      const result = await service.deleteMessage({
+        messageId: 'msg1',
+        userId: 'user2',
+        scope: 'me',
+      });
+
+      expect(prisma.messageHidden.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { messageId: 'msg1', userId: 'user2' },
+        }),
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        scope: 'me',
+        messageId: 'msg1',
+        roomId: 'room1',
+        userId: 'user2',
+      });
+    });
+
+    it('replaces the content with a tombstone for everyone', async () => {
+      const deletedAt = new Date('2024-01-01T10:00:00Z');
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.membership.findUnique.mockResolvedValue({ role: 'member' });
+      tx.message.update.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+        deletedAt,
+      });
+
+      const result = await service.deleteMessage({
+        messageId: 'msg1',
+        userId: 'user1',
+        scope: 'everyone',
+      });
+
+      expect(tx.messageEdit.deleteMany).toHaveBeenCalledWith({
+        where: { messageId: 'msg1' },
+      });
+      expect(tx.message.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            content: DELETED_MESSAGE_CONTENT,
+            searchText: '',
+            deletedAt: expect.any(Date),
+            editedAt: null,
+          },
+        }),
+      );
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+      expect(result).toMatchObject({
+        scope: 'everyone',
+        content: DELETED_MESSAGE_CONTENT,
+        deletedAt: deletedAt.toISOString(),
+      });
+    });
+
+    it('rejects senders once the delete window has passed', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        ...message,
+        createdAt: new Date(Date.now() - 2 * 3600 * 1000),
+      });
+      prisma.membership.findUnique.mockResolvedValue({ role: 'member' });
+
+      await expect(
+        service.deleteMessage({
+          messageId: 'msg1',
+          userId: 'user1',
+          scope: 'everyone',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('lets admins delete any message for everyone', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        ...message,
+        createdAt: new Date(Date.now() - 2 * 3600 * 1000),
+      });
+      prisma.membership.findUnique.mockResolvedValue({ role: 'admin' });
+      tx.message.update.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+        deletedAt: new Date(),
+      });
+
+      await service.deleteMessage({
+        messageId: 'msg1',
+        userId: 'moderator',
+        scope: 'everyone',
+      });
+
+      expect(tx.message.update).toHaveBeenCalled();
+    });
+
+    it('rejects other members deleting for everyone', async () => {
+      prisma.message.findUnique.mockResolvedValue(message);
+      prisma.membership.findUnique.mockResolvedValue({ role: 'member' });
+
+      await expect(
+        service.deleteMessage({
+          messageId: 'msg1',
+          userId: 'user2',
+          scope: 'everyone',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('pinMessage', () => {
+    const pinRow = {
+      roomId: 'room1',
+      messageId: 'msg1',
+      pinnedAt: new Date('2024-01-01T10:00:00Z'),
+      pinnedBy: { id: 'user2', username: 'bob' },
+      message: {
+        content: 'Read this',
+        senderId: 'user1',
+        createdAt: new Date('2024-01-01T09:00:00Z'),
+        _count: { attachments: 0 },
+      },
+    };
+
+    beforeEach(() => {
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        type: 'text',
+        deletedAt: null,
+      });
+    });
+
+    it('lets anyone in a DM pin', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'member',
+        room: { isGroup: false },
+      });
+      prisma.pinnedMessage.upsert.mockResolvedValue(pinRow);
+
+      const pin = await service.pinMessage('user2', 'msg1');
+
+      expect(prisma.pinnedMessage.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: { messageId: 'msg1', roomId: 'room1', pinnedById: 'user2' },
+        }),
+      );
+      expect(pin).toEqual({
+        roomId: 'room1',
+        messageId: 'msg1',
+        content: 'Read this',
+        senderId: 'user1',
+        createdAt: '2024-01-01T09:00:00.000Z',
+        pinnedBy: { id: 'user2', username: 'bob' },
+        pinnedAt: '2024-01-01T10:00:00.000Z',
+      });
+    });
+
+    it('takes an admin in groups', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'member',
+        room: { isGroup: true },
+      });
+
+      await expect(service.pinMessage('user2', 'msg1')).rejects.toBeInstanceOf(
+        ForbiddenException,
+      );
+      expect(prisma.pinnedMessage.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('forwardMessages', () => {
+    const file = {
+      storageKey: 'user1/abc',
+      fileName: 'plan.pdf',
+      mimeType: 'application/pdf',
+      size: 1024,
+      width: null,
+      height: null,
+      placeholderColor: null,
+      thumbnailWidths: [],
+    };
+
+    beforeEach(() => {
+      prisma.message.findMany.mockResolvedValue([
+        {
+          id: 'msg1',
+          roomId: 'room1',
+          content: 'See attached',
+          type: 'text',
+          deletedAt: null,
+          forwardedFromId: 'original',
+          attachments: [file],
+        },
+      ]);
+      prisma.membership.count.mockResolvedValue(1);
+    });
+
+    it('copies messages into each target and reports per room', async () => {
+      // user2 is in room2 but not room3
+      prisma.membership.findUnique.mockImplementation(({ where }: any) =>
+        where.userId_roomId.roomId === 'room2'
+          ? { id: 'mem2', role: 'member', room: { type: 'group' } }
+          : null,
+      );
+      tx.message.create.mockResolvedValue({
+        id: 'copy1',
+        roomId: 'room2',
+        senderId: 'user2',
+        content: 'See attached',
+        type: 'text',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        clientMsgId: null,
+        replyToId: null,
+        editedAt: null,
+        deletedAt: null,
+        sender: { id: 'user2', username: 'bob' },
+        replyTo: null,
+        forwardedFrom: {
+          id: 'original',
+          roomId: 'room0',
+          senderId: 'user1',
+          sender: { username: 'alice' },
+        },
+        attachments: [],
+      });
+
+      const results = await service.forwardMessages(
+        'user2',
+        ['msg1'],
+        ['room2', 'room3'],
+      );
+
+      // A forward of a forward credits the first sender, files are shared
+      expect(tx.message.create).toHaveBeenCalledTimes(1);
+      expect(tx.message.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            roomId: 'room2',
+            senderId: 'user2',
+            content: 'See attached',
+            searchText: 'See attached',
+            forwardedFromId: 'original',
+            attachments: { create: [{ ...file, uploaderId: 'user2' }] },
+          },
+        }),
+      );
+      expect(results).toEqual([
+        {
+          roomId: 'room2',
+          status: 'sent',
+          messages: [
+            expect.objectContaining({
+              id: 'copy1',
+              forwardedFrom: {
+                messageId: 'original',
+                roomId: 'room0',
+                userId: 'user1',
+                username: 'alice',
+              },
+            }),
+          ],
+        },
+        { roomId: 'room3', status: 'failed', error: 'not_a_member' },
+      ]);
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room2');
+    });
+
+    it('requires membership of the source room', async () => {
+      prisma.membership.count.mockResolvedValue(0);
+
+      await expect(
+        service.forwardMessages('outsider', ['msg1'], ['room2']),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(tx.message.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getMessageEdits', () => {
+    it('returns earlier revisions for room members', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+      });
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem1' });
+      prisma.messageEdit.findMany.mockResolvedValue([
+        {
+          id: 'edit1',
+          content: 'helo',
+          editedAt: new Date('2024-01-01T10:00:00Z'),
+        },
+      ]);
+
+      const result = await service.getMessageEdits('user2', 'msg1');
+
+      expect(result).toEqual([
+        { id: 'edit1', content: 'helo', editedAt: '2024-01-01T10:00:00.000Z' },
+      ]);
+    });
+
+    it('hides revisions from non-members', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        id: 'msg1',
+        roomId: 'room1',
+      });
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.getMessageEdits('outsider', 'msg1'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('markRead', () => {
+    const sentAt = new Date('2024-01-01T10:00:00Z');
+    const membership = (lastReadAt: Date | null) => ({
+      roomId: 'room1',
+      userId: 'user2',
+      lastReadMessageId: lastReadAt ? 'older' : null,
+      lastReadAt,
+      lastDeliveredAt: lastReadAt,
+    });
+
+    beforeEach(() => {
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        createdAt: sentAt,
+      });
+    });
+
+    it('advances the read and delivery positions', async () => {
+      prisma.membership.findUnique.mockResolvedValue(membership(null));
+
+      const receipt = await service.markRead('user2', 'room1', 'msg1');
+
+      expect(receipt).toEqual({
+        roomId: 'room1',
+        userId: 'user2',
+        lastReadMessageId: 'msg1',
+        lastReadAt: sentAt.toISOString(),
+        lastDeliveredAt: sentAt.toISOString(),
+      });
+      expect(prisma.membership.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user2',
+          roomId: 'room1',
+          OR: [{ lastReadAt: null }, { lastReadAt: { lt: sentAt } }],
+        },
+        data: {
+          lastReadMessageId: 'msg1',
+          lastReadAt: sentAt,
+          lastDeliveredAt: sentAt,
+        },
+      });
+      expect(cache.invalidateConversations).toHaveBeenCalledWith('user2');
+    });
+
+    it('never moves the position backwards', async () => {
+      prisma.membership.findUnique.mockResolvedValue(
+        membership(new Date('2024-01-01T11:00:00Z')),
+      );
+
+      await expect(
+        service.markRead('user2', 'room1', 'msg1'),
+      ).resolves.toBeNull();
+      expect(prisma.membership.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects messages from another room and non-members', async () => {
+      prisma.membership.findUnique.mockResolvedValue(membership(null));
+      await expect(
+        service.markRead('user2', 'room2', 'msg1'),
+      ).rejects.toBeInstanceOf(NotFoundException);
+
+      prisma.membership.findUnique.mockResolvedValue(null);
+      await expect(
+        service.markRead('outsider', 'room1', 'msg1'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('markDelivered', () => {
+    it('keeps the read position when advancing delivery', async () => {
+      const readAt = new Date('2024-01-01T09:00:00Z');
+      const sentAt = new Date('2024-01-01T10:00:00Z');
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        createdAt: sentAt,
+      });
+      prisma.membership.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        userId: 'user2',
+        lastReadMessageId: 'older',
+        lastReadAt: readAt,
+        lastDeliveredAt: readAt,
+      });
+
+      const receipt = await service.markDelivered('user2', 'room1', 'msg1');
+
+      expect(receipt).toMatchObject({
+        lastReadMessageId: 'older',
+        lastReadAt: readAt.toISOString(),
+        lastDeliveredAt: sentAt.toISOString(),
+      });
+    });
+  });
+
+  describe('markVoicePlayed', () => {
+    const note = (overrides: Record<string, unknown> = {}) => ({
+      durationMs: 4200,
+      playedAt: null,
+      message: {
+        id: 'msg1',
+        roomId: 'room1',
+        senderId: 'user1',
+        deletedAt: null,
+        room: { isGroup: false },
+      },
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      prisma.membership.findUnique.mockResolvedValue({ id: 'mem2' });
+    });
+
+    it('records the first play by the recipient of a DM', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(note());
+
+      const played = await service.markVoicePlayed('user2', 'room1', 'att1');
+
+      expect(prisma.attachment.updateMany).toHaveBeenCalledWith({
+        where: { id: 'att1', playedAt: null },
+        data: { playedAt: expect.any(Date) as Date },
+      });
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+      expect(played).toMatchObject({
+        roomId: 'room1',
+        messageId: 'msg1',
+        attachmentId: 'att1',
+      });
+    });
+
+    it('reports the play without waiting for the cache invalidation', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(note());
+      // Still debouncing behind other activity in the room
+      cache.invalidateMessages.mockReturnValue(new Promise(() => {}));
+
+      await expect(
+        service.markVoicePlayed('user2', 'room1', 'att1'),
+      ).resolves.toMatchObject({ attachmentId: 'att1' });
+    });
+
+    it('ignores the sender, group rooms and repeat plays', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(note());
+      await expect(
+        service.markVoicePlayed('user1', 'room1', 'att1'),
+      ).resolves.toBeNull();
+
+      prisma.attachment.findUnique.mockResolvedValue(
+        note({
+          message: { ...note().message, room: { isGroup: true } },
+        }),
+      );
+      await expect(
+        service.markVoicePlayed('user2', 'room1', 'att1'),
+      ).resolves.toBeNull();
+
+      prisma.attachment.findUnique.mockResolvedValue(note());
+      prisma.attachment.updateMany.mockResolvedValue({ count: 0 });
+      await expect(
+        service.markVoicePlayed('user2', 'room1', 'att1'),
+      ).resolves.toBeNull();
+      expect(cache.invalidateMessages).not.toHaveBeenCalled();
+    });
+
+    it('only accepts voice notes sent to the given room', async () => {
+      prisma.attachment.findUnique.mockResolvedValue(
+        note({ durationMs: null }),
+      );
+      await expect(
+        service.markVoicePlayed('user2', 'room1', 'att1'),
+      ).rejects.toThrow(NotFoundException);
+
+      prisma.attachment.findUnique.mockResolvedValue(note());
+      await expect(
+        service.markVoicePlayed('user2', 'room2', 'att1'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('calls', () => {
+    const call = {
+      id: 'call1',
+      roomId: 'room1',
+      callerId: 'user1',
+      calleeId: 'user2',
+      video: false,
+      status: 'active' as const,
+      startedAt: '2025-09-18T10:00:00.000Z',
+      answeredAt: '2025-09-18T10:00:05.000Z',
+      iceServers: [],
+    };
+
+    beforeEach(() => {
+      prisma.message.create.mockImplementation(
+        ({ data }: { data: Record<string, string> }) => ({
+          id: 'sys1',
+          clientMsgId: null,
+          replyToId: null,
+          editedAt: null,
+          deletedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }),
+      );
+    });
+
+    it('records how a call went as a system message from the caller', async () => {
+      const completed = await service.recordCall({
+        call,
+        outcome: 'completed',
+        durationMs: 185_000,
+      });
+      expect(completed).toMatchObject({
+        type: 'system',
+        userId: 'user1',
+        content: 'Voice call · 3:05',
+      });
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+
+      const missed = await service.recordCall({
+        call: { ...call, video: true },
+        outcome: 'missed',
+        durationMs: null,
+      });
+      expect(missed.content).toBe('Missed video call');
+    });
+
+    it('finds the other member of a DM and refuses other rooms', async () => {
+      const members = [{ userId: 'user1' }, { userId: 'user2' }];
+      prisma.room.findUnique.mockResolvedValue({ type: 'dm', members });
+      await expect(service.getDmPeerId('user1', 'room1')).resolves.toBe(
+        'user2',
+      );
+      await expect(service.getDmPeerId('user3', 'room1')).rejects.toThrow(
+        NotFoundException,
+      );
+
+      prisma.room.findUnique.mockResolvedValue({ type: 'group', members });
+      await expect(service.getDmPeerId('user1', 'room1')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('drafts', () => {
+    it('stores blank text as a cleared draft', async () => {
+      const draft = await service.saveDraft('user1', 'room1', '  \n ');
+
+      expect(draft).toMatchObject({ roomId: 'room1', content: null });
+      expect(prisma.membership.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user1', roomId: 'room1' },
+        data: { draft: null, draftUpdatedAt: null },
+      });
+      expect(cache.invalidateConversations).toHaveBeenCalledWith('user1');
+    });
+
+    it('only reports a cleared draft when there was one', async () => {
+      prisma.membership.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(service.clearDraft('user1', 'room1')).resolves.toBeNull();
+      expect(cache.invalidateConversations).not.toHaveBeenCalled();
+    });
+
+    it('rejects drafts for rooms the user is not in', async () => {
+      prisma.membership.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.saveDraft('outsider', 'room1', 'Hello'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+
+  describe('conversation settings', () => {
+    const settingsRow = (overrides: Record<string, unknown> = {}) => ({
+      roomId: 'room1',
+      muted: false,
+      mutedUntil: null,
+      archivedAt: null,
+      pinOrder: null,
+      ...overrides,
+    });
+
+    beforeEach(() => {
+      prisma.membership.findUnique.mockResolvedValue(settingsRow());
+      prisma.membership.update.mockImplementation(
+        ({ data }: { data: Record<string, unknown> }) => settingsRow(data),
+      );
+    });
+
+    it('mutes until a time, or for good', async () => {
+      const until = new Date(Date.now() + 60 * 60 * 1000);
+
+      await expect(
+        service.updateConversationSettings('user1', 'room1', {
+          muted: true,
+          mutedUntil: until,
+        }),
+      ).resolves.toEqual({
+        roomId: 'room1',
+        muted: true,
+        mutedUntil: until.toISOString(),
+        archived: false,
+        pinOrder: null,
+      });
+      await expect(
+        service.updateConversationSettings('user1', 'room1', { muted: true }),
+      ).resolves.toMatchObject({ muted: true, mutedUntil: null });
+      expect(cache.invalidateConversations).toHaveBeenCalledWith('user1');
+    });
+
+    it('rejects mutes that have already ended and pinned archives', async () => {
+      await expect(
+        service.updateConversationSettings('user1', 'room1', {
+          muted: true,
+          mutedUntil: new Date(Date.now() - 1000),
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.updateConversationSettings('user1', 'room1', {
+          archived: true,
+          pinned: true,
+        }),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.membership.update).not.toHaveBeenCalled();
+    });
+
+    it('pins after the other pins, and archiving unpins', async () => {
+      prisma.membership.findFirst.mockResolvedValue({ pinOrder: 2 });
+
+      await expect(
+        service.updateConversationSettings('user1', 'room1', { pinned: true }),
+      ).resolves.toMatchObject({ pinOrder: 3 });
+
+      prisma.membership.findUnique.mockResolvedValue(
+        settingsRow({ pinOrder: 3 }),
+      );
+      await expect(
+        service.updateConversationSettings('user1', 'room1', {
+          archived: true,
+        }),
+      ).resolves.toMatchObject({ archived: true, pinOrder: null });
+    });
+
+    it('rejects settings for rooms the user is not in', async () => {
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.updateConversationSettings('outsider', 'room1', {
+          muted: true,
+        }),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+
+    it('reorders exactly the pinned conversations', async () => {
+      prisma.membership.findMany.mockResolvedValue([
+        { roomId: 'room1' },
+        { roomId: 'room2' },
+      ]);
+      prisma.$transaction.mockImplementation((ops: Promise<unknown>[]) =>
+        Promise.all(ops),
+      );
+      prisma.membership.update.mockImplementation(
+        ({
+          where,
+          data,
+        }: {
+          where: { userId_roomId: { roomId: string } };
+          data: { pinOrder: number };
+        }) => settingsRow({ roomId: where.userId_roomId.roomId, ...data }),
+      );
+
+      await expect(
+        service.reorderPinnedConversations('user1', ['room2', 'room1']),
+      ).resolves.toEqual([
+        expect.objectContaining({ roomId: 'room2', pinOrder: 0 }),
+        expect.objectContaining({ roomId: 'room1', pinOrder: 1 }),
+      ]);
+      await expect(
+        service.reorderPinnedConversations('user1', ['room2']),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      await expect(
+        service.reorderPinnedConversations('user1', ['room2', 'room2']),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('unarchives on a new message for members who have not muted it', async () => {
+      const archivedAt = new Date('2025-09-01T00:00:00Z');
+      prisma.membership.findMany.mockResolvedValue([
+        { id: 'm2', userId: 'user2', ...settingsRow({ archivedAt }) },
+        {
+          id: 'm3',
+          userId: 'user3',
+          ...settingsRow({ archivedAt, muted: true }),
+        },
+        {
+          id: 'm4',
+          userId: 'user4',
+          // The mute has run out
+          ...settingsRow({
+            archivedAt,
+            muted: true,
+            mutedUntil: new Date(Date.now() - 1000),
+          }),
+        },
+      ]);
+
+      const changes = await service.unarchiveOnNewMessage('room1', 'user1');
+
+      expect(prisma.membership.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            roomId: 'room1',
+            userId: { not: 'user1' },
+            archivedAt: { not: null },
+          },
+        }),
+      );
+      expect(prisma.membership.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: ['m2', 'm4'] } },
+        data: { archivedAt: null },
+      });
+      expect(changes.map((c) => c.userId)).toEqual(['user2', 'user4']);
+      expect(changes[0]!.settings).toMatchObject({ archived: false });
+    });
+  });
+
+  describe('group administration', () => {
+    const usernames: Record<string, string> = {
+      user1: 'alice',
+      user2: 'bob',
+      user3: 'carol',
+    };
+
+    beforeEach(() => {
+      prisma.user.findMany.mockImplementation(
+        ({ where }: { where: { id: { in: string[] } } }) =>
+          where.id.in.map((id) => ({ id, username: usernames[id] })),
+      );
+      prisma.message.create.mockImplementation(
+        ({ data }: { data: Record<string, string> }) => ({
+          id: 'sys1',
+          clientMsgId: null,
+          replyToId: null,
+          editedAt: null,
+          deletedAt: null,
+          createdAt: new Date(),
+          ...data,
+        }),
+      );
+      prisma.room.findUnique.mockResolvedValue({
+        id: 'room1',
+        name: 'Design',
+        avatar: null,
+        members: [],
+      });
+    });
+
+    it('lets admins add members and records it as a system message', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'admin',
+        room: { isGroup: true },
+      });
+      prisma.membership.findMany.mockResolvedValue([{ userId: 'user3' }]);
+
+      const change = await service.addGroupMembers('user1', 'room1', [
+        'user2',
+        'user3',
+      ]);
+
+      expect(prisma.membership.createMany).toHaveBeenCalledWith({
+        data: [{ userId: 'user2', roomId: 'room1', role: 'member' }],
+        skipDuplicates: true,
+      });
+      expect(prisma.groupJoinRequest.deleteMany).toHaveBeenCalledWith({
+        where: { roomId: 'room1', userId: { in: ['user2'] } },
+      });
+      expect(change.added).toEqual(['user2']);
+      expect(change.message).toMatchObject({
+        type: 'system',
+        userId: 'user1',
+        content: 'alice added bob',
+      });
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+    });
+
+    it('refuses regular members', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'member',
+        room: { isGroup: true },
+      });
+
+      await expect(
+        service.addGroupMembers('user1', 'room1', ['user2']),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      await expect(
+        service.updateGroup('user1', 'room1', { name: 'Renamed' }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.room.update).not.toHaveBeenCalled();
+    });
+
+    it('only lets the owner remove admins', async () => {
+      prisma.membership.findUnique
+        .mockResolvedValueOnce({ role: 'admin', room: { isGroup: true } })
+        .mockResolvedValueOnce({ role: 'admin', user: { username: 'bob' } });
+
+      await expect(
+        service.removeGroupMember('user1', 'room1', 'user2'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.membership.delete).not.toHaveBeenCalled();
+    });
+
+    it('does not manage DMs', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'owner',
+        room: { isGroup: false },
+      });
+
+      await expect(
+        service.setGroupMemberRole('user1', 'room1', 'user2', 'admin'),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+
+    it('hands ownership to the longest-standing admin when the owner leaves', async () => {
+      prisma.membership.findUnique.mockResolvedValue({
+        role: 'owner',
+        room: { isGroup: true },
+      });
+      tx.membership.findFirst.mockResolvedValueOnce({
+        id: 'mem3',
+        userId: 'user3',
+      });
+
+      const change = await service.leaveGroup('user1', 'room1');
+
+      expect(tx.membership.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { roomId: 'room1', role: 'admin' } }),
+      );
+      expect(tx.membership.update).toHaveBeenCalledWith({
+        where: { id: 'mem3' },
+        data: { role: 'owner' },
+      });
+      expect(change.removed).toEqual(['user1']);
+      expect(change.message.content).toBe(
+        'alice left and made carol the group owner',
+      );
+      expect(cache.invalidateConversations).toHaveBeenCalledWith('user1');
+    });
+
+    describe('channels', () => {
+      it('only lets admins post, but anyone reply in threads', async () => {
+        prisma.membership.findUnique.mockResolvedValue({
+          role: 'member',
+          room: { type: 'channel' },
+        });
+        await expect(service.canPost('user2', 'room1')).resolves.toBe(false);
+        await expect(service.canPost('user2', 'room1', 'msg1')).resolves.toBe(
+          true,
+        );
+
+        prisma.membership.findUnique.mockResolvedValue({
+          role: 'admin',
+          room: { type: 'channel' },
+        });
+        await expect(service.canPost('user1', 'room1')).resolves.toBe(true);
+
+        prisma.membership.findUnique.mockResolvedValue({
+          role: 'member',
+          room: { type: 'group' },
+        });
+        await expect(service.canPost('user2', 'room1')).resolves.toBe(true);
+      });
+
+      it('keeps members’ replies out of the main history', async () => {
+        prisma.membership.findUnique.mockResolvedValue({
+          role: 'member',
+          room: { type: 'channel' },
+        });
+        // A member's quote-reply is let through as a thread reply...
+        await expect(service.canPost('user2', 'room1', 'msg1')).resolves.toBe(
+          true,
+        );
+
+        // ...but the room's history only lists top-level posts in channels
+        prisma.message.findMany.mockResolvedValue([]);
+        await service.getMessages('user2', 'room1');
+        expect(prisma.message.findMany).toHaveBeenCalledWith(
+          expect.objectContaining({
+            where: expect.objectContaining({
+              roomId: 'room1',
+              NOT: { replyToId: { not: null }, room: { type: 'channel' } },
+            }),
+          }),
+        );
+      });
+
+      it('joins channels but not other rooms', async () => {
+        prisma.room.findUnique.mockResolvedValueOnce({ type: 'group' });
+        await expect(
+          service.joinChannel('user2', 'room1'),
+        ).rejects.toBeInstanceOf(NotFoundException);
+
+        prisma.room.findUnique.mockResolvedValueOnce({ type: 'channel' });
+        prisma.membership.findUnique.mockResolvedValue(null);
+        const change = await service.joinChannel('user2', 'room1');
+
+        expect(prisma.membership.create).toHaveBeenCalledWith({
+          data: { userId: 'user2', roomId: 'room1', role: 'member' },
+        });
+        expect(change.added).toEqual(['user2']);
+        expect(change.message.content).toBe('bob joined');
+      });
+    });
+
+    describe('invite links', () => {
+      const invite = {
+        id: 'inv1',
+        token: 'token1',
+        roomId: 'room1',
+        expiresAt: null,
+        maxUses: 5,
+        uses: 2,
+        requiresApproval: false,
+        revokedAt: null,
+        createdAt: new Date(),
+        createdBy: { id: 'user1', username: 'alice' },
+      };
+
+      it('joins the group and claims one of the remaining uses', async () => {
+        prisma.groupInvite.findUnique.mockResolvedValue(invite);
+        prisma.membership.findUnique.mockResolvedValue(null);
+
+        const result = await service.redeemInvite('user2', 'token1');
+
+        expect(tx.groupInvite.updateMany).toHaveBeenCalledWith({
+          where: { id: 'inv1', revokedAt: null, uses: { lt: 5 } },
+          data: { uses: { increment: 1 } },
+        });
+        expect(tx.membership.createMany).toHaveBeenCalledWith({
+          data: [{ userId: 'user2', roomId: 'room1', role: 'member' }],
+          skipDuplicates: true,
+        });
+        expect(result.status).toBe('joined');
+        expect(result.change?.added).toEqual(['user2']);
+        expect(result.change?.message.content).toBe(
+          'bob joined via an invite link',
+        );
+      });
+
+      it('treats a concurrent redemption as already joined', async () => {
+        prisma.groupInvite.findUnique.mockResolvedValue(invite);
+        prisma.membership.findUnique.mockResolvedValue(null);
+        // The other request created the membership first
+        tx.membership.createMany.mockResolvedValue({ count: 0 });
+
+        const result = await service.redeemInvite('user2', 'token1');
+
+        expect(result).toEqual({
+          status: 'joined',
+          roomId: 'room1',
+          change: null,
+        });
+        expect(tx.groupInvite.updateMany).not.toHaveBeenCalled();
+        expect(prisma.message.create).not.toHaveBeenCalled();
+      });
+
+      it('approves a request from someone who has since joined', async () => {
+        prisma.membership.findUnique.mockResolvedValue({
+          role: 'admin',
+          room: { isGroup: true },
+        });
+        prisma.groupJoinRequest.findUnique.mockResolvedValue({
+          id: 'req1',
+          inviteId: 'inv1',
+        });
+        tx.membership.createMany.mockResolvedValue({ count: 0 });
+
+        await expect(
+          service.approveJoinRequest('user1', 'room1', 'user2'),
+        ).resolves.toBeNull();
+        expect(tx.groupJoinRequest.delete).toHaveBeenCalledWith({
+          where: { id: 'req1' },
+        });
+        expect(tx.groupInvite.update).not.toHaveBeenCalled();
+        expect(prisma.message.create).not.toHaveBeenCalled();
+      });
+
+      it('files a join request when the link needs approval', async () => {
+        prisma.groupInvite.findUnique.mockResolvedValue({
+          ...invite,
+          requiresApproval: true,
+        });
+        prisma.membership.findUnique.mockResolvedValue(null);
+
+        const result = await service.redeemInvite('user2', 'token1');
+
+        expect(prisma.groupJoinRequest.upsert).toHaveBeenCalledWith({
+          where: { roomId_userId: { roomId: 'room1', userId: 'user2' } },
+          create: { inviteId: 'inv1', roomId: 'room1', userId: 'user2' },
+          update: {},
+        });
+        expect(tx.membership.createMany).not.toHaveBeenCalled();
+        expect(result).toEqual({
+          status: 'pending',
+          roomId: 'room1',
+          change: null,
+        });
+      });
+
+      it('refuses expired and used-up links', async () => {
+        prisma.groupInvite.findUnique.mockResolvedValueOnce({
+          ...invite,
+          expiresAt: new Date(Date.now() - 1000),
+        });
+        await expect(
+          service.redeemInvite('user2', 'token1'),
+        ).rejects.toBeInstanceOf(GoneException);
+
+        prisma.groupInvite.findUnique.mockResolvedValueOnce({
+          ...invite,
+          uses: 5,
+        });
+        await expect(
+          service.previewInvite('user2', 'token1'),
+        ).rejects.toBeInstanceOf(GoneException);
+        expect(tx.membership.createMany).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -1,27 +1,378 @@
 import {
   BadRequestException,
   ForbiddenException,
+  GoneException,
   Injectable,
   InternalServerErrorException,
   NotFoundException,
 } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { toPlainText } from 'shared/markdown';
 import { PrismaService } from '../prisma.service';
 import { CacheService } from '../common/cache.service';
-import { PrismaOptimizer } from '../common/prisma/prisma-optimizer';
+import {
+  PrismaOptimizer,
+  type KeysetPaginationOptions,
+  type KeysetPaginationResult,
+} from '../common/prisma/prisma-optimizer';
+import {
+  ATTACHMENT_SELECT,
+  toAttachmentInfo,
+} from '../attachments/attachments.service';
+import { toLinkPreview } from './link-previews.service';
+import {
+  POLL_SELECT,
+  toPoll,
+  toPollCreate,
+  type PollInput,
+} from './polls.service';
 import type {
+  CallEnd,
   Conversation,
-  ChatMessage,
+  ConversationSettings,
   MessageReaction,
   ConversationMember,
+  MessageEditEntry,
+  MessageDeleteScope,
+  MessageDeletion,
+  MembershipRole,
+  MessagePage,
+  MessagePageDirection,
+  MessageSearchPage,
+  MessageType,
+  PinnedMessage,
+  PinRemoval,
+  RoomType,
+  ChatMessage,
+  ChannelSummary,
+  ForwardResult,
+  GroupChange,
+  GroupInfo,
+  GroupInviteLink,
+  GroupInvitePreview,
+  GroupJoinRequest,
+  InviteRedemption,
+  ReadReceipt,
+  RoomDraft,
+  ThreadPage,
+  UnreadCounts,
+  ThreadSummary,
+  VoiceNotePlayed,
 } from './chat.types';
 
+// Row returned by the full-text search query
+interface SearchRow {
+  id: string;
+  roomId: string;
+  senderId: string;
+  createdAt: Date;
+  username: string;
+  snippet: string;
+}
+
+// ts_headline settings for search snippets; callers render the marks
+const SEARCH_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+
+// Message row as selected by PrismaOptimizer.selects.message.withThread
+interface MessageRow {
+  id: string;
+  roomId: string;
+  senderId: string;
+  content: string;
+  type: string;
+  createdAt: Date;
+  clientMsgId: string | null;
+  replyToId: string | null;
+  editedAt: Date | null;
+  deletedAt: Date | null;
+  sender?: { id: string; username: string } | null;
+  replyTo?: {
+    id: string;
+    content: string;
+    senderId: string;
+    deletedAt: Date | null;
+  } | null;
+  forwardedFrom?: {
+    id: string;
+    roomId: string;
+    senderId: string;
+    sender: { username: string };
+  } | null;
+  _count?: { replies: number };
+  replies?: Array<{
+    createdAt: Date;
+    sender: { id: string; username: string };
+  }>;
+  attachments?: Array<{
+    id: string;
+    fileName: string;
+    mimeType: string;
+    size: number;
+    width: number | null;
+    height: number | null;
+    placeholderColor: string | null;
+    thumbnailWidths: number[];
+    durationMs: number | null;
+    waveform: number[];
+    playedAt: Date | null;
+  }>;
+  linkPreview?: {
+    url: string;
+    title: string | null;
+    description: string | null;
+    imageUrl: string | null;
+    siteName: string | null;
+    removedAt: Date | null;
+  } | null;
+  poll?: {
+    id: string;
+    multipleChoice: boolean;
+    anonymous: boolean;
+    closesAt: Date | null;
+    closedAt: Date | null;
+    options: Array<{
+      id: string;
+      text: string;
+      votes: Array<{ userId: string }>;
+    }>;
+  } | null;
+}
+
+// Membership columns that make up a read receipt
+const RECEIPT_SELECT = {
+  roomId: true,
+  userId: true,
+  lastReadMessageId: true,
+  lastReadAt: true,
+  lastDeliveredAt: true,
+} as const;
+
+interface ReceiptRow {
+  roomId: string;
+  userId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: Date | null;
+  lastDeliveredAt: Date | null;
+}
+
+const toReadReceipt = (row: ReceiptRow): ReadReceipt => ({
+  roomId: row.roomId,
+  userId: row.userId,
+  lastReadMessageId: row.lastReadMessageId,
+  lastReadAt: row.lastReadAt?.toISOString() ?? null,
+  lastDeliveredAt: row.lastDeliveredAt?.toISOString() ?? null,
+});
+
+// Positions only move forward
+const later = (position: Date | null, at: Date) =>
+  position && position > at ? position : at;
+
+// Conversation preview for a message that only carries files
+const ATTACHMENT_PREVIEW = '📎 Attachment';
+
+// Content stored in place of a message deleted for everyone
+export const DELETED_MESSAGE_CONTENT = 'This message was deleted';
+
+// Roles allowed to delete other members' messages
+const MODERATOR_ROLES: MembershipRole[] = ['owner', 'admin'];
+
+// Roles allowed to post top-level messages in a channel
+const CHANNEL_POSTER_ROLES: MembershipRole[] = ['owner', 'admin'];
+
+// Anyone may reply in a channel's threads, so those replies stay out of its
+// main history; otherwise a reply would post where only admins can
+const MAIN_TIMELINE: Prisma.MessageWhereInput = {
+  NOT: { replyToId: { not: null }, room: { type: 'channel' } },
+};
+
+type GroupAction =
+  | 'editInfo'
+  | 'addMembers'
+  | 'removeMembers'
+  | 'changeRoles'
+  | 'transferOwnership'
+  | 'manageInvites'
+  | 'pinMessages';
+
+// Roles allowed to perform each group administration action
+const GROUP_PERMISSIONS: Record<GroupAction, MembershipRole[]> = {
+  editInfo: ['owner', 'admin'],
+  addMembers: ['owner', 'admin'],
+  removeMembers: ['owner', 'admin'], // admins only remove regular members
+  changeRoles: ['owner'],
+  transferOwnership: ['owner'],
+  manageInvites: ['owner', 'admin'],
+  pinMessages: ['owner', 'admin'], // anyone can pin in DMs
+};
+
+// For permission errors: "Group members are not allowed to <label>"
+const GROUP_ACTION_LABELS: Record<GroupAction, string> = {
+  editInfo: 'edit the group info',
+  addMembers: 'add members',
+  removeMembers: 'remove members',
+  changeRoles: 'change member roles',
+  transferOwnership: 'transfer ownership',
+  manageInvites: 'manage invite links',
+  pinMessages: 'pin messages',
+};
+
+// "bob", "bob and carol", "bob, carol and dave"
+const listNames = (names: string[]) =>
+  names.length > 1
+    ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+    : (names[0] ?? '');
+
+// "3:05", or "1:02:05" for calls over an hour
+function formatCallDuration(ms: number) {
+  const total = Math.round(ms / 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const [h, m, s] = [
+    Math.floor(total / 3600),
+    Math.floor(total / 60) % 60,
+    total % 60,
+  ];
+  return h ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+const callSummary = ({ call, outcome, durationMs }: CallEnd) => {
+  const kind = call.video ? 'video call' : 'voice call';
+  if (outcome === 'missed') return `Missed ${kind}`;
+  if (outcome === 'declined') return `Declined ${kind}`;
+  const label = kind[0]!.toUpperCase() + kind.slice(1);
+  return `${label} · ${formatCallDuration(durationMs ?? 0)}`;
+};
+
+const INVITE_SELECT = {
+  id: true,
+  token: true,
+  roomId: true,
+  expiresAt: true,
+  maxUses: true,
+  uses: true,
+  requiresApproval: true,
+  revokedAt: true,
+  createdAt: true,
+  createdBy: { select: { id: true, username: true } },
+} as const;
+
+type InviteRow = Prisma.GroupInviteGetPayload<{
+  select: typeof INVITE_SELECT;
+}>;
+
+const toInviteLink = (row: InviteRow): GroupInviteLink => ({
+  id: row.id,
+  token: row.token,
+  roomId: row.roomId,
+  createdBy: row.createdBy,
+  expiresAt: row.expiresAt?.toISOString() ?? null,
+  maxUses: row.maxUses,
+  uses: row.uses,
+  requiresApproval: row.requiresApproval,
+  createdAt: row.createdAt.toISOString(),
+});
+
+// What forwarding copies from each source message
+const FORWARD_SOURCE_SELECT = {
+  id: true,
+  roomId: true,
+  content: true,
+  type: true,
+  deletedAt: true,
+  forwardedFromId: true,
+  attachments: {
+    select: {
+      storageKey: true,
+      fileName: true,
+      mimeType: true,
+      size: true,
+      width: true,
+      height: true,
+      placeholderColor: true,
+      thumbnailWidths: true,
+      durationMs: true,
+      waveform: true, // a forwarded note starts out unplayed
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+} as const;
+
+type ForwardSourceRow = Prisma.MessageGetPayload<{
+  select: typeof FORWARD_SOURCE_SELECT;
+}>;
+
+const PIN_SELECT = {
+  roomId: true,
+  messageId: true,
+  pinnedAt: true,
+  pinnedBy: { select: { id: true, username: true } },
+  message: {
+    select: {
+      content: true,
+      senderId: true,
+      createdAt: true,
+      _count: { select: { attachments: true } },
+    },
+  },
+} as const;
+
+type PinRow = Prisma.PinnedMessageGetPayload<{ select: typeof PIN_SELECT }>;
+
+const toPinnedMessage = (row: PinRow): PinnedMessage => ({
+  roomId: row.roomId,
+  messageId: row.messageId,
+  content:
+    toPlainText(row.message.content) ||
+    (row.message._count.attachments ? ATTACHMENT_PREVIEW : ''),
+  senderId: row.message.senderId,
+  createdAt: row.message.createdAt.toISOString(),
+  pinnedBy: row.pinnedBy,
+  pinnedAt: row.pinnedAt.toISOString(),
+});
+
+const SETTINGS_SELECT = {
+  roomId: true,
+  muted: true,
+  mutedUntil: true,
+  archivedAt: true,
+  pinOrder: true,
+} as const;
+
+type SettingsRow = Prisma.MembershipGetPayload<{
+  select: typeof SETTINGS_SELECT;
+}>;
+
+const toConversationSettings = (row: SettingsRow): ConversationSettings => ({
+  roomId: row.roomId,
+  muted: row.muted,
+  mutedUntil: row.mutedUntil?.toISOString() ?? null,
+  archived: row.archivedAt !== null,
+  pinOrder: row.pinOrder,
+});
+
+// A timed mute stops counting once its end has passed
+export const isMuted = (
+  row: Pick<SettingsRow, 'muted' | 'mutedUntil'>,
+  now = new Date(),
+) => row.muted && (!row.mutedUntil || row.mutedUntil > now);
+
 @Injectable()
 export class ChatService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly cache: CacheService,
+    private readonly configService: ConfigService,
   ) {}
 
+  private get deleteForEveryoneWindow(): number {
+    return (
+      this.configService.get<number>('app.chat.deleteForEveryoneWindow') ??
+      172800
+    );
+  }
+
   // ---------- USER VALIDATION ----------
   /**
    * Validates that a user exists in the database
@@ -62,27 +413,6 @@ export class ChatService {
     }
   }
 
-  /**
-   * Updates user's last seen timestamp.
-   * Only works for existing users - no fallback creation.
-   */
-  async updateLastSeen(userId: string): Promise<void> {
-    try {
-      await this.prisma.user.update({
-        where: { id: userId },
-        data: { updatedAt: new Date() },
-      });
-    } catch (error: any) {
-      if (error.code === 'P2025') {
-        // Record not found
-        throw new BadRequestException(
-          `Cannot update last seen for user ${userId}: User not found. User must be registered first.`,
-        );
-      }
-      throw error;
-    }
-  }
-
   // ---------- ROOMS / MEMBERS ----------
   async ensureRoom(roomId: string) {
     await this.prisma.room.upsert({
@@ -95,7 +425,7 @@ export class ChatService {
   async createRoom({ name, isGroup }: { name?: string; isGroup?: boolean }) {
     try {
       return await this.prisma.room.create({
-        data: { name, isGroup: !!isGroup },
+        data: { name, isGroup: !!isGroup, type: isGroup ? 'group' : 'dm' },
       });
     } catch (err: unknown) {
       // Throw a real HTTP/WebSocket exception (not ExceptionsHandler)
@@ -113,6 +443,14 @@ export class ChatService {
     return !!exists;
   }
 
+  async listRoomIds(userId: string): Promise<string[]> {
+    const memberships = await this.prisma.membership.findMany({
+      where: { userId },
+      select: { roomId: true },
+    });
+    return memberships.map((m) => m.roomId);
+  }
+
   async addMember(userId: string, roomId: string, role: string = 'member') {
     // Validate user exists - no automatic creation
     await this.validateUserExists(userId);
@@ -124,25 +462,6 @@ export class ChatService {
     });
   }
 
-  async addMembers(roomId: string, userIds: string[]) {
-    if (!userIds.length) return [];
-
-    // Validate all users exist first - no automatic creation
-    await this.validateUsersExist(userIds);
-
-    // Create memberships for existing users
-    await this.prisma.membership.createMany({
-      data: userIds.map((userId) => ({ userId, roomId, role: 'member' })),
-      skipDuplicates: true,
-    });
-
-    return await this.prisma.membership.findMany({
-      where: { roomId },
-      select: PrismaOptimizer.selects.membership.withUser, // Optimized select
-      orderBy: { role: 'asc' }, // Owners first, then members
-    });
-  }
-
   async listConversations(userId: string): Promise<Conversation[]> {
     // Try cache first
     const cached = await this.cache.getCachedConversations(userId);
@@ -161,13 +480,18 @@ export class ChatService {
       select: {
         id: true,
         role: true,
+        draft: true,
+        ...SETTINGS_SELECT,
         room: {
           select: {
             id: true,
             name: true,
+            avatar: true,
+            type: true,
             isGroup: true,
             members: {
               select: {
+                role: true,
                 user: {
                   select: PrismaOptimizer.selects.user.minimal, // Optimized
                 },
@@ -175,7 +499,11 @@ export class ChatService {
               take: 50, // Limit to prevent N+1 issues with large groups
             },
             messages: {
-              select: PrismaOptimizer.selects.message.minimal, // Optimized
+              where: MAIN_TIMELINE,
+              select: {
+                ...PrismaOptimizer.selects.message.minimal, // Optimized
+                _count: { select: { attachments: true } },
+              },
               orderBy: { createdAt: 'desc' },
               take: 1,
             },
@@ -184,10 +512,14 @@ export class ChatService {
       },
     });
 
+    const counts = new Map(
+      (await this.getUnreadCounts({ userId })).map((c) => [c.roomId, c]),
+    );
+
     const conversations = memberships.map((m) => {
       const room = m.room;
       let name = room.name || 'Unnamed Room';
-      const avatar: string | null = null;
+      const avatar = room.avatar;
 
       // for DMs, use the other user's name
       if (!room.isGroup && room.members.length === 2) {
@@ -204,18 +536,37 @@ export class ChatService {
         id: room.id,
         name,
         avatar,
+        type: room.type as RoomType,
         isGroup: room.isGroup,
-        last: lastMsg?.content || null,
+        role: m.role,
+        last:
+          (lastMsg && toPlainText(lastMsg.content)) ||
+          (lastMsg?._count.attachments ? ATTACHMENT_PREVIEW : null),
         lastMessageAt: lastMsg?.createdAt ? lastMsg.createdAt.toISOString() : null, // Convert Date to ISO string
+        unreadCount: counts.get(room.id)?.unreadCount ?? 0,
+        mentionCount: counts.get(room.id)?.mentionCount ?? 0,
+        draft: m.draft,
+        muted: m.muted,
+        mutedUntil: m.mutedUntil?.toISOString() ?? null,
+        archived: m.archivedAt !== null,
+        pinOrder: m.pinOrder,
         members: room.members.map((mem) => ({
           id: mem.user.id,
           username: mem.user.username,
+          role: mem.role as MembershipRole,
         })),
       };
     });
 
-    // Sort conversations by latest message timestamp (most recent first)
+    // Pinned conversations first in the member's order, then the rest by
+    // latest message timestamp (most recent first)
     conversations.sort((a, b) => {
+      if (a.pinOrder !== b.pinOrder) {
+        if (a.pinOrder === null) return 1;
+        if (b.pinOrder === null) return -1;
+        return a.pinOrder - b.pinOrder;
+      }
+
       // Conversations without messages go to the bottom
       if (!a.lastMessageAt && !b.lastMessageAt) return 0;
       if (!a.lastMessageAt) return 1;
@@ -231,65 +582,443 @@ export class ChatService {
     return conversations;
   }
   // ---------- MESSAGES ----------
+  /**
+   * Returns one page of a room's history, oldest first. Without a cursor the
+   * latest messages are returned; `before` walks back into older history and
+   * `after` catches up on newer messages from a known position.
+   */
   async getMessages(
     userId: string,
     roomId: string,
-    opts?: { limit?: number },
-  ): Promise<ChatMessage[]> {
-    const take = Math.min(Math.max(opts?.limit ?? 3000, 1), 5000);
-    const page = 0; // For now we only support page 0, but this could be extended for pagination
-
-    // Try cache first (for smaller result sets)
-    if (take <= 5000) {
-      // Only cache reasonably sized result sets
-      const cached = await this.cache.getCachedMessages(roomId, page);
-      if (cached) {
-        console.log(`📖 Cache hit for messages: ${roomId} (limit: ${take})`);
-        return (cached as ChatMessage[]).slice(0, take); // Return only requested amount
-      }
+    opts?: {
+      limit?: number;
+      cursor?: string;
+      direction?: MessagePageDirection;
+    },
+  ): Promise<MessagePage> {
+    const take = Math.min(Math.max(opts?.limit ?? 50, 1), 100);
+    const direction = opts?.direction ?? 'before';
+    const cursor = opts?.cursor;
+
+    if (cursor && !PrismaOptimizer.decodeCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (!(await this.isMember(userId, roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    // Each (direction, cursor, limit) combination is cached as its own page
+    const page = `${direction}:${cursor ?? 'latest'}:${take}`;
+
+    const cached = await this.cache.getCachedMessages<MessagePage>(
+      roomId,
+      page,
+    );
+    if (cached) {
+      console.log(`📖 Cache hit for messages: ${roomId} (page: ${page})`);
+      return this.forReader(userId, roomId, cached);
     }
 
     console.log(
-      `💾 Cache miss for messages: ${roomId} (limit: ${take}) - querying database`,
+      `💾 Cache miss for messages: ${roomId} (page: ${page}) - querying database`,
     );
 
-    // Get the most recent messages first (desc), then reverse to show oldest first
-    // Use optimized select with sender info
-    const messages = await this.prisma.message.findMany({
-      where: { roomId },
-      orderBy: { createdAt: 'desc' },
+    const result = await this.getRecentMessages(roomId, {
+      cursor,
       take,
-      select: PrismaOptimizer.selects.message.withSender, // Optimized select
+      direction: direction === 'before' ? 'backward' : 'forward',
+    });
+    const messagePage = await this.toMessagePage(result, direction, cursor);
+
+    // Cache page (10 minutes - improved TTL strategy)
+    await this.cache.cacheMessages(roomId, messagePage, page);
+
+    return this.forReader(userId, roomId, messagePage);
+  }
+
+  /**
+   * Lists replies to a message as a page of the thread, with the parent
+   * message included. Paging works like getMessages.
+   */
+  async getThreadReplies(
+    userId: string,
+    messageId: string,
+    opts?: {
+      limit?: number;
+      cursor?: string;
+      direction?: MessagePageDirection;
+    },
+  ): Promise<ThreadPage> {
+    const take = Math.min(Math.max(opts?.limit ?? 50, 1), 100);
+    const direction = opts?.direction ?? 'before';
+    const cursor = opts?.cursor;
+
+    if (cursor && !PrismaOptimizer.decodeCursor(cursor)) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const parent = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: PrismaOptimizer.selects.message.withThread,
+    });
+
+    if (!parent) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (!(await this.isMember(userId, parent.roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    const result = await PrismaOptimizer.keysetPaginate(
+      (args) =>
+        this.prisma.message.findMany({
+          where: {
+            replyToId: messageId,
+            ...(args.where || {}), // Include cursor condition
+          },
+          select: PrismaOptimizer.selects.message.withThread,
+          orderBy: args.orderBy,
+          take: args.take,
+        }),
+      {
+        cursor,
+        take,
+        direction: direction === 'before' ? 'backward' : 'forward',
+      },
+    );
+
+    const [page, parentMessage] = await Promise.all([
+      this.toMessagePage(result, direction, cursor),
+      this.getMessageReactions(parent.id).then((reactions) =>
+        this.toChatMessage(parent, reactions),
+      ),
+    ]);
+    const [visible, [parentForReader]] = await Promise.all([
+      this.forReader(userId, parent.roomId, page),
+      this.withMyVotes(userId, [parentMessage]),
+    ]);
+
+    return { ...visible, parent: parentForReader! };
+  }
+
+  /**
+   * Current reply count and latest replier for a thread parent
+   */
+  async getThreadSummary(messageId: string): Promise<ThreadSummary> {
+    const parent = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: {
+        id: true,
+        roomId: true,
+        _count: { select: { replies: true } },
+        replies: {
+          select: {
+            createdAt: true,
+            sender: { select: { id: true, username: true } },
+          },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+        },
+      },
+    });
+
+    if (!parent) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const latest = parent.replies[0];
+    return {
+      messageId: parent.id,
+      roomId: parent.roomId,
+      replyCount: parent._count.replies,
+      lastReplyAt: latest ? latest.createdAt.toISOString() : null,
+      lastReplier: latest ? latest.sender : null,
+    };
+  }
+
+  /**
+   * Returns the history around a message (e.g. a search hit) - up to half the
+   * limit on each side - with cursors to keep paging in both directions.
+   */
+  async getMessageContext(
+    userId: string,
+    messageId: string,
+    opts?: { limit?: number },
+  ): Promise<MessagePage> {
+    const take = Math.min(Math.max(opts?.limit ?? 50, 1), 100);
+    const side = Math.max(Math.floor(take / 2), 1);
+
+    const target = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: PrismaOptimizer.selects.message.withThread,
+    });
+
+    if (!target) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (!(await this.isMember(userId, target.roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    const cursor = PrismaOptimizer.encodeCursor(target);
+    const [older, newer] = await Promise.all([
+      this.getRecentMessages(target.roomId, {
+        cursor,
+        take: side,
+        direction: 'backward',
+      }),
+      this.getRecentMessages(target.roomId, {
+        cursor,
+        take: side,
+        direction: 'forward',
+      }),
+    ]);
+
+    const rows = [...[...older.data].reverse(), target, ...newer.data];
+    const oldest = rows[0] ?? target;
+    const newest = rows[rows.length - 1] ?? target;
+
+    return this.forReader(userId, target.roomId, {
+      messages: await this.toChatMessages(rows),
+      olderCursor: PrismaOptimizer.encodeCursor(oldest),
+      newerCursor: PrismaOptimizer.encodeCursor(newest),
+      hasOlder: older.hasNextPage,
+      hasNewer: newer.hasNextPage,
     });
+  }
+
+  // ---------- SEARCH ----------
+  /**
+   * Full-text search over messages in rooms the user belongs to, newest
+   * first. Deleted messages and ones the user hid are never returned.
+   */
+  async searchMessages(
+    userId: string,
+    opts: {
+      query: string;
+      roomId?: string;
+      senderId?: string;
+      from?: Date;
+      to?: Date;
+      cursor?: string;
+      limit?: number;
+    },
+  ): Promise<MessageSearchPage> {
+    const take = Math.min(Math.max(opts.limit ?? 20, 1), 50);
+    const position = opts.cursor
+      ? PrismaOptimizer.decodeCursor(opts.cursor)
+      : null;
+
+    if (opts.cursor && !position) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    if (opts.roomId && !(await this.isMember(userId, opts.roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    // createdAt is stored as UTC without a zone, so compare as plain timestamps
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`to_tsvector('simple', m."searchText") @@ query`,
+      Prisma.sql`m."deletedAt" IS NULL`,
+      Prisma.sql`NOT EXISTS (
+        SELECT 1 FROM "MessageHidden" h
+        WHERE h."messageId" = m."id" AND h."userId" = ${userId}
+      )`,
+    ];
+    if (opts.roomId) {
+      conditions.push(Prisma.sql`m."roomId" = ${opts.roomId}`);
+    }
+    if (opts.senderId) {
+      conditions.push(Prisma.sql`m."senderId" = ${opts.senderId}`);
+    }
+    if (opts.from) {
+      conditions.push(
+        Prisma.sql`m."createdAt" >= ${opts.from.toISOString()}::timestamp`,
+      );
+    }
+    if (opts.to) {
+      conditions.push(
+        Prisma.sql`m."createdAt" <= ${opts.to.toISOString()}::timestamp`,
+      );
+    }
+    if (position) {
+      conditions.push(
+        Prisma.sql`(m."createdAt", m."id") < (${position.createdAt.toISOString()}::timestamp, ${position.id})`,
+      );
+    }
+
+    const rows = await this.prisma.$queryRaw<SearchRow[]>`
+      SELECT m."id", m."roomId", m."senderId", m."createdAt", u."username",
+        ts_headline('simple', m."searchText", query, ${SEARCH_HEADLINE_OPTIONS}) AS "snippet"
+      FROM "Message" m
+      JOIN "Membership" mb ON mb."roomId" = m."roomId" AND mb."userId" = ${userId}
+      JOIN "User" u ON u."id" = m."senderId"
+      CROSS JOIN websearch_to_tsquery('simple', ${opts.query}) query
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY m."createdAt" DESC, m."id" DESC
+      LIMIT ${take + 1}
+    `;
+
+    const hasMore = rows.length > take;
+    const hits = hasMore ? rows.slice(0, take) : rows;
+    const last = hits[hits.length - 1];
+
+    return {
+      results: hits.map((row) => ({
+        id: row.id,
+        roomId: row.roomId,
+        userId: row.senderId,
+        senderUsername: row.username,
+        createdAt: row.createdAt.toISOString(),
+        snippet: row.snippet,
+      })),
+      nextCursor: hasMore && last ? PrismaOptimizer.encodeCursor(last) : null,
+      hasMore,
+    };
+  }
+
+  // Shapes a keyset result into a chronological page with cursors both ways
+  private async toMessagePage(
+    result: KeysetPaginationResult<MessageRow>,
+    direction: MessagePageDirection,
+    cursor?: string,
+  ): Promise<MessagePage> {
+    // Backward pages come newest first; always hand out chronological order
+    const rows =
+      direction === 'before' ? [...result.data].reverse() : result.data;
+
+    const messages = await this.toChatMessages(rows);
+
+    const oldest = rows[0];
+    const newest = rows[rows.length - 1];
+    return {
+      messages,
+      olderCursor: oldest ? PrismaOptimizer.encodeCursor(oldest) : null,
+      newerCursor: newest ? PrismaOptimizer.encodeCursor(newest) : null,
+      hasOlder: direction === 'before' ? result.hasNextPage : !!cursor,
+      hasNewer: direction === 'after' ? result.hasNextPage : !!cursor,
+    };
+  }
 
-    // Reverse to get chronological order (oldest first)
-    // Transform the data to match frontend expectations
-    const transformedMessages = await Promise.all(
-      messages.reverse().map(async (msg) => {
+  private toChatMessages(rows: MessageRow[]): Promise<ChatMessage[]> {
+    return Promise.all(
+      rows.map(async (msg) => {
         // Get reactions for this message separately
         const reactions = await this.getMessageReactions(msg.id);
-
-        return {
-          id: msg.id,
-          roomId: msg.roomId,
-          userId: msg.senderId, // ← Map senderId to userId for frontend
-          content: msg.content,
-          createdAt: msg.createdAt.toISOString(),
-          clientMsgId: msg.clientMsgId,
-          replyToId: msg.replyToId,
-          reactions,
-          // Include sender information for conversation previews
-          senderUsername: msg.sender?.username,
-        };
+        return this.toChatMessage(msg, reactions);
       }),
     );
+  }
 
-    // Cache for smaller result sets (10 minutes - improved TTL strategy)
-    if (take <= 5000) {
-      await this.cache.cacheMessages(roomId, transformedMessages, page);
-    }
+  // Transform a message row to match frontend expectations
+  private toChatMessage(
+    msg: MessageRow,
+    reactions: MessageReaction[],
+  ): ChatMessage {
+    const latestReply = msg.replies?.[0];
+
+    return {
+      id: msg.id,
+      roomId: msg.roomId,
+      userId: msg.senderId, // ← Map senderId to userId for frontend
+      content: msg.content,
+      type: msg.type as MessageType,
+      createdAt: msg.createdAt.toISOString(),
+      clientMsgId: msg.clientMsgId,
+      replyToId: msg.replyToId,
+      reactions,
+      edited: !!msg.editedAt,
+      editedAt: msg.editedAt ? msg.editedAt.toISOString() : null,
+      deleted: !!msg.deletedAt,
+      replyTo: msg.replyTo
+        ? {
+            id: msg.replyTo.id,
+            content: msg.replyTo.content,
+            userId: msg.replyTo.senderId,
+            deleted: !!msg.replyTo.deletedAt,
+          }
+        : null,
+      replyCount: msg._count?.replies ?? 0,
+      lastReplyAt: latestReply ? latestReply.createdAt.toISOString() : null,
+      lastReplier: latestReply ? latestReply.sender : null,
+      // Files go away with a message deleted for everyone
+      attachments: msg.deletedAt
+        ? []
+        : (msg.attachments ?? []).map(toAttachmentInfo),
+      // Include sender information for conversation previews
+      senderUsername: msg.sender?.username,
+      forwardedFrom: msg.forwardedFrom
+        ? {
+            messageId: msg.forwardedFrom.id,
+            roomId: msg.forwardedFrom.roomId,
+            userId: msg.forwardedFrom.senderId,
+            username: msg.forwardedFrom.sender.username,
+          }
+        : null,
+      linkPreview: msg.deletedAt ? null : toLinkPreview(msg.linkPreview),
+      poll: msg.deletedAt ? null : toPoll(msg.poll),
+    };
+  }
+
+  // Pages are cached per room; what differs per reader is added on read
+  private async forReader(
+    userId: string,
+    roomId: string,
+    page: MessagePage,
+  ): Promise<MessagePage> {
+    const visible = await this.excludeHiddenMessages(userId, roomId, page);
+    return {
+      ...visible,
+      messages: await this.withMyVotes(userId, visible.messages),
+    };
+  }
+
+  // The messages cache is shared per room, so "delete for me" is applied per user on read.
+  // Cursors are left untouched so paging still lines up with the full history.
+  private async excludeHiddenMessages(
+    userId: string,
+    roomId: string,
+    page: MessagePage,
+  ): Promise<MessagePage> {
+    if (page.messages.length === 0) return page;
+
+    const hidden = await this.prisma.messageHidden.findMany({
+      where: { userId, message: { roomId } },
+      select: { messageId: true },
+    });
+    if (hidden.length === 0) return page;
+
+    const hiddenIds = new Set(hidden.map((h) => h.messageId));
+    return {
+      ...page,
+      messages: page.messages.filter((m) => !hiddenIds.has(m.id)),
+    };
+  }
+
+  // Fills in the reader's own choice on each poll
+  private async withMyVotes(
+    userId: string,
+    messages: ChatMessage[],
+  ): Promise<ChatMessage[]> {
+    const pollIds = messages.flatMap((m) => (m.poll ? [m.poll.id] : []));
+    if (pollIds.length === 0) return messages;
 
-    return transformedMessages;
+    const votes = await this.prisma.pollVote.findMany({
+      where: { userId, pollId: { in: pollIds } },
+      select: { pollId: true, optionId: true },
+    });
+    return messages.map((m) => {
+      const poll = m.poll;
+      if (!poll) return m;
+      const myVotes = votes
+        .filter((v) => v.pollId === poll.id)
+        .map((v) => v.optionId);
+      return { ...m, poll: { ...poll, myVotes } };
+    });
   }
 
   async saveMessage(input: {
@@ -298,6 +1027,8 @@ export class ChatService {
     content?: string;
     clientMsgId?: string | null;
     replyToId?: string | null;
+    attachmentIds?: string[];
+    poll?: PollInput; // posts a poll; content is its question
   }) {
     // Validate sender exists - no automatic user creation
     await this.validateUserExists(input.senderId);
@@ -310,12 +1041,60 @@ export class ChatService {
       );
     }
 
+    // Polls are for groups and channels
+    if (input.poll) {
+      const room = await this.prisma.room.findUnique({
+        where: { id: input.roomId },
+        select: { type: true },
+      });
+      if (room?.type === 'dm') {
+        throw new BadRequestException(
+          'Polls can only be posted in group conversations',
+        );
+      }
+    }
+
+    // Replies must point at a message in the same room
+    if (input.replyToId) {
+      const parent = await this.prisma.message.findUnique({
+        where: { id: input.replyToId },
+        select: { roomId: true },
+      });
+      if (!parent || parent.roomId !== input.roomId) {
+        throw new BadRequestException('Reply target not found in this room');
+      }
+    }
+
+    // Attachments must be the sender's own uploads that haven't been sent yet
+    const attachmentIds = [...new Set(input.attachmentIds ?? [])];
+    if (attachmentIds.length > 0) {
+      const unsent = await this.prisma.attachment.count({
+        where: {
+          id: { in: attachmentIds },
+          uploaderId: input.senderId,
+          messageId: null,
+        },
+      });
+      if (unsent !== attachmentIds.length) {
+        throw new BadRequestException('Attachment not found or already sent');
+      }
+    }
+
     const data = {
       roomId: input.roomId,
       senderId: input.senderId,
       content: input.content ?? '', // content is required by schema
+      searchText: toPlainText(input.content ?? ''),
       clientMsgId: input.clientMsgId ?? null,
       replyToId: input.replyToId ?? null,
+      attachments:
+        attachmentIds.length > 0
+          ? { connect: attachmentIds.map((id) => ({ id })) }
+          : undefined,
+      ...(input.poll && {
+        type: 'poll',
+        poll: { create: toPollCreate(input.poll) },
+      }),
     };
 
     let saved;
@@ -331,6 +1110,19 @@ export class ChatService {
         create: data,
         include: {
           sender: { select: { id: true, username: true } }, // Include sender info
+          replyTo: {
+            select: {
+              id: true,
+              content: true,
+              senderId: true,
+              deletedAt: true,
+            },
+          },
+          attachments: {
+            select: ATTACHMENT_SELECT,
+            orderBy: { createdAt: 'asc' },
+          },
+          poll: { select: POLL_SELECT },
         },
       });
     } else {
@@ -338,6 +1130,19 @@ export class ChatService {
         data,
         include: {
           sender: { select: { id: true, username: true } }, // Include sender info
+          replyTo: {
+            select: {
+              id: true,
+              content: true,
+              senderId: true,
+              deletedAt: true,
+            },
+          },
+          attachments: {
+            select: ATTACHMENT_SELECT,
+            orderBy: { createdAt: 'asc' },
+          },
+          poll: { select: POLL_SELECT },
         },
       });
     }
@@ -348,10 +1153,21 @@ export class ChatService {
       roomId: saved.roomId,
       userId: saved.senderId, // ← Map senderId to userId for frontend
       content: saved.content,
+      type: saved.type as MessageType,
       createdAt: saved.createdAt.toISOString(),
       clientMsgId: saved.clientMsgId,
       replyToId: saved.replyToId,
+      replyTo: saved.replyTo
+        ? {
+            id: saved.replyTo.id,
+            content: saved.replyTo.content,
+            userId: saved.replyTo.senderId,
+            deleted: !!saved.replyTo.deletedAt,
+          }
+        : null,
+      attachments: saved.attachments.map(toAttachmentInfo),
       senderUsername: saved.sender?.username, // Include sender username
+      poll: toPoll(saved.poll),
     };
 
     // Invalidate caches since we have new message
@@ -365,38 +1181,582 @@ export class ChatService {
     return transformedMessage;
   }
 
-  async getOrCreateDmByUsername(meId: string, otherUsername: string) {
-    const other = await this.prisma.user.findUnique({
-      where: { username: otherUsername.toLowerCase().trim() },
-      select: { id: true },
-    });
-    if (!other) throw new NotFoundException('user_not_found');
-    if (other.id === meId) throw new BadRequestException('self_dm_not_allowed');
+  /**
+   * Edits a message's content. Only the original sender may edit, and the
+   * previous content is kept as a MessageEdit revision.
+   */
+  async editMessage(input: {
+    messageId: string;
+    userId: string;
+    content: string;
+  }) {
+    const { messageId, userId, content } = input;
 
-    // try to find existing 2-member non-group room with optimized query
-    const existing = await this.prisma.room.findFirst({
-      where: {
-        isGroup: false,
-        members: {
-          every: { userId: { in: [meId, other.id] } },
-          some: { userId: meId },
-        },
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: {
+        id: true,
+        roomId: true,
+        senderId: true,
+        content: true,
+        type: true,
+        deletedAt: true,
       },
-      select: { id: true },
     });
-    if (existing)
-      return { id: existing.id, otherUserId: other.id, isNew: false };
-
-    // Create room and memberships in a transaction
-    const result = await PrismaOptimizer.executeTransaction(
-      this.prisma,
-      async (tx) => {
-        const room = await tx.room.create({
-          data: { isGroup: false },
-          select: { id: true },
-        });
 
-        await tx.membership.createMany({
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (message.type === 'system') {
+      throw new BadRequestException('System messages cannot be edited');
+    }
+
+    // The options are fixed once people may have voted on them
+    if (message.type === 'poll') {
+      throw new BadRequestException('Polls cannot be edited');
+    }
+
+    if (message.senderId !== userId) {
+      throw new ForbiddenException('Only the sender can edit this message');
+    }
+
+    if (message.deletedAt) {
+      throw new BadRequestException('Deleted messages cannot be edited');
+    }
+
+    const nextContent = content.trim();
+    if (!nextContent) {
+      throw new BadRequestException('Message content cannot be empty');
+    }
+
+    const changed = message.content !== nextContent;
+
+    // Store the previous revision and apply the edit atomically
+    const updated = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        if (changed) {
+          await tx.messageEdit.create({
+            data: { messageId, content: message.content },
+          });
+        }
+
+        return tx.message.update({
+          where: { id: messageId },
+          data: changed
+            ? {
+                content: nextContent,
+                searchText: toPlainText(nextContent),
+                editedAt: new Date(),
+              }
+            : {},
+          select: PrismaOptimizer.selects.message.withSender,
+        });
+      },
+    );
+
+    await Promise.all([
+      this.cache.invalidateMessages(updated.roomId),
+      // Edited message may be the conversation preview
+      this.invalidateConversationsForRoom(updated.roomId),
+    ]);
+
+    return {
+      id: updated.id,
+      roomId: updated.roomId,
+      userId: updated.senderId,
+      content: updated.content,
+      createdAt: updated.createdAt.toISOString(),
+      clientMsgId: updated.clientMsgId,
+      replyToId: updated.replyToId,
+      edited: !!updated.editedAt,
+      editedAt: updated.editedAt ? updated.editedAt.toISOString() : null,
+      senderUsername: updated.sender?.username,
+    };
+  }
+
+  /**
+   * Deletes a message. Scope "me" hides it for the caller only; scope
+   * "everyone" replaces it with a tombstone for all members. The sender may
+   * delete for everyone within the configured window, owners and admins at
+   * any time.
+   */
+  async deleteMessage(input: {
+    messageId: string;
+    userId: string;
+    scope: MessageDeleteScope;
+  }): Promise<MessageDeletion> {
+    const { messageId, userId, scope } = input;
+
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: {
+        id: true,
+        roomId: true,
+        senderId: true,
+        type: true,
+        createdAt: true,
+        deletedAt: true,
+      },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId: message.roomId } },
+      select: { role: true },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    if (scope === 'me') {
+      await this.prisma.messageHidden.upsert({
+        where: { messageId_userId: { messageId, userId } },
+        create: { messageId, userId },
+        update: {},
+      });
+      // Hidden messages no longer count as unread
+      await this.cache.invalidateConversations(userId);
+
+      return { scope, messageId, roomId: message.roomId, userId };
+    }
+
+    if (message.type === 'system') {
+      throw new BadRequestException(
+        'System messages cannot be deleted for everyone',
+      );
+    }
+
+    // Already a tombstone - nothing left to remove
+    if (message.deletedAt) {
+      return {
+        scope,
+        messageId,
+        roomId: message.roomId,
+        content: DELETED_MESSAGE_CONTENT,
+        deletedAt: message.deletedAt.toISOString(),
+        deletedBy: userId,
+      };
+    }
+
+    const isModerator = MODERATOR_ROLES.includes(
+      membership.role as MembershipRole,
+    );
+    if (!isModerator) {
+      if (message.senderId !== userId) {
+        throw new ForbiddenException(
+          'Only the sender or a room admin can delete this message for everyone',
+        );
+      }
+
+      const ageSeconds = (Date.now() - message.createdAt.getTime()) / 1000;
+      if (ageSeconds > this.deleteForEveryoneWindow) {
+        throw new ForbiddenException(
+          'This message is too old to be deleted for everyone',
+        );
+      }
+    }
+
+    // Drop edit history, reactions and any pin along with the content;
+    // clients unpin it themselves when they get the tombstone
+    const deleted = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        await tx.messageEdit.deleteMany({ where: { messageId } });
+        await tx.reaction.deleteMany({ where: { messageId } });
+        await tx.pinnedMessage.deleteMany({ where: { messageId } });
+
+        return tx.message.update({
+          where: { id: messageId },
+          data: {
+            content: DELETED_MESSAGE_CONTENT,
+            searchText: '',
+            deletedAt: new Date(),
+            editedAt: null,
+          },
+          select: { id: true, roomId: true, deletedAt: true },
+        });
+      },
+    );
+
+    await Promise.all([
+      this.cache.invalidateMessages(deleted.roomId),
+      // Deleted message may be the conversation preview
+      this.invalidateConversationsForRoom(deleted.roomId),
+    ]);
+
+    return {
+      scope,
+      messageId,
+      roomId: deleted.roomId,
+      content: DELETED_MESSAGE_CONTENT,
+      deletedAt: (deleted.deletedAt ?? new Date()).toISOString(),
+      deletedBy: userId,
+    };
+  }
+
+  /**
+   * Lists earlier revisions of a message (newest first) for room members.
+   */
+  async getMessageEdits(
+    userId: string,
+    messageId: string,
+  ): Promise<MessageEditEntry[]> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { id: true, roomId: true },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (!(await this.isMember(userId, message.roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    const edits = await this.prisma.messageEdit.findMany({
+      where: { messageId },
+      select: { id: true, content: true, editedAt: true },
+      orderBy: { editedAt: 'desc' },
+    });
+
+    return edits.map((edit) => ({
+      id: edit.id,
+      content: edit.content,
+      editedAt: edit.editedAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Moves the caller's read position in a room up to a message. Returns
+   * null when the position was already there or further, so stale and
+   * repeated reads don't need to be broadcast. Reading implies delivery.
+   */
+  async markRead(
+    userId: string,
+    roomId: string,
+    messageId: string,
+  ): Promise<ReadReceipt | null> {
+    const { membership, at } = await this.findReceiptPosition(
+      userId,
+      roomId,
+      messageId,
+    );
+    if (membership.lastReadAt && membership.lastReadAt >= at) return null;
+
+    const lastDeliveredAt = later(membership.lastDeliveredAt, at);
+    // Guarded so a concurrent read of a newer message is never overwritten
+    const { count } = await this.prisma.membership.updateMany({
+      where: {
+        userId,
+        roomId,
+        OR: [{ lastReadAt: null }, { lastReadAt: { lt: at } }],
+      },
+      data: { lastReadMessageId: messageId, lastReadAt: at, lastDeliveredAt },
+    });
+    if (count === 0) return null;
+
+    // Cached conversations carry the unread counts
+    await this.cache.invalidateConversations(userId);
+
+    return toReadReceipt({
+      ...membership,
+      lastReadMessageId: messageId,
+      lastReadAt: at,
+      lastDeliveredAt,
+    });
+  }
+
+  /**
+   * Moves the caller's delivery position in a room up to a message a client
+   * received. Returns null when nothing changed.
+   */
+  async markDelivered(
+    userId: string,
+    roomId: string,
+    messageId: string,
+  ): Promise<ReadReceipt | null> {
+    const { membership, at } = await this.findReceiptPosition(
+      userId,
+      roomId,
+      messageId,
+    );
+    if (membership.lastDeliveredAt && membership.lastDeliveredAt >= at) {
+      return null;
+    }
+
+    const { count } = await this.prisma.membership.updateMany({
+      where: {
+        userId,
+        roomId,
+        OR: [{ lastDeliveredAt: null }, { lastDeliveredAt: { lt: at } }],
+      },
+      data: { lastDeliveredAt: at },
+    });
+    if (count === 0) return null;
+
+    return toReadReceipt({ ...membership, lastDeliveredAt: at });
+  }
+
+  /**
+   * Records that the recipient of a DM listened to a voice note, so its
+   * sender can see it was played. Returns null for plays that don't count:
+   * the sender's own, ones in groups and repeats.
+   */
+  async markVoicePlayed(
+    userId: string,
+    roomId: string,
+    attachmentId: string,
+  ): Promise<VoiceNotePlayed | null> {
+    const attachment = await this.prisma.attachment.findUnique({
+      where: { id: attachmentId },
+      select: {
+        durationMs: true,
+        playedAt: true,
+        message: {
+          select: {
+            id: true,
+            roomId: true,
+            senderId: true,
+            deletedAt: true,
+            room: { select: { isGroup: true } },
+          },
+        },
+      },
+    });
+    const message = attachment?.message;
+    if (
+      !message ||
+      message.roomId !== roomId ||
+      message.deletedAt ||
+      attachment.durationMs === null
+    ) {
+      throw new NotFoundException('Voice note not found');
+    }
+    if (!(await this.isMember(userId, roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (
+      message.room.isGroup ||
+      message.senderId === userId ||
+      attachment.playedAt
+    ) {
+      return null;
+    }
+
+    const playedAt = new Date();
+    // Guarded so the recipient's other devices don't report it again
+    const { count } = await this.prisma.attachment.updateMany({
+      where: { id: attachmentId, playedAt: null },
+      data: { playedAt },
+    });
+    if (count === 0) return null;
+
+    // Not awaited: the debounced invalidation can wait behind other activity
+    // in the room, and the sender should hear about the play right away
+    void this.cache.invalidateMessages(roomId);
+    return {
+      roomId,
+      messageId: message.id,
+      attachmentId,
+      playedAt: playedAt.toISOString(),
+    };
+  }
+
+  /** The other member of a DM, for starting a call with them */
+  async getDmPeerId(userId: string, roomId: string): Promise<string> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { type: true, members: { select: { userId: true } } },
+    });
+    if (!room || !room.members.some((m) => m.userId === userId)) {
+      throw new NotFoundException('Room not found');
+    }
+    const peer = room.members.find((m) => m.userId !== userId);
+    if (room.type !== 'dm' || !peer) {
+      throw new BadRequestException(
+        'Calls are only possible in direct messages',
+      );
+    }
+    return peer.userId;
+  }
+
+  /** Records how a call went as a system message from the caller */
+  async recordCall(end: CallEnd): Promise<ChatMessage> {
+    const { roomId, callerId } = end.call;
+    const content = callSummary(end);
+    const saved = await this.prisma.message.create({
+      data: {
+        roomId,
+        senderId: callerId,
+        content,
+        searchText: content,
+        type: 'system',
+      },
+      select: PrismaOptimizer.selects.message.withThread,
+    });
+
+    await Promise.all([
+      this.cache.invalidateMessages(roomId),
+      this.invalidateConversationsForRoom(roomId),
+    ]);
+    return this.toChatMessage(saved, []);
+  }
+
+  /**
+   * Marks everything sent to a user's rooms as delivered, e.g. when one of
+   * their clients connects. Returns the receipts that moved.
+   */
+  async markAllDelivered(userId: string): Promise<ReadReceipt[]> {
+    const rows = await this.prisma.$queryRaw<ReceiptRow[]>`
+      UPDATE "Membership" AS mb
+      SET "lastDeliveredAt" = latest."createdAt"
+      FROM (
+        SELECT m."roomId", MAX(m."createdAt") AS "createdAt"
+        FROM "Message" m
+        JOIN "Membership" own
+          ON own."roomId" = m."roomId" AND own."userId" = ${userId}
+        GROUP BY m."roomId"
+      ) AS latest
+      WHERE mb."userId" = ${userId}
+        AND mb."roomId" = latest."roomId"
+        AND (mb."lastDeliveredAt" IS NULL OR mb."lastDeliveredAt" < latest."createdAt")
+      RETURNING mb."roomId", mb."userId", mb."lastReadMessageId",
+        mb."lastReadAt", mb."lastDeliveredAt"
+    `;
+
+    return rows.map(toReadReceipt);
+  }
+
+  /**
+   * Lists every member's read and delivery position in a room.
+   */
+  async getReadReceipts(
+    userId: string,
+    roomId: string,
+  ): Promise<ReadReceipt[]> {
+    if (!(await this.isMember(userId, roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    const rows = await this.prisma.membership.findMany({
+      where: { roomId },
+      select: RECEIPT_SELECT,
+    });
+
+    return rows.map(toReadReceipt);
+  }
+
+  /**
+   * Counts each member's unread messages and mentions of them after their
+   * read position, for one user's rooms or one room's members. Their own,
+   * deleted and hidden messages don't count, nor do channel replies, which
+   * stay out of the main timeline (see MAIN_TIMELINE).
+   */
+  async getUnreadCounts(filter: {
+    userId?: string;
+    roomId?: string;
+  }): Promise<UnreadCounts[]> {
+    const conditions: Prisma.Sql[] = [];
+    if (filter.userId) {
+      conditions.push(Prisma.sql`mb."userId" = ${filter.userId}`);
+    }
+    if (filter.roomId) {
+      conditions.push(Prisma.sql`mb."roomId" = ${filter.roomId}`);
+    }
+    if (!conditions.length) return [];
+
+    return this.prisma.$queryRaw<UnreadCounts[]>`
+      SELECT mb."roomId", mb."userId",
+        COUNT(m."id")::int AS "unreadCount",
+        (COUNT(m."id") FILTER (
+          WHERE EXISTS (
+            SELECT 1 FROM "Mention" mn
+            WHERE mn."messageId" = m."id" AND mn."userId" = mb."userId"
+          )
+        ))::int AS "mentionCount"
+      FROM "Membership" mb
+      JOIN "Room" r ON r."id" = mb."roomId"
+      LEFT JOIN "Message" m
+        ON m."roomId" = mb."roomId"
+        AND m."senderId" <> mb."userId"
+        AND m."deletedAt" IS NULL
+        AND (mb."lastReadAt" IS NULL OR m."createdAt" > mb."lastReadAt")
+        AND NOT (m."replyToId" IS NOT NULL AND r."type" = 'channel')
+        AND NOT EXISTS (
+          SELECT 1 FROM "MessageHidden" h
+          WHERE h."messageId" = m."id" AND h."userId" = mb."userId"
+        )
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      GROUP BY mb."roomId", mb."userId"
+    `;
+  }
+
+  private async findReceiptPosition(
+    userId: string,
+    roomId: string,
+    messageId: string,
+  ) {
+    const [message, membership] = await Promise.all([
+      this.prisma.message.findUnique({
+        where: { id: messageId },
+        select: { roomId: true, createdAt: true },
+      }),
+      this.prisma.membership.findUnique({
+        where: { userId_roomId: { userId, roomId } },
+        select: RECEIPT_SELECT,
+      }),
+    ]);
+
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    if (!message || message.roomId !== roomId) {
+      throw new NotFoundException('Message not found');
+    }
+
+    return { membership, at: message.createdAt };
+  }
+
+  async getOrCreateDmByUsername(meId: string, otherUsername: string) {
+    const other = await this.prisma.user.findUnique({
+      where: { username: otherUsername.toLowerCase().trim() },
+      select: { id: true },
+    });
+    if (!other) throw new NotFoundException('user_not_found');
+    if (other.id === meId) throw new BadRequestException('self_dm_not_allowed');
+
+    // try to find existing 2-member non-group room with optimized query
+    const existing = await this.prisma.room.findFirst({
+      where: {
+        isGroup: false,
+        members: {
+          every: { userId: { in: [meId, other.id] } },
+          some: { userId: meId },
+        },
+      },
+      select: { id: true },
+    });
+    if (existing)
+      return { id: existing.id, otherUserId: other.id, isNew: false };
+
+    // Create room and memberships in a transaction
+    const result = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx) => {
+        const room = await tx.room.create({
+          data: { isGroup: false },
+          select: { id: true },
+        });
+
+        await tx.membership.createMany({
           data: [
             { roomId: room.id, userId: meId, role: 'member' },
             { roomId: room.id, userId: other.id, role: 'member' },
@@ -418,7 +1778,7 @@ export class ChatService {
       this.prisma,
       async (tx) => {
         const room = await tx.room.create({
-          data: { isGroup: true, name },
+          data: { isGroup: true, type: 'group', name },
           select: PrismaOptimizer.selects.room.minimal, // Optimized select
         });
 
@@ -449,26 +1809,1113 @@ export class ChatService {
     return room;
   }
 
-  async getRecentMessages(
-    roomId: string,
-    paginationOptions?: { cursor?: string; take?: number },
-  ) {
-    const { cursor, take = 50 } = paginationOptions || {};
+  // ---------- FORWARDING ----------
+  /**
+   * Copies messages into other rooms, oldest first. The caller has to be a
+   * member of the source rooms; each target room is checked separately and
+   * gets its own result. Attachments are copied as new rows that share the
+   * stored files, so nothing is uploaded again.
+   */
+  async forwardMessages(
+    userId: string,
+    messageIds: string[],
+    roomIds: string[],
+  ): Promise<ForwardResult[]> {
+    const ids = [...new Set(messageIds)];
+    const sources = await this.prisma.message.findMany({
+      where: { id: { in: ids } },
+      select: FORWARD_SOURCE_SELECT,
+      orderBy: { createdAt: 'asc' },
+    });
+    if (sources.length !== ids.length) {
+      throw new NotFoundException('Message not found');
+    }
 
-    // Use keyset pagination for efficient large dataset handling
+    const sourceRoomIds = [...new Set(sources.map((m) => m.roomId))];
+    const memberships = await this.prisma.membership.count({
+      where: { userId, roomId: { in: sourceRoomIds } },
+    });
+    if (memberships !== sourceRoomIds.length) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    if (sources.some((m) => m.deletedAt || m.type === 'system')) {
+      throw new BadRequestException(
+        'Deleted and system messages cannot be forwarded',
+      );
+    }
+    // A copy would have no votes to show
+    if (sources.some((m) => m.type === 'poll')) {
+      throw new BadRequestException('Polls cannot be forwarded');
+    }
+
+    const results: ForwardResult[] = [];
+    for (const roomId of new Set(roomIds)) {
+      results.push(await this.forwardTo(userId, roomId, sources));
+    }
+    return results;
+  }
+
+  private async forwardTo(
+    userId: string,
+    roomId: string,
+    sources: ForwardSourceRow[],
+  ): Promise<ForwardResult> {
+    if (!(await this.isMember(userId, roomId))) {
+      return { roomId, status: 'failed', error: 'not_a_member' };
+    }
+    if (!(await this.canPost(userId, roomId))) {
+      return { roomId, status: 'failed', error: 'channel_read_only' };
+    }
+
+    try {
+      const rows = await PrismaOptimizer.executeTransaction(
+        this.prisma,
+        async (tx: Prisma.TransactionClient) => {
+          const created: MessageRow[] = [];
+          for (const source of sources) {
+            created.push(
+              await tx.message.create({
+                data: {
+                  roomId,
+                  senderId: userId,
+                  content: source.content,
+                  searchText: toPlainText(source.content),
+                  // Credit the first sender when forwarding a forward
+                  forwardedFromId: source.forwardedFromId ?? source.id,
+                  attachments: {
+                    create: source.attachments.map((file) => ({
+                      ...file,
+                      uploaderId: userId,
+                    })),
+                  },
+                },
+                select: PrismaOptimizer.selects.message.withThread,
+              }),
+            );
+          }
+          return created;
+        },
+      );
+
+      await Promise.all([
+        this.cache.invalidateMessages(roomId),
+        this.invalidateConversationsForRoom(roomId),
+      ]);
+
+      return {
+        roomId,
+        status: 'sent',
+        messages: rows.map((row) => this.toChatMessage(row, [])),
+      };
+    } catch (error) {
+      console.error('Forward error:', error);
+      return {
+        roomId,
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'unknown_error',
+      };
+    }
+  }
+
+  // ---------- DRAFTS ----------
+  /**
+   * Stores what the member has typed in a room so their other devices can
+   * pick it up. Blank text clears the draft.
+   */
+  async saveDraft(
+    userId: string,
+    roomId: string,
+    content: string,
+  ): Promise<RoomDraft> {
+    const draft = content.trim() ? content : null;
+    const updatedAt = new Date();
+
+    const { count } = await this.prisma.membership.updateMany({
+      where: { userId, roomId },
+      data: { draft, draftUpdatedAt: draft ? updatedAt : null },
+    });
+    if (count === 0) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    // Cached conversations carry the draft for the sidebar
+    await this.cache.invalidateConversations(userId);
+
+    return { roomId, content: draft, updatedAt: updatedAt.toISOString() };
+  }
+
+  /** Clears the member's draft after they send; null when there was none */
+  async clearDraft(userId: string, roomId: string): Promise<RoomDraft | null> {
+    const { count } = await this.prisma.membership.updateMany({
+      where: { userId, roomId, draft: { not: null } },
+      data: { draft: null, draftUpdatedAt: null },
+    });
+    if (count === 0) return null;
+
+    await this.cache.invalidateConversations(userId);
+    return { roomId, content: null, updatedAt: new Date().toISOString() };
+  }
+
+  // ---------- CONVERSATION SETTINGS ----------
+  /**
+   * Changes the member's own mute, archive and pin settings for a room.
+   * Archiving unpins and pinning unarchives; a new pin goes after the
+   * member's other pins.
+   */
+  async updateConversationSettings(
+    userId: string,
+    roomId: string,
+    changes: {
+      muted?: boolean;
+      mutedUntil?: Date | null; // with muted: true; null or left out is forever
+      archived?: boolean;
+      pinned?: boolean;
+    },
+  ): Promise<ConversationSettings> {
+    const current = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: SETTINGS_SELECT,
+    });
+    if (!current) throw new NotFoundException('Room not found');
+
+    const { muted, mutedUntil, archived, pinned } = changes;
+    if (mutedUntil && muted !== true) {
+      throw new BadRequestException('A mute end needs muted set');
+    }
+    if (mutedUntil && mutedUntil <= new Date()) {
+      throw new BadRequestException('A mute must end in the future');
+    }
+    if (archived && pinned) {
+      throw new BadRequestException('Archived conversations cannot be pinned');
+    }
+
+    const data: Prisma.MembershipUpdateInput = {};
+    if (muted !== undefined) {
+      data.muted = muted;
+      data.mutedUntil = muted ? (mutedUntil ?? null) : null;
+    }
+    if (archived !== undefined) {
+      data.archivedAt = archived ? (current.archivedAt ?? new Date()) : null;
+      if (archived) data.pinOrder = null;
+    }
+    if (pinned === false) data.pinOrder = null;
+    if (pinned && current.pinOrder === null) {
+      const last = await this.prisma.membership.findFirst({
+        where: { userId, pinOrder: { not: null } },
+        orderBy: { pinOrder: 'desc' },
+        select: { pinOrder: true },
+      });
+      data.pinOrder = (last?.pinOrder ?? -1) + 1;
+      data.archivedAt = null;
+    }
+
+    const updated = await this.prisma.membership.update({
+      where: { userId_roomId: { userId, roomId } },
+      data,
+      select: SETTINGS_SELECT,
+    });
+
+    // Cached conversations carry the settings and their order
+    await this.cache.invalidateConversations(userId);
+    return toConversationSettings(updated);
+  }
+
+  /** Puts the member's pinned conversations in the given order */
+  async reorderPinnedConversations(
+    userId: string,
+    roomIds: string[],
+  ): Promise<ConversationSettings[]> {
+    const pinned = await this.prisma.membership.findMany({
+      where: { userId, pinOrder: { not: null } },
+      select: { roomId: true },
+    });
+    const pinnedIds = new Set(pinned.map((m) => m.roomId));
+    if (
+      roomIds.length !== pinnedIds.size ||
+      new Set(roomIds).size !== roomIds.length ||
+      roomIds.some((id) => !pinnedIds.has(id))
+    ) {
+      throw new BadRequestException(
+        'The order must list each pinned conversation once',
+      );
+    }
+
+    const rows = await this.prisma.$transaction(
+      roomIds.map((roomId, pinOrder) =>
+        this.prisma.membership.update({
+          where: { userId_roomId: { userId, roomId } },
+          data: { pinOrder },
+          select: SETTINGS_SELECT,
+        }),
+      ),
+    );
+
+    await this.cache.invalidateConversations(userId);
+    return rows.map(toConversationSettings);
+  }
+
+  /**
+   * A new message brings the room back out of the archive for the other
+   * members, unless they have muted it. Returns whose settings changed so
+   * their devices can be told.
+   */
+  async unarchiveOnNewMessage(
+    roomId: string,
+    senderId: string,
+  ): Promise<{ userId: string; settings: ConversationSettings }[]> {
+    const archived = await this.prisma.membership.findMany({
+      where: { roomId, userId: { not: senderId }, archivedAt: { not: null } },
+      select: { id: true, userId: true, ...SETTINGS_SELECT },
+    });
+    const now = new Date();
+    const unarchived = archived.filter((m) => !isMuted(m, now));
+    if (unarchived.length === 0) return [];
+
+    await this.prisma.membership.updateMany({
+      where: { id: { in: unarchived.map((m) => m.id) } },
+      data: { archivedAt: null },
+    });
+    await Promise.all(
+      unarchived.map((m) => this.cache.invalidateConversations(m.userId)),
+    );
+
+    return unarchived.map((m) => ({
+      userId: m.userId,
+      settings: toConversationSettings({ ...m, archivedAt: null }),
+    }));
+  }
+
+  // ---------- PINNED MESSAGES ----------
+  // Anyone in a DM can pin; in groups and channels it takes an admin
+  private async assertCanPin(userId: string, roomId: string) {
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { role: true, room: { select: { isGroup: true } } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    const role = membership.role as MembershipRole;
+    if (
+      membership.room.isGroup &&
+      !GROUP_PERMISSIONS.pinMessages.includes(role)
+    ) {
+      throw new ForbiddenException(
+        `Group ${role}s are not allowed to ${GROUP_ACTION_LABELS.pinMessages}`,
+      );
+    }
+  }
+
+  /** The room's pins, most recently pinned first */
+  async getPinnedMessages(
+    userId: string,
+    roomId: string,
+  ): Promise<PinnedMessage[]> {
+    if (!(await this.isMember(userId, roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+
+    const pins = await this.prisma.pinnedMessage.findMany({
+      where: { roomId },
+      orderBy: { pinnedAt: 'desc' },
+      select: PIN_SELECT,
+    });
+    return pins.map(toPinnedMessage);
+  }
+
+  async pinMessage(userId: string, messageId: string): Promise<PinnedMessage> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { roomId: true, type: true, deletedAt: true },
+    });
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    await this.assertCanPin(userId, message.roomId);
+    if (message.type === 'system' || message.deletedAt) {
+      throw new BadRequestException('This message cannot be pinned');
+    }
+
+    // Pinning a pinned message again keeps the original pin
+    const pin = await this.prisma.pinnedMessage.upsert({
+      where: { messageId },
+      create: { messageId, roomId: message.roomId, pinnedById: userId },
+      update: {},
+      select: PIN_SELECT,
+    });
+    return toPinnedMessage(pin);
+  }
+
+  async unpinMessage(userId: string, messageId: string): Promise<PinRemoval> {
+    const pin = await this.prisma.pinnedMessage.findUnique({
+      where: { messageId },
+      select: { roomId: true },
+    });
+    if (!pin) {
+      throw new NotFoundException('Message is not pinned');
+    }
+
+    await this.assertCanPin(userId, pin.roomId);
+    await this.prisma.pinnedMessage.deleteMany({ where: { messageId } });
+    return { roomId: pin.roomId, messageId };
+  }
+
+  // ---------- GROUP ADMINISTRATION ----------
+  /**
+   * Checks the user is a member of the group and that their role allows the
+   * action. Returns their role.
+   */
+  private async assertGroupPermission(
+    userId: string,
+    roomId: string,
+    action: GroupAction,
+  ): Promise<MembershipRole> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { role: true, room: { select: { isGroup: true } } },
+    });
+
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (!membership.room.isGroup) {
+      throw new BadRequestException('Only groups can be managed');
+    }
+
+    const role = membership.role as MembershipRole;
+    if (!GROUP_PERMISSIONS[action].includes(role)) {
+      throw new ForbiddenException(
+        `Group ${role}s are not allowed to ${GROUP_ACTION_LABELS[action]}`,
+      );
+    }
+    return role;
+  }
+
+  private async findGroupMember(roomId: string, userId: string) {
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { role: true, user: { select: { username: true } } },
+    });
+    if (!membership) {
+      throw new NotFoundException('User is not a member of this group');
+    }
+    return {
+      role: membership.role as MembershipRole,
+      username: membership.user.username,
+    };
+  }
+
+  private async usernamesOf(userIds: string[]): Promise<string[]> {
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: { id: true, username: true },
+    });
+    const byId = new Map(users.map((u) => [u.id, u.username]));
+    return userIds.map((id) => byId.get(id) ?? 'someone');
+  }
+
+  async getGroupInfo(roomId: string): Promise<GroupInfo> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: {
+        id: true,
+        type: true,
+        name: true,
+        avatar: true,
+        members: {
+          select: {
+            role: true,
+            user: { select: PrismaOptimizer.selects.user.minimal },
+          },
+          orderBy: { joinedAt: 'asc' },
+        },
+      },
+    });
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    return {
+      id: room.id,
+      type: room.type as RoomType,
+      name: room.name || 'Unnamed Room',
+      avatar: room.avatar,
+      members: room.members.map((m) => ({
+        id: m.user.id,
+        username: m.user.username,
+        role: m.role as MembershipRole,
+      })),
+    };
+  }
+
+  // Records the change in the room's history and collects what to broadcast
+  private async recordGroupChange(
+    roomId: string,
+    actorId: string,
+    content: string,
+    { added = [], removed = [] }: { added?: string[]; removed?: string[] } = {},
+  ): Promise<GroupChange> {
+    const saved = await this.prisma.message.create({
+      data: {
+        roomId,
+        senderId: actorId,
+        content,
+        searchText: content,
+        type: 'system',
+      },
+      select: PrismaOptimizer.selects.message.withThread,
+    });
+
+    await Promise.all([
+      this.cache.invalidateMessages(roomId),
+      this.invalidateConversationsForRoom(roomId),
+      // Former members no longer see the room at all
+      ...removed.map((userId) => this.cache.invalidateConversations(userId)),
+    ]);
+
+    return {
+      group: await this.getGroupInfo(roomId),
+      message: this.toChatMessage(saved, []),
+      added,
+      removed,
+    };
+  }
+
+  async updateGroup(
+    actorId: string,
+    roomId: string,
+    input: { name?: string; avatar?: string | null },
+  ): Promise<GroupChange> {
+    await this.assertGroupPermission(actorId, roomId, 'editInfo');
+
+    const data: { name?: string; avatar?: string | null } = {};
+    const changes: string[] = [];
+    if (input.name !== undefined) {
+      data.name = input.name.trim();
+      if (!data.name) {
+        throw new BadRequestException('Group name cannot be empty');
+      }
+      changes.push(`renamed the group to "${data.name}"`);
+    }
+    if (input.avatar !== undefined) {
+      data.avatar = input.avatar;
+      changes.push(
+        input.avatar ? 'changed the group photo' : 'removed the group photo',
+      );
+    }
+    if (changes.length === 0) {
+      throw new BadRequestException('Nothing to update');
+    }
+
+    await this.prisma.room.update({ where: { id: roomId }, data });
+
+    const [actor] = await this.usernamesOf([actorId]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      `${actor} ${changes.join(' and ')}`,
+    );
+  }
+
+  async addGroupMembers(
+    actorId: string,
+    roomId: string,
+    userIds: string[],
+  ): Promise<GroupChange> {
+    await this.assertGroupPermission(actorId, roomId, 'addMembers');
+
+    const ids = [...new Set(userIds)];
+    await this.validateUsersExist(ids);
+
+    const existing = await this.prisma.membership.findMany({
+      where: { roomId, userId: { in: ids } },
+      select: { userId: true },
+    });
+    const existingIds = new Set(existing.map((m) => m.userId));
+    const added = ids.filter((id) => !existingIds.has(id));
+    if (added.length === 0) {
+      throw new BadRequestException('Users are already members of this group');
+    }
+
+    await this.prisma.membership.createMany({
+      data: added.map((userId) => ({ userId, roomId, role: 'member' })),
+      skipDuplicates: true,
+    });
+    // Requests to join are settled once the user is in
+    await this.prisma.groupJoinRequest.deleteMany({
+      where: { roomId, userId: { in: added } },
+    });
+
+    const [actor, ...names] = await this.usernamesOf([actorId, ...added]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      `${actor} added ${listNames(names)}`,
+      { added },
+    );
+  }
+
+  async removeGroupMember(
+    actorId: string,
+    roomId: string,
+    userId: string,
+  ): Promise<GroupChange> {
+    if (userId === actorId) {
+      throw new BadRequestException('Leave the group to remove yourself');
+    }
+
+    const actorRole = await this.assertGroupPermission(
+      actorId,
+      roomId,
+      'removeMembers',
+    );
+    const target = await this.findGroupMember(roomId, userId);
+
+    if (target.role === 'owner') {
+      throw new ForbiddenException('The group owner cannot be removed');
+    }
+    if (target.role === 'admin' && actorRole !== 'owner') {
+      throw new ForbiddenException('Only the group owner can remove admins');
+    }
+
+    await this.prisma.membership.delete({
+      where: { userId_roomId: { userId, roomId } },
+    });
+
+    const [actor] = await this.usernamesOf([actorId]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      `${actor} removed ${target.username}`,
+      { removed: [userId] },
+    );
+  }
+
+  async setGroupMemberRole(
+    actorId: string,
+    roomId: string,
+    userId: string,
+    role: Exclude<MembershipRole, 'owner'>,
+  ): Promise<GroupChange> {
+    await this.assertGroupPermission(actorId, roomId, 'changeRoles');
+    const target = await this.findGroupMember(roomId, userId);
+
+    if (target.role === 'owner') {
+      throw new BadRequestException(
+        "Transfer ownership to change the owner's role",
+      );
+    }
+    if (target.role === role) {
+      throw new BadRequestException(`User is already a group ${role}`);
+    }
+
+    await this.prisma.membership.update({
+      where: { userId_roomId: { userId, roomId } },
+      data: { role },
+    });
+
+    const [actor] = await this.usernamesOf([actorId]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      role === 'admin'
+        ? `${actor} made ${target.username} an admin`
+        : `${actor} removed ${target.username} as admin`,
+    );
+  }
+
+  /** Hands ownership to another member; the previous owner becomes an admin */
+  async transferGroupOwnership(
+    actorId: string,
+    roomId: string,
+    userId: string,
+  ): Promise<GroupChange> {
+    await this.assertGroupPermission(actorId, roomId, 'transferOwnership');
+    if (userId === actorId) {
+      throw new BadRequestException('You already own this group');
+    }
+    const target = await this.findGroupMember(roomId, userId);
+
+    await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        await tx.membership.update({
+          where: { userId_roomId: { userId: actorId, roomId } },
+          data: { role: 'admin' },
+        });
+        await tx.membership.update({
+          where: { userId_roomId: { userId, roomId } },
+          data: { role: 'owner' },
+        });
+      },
+    );
+
+    const [actor] = await this.usernamesOf([actorId]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      `${actor} made ${target.username} the group owner`,
+    );
+  }
+
+  /**
+   * Removes the user from the group. An owner's role passes to the
+   * longest-standing admin, or the longest-standing member if there is none.
+   */
+  async leaveGroup(userId: string, roomId: string): Promise<GroupChange> {
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { role: true, room: { select: { isGroup: true } } },
+    });
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (!membership.room.isGroup) {
+      throw new BadRequestException('Only groups can be left');
+    }
+
+    const successorId = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        await tx.membership.delete({
+          where: { userId_roomId: { userId, roomId } },
+        });
+        if (membership.role !== 'owner') return null;
+
+        const successor =
+          (await tx.membership.findFirst({
+            where: { roomId, role: 'admin' },
+            orderBy: { joinedAt: 'asc' },
+            select: { id: true, userId: true },
+          })) ??
+          (await tx.membership.findFirst({
+            where: { roomId },
+            orderBy: { joinedAt: 'asc' },
+            select: { id: true, userId: true },
+          }));
+        if (!successor) return null;
+
+        await tx.membership.update({
+          where: { id: successor.id },
+          data: { role: 'owner' },
+        });
+        return successor.userId;
+      },
+    );
+
+    const [name, successorName] = await this.usernamesOf(
+      successorId ? [userId, successorId] : [userId],
+    );
+    return this.recordGroupChange(
+      roomId,
+      userId,
+      successorName
+        ? `${name} left and made ${successorName} the group owner`
+        : `${name} left`,
+      { removed: [userId] },
+    );
+  }
+
+  // ---------- CHANNELS ----------
+  // Channels are groups anyone can find and join, where only admins post.
+  // Everything else (roles, kicking, leaving) is shared with groups.
+
+  async createChannel(ownerId: string, name: string): Promise<GroupChange> {
+    const room = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        const room = await tx.room.create({
+          data: { isGroup: true, type: 'channel', name: name.trim() },
+          select: { id: true },
+        });
+        await tx.membership.create({
+          data: { roomId: room.id, userId: ownerId, role: 'owner' },
+        });
+        return room;
+      },
+    );
+
+    const [owner] = await this.usernamesOf([ownerId]);
+    return this.recordGroupChange(
+      room.id,
+      ownerId,
+      `${owner} created the channel`,
+      { added: [ownerId] },
+    );
+  }
+
+  /** Channel directory, biggest first, optionally filtered by name */
+  async listChannels(
+    userId: string,
+    options: { query?: string; limit?: number } = {},
+  ): Promise<ChannelSummary[]> {
+    const query = options.query?.trim();
+    const channels = await this.prisma.room.findMany({
+      where: {
+        type: 'channel',
+        ...(query && { name: { contains: query, mode: 'insensitive' } }),
+      },
+      orderBy: [{ members: { _count: 'desc' } }, { name: 'asc' }],
+      take: options.limit ?? 50,
+      select: {
+        id: true,
+        name: true,
+        avatar: true,
+        _count: { select: { members: true } },
+        members: { where: { userId }, select: { id: true } },
+      },
+    });
+
+    return channels.map((c) => ({
+      id: c.id,
+      name: c.name || 'Unnamed Channel',
+      avatar: c.avatar,
+      memberCount: c._count.members,
+      joined: c.members.length > 0,
+    }));
+  }
+
+  async joinChannel(userId: string, roomId: string): Promise<GroupChange> {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { type: true },
+    });
+    if (!room || room.type !== 'channel') {
+      throw new NotFoundException('Channel not found');
+    }
+    if (await this.isMember(userId, roomId)) {
+      throw new BadRequestException('Already a member of this channel');
+    }
+
+    await this.prisma.membership.create({
+      data: { userId, roomId, role: 'member' },
+    });
+
+    const [name] = await this.usernamesOf([userId]);
+    return this.recordGroupChange(roomId, userId, `${name} joined`, {
+      added: [userId],
+    });
+  }
+
+  /**
+   * Whether the user may send this message to the room. Channel members
+   * can only post thread replies, which stay out of the channel's main
+   * history (see MAIN_TIMELINE); membership itself is checked on save.
+   */
+  async canPost(
+    userId: string,
+    roomId: string,
+    replyToId?: string | null,
+  ): Promise<boolean> {
+    if (replyToId) return true;
+
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { role: true, room: { select: { type: true } } },
+    });
+    if (!membership || membership.room.type !== 'channel') return true;
+    return CHANNEL_POSTER_ROLES.includes(membership.role as MembershipRole);
+  }
+
+  // ---------- INVITE LINKS ----------
+  async createInvite(
+    actorId: string,
+    roomId: string,
+    options: {
+      expiresInSeconds?: number;
+      maxUses?: number;
+      requiresApproval?: boolean;
+    },
+  ): Promise<GroupInviteLink> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const invite = await this.prisma.groupInvite.create({
+      data: {
+        token: randomBytes(16).toString('base64url'),
+        roomId,
+        createdById: actorId,
+        expiresAt: options.expiresInSeconds
+          ? new Date(Date.now() + options.expiresInSeconds * 1000)
+          : null,
+        maxUses: options.maxUses ?? null,
+        requiresApproval: options.requiresApproval ?? false,
+      },
+      select: INVITE_SELECT,
+    });
+    return toInviteLink(invite);
+  }
+
+  /** The group's links that haven't been revoked, newest first */
+  async listInvites(
+    actorId: string,
+    roomId: string,
+  ): Promise<GroupInviteLink[]> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const invites = await this.prisma.groupInvite.findMany({
+      where: { roomId, revokedAt: null },
+      orderBy: { createdAt: 'desc' },
+      select: INVITE_SELECT,
+    });
+    return invites.map(toInviteLink);
+  }
+
+  async revokeInvite(
+    actorId: string,
+    roomId: string,
+    inviteId: string,
+  ): Promise<void> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const { count } = await this.prisma.groupInvite.updateMany({
+      where: { id: inviteId, roomId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Invite link not found');
+    }
+  }
+
+  // Finds the link behind a token, if it can still be redeemed
+  private async findUsableInvite(token: string) {
+    const invite = await this.prisma.groupInvite.findUnique({
+      where: { token },
+      select: INVITE_SELECT,
+    });
+
+    if (!invite || invite.revokedAt) {
+      throw new NotFoundException('Invite link is invalid or was revoked');
+    }
+    if (invite.expiresAt && invite.expiresAt <= new Date()) {
+      throw new GoneException('Invite link has expired');
+    }
+    if (invite.maxUses !== null && invite.uses >= invite.maxUses) {
+      throw new GoneException('Invite link has reached its usage limit');
+    }
+    return invite;
+  }
+
+  private async inviteStanding(
+    userId: string,
+    roomId: string,
+  ): Promise<GroupInvitePreview['status']> {
+    const [membership, request] = await Promise.all([
+      this.prisma.membership.findUnique({
+        where: { userId_roomId: { userId, roomId } },
+        select: { id: true },
+      }),
+      this.prisma.groupJoinRequest.findUnique({
+        where: { roomId_userId: { roomId, userId } },
+        select: { id: true },
+      }),
+    ]);
+    if (membership) return 'member';
+    return request ? 'pending' : 'none';
+  }
+
+  async previewInvite(
+    userId: string,
+    token: string,
+  ): Promise<GroupInvitePreview> {
+    const invite = await this.findUsableInvite(token);
+    const room = await this.prisma.room.findUnique({
+      where: { id: invite.roomId },
+      select: {
+        name: true,
+        avatar: true,
+        _count: { select: { members: true } },
+      },
+    });
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    return {
+      roomId: invite.roomId,
+      name: room.name || 'Unnamed Room',
+      avatar: room.avatar,
+      memberCount: room._count.members,
+      requiresApproval: invite.requiresApproval,
+      expiresAt: invite.expiresAt?.toISOString() ?? null,
+      status: await this.inviteStanding(userId, invite.roomId),
+    };
+  }
+
+  /**
+   * Joins the group through a link, or files a join request when the link
+   * needs approval. Redeeming a group you're already in is a no-op.
+   */
+  async redeemInvite(
+    userId: string,
+    token: string,
+  ): Promise<InviteRedemption & { change: GroupChange | null }> {
+    const invite = await this.findUsableInvite(token);
+    const { roomId } = invite;
+
+    const standing = await this.inviteStanding(userId, roomId);
+    if (standing === 'member') {
+      return { status: 'joined', roomId, change: null };
+    }
+
+    if (invite.requiresApproval) {
+      await this.prisma.groupJoinRequest.upsert({
+        where: { roomId_userId: { roomId, userId } },
+        create: { inviteId: invite.id, roomId, userId },
+        update: {},
+      });
+      return { status: 'pending', roomId, change: null };
+    }
+
+    const joined = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        // A concurrent redemption (e.g. a double click) may have just let
+        // the user in; that one counts the use and announces the join
+        const { count: created } = await tx.membership.createMany({
+          data: [{ userId, roomId, role: 'member' }],
+          skipDuplicates: true,
+        });
+        if (created === 0) return false;
+
+        // Claims a use only while one is left, so concurrent redemptions
+        // can't overshoot maxUses
+        const { count } = await tx.groupInvite.updateMany({
+          where: {
+            id: invite.id,
+            revokedAt: null,
+            ...(invite.maxUses !== null && { uses: { lt: invite.maxUses } }),
+          },
+          data: { uses: { increment: 1 } },
+        });
+        if (count === 0) {
+          throw new GoneException('Invite link has reached its usage limit');
+        }
+        return true;
+      },
+    );
+    if (!joined) return { status: 'joined', roomId, change: null };
+
+    const [name] = await this.usernamesOf([userId]);
+    const change = await this.recordGroupChange(
+      roomId,
+      userId,
+      `${name} joined via an invite link`,
+      { added: [userId] },
+    );
+    return { status: 'joined', roomId, change };
+  }
+
+  async listJoinRequests(
+    actorId: string,
+    roomId: string,
+  ): Promise<GroupJoinRequest[]> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const requests = await this.prisma.groupJoinRequest.findMany({
+      where: { roomId },
+      orderBy: { createdAt: 'asc' },
+      select: {
+        createdAt: true,
+        user: { select: { id: true, username: true } },
+      },
+    });
+    return requests.map((r) => ({
+      userId: r.user.id,
+      username: r.user.username,
+      createdAt: r.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Lets a pending requester in. The admin's decision stands even if the
+   * link has since expired or filled up; the join still counts as a use.
+   * Returns null when the requester had already joined some other way.
+   */
+  async approveJoinRequest(
+    actorId: string,
+    roomId: string,
+    userId: string,
+  ): Promise<GroupChange | null> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const request = await this.prisma.groupJoinRequest.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { id: true, inviteId: true },
+    });
+    if (!request) {
+      throw new NotFoundException('Join request not found');
+    }
+
+    const joined = await PrismaOptimizer.executeTransaction(
+      this.prisma,
+      async (tx: Prisma.TransactionClient) => {
+        await tx.groupJoinRequest.delete({ where: { id: request.id } });
+        const { count } = await tx.membership.createMany({
+          data: [{ userId, roomId, role: 'member' }],
+          skipDuplicates: true,
+        });
+        if (count === 0) return false;
+
+        await tx.groupInvite.update({
+          where: { id: request.inviteId },
+          data: { uses: { increment: 1 } },
+        });
+        return true;
+      },
+    );
+    if (!joined) return null;
+
+    const [actor, name] = await this.usernamesOf([actorId, userId]);
+    return this.recordGroupChange(
+      roomId,
+      actorId,
+      `${actor} approved ${name}'s request to join`,
+      { added: [userId] },
+    );
+  }
+
+  async rejectJoinRequest(
+    actorId: string,
+    roomId: string,
+    userId: string,
+  ): Promise<void> {
+    await this.assertGroupPermission(actorId, roomId, 'manageInvites');
+
+    const { count } = await this.prisma.groupJoinRequest.deleteMany({
+      where: { roomId, userId },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Join request not found');
+    }
+  }
+
+  async getRecentMessages(
+    roomId: string,
+    paginationOptions?: KeysetPaginationOptions,
+  ) {
+    const {
+      cursor,
+      take = 50,
+      direction = 'backward',
+    } = paginationOptions || {};
+
+    // Use keyset pagination for efficient large dataset handling
     return PrismaOptimizer.keysetPaginate(
       (args) =>
         this.prisma.message.findMany({
           where: {
             roomId,
+            ...MAIN_TIMELINE,
             ...(args.where || {}), // Include cursor condition
           },
-          select: PrismaOptimizer.selects.message.withSender,
+          select: PrismaOptimizer.selects.message.withThread,
           orderBy: args.orderBy,
           take: args.take,
-          cursor: args.cursor,
         }),
-      { cursor, take },
+      { cursor, take, direction },
     );
   }
 
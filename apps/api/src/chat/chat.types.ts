@@ -5,21 +5,119 @@
  * separate from Prisma-generated types to maintain clean boundaries.
  */
 
+import type { AttachmentInfo } from '../attachments/attachments.types';
+
+export type MembershipRole = 'owner' | 'admin' | 'member';
+
+// Channels are broadcast rooms: anyone can join, only admins post
+export type RoomType = 'dm' | 'group' | 'channel';
+
 export interface ConversationMember {
   id: string;
   username: string;
+  role: MembershipRole;
 }
 
 export interface Conversation {
   id: string;
   name: string;
   avatar: string | null;
-  isGroup: boolean;
+  type: RoomType;
+  isGroup: boolean; // true for groups and channels
+  role: string; // caller's membership role in this room
   last: string | null;
   lastMessageAt: string | null; // ISO timestamp for sorting
+  unreadCount: number;
+  mentionCount: number;
+  draft: string | null; // caller's unsent composer text
+  muted: boolean; // until mutedUntil when set, which may have passed
+  mutedUntil: string | null;
+  archived: boolean;
+  pinOrder: number | null; // position among pinned conversations, lowest first
+  members: ConversationMember[];
+}
+
+// The caller's own settings for a conversation, sent to all their devices
+export type ConversationSettings = Pick<
+  Conversation,
+  'muted' | 'mutedUntil' | 'archived' | 'pinOrder'
+> & { roomId: string };
+
+// Badge counts for one member of a room, from their read position
+export interface UnreadCounts {
+  roomId: string;
+  userId: string;
+  unreadCount: number; // messages from others after the read position
+  mentionCount: number; // of those, the ones that @mention the member
+}
+
+// Group name, avatar and member list, pushed to members when any of it changes
+export interface GroupInfo {
+  id: string;
+  type: RoomType;
+  name: string;
+  avatar: string | null;
   members: ConversationMember[];
 }
 
+// Result of a group administration action, for the gateway to broadcast
+export interface GroupChange {
+  group: GroupInfo;
+  message: ChatMessage; // system message describing the change
+  added: string[]; // userIds that joined
+  removed: string[]; // userIds that left or were removed
+}
+
+// Entry in the channel directory
+export interface ChannelSummary {
+  id: string;
+  name: string;
+  avatar: string | null;
+  memberCount: number;
+  joined: boolean; // whether the caller is a member
+}
+
+// Shareable link into a group, as listed to the group's admins
+export interface GroupInviteLink {
+  id: string;
+  token: string;
+  roomId: string;
+  createdBy: { id: string; username: string };
+  expiresAt: string | null; // null = never expires
+  maxUses: number | null; // null = unlimited
+  uses: number;
+  requiresApproval: boolean;
+  createdAt: string;
+}
+
+// What someone holding an invite link sees before joining
+export interface GroupInvitePreview {
+  roomId: string;
+  name: string;
+  avatar: string | null;
+  memberCount: number;
+  requiresApproval: boolean;
+  expiresAt: string | null;
+  status: 'none' | 'member' | 'pending'; // the viewer's standing in the group
+}
+
+// Pending: the group's admins have to approve the request first
+export interface InviteRedemption {
+  status: 'joined' | 'pending';
+  roomId: string;
+}
+
+export interface GroupJoinRequest {
+  userId: string;
+  username: string;
+  createdAt: string;
+}
+
+// System messages record group changes and calls; their sender is whoever
+// made the change or placed the call.
+// Poll messages carry the question as their content.
+export type MessageType = 'text' | 'system' | 'poll';
+
 export interface MessageReaction {
   emoji: string;
   by: string[];
@@ -31,10 +129,244 @@ export interface ChatMessage {
   roomId: string;
   userId: string;
   content: string;
+  type: MessageType;
   createdAt: string;
   clientMsgId: string | null;
   replyToId: string | null;
   reactions: MessageReaction[];
+  edited?: boolean;
+  editedAt?: string | null;
+  deleted?: boolean;
+  replyTo?: ReplyPreview | null;
+  replyCount?: number;
+  lastReplyAt?: string | null;
+  lastReplier?: { id: string; username: string } | null;
+  attachments?: AttachmentInfo[];
+  senderUsername?: string;
+  forwardedFrom?: ForwardSource | null;
+  linkPreview?: LinkPreview | null;
+  poll?: Poll | null;
+}
+
+// Card for the first link in a message, unfurled in the background
+export interface LinkPreview {
+  url: string; // as linked in the message
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+// Sent to the room when a preview arrives, changes or goes away (null)
+export interface MessagePreviewUpdate {
+  roomId: string;
+  messageId: string;
+  linkPreview: LinkPreview | null;
+}
+
+export interface PollOption {
+  id: string;
+  text: string;
+  votes: number;
+  voterIds?: string[]; // public polls only
+}
+
+export interface Poll {
+  id: string;
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt: string | null; // closes by itself then
+  closedAt: string | null; // closed early by the creator or an admin
+  options: PollOption[];
+  voterCount: number;
+  myVotes?: string[]; // option ids, filled in for the reader
+}
+
+// Sent to the room whenever the tally or state of a poll changes; it never
+// carries myVotes, which each voter gets separately as PollVotes
+export interface PollUpdate {
+  roomId: string;
+  messageId: string;
+  poll: Poll;
+}
+
+// A user's own choice in a poll, sent to all of their devices
+export interface PollVotes {
+  roomId: string;
+  messageId: string;
+  optionIds: string[]; // empty once retracted
+}
+
+// The original a forwarded message was copied from
+export interface ForwardSource {
+  messageId: string;
+  roomId: string;
+  userId: string; // original sender
+  username: string;
+}
+
+// Forwarding reports per target room; one failing room doesn't stop the rest
+export type ForwardResult =
+  | { roomId: string; status: 'sent'; messages: ChatMessage[] }
+  | { roomId: string; status: 'failed'; error: string };
+
+export interface ThreadSummary {
+  messageId: string; // thread parent
+  roomId: string;
+  replyCount: number;
+  lastReplyAt: string | null;
+  lastReplier: { id: string; username: string } | null;
+}
+
+export type MessagePageDirection = 'before' | 'after';
+
+export interface MessagePage {
+  messages: ChatMessage[]; // oldest first
+  olderCursor: string | null; // pass with direction=before for older history
+  newerCursor: string | null; // pass with direction=after to catch up
+  hasOlder: boolean;
+  hasNewer: boolean;
+}
+
+export interface ThreadPage extends MessagePage {
+  parent: ChatMessage;
+}
+
+export interface MessageSearchHit {
+  id: string;
+  roomId: string;
+  userId: string;
+  senderUsername: string;
+  createdAt: string;
+  snippet: string; // matched terms wrapped in <mark></mark>, otherwise plain text
+}
+
+export interface MessageSearchPage {
+  results: MessageSearchHit[]; // newest first
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface ReplyPreview {
+  id: string;
+  content: string;
+  userId: string;
+  deleted: boolean;
+}
+
+export type MessageDeleteScope = 'me' | 'everyone';
+
+export type MessageDeletion =
+  | {
+      scope: 'everyone';
+      messageId: string;
+      roomId: string;
+      content: string; // tombstone text
+      deletedAt: string;
+      deletedBy: string;
+    }
+  | {
+      scope: 'me';
+      messageId: string;
+      roomId: string;
+      userId: string;
+    };
+
+// A pinned message with enough of it for the pinned bar
+export interface PinnedMessage {
+  roomId: string;
+  messageId: string;
+  content: string; // preview of the pinned message
+  senderId: string;
+  createdAt: string; // when the message was sent
+  pinnedBy: { id: string; username: string };
+  pinnedAt: string;
+}
+
+export interface PinRemoval {
+  roomId: string;
+  messageId: string;
+}
+
+// The recipient of a DM listened to a voice note for the first time
+export interface VoiceNotePlayed {
+  roomId: string;
+  messageId: string;
+  attachmentId: string;
+  playedAt: string;
+}
+
+// calling: the callee's devices haven't rung yet
+export type CallStatus = 'calling' | 'ringing' | 'active';
+
+// A 1:1 call in a DM. Media goes peer to peer; the server only signals
+export interface Call {
+  id: string;
+  roomId: string;
+  callerId: string;
+  calleeId: string;
+  video: boolean;
+  status: CallStatus;
+  startedAt: string;
+  answeredAt: string | null;
+  iceServers: string[]; // STUN/TURN URLs, if any are configured
+}
+
+// missed also covers calls the caller gave up on before an answer
+export type CallOutcome = 'missed' | 'declined' | 'completed';
+
+export interface CallEnd {
+  call: Call;
+  outcome: CallOutcome;
+  durationMs: number | null; // completed calls only
+}
+
+export type MentionKind = 'user' | 'all' | 'here';
+
+// Sent to a mentioned member's own sockets
+export interface MentionNotice {
+  roomId: string;
+  messageId: string;
+  userId: string; // the mentioned member
+  senderId: string;
+  senderUsername: string | null;
+  kind: MentionKind;
+  preview: string;
+}
+
+// Composer text one member left in a room; null content means cleared
+export interface RoomDraft {
+  roomId: string;
+  content: string | null;
+  updatedAt: string;
+}
+
+// A message waiting to be sent later; failed ones keep the reason
+export interface ScheduledMessage {
+  id: string;
+  roomId: string;
+  content: string;
+  replyToId: string | null;
+  sendAt: string;
+  status: 'pending' | 'failed';
+  error: string | null;
+  createdAt: string;
+}
+
+// A member's position in a room; read/delivered up to and including the
+// message created at that time
+export interface ReadReceipt {
+  roomId: string;
+  userId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null; // createdAt of the last read message
+  lastDeliveredAt: string | null;
+}
+
+export interface MessageEditEntry {
+  id: string;
+  content: string; // content before the edit was applied
+  editedAt: string;
 }
 
 // DTOs for API requests/responses
@@ -50,6 +382,10 @@ export interface SendMessageRequest {
   replyToId?: string;
 }
 
+export interface EditMessageRequest {
+  content: string;
+}
+
 export interface ReactToMessageRequest {
   messageId: string;
   emoji: string;
@@ -67,3 +403,9 @@ export type MessageWithUser = ChatMessage & {
 export type ConversationWithLastMessage = Conversation & {
   lastMessage?: Pick<ChatMessage, 'id' | 'content' | 'createdAt' | 'userId'>;
 };
+
+export interface UserPresence {
+  userId: string;
+  online: boolean; // on any device, on any API node
+  lastSeenAt: string | null; // null while online or if never seen
+}
@@ -0,0 +1,5 @@
+import { ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+export class AddMembersDto {
+  @IsArray() @ArrayNotEmpty() @IsUUID('4', { each: true }) userIds!: string[];
+}
@@ -0,0 +1,24 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+
+// Only the settings sent are changed
+export class UpdateConversationSettingsDto {
+  @IsOptional() @IsBoolean() muted?: boolean;
+  // With muted: true; null or left out mutes until unmuted
+  @IsOptional() @IsDateString() mutedUntil?: string | null;
+  @IsOptional() @IsBoolean() archived?: boolean;
+  @IsOptional() @IsBoolean() pinned?: boolean;
+}
+
+export class ReorderPinnedConversationsDto {
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('4', { each: true })
+  roomIds!: string[];
+}
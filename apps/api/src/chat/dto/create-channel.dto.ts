@@ -0,0 +1,5 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateChannelDto {
+  @IsString() @IsNotEmpty() @MaxLength(100) name!: string;
+}
@@ -0,0 +1,15 @@
+import { IsBoolean, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+const MAX_EXPIRY_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+export class CreateInviteDto {
+  // Omit for a link that never expires
+  @IsOptional()
+  @IsInt()
+  @Min(60)
+  @Max(MAX_EXPIRY_SECONDS)
+  expiresInSeconds?: number;
+  // Omit for unlimited uses
+  @IsOptional() @IsInt() @Min(1) @Max(10000) maxUses?: number;
+  @IsOptional() @IsBoolean() requiresApproval?: boolean;
+}
@@ -0,0 +1,27 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreatePollDto {
+  @IsString() @IsNotEmpty() @MaxLength(300) question!: string;
+
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  @MaxLength(100, { each: true })
+  options!: string[];
+
+  @IsOptional() @IsBoolean() multipleChoice?: boolean;
+  @IsOptional() @IsBoolean() anonymous?: boolean;
+  @IsOptional() @IsDateString() closesAt?: string;
+}
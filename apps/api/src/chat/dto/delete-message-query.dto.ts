@@ -0,0 +1,6 @@
+import { IsIn } from 'class-validator';
+import type { MessageDeleteScope } from '../chat.types';
+
+export class DeleteMessageQueryDto {
+  @IsIn(['me', 'everyone']) scope!: MessageDeleteScope;
+}
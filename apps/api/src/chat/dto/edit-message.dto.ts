@@ -0,0 +1,5 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class EditMessageDto {
+  @IsString() @IsNotEmpty() @MaxLength(4000) content!: string;
+}
@@ -0,0 +1,15 @@
+import { ArrayMaxSize, ArrayNotEmpty, IsArray, IsUUID } from 'class-validator';
+
+export class ForwardMessagesDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @IsUUID('4', { each: true })
+  messageIds!: string[];
+
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsUUID('4', { each: true })
+  roomIds!: string[];
+}
@@ -0,0 +1,5 @@
+import { IsUUID } from 'class-validator';
+
+export class MarkReadDto {
+  @IsUUID('4') messageId!: string;
+}
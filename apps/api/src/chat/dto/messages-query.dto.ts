@@ -1,8 +1,25 @@
-import { IsInt, IsOptional, IsString, IsUUID, Max, Min } from 'class-validator';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
 import { Type } from 'class-transformer';
+import type { MessagePageDirection } from '../chat.types';
 
-export class MessagesQueryDto {
-  @IsUUID() roomId!: string;
+export class MessagePageQueryDto {
   @IsOptional() @IsString() cursor?: string;
+  @IsOptional() @IsIn(['before', 'after']) direction?: MessagePageDirection;
+  @IsOptional() @Type(() => Number) @IsInt() @Min(1) @Max(100) limit?: number;
+}
+
+export class MessagesQueryDto extends MessagePageQueryDto {
+  @IsUUID() roomId!: string;
+}
+
+export class MessageContextQueryDto {
   @IsOptional() @Type(() => Number) @IsInt() @Min(1) @Max(100) limit?: number;
 }
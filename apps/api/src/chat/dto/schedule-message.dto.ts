@@ -0,0 +1,23 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class ScheduleMessageDto {
+  @IsString() @IsNotEmpty() @MaxLength(4000) content!: string;
+  @IsDateString() sendAt!: string;
+  @IsOptional() @IsUUID() replyToId?: string;
+}
+
+export class UpdateScheduledMessageDto {
+  @IsOptional() @IsString() @IsNotEmpty() @MaxLength(4000) content?: string;
+  @IsOptional() @IsDateString() sendAt?: string;
+}
+
+export class ScheduledMessagesQueryDto {
+  @IsOptional() @IsUUID() roomId?: string;
+}
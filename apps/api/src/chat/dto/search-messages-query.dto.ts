@@ -0,0 +1,22 @@
+import {
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SearchMessagesQueryDto {
+  @IsString() @IsNotEmpty() @MaxLength(200) q!: string;
+  @IsOptional() @IsUUID() roomId?: string;
+  @IsOptional() @IsUUID() senderId?: string;
+  @IsOptional() @IsDateString() from?: string;
+  @IsOptional() @IsDateString() to?: string;
+  @IsOptional() @IsString() cursor?: string;
+  @IsOptional() @Type(() => Number) @IsInt() @Min(1) @Max(50) limit?: number;
+}
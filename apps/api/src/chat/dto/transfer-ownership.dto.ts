@@ -0,0 +1,5 @@
+import { IsUUID } from 'class-validator';
+
+export class TransferOwnershipDto {
+  @IsUUID('4') userId!: string;
+}
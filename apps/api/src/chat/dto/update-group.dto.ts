@@ -0,0 +1,7 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateGroupDto {
+  @IsOptional() @IsString() @IsNotEmpty() @MaxLength(100) name?: string;
+  // null removes the photo
+  @IsOptional() @IsString() @MaxLength(2048) avatar?: string | null;
+}
@@ -0,0 +1,5 @@
+import { IsIn } from 'class-validator';
+
+export class UpdateMemberRoleDto {
+  @IsIn(['admin', 'member']) role!: 'admin' | 'member';
+}
@@ -0,0 +1,219 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { LinkPreviewsService } from './link-previews.service';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+import { fetchPage } from './unfurl';
+
+jest.mock('./unfurl', () => ({
+  ...jest.requireActual<typeof import('./unfurl')>('./unfurl'),
+  fetchPage: jest.fn(),
+}));
+
+describe('LinkPreviewsService', () => {
+  let service: LinkPreviewsService;
+  let prisma: {
+    message: { findUnique: jest.Mock };
+    linkPreview: Record<'upsert' | 'updateMany' | 'deleteMany', jest.Mock>;
+  };
+  let cache: Record<'get' | 'set' | 'invalidateMessages', jest.Mock>;
+
+  const ARTICLE = {
+    url: 'https://example.com/article',
+    html: '<title>An article</title><meta name="description" content="Hi">',
+  };
+
+  const message = (content: string, linkPreview: object | null = null) => ({
+    roomId: 'room1',
+    content,
+    deletedAt: null,
+    linkPreview,
+  });
+
+  const card = (url: string, removedAt: Date | null = null) => ({
+    url,
+    title: 'An article',
+    description: 'Hi',
+    imageUrl: null,
+    siteName: null,
+    removedAt,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LinkPreviewsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            message: { findUnique: jest.fn() },
+            linkPreview: {
+              // Echo what would be stored
+              upsert: jest.fn(({ create }: { create: object }) =>
+                Promise.resolve(create),
+              ),
+              updateMany: jest.fn(),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: CacheService,
+          useValue: {
+            get: jest.fn().mockResolvedValue(null),
+            set: jest.fn(),
+            invalidateMessages: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(LinkPreviewsService);
+    prisma = module.get(PrismaService);
+    cache = module.get(CacheService);
+    (fetchPage as jest.Mock).mockReset().mockResolvedValue(ARTICLE);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('refresh', () => {
+    it('stores the card for the first link and notifies the room', async () => {
+      const listener = jest.fn();
+      service.onPreview(listener);
+      prisma.message.findUnique.mockResolvedValue(
+        message('see https://example.com/article and https://other.test'),
+      );
+
+      await service.refresh('msg1');
+
+      expect(fetchPage).toHaveBeenCalledWith('https://example.com/article');
+      expect(prisma.linkPreview.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { messageId: 'msg1' } }),
+      );
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+      expect(listener).toHaveBeenCalledWith({
+        roomId: 'room1',
+        messageId: 'msg1',
+        linkPreview: {
+          url: 'https://example.com/article',
+          title: 'An article',
+          description: 'Hi',
+          imageUrl: null,
+          siteName: null,
+        },
+      });
+    });
+
+    it('notifies the room without waiting for the cache invalidation', async () => {
+      const listener = jest.fn();
+      service.onPreview(listener);
+      prisma.message.findUnique.mockResolvedValue(
+        message('see https://example.com/article'),
+      );
+      // Still debouncing behind other activity in the room
+      cache.invalidateMessages.mockReturnValue(new Promise(() => {}));
+
+      await expect(service.refresh('msg1')).resolves.toBeDefined();
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('uses cached metadata instead of fetching again', async () => {
+      cache.get.mockResolvedValue({ metadata: null });
+      prisma.message.findUnique.mockResolvedValue(
+        message('https://example.com/article'),
+      );
+
+      expect(await service.refresh('msg1')).toBeNull();
+      expect(fetchPage).not.toHaveBeenCalled();
+      expect(prisma.linkPreview.upsert).not.toHaveBeenCalled();
+    });
+
+    it('leaves a removed card alone while the link stays the same', async () => {
+      prisma.message.findUnique.mockResolvedValue(
+        message(
+          'edited https://example.com/article',
+          card('https://example.com/article', new Date()),
+        ),
+      );
+
+      expect(await service.refresh('msg1')).toBeNull();
+      expect(fetchPage).not.toHaveBeenCalled();
+    });
+
+    it('drops the card when the link is edited out', async () => {
+      prisma.message.findUnique.mockResolvedValue(
+        message('no links now', card('https://example.com/article')),
+      );
+
+      expect(await service.refresh('msg1')).toEqual({
+        roomId: 'room1',
+        messageId: 'msg1',
+        linkPreview: null,
+      });
+      expect(prisma.linkPreview.deleteMany).toHaveBeenCalledWith({
+        where: { messageId: 'msg1' },
+      });
+    });
+
+    it('caches pages that could not be unfurled for a shorter time', async () => {
+      (fetchPage as jest.Mock).mockRejectedValue(new Error('Timed out'));
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      prisma.message.findUnique.mockResolvedValue(
+        message('https://example.com/article'),
+      );
+
+      expect(await service.refresh('msg1')).toBeNull();
+      expect(cache.set).toHaveBeenCalledWith(
+        'unfurl:https://example.com/article',
+        { metadata: null },
+        60 * 60,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('hides the card on the sender’s own message', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        senderId: 'alice-id',
+      });
+      prisma.linkPreview.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.remove('alice-id', 'msg1')).resolves.toEqual({
+        roomId: 'room1',
+        messageId: 'msg1',
+        linkPreview: null,
+      });
+      expect(prisma.linkPreview.updateMany).toHaveBeenCalledWith({
+        where: { messageId: 'msg1', removedAt: null },
+        data: { removedAt: expect.any(Date) },
+      });
+    });
+
+    it('only lets the sender remove the card', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        senderId: 'alice-id',
+      });
+
+      await expect(service.remove('bob-id', 'msg1')).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prisma.linkPreview.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('fails when there is no card to remove', async () => {
+      prisma.message.findUnique.mockResolvedValue({
+        roomId: 'room1',
+        senderId: 'alice-id',
+      });
+      prisma.linkPreview.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.remove('alice-id', 'msg1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
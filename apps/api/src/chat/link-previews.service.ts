@@ -0,0 +1,228 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { findLinks } from 'shared/markdown';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+import { fetchPage, parseMetadata, type PageMetadata } from './unfurl';
+import type { LinkPreview, MessagePreviewUpdate } from './chat.types';
+
+// Pages rarely change; ones that failed are tried again sooner
+const CACHE_TTL = 24 * 60 * 60;
+const FAILURE_CACHE_TTL = 60 * 60;
+const CONCURRENCY = 4;
+const MAX_QUEUED = 200;
+
+export const LINK_PREVIEW_SELECT = {
+  url: true,
+  title: true,
+  description: true,
+  imageUrl: true,
+  siteName: true,
+  removedAt: true,
+} as const;
+
+type LinkPreviewRow = Prisma.LinkPreviewGetPayload<{
+  select: typeof LINK_PREVIEW_SELECT;
+}>;
+
+/** The card to show for a message; removed previews stay hidden */
+export const toLinkPreview = (
+  row: LinkPreviewRow | null | undefined,
+): LinkPreview | null =>
+  row && !row.removedAt
+    ? {
+        url: row.url,
+        title: row.title,
+        description: row.description,
+        imageUrl: row.imageUrl,
+        siteName: row.siteName,
+      }
+    : null;
+
+type PreviewListener = (update: MessagePreviewUpdate) => void;
+
+/**
+ * Link previews for the first link in a message, unfurled in the
+ * background after the message is saved or edited.
+ *
+ * Work is queued on the node that saved the message and a few pages are
+ * fetched at once; when the queue is full, new links simply go without a
+ * card. Page metadata is cached in Redis, so a link posted in many rooms
+ * is only fetched once a day.
+ */
+@Injectable()
+export class LinkPreviewsService implements OnModuleDestroy {
+  private readonly queue: string[] = [];
+  private active = 0;
+  private stopped = false;
+  private previewListener: PreviewListener | undefined;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: CacheService,
+  ) {}
+
+  onModuleDestroy() {
+    this.stopped = true;
+    this.queue.length = 0;
+  }
+
+  /** Called with each preview that was added, replaced or dropped */
+  onPreview(listener: PreviewListener) {
+    this.previewListener = listener;
+  }
+
+  /**
+   * Queues a message to have its preview brought up to date. New messages
+   * without links are skipped; edits are always checked, since the link
+   * may have been taken out.
+   */
+  enqueue(message: { id: string; content: string }, edited = false) {
+    if (this.stopped || this.queue.includes(message.id)) return;
+    if (!edited && findLinks(message.content).length === 0) return;
+    if (this.queue.length >= MAX_QUEUED) return;
+
+    this.queue.push(message.id);
+    this.drain();
+  }
+
+  private drain() {
+    while (!this.stopped && this.active < CONCURRENCY && this.queue.length) {
+      const messageId = this.queue.shift()!;
+      this.active++;
+      void this.refresh(messageId)
+        .catch((error) => console.error('Link preview error:', error))
+        .finally(() => {
+          this.active--;
+          this.drain();
+        });
+    }
+  }
+
+  /**
+   * Matches a message's preview to its current first link: unfurls a new
+   * link, drops the card when the link is gone, and leaves an unchanged
+   * link alone (so a removed card stays removed). Returns what changed.
+   */
+  async refresh(messageId: string): Promise<MessagePreviewUpdate | null> {
+    const message = await this.findMessage(messageId);
+    if (!message || message.deletedAt) return null;
+
+    const url = findLinks(message.content)[0] ?? null;
+    const current = message.linkPreview;
+    if (current && current.url === url) return null;
+
+    const metadata = url ? await this.unfurl(url) : null;
+    if (!url || !metadata) {
+      if (!current) return null;
+      await this.prisma.linkPreview.deleteMany({ where: { messageId } });
+      return current.removedAt
+        ? null
+        : this.publish({
+            roomId: message.roomId,
+            messageId,
+            linkPreview: null,
+          });
+    }
+
+    // The page may take a while; skip it if the message moved on meanwhile
+    const latest = await this.findMessage(messageId);
+    if (
+      !latest ||
+      latest.deletedAt ||
+      findLinks(latest.content)[0] !== url ||
+      latest.linkPreview?.url === url
+    ) {
+      return null;
+    }
+
+    const data = { url, ...metadata, removedAt: null };
+    const row = await this.prisma.linkPreview.upsert({
+      where: { messageId },
+      create: { messageId, ...data },
+      update: data,
+      select: LINK_PREVIEW_SELECT,
+    });
+    return this.publish({
+      roomId: message.roomId,
+      messageId,
+      linkPreview: toLinkPreview(row),
+    });
+  }
+
+  /** Hides the card on a message; only its sender may */
+  async remove(
+    userId: string,
+    messageId: string,
+  ): Promise<MessagePreviewUpdate> {
+    const message = await this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: { roomId: true, senderId: true },
+    });
+    if (!message) throw new NotFoundException('Message not found');
+    if (message.senderId !== userId) {
+      throw new ForbiddenException('Only the sender can remove a link preview');
+    }
+
+    const { count } = await this.prisma.linkPreview.updateMany({
+      where: { messageId, removedAt: null },
+      data: { removedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new NotFoundException('Message has no link preview');
+    }
+
+    await this.cache.invalidateMessages(message.roomId);
+    return { roomId: message.roomId, messageId, linkPreview: null };
+  }
+
+  /** Metadata for a page, cached; null when there's nothing to show */
+  async unfurl(url: string): Promise<PageMetadata | null> {
+    const key = `unfurl:${url}`;
+    const cached = await this.cache.get<{ metadata: PageMetadata | null }>(key);
+    if (cached) return cached.metadata;
+
+    let metadata: PageMetadata | null = null;
+    try {
+      const page = await fetchPage(url);
+      metadata = parseMetadata(page.html, page.url);
+    } catch (error) {
+      console.warn(
+        `Could not unfurl ${url}:`,
+        error instanceof Error ? error.message : error,
+      );
+    }
+
+    await this.cache.set(
+      key,
+      { metadata },
+      metadata ? CACHE_TTL : FAILURE_CACHE_TTL,
+    );
+    return metadata;
+  }
+
+  private findMessage(messageId: string) {
+    return this.prisma.message.findUnique({
+      where: { id: messageId },
+      select: {
+        roomId: true,
+        content: true,
+        deletedAt: true,
+        linkPreview: { select: LINK_PREVIEW_SELECT },
+      },
+    });
+  }
+
+  // The invalidation is debounced behind the room's other activity, so the
+  // card goes out without waiting for it
+  private publish(update: MessagePreviewUpdate) {
+    this.previewListener?.(update);
+    void this.cache.invalidateMessages(update.roomId);
+    return update;
+  }
+}
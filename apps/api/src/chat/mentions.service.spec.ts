@@ -0,0 +1,160 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { MentionsService, parseMentions } from './mentions.service';
+import { PresenceService } from './presence.service';
+import { PrismaService } from '../prisma.service';
+
+describe('MentionsService', () => {
+  let service: MentionsService;
+  let prisma: any;
+  let presence: any;
+
+  const member = (userId: string, username: string, role = 'member') => ({
+    userId,
+    role,
+    user: { username },
+  });
+
+  const message = (content: string) => ({
+    id: 'msg1',
+    roomId: 'room1',
+    userId: 'alice-id',
+    content,
+    senderUsername: 'alice',
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MentionsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            membership: {
+              findMany: jest
+                .fn()
+                .mockResolvedValue([
+                  member('alice-id', 'alice'),
+                  member('bob-id', 'Bob'),
+                  member('carol-id', 'carol'),
+                ]),
+            },
+            mention: {
+              // Echo what would be inserted
+              createManyAndReturn: jest.fn(
+                ({ data }: { data: { userId: string; kind: string }[] }) =>
+                  Promise.resolve(data),
+              ),
+              deleteMany: jest.fn(),
+            },
+          },
+        },
+        { provide: PresenceService, useValue: { getPresence: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(MentionsService);
+    prisma = module.get(PrismaService);
+    presence = module.get(PresenceService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('parses names after @ but not inside email addresses', () => {
+    expect(parseMentions('@Bob and @bob, mail bob@example.com @all!')).toEqual([
+      'bob',
+      'all',
+    ]);
+  });
+
+  it('ignores names in code and links', () => {
+    expect(
+      parseMentions(
+        'see `@all` and https://example.com/@carol\n```\n@here\n```\n> **@Bob**',
+      ),
+    ).toEqual(['bob']);
+  });
+
+  it('resolves usernames to members, never the sender', async () => {
+    const notices = await service.record(message('@bob @alice @nobody hi'));
+
+    expect(notices).toEqual([
+      expect.objectContaining({
+        userId: 'bob-id',
+        senderId: 'alice-id',
+        kind: 'user',
+        preview: '@bob @alice @nobody hi',
+      }),
+    ]);
+    expect(prisma.mention.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({ skipDuplicates: true }),
+    );
+  });
+
+  it('mentions only online members with @here', async () => {
+    presence.getPresence.mockResolvedValue([
+      { userId: 'bob-id', online: false, lastSeenAt: null },
+      { userId: 'carol-id', online: true, lastSeenAt: null },
+    ]);
+
+    const notices = await service.record(message('@here standup'));
+
+    expect(notices.map((n) => [n.userId, n.kind])).toEqual([
+      ['carol-id', 'here'],
+    ]);
+  });
+
+  it('leaves @all in large groups to admins', async () => {
+    const crowd = Array.from({ length: 30 }, (_, i) =>
+      member(`user${i}`, `user${i}`),
+    );
+    prisma.membership.findMany.mockResolvedValue([
+      member('alice-id', 'alice'),
+      ...crowd,
+    ]);
+
+    await expect(service.record(message('@all lunch?'))).resolves.toEqual([]);
+
+    prisma.membership.findMany.mockResolvedValue([
+      member('alice-id', 'alice', 'admin'),
+      ...crowd,
+    ]);
+    await expect(service.record(message('@all lunch?'))).resolves.toHaveLength(
+      30,
+    );
+  });
+
+  it('counts mentions of members who muted the room without notifying them', async () => {
+    prisma.membership.findMany.mockResolvedValue([
+      member('alice-id', 'alice'),
+      { ...member('bob-id', 'bob'), muted: true, mutedUntil: null },
+      {
+        ...member('carol-id', 'carol'),
+        muted: true,
+        mutedUntil: new Date(Date.now() - 1000), // the mute has run out
+      },
+    ]);
+
+    const notices = await service.record(message('@all lunch?'));
+
+    expect(notices.map((n) => n.userId)).toEqual(['carol-id']);
+    expect(prisma.mention.createManyAndReturn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: [
+          { messageId: 'msg1', userId: 'bob-id', kind: 'all' },
+          { messageId: 'msg1', userId: 'carol-id', kind: 'all' },
+        ],
+      }),
+    );
+  });
+
+  it('drops mentions an edit removed', async () => {
+    await service.sync(message('no mentions any more'));
+
+    expect(prisma.mention.deleteMany).toHaveBeenCalledWith({
+      where: { messageId: 'msg1', userId: { notIn: [] } },
+    });
+    expect(prisma.mention.createManyAndReturn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable } from '@nestjs/common';
+import {
+  parseMarkdown,
+  toPlainText,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from 'shared/markdown';
+import { PrismaService } from '../prisma.service';
+import { PresenceService } from './presence.service';
+import { isMuted } from './chat.service';
+import type { MentionKind, MentionNotice } from './chat.types';
+
+// In rooms bigger than this, only owners and admins can @all / @here
+const BROADCAST_MENTION_MAX_MEMBERS = 20;
+const PREVIEW_LENGTH = 140;
+
+// Usernames are [a-z0-9_]; an @ inside a word (e.g. an email) isn't one
+const MENTION_PATTERN = /(?<![\w@])@([a-z0-9_]+)/gi;
+
+/**
+ * Lower-cased names after each @, without duplicates. Only the message's
+ * text counts: an @ quoted in code or inside a link mentions nobody.
+ */
+export function parseMentions(content: string): string[] {
+  const names = new Set<string>();
+  const fromInlines = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'text') {
+        for (const match of node.text.matchAll(MENTION_PATTERN)) {
+          names.add(match[1]!.toLowerCase());
+        }
+      } else if ('children' in node) {
+        fromInlines(node.children);
+      }
+    }
+  };
+  const fromBlocks = (blocks: MarkdownBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') fromInlines(block.children);
+      else if (block.type === 'quote') fromBlocks(block.children);
+      else if (block.type === 'list') block.items.forEach(fromInlines);
+    }
+  };
+  fromBlocks(parseMarkdown(content));
+  return [...names];
+}
+
+type MentionedMessage = {
+  id: string;
+  roomId: string;
+  userId: string; // sender
+  content: string;
+  senderUsername?: string | null;
+};
+
+type MentionTargets = {
+  kinds: Map<string, MentionKind>;
+  muted: Set<string>; // stored, but not notified
+};
+
+/**
+ * Resolves @username, @all and @here in messages to room members and
+ * stores one Mention per member, which drives mention badges and
+ * notifications. The sender is never mentioned, and members who muted the
+ * room are not notified.
+ */
+@Injectable()
+export class MentionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly presence: PresenceService,
+  ) {}
+
+  /** Stores a new message's mentions; returns who to notify */
+  async record(message: MentionedMessage): Promise<MentionNotice[]> {
+    const targets = await this.resolve(message);
+    return this.store(message, targets);
+  }
+
+  /**
+   * Brings an edited message's mentions in line with its content. Members
+   * no longer mentioned are dropped; only newly mentioned ones are returned.
+   */
+  async sync(message: MentionedMessage): Promise<MentionNotice[]> {
+    const targets = await this.resolve(message);
+    await this.prisma.mention.deleteMany({
+      where: {
+        messageId: message.id,
+        userId: { notIn: [...targets.kinds.keys()] },
+      },
+    });
+    return this.store(message, targets);
+  }
+
+  private async resolve(message: MentionedMessage): Promise<MentionTargets> {
+    const targets = new Map<string, MentionKind>();
+    const muted = new Set<string>();
+    const names = parseMentions(message.content);
+    if (names.length === 0) return { kinds: targets, muted };
+
+    const members = await this.prisma.membership.findMany({
+      where: { roomId: message.roomId },
+      select: {
+        userId: true,
+        role: true,
+        muted: true,
+        mutedUntil: true,
+        user: { select: { username: true } },
+      },
+    });
+    const others = members.filter((m) => m.userId !== message.userId);
+    const now = new Date();
+    for (const m of others) if (isMuted(m, now)) muted.add(m.userId);
+
+    for (const m of others) {
+      if (names.includes(m.user.username.toLowerCase())) {
+        targets.set(m.userId, 'user');
+      }
+    }
+
+    const wantsAll = names.includes('all');
+    const wantsHere = names.includes('here');
+    if (!wantsAll && !wantsHere) return { kinds: targets, muted };
+
+    // Mentioning everyone in a big room is left to its admins
+    const sender = members.find((m) => m.userId === message.userId);
+    const mayBroadcast =
+      members.length <= BROADCAST_MENTION_MAX_MEMBERS ||
+      sender?.role === 'owner' ||
+      sender?.role === 'admin';
+    if (!mayBroadcast) return { kinds: targets, muted };
+
+    let broadcastTo = others.map((m) => m.userId);
+    if (!wantsAll) {
+      const presence = await this.presence.getPresence(broadcastTo);
+      broadcastTo = presence.filter((p) => p.online).map((p) => p.userId);
+    }
+    for (const userId of broadcastTo) {
+      if (!targets.has(userId)) targets.set(userId, wantsAll ? 'all' : 'here');
+    }
+    return { kinds: targets, muted };
+  }
+
+  // Already stored mentions are skipped, so a retried send isn't notified twice
+  private async store(
+    message: MentionedMessage,
+    { kinds, muted }: MentionTargets,
+  ): Promise<MentionNotice[]> {
+    if (kinds.size === 0) return [];
+
+    const created = await this.prisma.mention.createManyAndReturn({
+      data: [...kinds].map(([userId, kind]) => ({
+        messageId: message.id,
+        userId,
+        kind,
+      })),
+      skipDuplicates: true,
+      select: { userId: true, kind: true },
+    });
+
+    return created
+      .filter((m) => !muted.has(m.userId))
+      .map((m) => ({
+        roomId: message.roomId,
+        messageId: message.id,
+        userId: m.userId,
+        senderId: message.userId,
+        senderUsername: message.senderUsername ?? null,
+        kind: m.kind as MentionKind,
+        preview: toPlainText(message.content).slice(0, PREVIEW_LENGTH),
+      }));
+  }
+}
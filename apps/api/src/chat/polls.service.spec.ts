@@ -0,0 +1,279 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PollsService, toPoll, toPollCreate } from './polls.service';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+
+describe('PollsService', () => {
+  let service: PollsService;
+  let prisma: {
+    poll: Record<'findUnique' | 'findUniqueOrThrow' | 'updateMany', jest.Mock>;
+    pollVote: Record<'deleteMany' | 'createMany', jest.Mock>;
+    membership: { findUnique: jest.Mock };
+    $queryRaw: jest.Mock;
+    $transaction: jest.Mock;
+  };
+  let cache: { invalidateMessages: jest.Mock };
+
+  const HOUR = 60 * 60 * 1000;
+
+  const poll = (overrides: object = {}) => ({
+    id: 'poll1',
+    multipleChoice: false,
+    closesAt: null,
+    closedAt: null,
+    options: [{ id: 'opt-a' }, { id: 'opt-b' }, { id: 'opt-c' }],
+    message: { roomId: 'room1', senderId: 'alice-id', deletedAt: null },
+    ...overrides,
+  });
+
+  const tally = (anonymous = false) => ({
+    id: 'poll1',
+    multipleChoice: false,
+    anonymous,
+    closesAt: null,
+    closedAt: null,
+    options: [
+      { id: 'opt-a', text: 'Pizza', votes: [{ userId: 'bob-id' }] },
+      {
+        id: 'opt-b',
+        text: 'Sushi',
+        votes: [{ userId: 'alice-id' }, { userId: 'carol-id' }],
+      },
+    ],
+    message: { roomId: 'room1' },
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PollsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            poll: {
+              findUnique: jest.fn().mockResolvedValue(poll()),
+              findUniqueOrThrow: jest.fn().mockResolvedValue(tally()),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            pollVote: {
+              deleteMany: jest.fn((args: object) => ['deleteMany', args]),
+              createMany: jest.fn((args: object) => ['createMany', args]),
+            },
+            membership: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ userId: 'bob-id', role: 'member' }),
+            },
+            $queryRaw: jest.fn(
+              (sql: TemplateStringsArray, ...values: unknown[]) => [
+                sql.join('?').trim(),
+                ...values,
+              ],
+            ),
+            $transaction: jest.fn(),
+          },
+        },
+        { provide: CacheService, useValue: { invalidateMessages: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(PollsService);
+    prisma = module.get(PrismaService);
+    cache = module.get(CacheService);
+  });
+
+  describe('vote', () => {
+    it('replaces the voter’s choice and returns the new tally', async () => {
+      const result = await service.vote('bob-id', 'msg1', ['opt-a']);
+
+      expect(prisma.$transaction).toHaveBeenCalledWith([
+        // Concurrent votes wait for the poll's lock
+        ['SELECT 1 FROM "Poll" WHERE "id" = ? FOR UPDATE', 'poll1'],
+        ['deleteMany', { where: { pollId: 'poll1', userId: 'bob-id' } }],
+        [
+          'createMany',
+          {
+            data: [{ pollId: 'poll1', optionId: 'opt-a', userId: 'bob-id' }],
+            skipDuplicates: true,
+          },
+        ],
+      ]);
+      expect(cache.invalidateMessages).toHaveBeenCalledWith('room1');
+      expect(result.update).toMatchObject({
+        roomId: 'room1',
+        messageId: 'msg1',
+        poll: { voterCount: 3 },
+      });
+      expect(result.votes).toEqual({
+        roomId: 'room1',
+        messageId: 'msg1',
+        optionIds: ['opt-a'],
+      });
+    });
+
+    it('returns without waiting for the cache invalidation', async () => {
+      // Still debouncing behind another vote in the room
+      cache.invalidateMessages.mockReturnValue(new Promise(() => {}));
+
+      await expect(
+        service.vote('bob-id', 'msg1', ['opt-a']),
+      ).resolves.toMatchObject({ update: { messageId: 'msg1' } });
+      await expect(service.retract('bob-id', 'msg1')).resolves.toMatchObject({
+        votes: { optionIds: [] },
+      });
+    });
+
+    it('takes one option on single-choice polls and several otherwise', async () => {
+      await expect(
+        service.vote('bob-id', 'msg1', ['opt-a', 'opt-b']),
+      ).rejects.toThrow('Pick one option');
+
+      prisma.poll.findUnique.mockResolvedValue(poll({ multipleChoice: true }));
+      const result = await service.vote('bob-id', 'msg1', [
+        'opt-a',
+        'opt-b',
+        'opt-a',
+      ]);
+
+      expect(result.votes.optionIds).toEqual(['opt-a', 'opt-b']);
+    });
+
+    it('rejects options from another poll', async () => {
+      await expect(service.vote('bob-id', 'msg1', ['other'])).rejects.toThrow(
+        'Option not found in this poll',
+      );
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects votes once the poll is closed or past its close time', async () => {
+      prisma.poll.findUnique.mockResolvedValueOnce(
+        poll({ closedAt: new Date() }),
+      );
+      await expect(service.vote('bob-id', 'msg1', ['opt-a'])).rejects.toThrow(
+        'This poll is closed',
+      );
+
+      prisma.poll.findUnique.mockResolvedValueOnce(
+        poll({ closesAt: new Date(Date.now() - HOUR) }),
+      );
+      await expect(service.vote('bob-id', 'msg1', ['opt-a'])).rejects.toThrow(
+        'This poll is closed',
+      );
+    });
+
+    it('only lets members vote', async () => {
+      prisma.membership.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.vote('mallory-id', 'msg1', ['opt-a']),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('treats polls deleted for everyone as gone', async () => {
+      prisma.poll.findUnique.mockResolvedValue(
+        poll({
+          message: {
+            roomId: 'room1',
+            senderId: 'alice-id',
+            deletedAt: new Date(),
+          },
+        }),
+      );
+
+      await expect(service.vote('bob-id', 'msg1', ['opt-a'])).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  it('retracts a vote', async () => {
+    const result = await service.retract('bob-id', 'msg1');
+
+    expect(prisma.pollVote.deleteMany).toHaveBeenCalledWith({
+      where: { pollId: 'poll1', userId: 'bob-id' },
+    });
+    expect(result.votes.optionIds).toEqual([]);
+  });
+
+  describe('close', () => {
+    it('lets the creator close the poll', async () => {
+      prisma.membership.findUnique.mockResolvedValue({ role: 'member' });
+
+      await service.close('alice-id', 'msg1');
+
+      expect(prisma.poll.updateMany).toHaveBeenCalledWith({
+        where: { id: 'poll1', closedAt: null },
+        data: { closedAt: expect.any(Date) as Date },
+      });
+    });
+
+    it('lets admins close anyone’s poll, but not other members', async () => {
+      prisma.membership.findUnique.mockResolvedValueOnce({ role: 'admin' });
+      await expect(service.close('dave-id', 'msg1')).resolves.toMatchObject({
+        messageId: 'msg1',
+      });
+
+      prisma.membership.findUnique.mockResolvedValueOnce({ role: 'member' });
+      await expect(service.close('bob-id', 'msg1')).rejects.toThrow(
+        'Only the poll creator or an admin can close it',
+      );
+    });
+
+    it('fails on a poll that is already closed', async () => {
+      prisma.poll.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.close('alice-id', 'msg1')).rejects.toThrow(
+        'This poll is already closed',
+      );
+    });
+  });
+
+  describe('toPoll', () => {
+    it('lists voters on public polls only', () => {
+      expect(toPoll(tally())!.options[1]).toEqual({
+        id: 'opt-b',
+        text: 'Sushi',
+        votes: 2,
+        voterIds: ['alice-id', 'carol-id'],
+      });
+      expect(toPoll(tally(true))!.options[1]).toEqual({
+        id: 'opt-b',
+        text: 'Sushi',
+        votes: 2,
+      });
+    });
+  });
+
+  describe('toPollCreate', () => {
+    it('trims options and keeps their order', () => {
+      expect(toPollCreate({ options: [' Pizza ', 'Sushi'] })).toEqual({
+        multipleChoice: false,
+        anonymous: false,
+        closesAt: null,
+        options: {
+          create: [
+            { text: 'Pizza', position: 0 },
+            { text: 'Sushi', position: 1 },
+          ],
+        },
+      });
+    });
+
+    it('rejects duplicate options and close times in the past', () => {
+      expect(() => toPollCreate({ options: ['Pizza', 'pizza '] })).toThrow(
+        BadRequestException,
+      );
+      expect(() =>
+        toPollCreate({
+          options: ['Pizza', 'Sushi'],
+          closesAt: new Date(Date.now() - HOUR),
+        }),
+      ).toThrow('closesAt must be in the future');
+    });
+  });
+});
@@ -0,0 +1,242 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+import type { MembershipRole, Poll, PollUpdate, PollVotes } from './chat.types';
+
+const MAX_OPEN_FOR_MS = 365 * 24 * 60 * 60 * 1000;
+const CLOSER_ROLES: MembershipRole[] = ['owner', 'admin']; // besides the creator
+
+export const POLL_SELECT = {
+  id: true,
+  multipleChoice: true,
+  anonymous: true,
+  closesAt: true,
+  closedAt: true,
+  options: {
+    select: { id: true, text: true, votes: { select: { userId: true } } },
+    orderBy: { position: 'asc' },
+  },
+} as const;
+
+type PollRow = Prisma.PollGetPayload<{ select: typeof POLL_SELECT }>;
+
+/** Tallies a poll; who voted for what is left out of anonymous polls */
+export const toPoll = (row: PollRow | null | undefined): Poll | null => {
+  if (!row) return null;
+  const voters = new Set(
+    row.options.flatMap((o) => o.votes.map((v) => v.userId)),
+  );
+  return {
+    id: row.id,
+    multipleChoice: row.multipleChoice,
+    anonymous: row.anonymous,
+    closesAt: row.closesAt?.toISOString() ?? null,
+    closedAt: row.closedAt?.toISOString() ?? null,
+    options: row.options.map((o) => ({
+      id: o.id,
+      text: o.text,
+      votes: o.votes.length,
+      ...(!row.anonymous && { voterIds: o.votes.map((v) => v.userId) }),
+    })),
+    voterCount: voters.size,
+  };
+};
+
+export interface PollInput {
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: Date | null;
+}
+
+/** Checks a new poll and turns it into the nested create for its message */
+export function toPollCreate(
+  input: PollInput,
+): Prisma.PollCreateWithoutMessageInput {
+  const options = input.options.map((text) => text.trim());
+  if (options.some((text) => !text)) {
+    throw new BadRequestException('Poll options cannot be empty');
+  }
+  if (new Set(options.map((o) => o.toLowerCase())).size !== options.length) {
+    throw new BadRequestException('Poll options must all be different');
+  }
+
+  const closesAt = input.closesAt ?? null;
+  if (closesAt) {
+    const ahead = closesAt.getTime() - Date.now();
+    if (ahead <= 0) {
+      throw new BadRequestException('closesAt must be in the future');
+    }
+    if (ahead > MAX_OPEN_FOR_MS) {
+      throw new BadRequestException('Polls can stay open up to a year');
+    }
+  }
+
+  return {
+    multipleChoice: input.multipleChoice ?? false,
+    anonymous: input.anonymous ?? false,
+    closesAt,
+    options: { create: options.map((text, position) => ({ text, position })) },
+  };
+}
+
+const isOpen = (poll: { closesAt: Date | null; closedAt: Date | null }) =>
+  !poll.closedAt && (!poll.closesAt || poll.closesAt.getTime() > Date.now());
+
+/**
+ * Voting on and closing polls. Polls themselves are posted as messages
+ * (see ChatService.saveMessage); every change here is answered with the
+ * new tally for the whole room.
+ */
+@Injectable()
+export class PollsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly cache: CacheService,
+  ) {}
+
+  /**
+   * Replaces the user's choice with the given options: exactly one on a
+   * single-choice poll, one or more otherwise.
+   */
+  async vote(
+    userId: string,
+    messageId: string,
+    optionIds: string[],
+  ): Promise<{ update: PollUpdate; votes: PollVotes }> {
+    const poll = await this.findOpenPoll(userId, messageId);
+
+    const chosen = [...new Set(optionIds)];
+    if (chosen.length === 0 || (!poll.multipleChoice && chosen.length > 1)) {
+      throw new BadRequestException(
+        poll.multipleChoice ? 'Pick at least one option' : 'Pick one option',
+      );
+    }
+    const known = new Set(poll.options.map((o) => o.id));
+    if (chosen.some((id) => !known.has(id))) {
+      throw new BadRequestException('Option not found in this poll');
+    }
+
+    // Locking the poll makes the user's concurrent votes take turns, so
+    // each one replaces the last instead of both landing
+    await this.prisma.$transaction([
+      this.prisma.$queryRaw`
+        SELECT 1 FROM "Poll" WHERE "id" = ${poll.id} FOR UPDATE
+      `,
+      this.prisma.pollVote.deleteMany({ where: { pollId: poll.id, userId } }),
+      this.prisma.pollVote.createMany({
+        data: chosen.map((optionId) => ({ pollId: poll.id, optionId, userId })),
+        skipDuplicates: true,
+      }),
+    ]);
+
+    return {
+      update: await this.publish(messageId),
+      votes: { roomId: poll.roomId, messageId, optionIds: chosen },
+    };
+  }
+
+  /** Takes back the user's vote while the poll is open */
+  async retract(
+    userId: string,
+    messageId: string,
+  ): Promise<{ update: PollUpdate; votes: PollVotes }> {
+    const poll = await this.findOpenPoll(userId, messageId);
+
+    await this.prisma.pollVote.deleteMany({
+      where: { pollId: poll.id, userId },
+    });
+
+    return {
+      update: await this.publish(messageId),
+      votes: { roomId: poll.roomId, messageId, optionIds: [] },
+    };
+  }
+
+  /** Ends voting early; only the poll's creator or a room admin may */
+  async close(userId: string, messageId: string): Promise<PollUpdate> {
+    const poll = await this.findPoll(messageId);
+    const membership = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId: poll.message.roomId } },
+      select: { role: true },
+    });
+    if (!membership) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (
+      poll.message.senderId !== userId &&
+      !CLOSER_ROLES.includes(membership.role as MembershipRole)
+    ) {
+      throw new ForbiddenException(
+        'Only the poll creator or an admin can close it',
+      );
+    }
+
+    if (!isOpen(poll)) {
+      throw new BadRequestException('This poll is already closed');
+    }
+    // Conditional, so two closes at once don't both succeed
+    const { count } = await this.prisma.poll.updateMany({
+      where: { id: poll.id, closedAt: null },
+      data: { closedAt: new Date() },
+    });
+    if (count === 0) {
+      throw new BadRequestException('This poll is already closed');
+    }
+
+    return this.publish(messageId);
+  }
+
+  private async findPoll(messageId: string) {
+    const poll = await this.prisma.poll.findUnique({
+      where: { messageId },
+      select: {
+        id: true,
+        multipleChoice: true,
+        closesAt: true,
+        closedAt: true,
+        options: { select: { id: true } },
+        message: { select: { roomId: true, senderId: true, deletedAt: true } },
+      },
+    });
+    if (!poll || poll.message.deletedAt) {
+      throw new NotFoundException('Poll not found');
+    }
+    return poll;
+  }
+
+  private async findOpenPoll(userId: string, messageId: string) {
+    const poll = await this.findPoll(messageId);
+    const roomId = poll.message.roomId;
+
+    const member = await this.prisma.membership.findUnique({
+      where: { userId_roomId: { userId, roomId } },
+      select: { userId: true },
+    });
+    if (!member) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (!isOpen(poll)) {
+      throw new BadRequestException('This poll is closed');
+    }
+    return { ...poll, roomId };
+  }
+
+  // Reads the new tally; the cached pages hold the old one. Their debounced
+  // invalidation can wait behind other activity in the room, so the update
+  // goes out without it.
+  private async publish(messageId: string): Promise<PollUpdate> {
+    const row = await this.prisma.poll.findUniqueOrThrow({
+      where: { messageId },
+      select: { ...POLL_SELECT, message: { select: { roomId: true } } },
+    });
+    void this.cache.invalidateMessages(row.message.roomId);
+    return { roomId: row.message.roomId, messageId, poll: toPoll(row)! };
+  }
+}
@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PresenceService } from './presence.service';
+import { PrismaService } from '../prisma.service';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+  let prisma: any;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PresenceService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: { update: jest.fn(), findMany: jest.fn() },
+          },
+        },
+        // No Redis URL, so sockets are counted in memory
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(PresenceService);
+    prisma = module.get(PrismaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('only reports the first connect and the last disconnect', async () => {
+    await expect(service.connect('user1', 'phone')).resolves.toBe(true);
+    await expect(service.connect('user1', 'laptop')).resolves.toBe(false);
+
+    await expect(service.disconnect('user1', 'phone')).resolves.toBeNull();
+    expect(prisma.user.update).not.toHaveBeenCalled();
+
+    const lastSeenAt = await service.disconnect('user1', 'laptop');
+    expect(lastSeenAt).toBeInstanceOf(Date);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: { id: 'user1' },
+      data: { lastSeenAt },
+    });
+  });
+
+  it('reports who is online and when the others were last seen', async () => {
+    await service.connect('user1', 'socket1');
+    prisma.user.findMany.mockResolvedValue([
+      { id: 'user1', lastSeenAt: new Date('2024-01-01T00:00:00Z') },
+      { id: 'user2', lastSeenAt: new Date('2024-01-02T00:00:00Z') },
+    ]);
+
+    const presence = await service.getPresence(['user1', 'user2', 'user2']);
+
+    expect(prisma.user.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { id: { in: ['user1', 'user2'] } } }),
+    );
+    expect(presence).toEqual([
+      { userId: 'user1', online: true, lastSeenAt: null },
+      {
+        userId: 'user2',
+        online: false,
+        lastSeenAt: '2024-01-02T00:00:00.000Z',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,207 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+import { PrismaService } from '../prisma.service';
+import type { UserPresence } from './chat.types';
+
+// A socket counts as connected until its entry expires. Live nodes refresh
+// their sockets well before that, so only sockets of a crashed node age out.
+const SOCKET_TTL_MS = 60_000;
+const HEARTBEAT_MS = 20_000;
+
+const presenceKey = (userId: string) => `presence:user:${userId}`;
+
+/**
+ * Tracks which users are online across all API nodes and devices.
+ *
+ * Each socket is a member of its user's sorted set in Redis, scored by the
+ * time it expires, so a user is online while any unexpired socket remains.
+ * Without Redis, sockets are only counted on this node.
+ */
+@Injectable()
+export class PresenceService implements OnModuleInit, OnModuleDestroy {
+  private client: RedisClientType | undefined;
+  private heartbeat: NodeJS.Timeout | undefined;
+  // Sockets connected to this node: socketId -> userId
+  private localSockets = new Map<string, string>();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  async onModuleInit() {
+    const redisUrl = this.configService.get<string>('app.redisUrl');
+    if (redisUrl) {
+      this.client = createClient({
+        url: redisUrl,
+        socket: {
+          reconnectStrategy: (retries) => Math.min(retries * 50, 1000),
+          connectTimeout: 10000,
+        },
+      });
+
+      this.client.on('error', (err) => {
+        console.error('Redis Presence Error:', err);
+      });
+
+      await this.client.connect();
+    } else {
+      console.warn('⚠️ Redis URL not configured - presence is per node');
+    }
+
+    this.heartbeat = setInterval(() => {
+      void this.refreshLocalSockets();
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.heartbeat);
+
+    if (this.client) {
+      await this.client.quit();
+    }
+  }
+
+  private isEnabled(): boolean {
+    return this.client?.isReady === true;
+  }
+
+  /**
+   * Registers a socket. Returns true when it is the user's only one, i.e.
+   * the user just came online.
+   */
+  async connect(userId: string, socketId: string): Promise<boolean> {
+    this.localSockets.set(socketId, userId);
+
+    if (!this.isEnabled() || !this.client) {
+      return this.countLocalSockets(userId) === 1;
+    }
+
+    const key = presenceKey(userId);
+    const now = Date.now();
+    try {
+      const [, , count] = await this.client
+        .multi()
+        .zRemRangeByScore(key, '-inf', now)
+        .zAdd(key, { score: now + SOCKET_TTL_MS, value: socketId })
+        .zCard(key)
+        .pExpire(key, SOCKET_TTL_MS)
+        .exec();
+      return Number(count) === 1;
+    } catch (error) {
+      console.error('Presence connect error:', error);
+      return this.countLocalSockets(userId) === 1;
+    }
+  }
+
+  /**
+   * Unregisters a socket. Returns the time the user was last seen when it
+   * was their last one, i.e. the user just went offline, otherwise null.
+   */
+  async disconnect(userId: string, socketId: string): Promise<Date | null> {
+    this.localSockets.delete(socketId);
+
+    let offline: boolean;
+    if (!this.isEnabled() || !this.client) {
+      offline = this.countLocalSockets(userId) === 0;
+    } else {
+      const key = presenceKey(userId);
+      try {
+        const [removed, , count] = await this.client
+          .multi()
+          .zRem(key, socketId)
+          .zRemRangeByScore(key, '-inf', Date.now())
+          .zCard(key)
+          .exec();
+        // A socket that had already expired was announced as gone by then
+        offline = Number(removed) === 1 && Number(count) === 0;
+      } catch (error) {
+        console.error('Presence disconnect error:', error);
+        offline = this.countLocalSockets(userId) === 0;
+      }
+    }
+
+    if (!offline) return null;
+
+    const lastSeenAt = new Date();
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { lastSeenAt },
+    });
+    return lastSeenAt;
+  }
+
+  async getPresence(userIds: string[]): Promise<UserPresence[]> {
+    const ids = [...new Set(userIds)];
+    if (ids.length === 0) return [];
+
+    const [users, online] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, lastSeenAt: true },
+      }),
+      this.findOnline(ids),
+    ]);
+
+    return users.map((u) => ({
+      userId: u.id,
+      online: online.has(u.id),
+      lastSeenAt: online.has(u.id)
+        ? null
+        : (u.lastSeenAt?.toISOString() ?? null),
+    }));
+  }
+
+  private async findOnline(userIds: string[]): Promise<Set<string>> {
+    if (!this.isEnabled() || !this.client) {
+      return new Set(this.localSockets.values());
+    }
+
+    const multi = this.client.multi();
+    for (const id of userIds) {
+      multi.zCount(presenceKey(id), Date.now(), '+inf');
+    }
+    try {
+      const counts = await multi.exec();
+      return new Set(userIds.filter((_, i) => Number(counts[i]) > 0));
+    } catch (error) {
+      console.error('Presence lookup error:', error);
+      return new Set(this.localSockets.values());
+    }
+  }
+
+  private countLocalSockets(userId: string): number {
+    let count = 0;
+    for (const id of this.localSockets.values()) {
+      if (id === userId) count++;
+    }
+    return count;
+  }
+
+  // Pushes back the expiry of this node's sockets; XX so a socket that
+  // disconnected meanwhile isn't re-added
+  private async refreshLocalSockets() {
+    if (!this.isEnabled() || !this.client || this.localSockets.size === 0) {
+      return;
+    }
+
+    const expiresAt = Date.now() + SOCKET_TTL_MS;
+    const multi = this.client.multi();
+    for (const [socketId, userId] of this.localSockets) {
+      const key = presenceKey(userId);
+      multi.zAdd(
+        key,
+        { score: expiresAt, value: socketId },
+        { condition: 'XX' },
+      );
+      multi.pExpire(key, SOCKET_TTL_MS);
+    }
+    try {
+      await multi.exec();
+    } catch (error) {
+      console.error('Presence heartbeat error:', error);
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { ScheduledMessagesService } from './scheduled-messages.service';
+import { ChatService } from './chat.service';
+import { PrismaService } from '../prisma.service';
+import { CacheService } from '../common/cache.service';
+
+describe('ScheduledMessagesService', () => {
+  let service: ScheduledMessagesService;
+  let prisma: any;
+  let chat: any;
+
+  const scheduled = {
+    roomId: 'room1',
+    senderId: 'user1',
+    content: 'Good morning',
+    replyToId: null,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ScheduledMessagesService,
+        {
+          provide: PrismaService,
+          useValue: {
+            scheduledMessage: {
+              create: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([{ id: 'sched1' }]),
+              findUnique: jest.fn().mockResolvedValue(scheduled),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              update: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: ChatService,
+          useValue: {
+            isMember: jest.fn().mockResolvedValue(true),
+            canPost: jest.fn().mockResolvedValue(true),
+            saveMessage: jest
+              .fn()
+              .mockResolvedValue({ id: 'msg1', roomId: 'room1' }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(ScheduledMessagesService);
+    prisma = module.get(PrismaService);
+    chat = module.get(ChatService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('delivers due messages through saveMessage and reports them', async () => {
+    const listener = jest.fn();
+    service.onDelivered(listener);
+
+    await expect(service.deliverDue()).resolves.toBe(1);
+
+    // The scheduled id keeps a retried delivery from sending twice
+    expect(chat.saveMessage).toHaveBeenCalledWith({
+      ...scheduled,
+      clientMsgId: 'sched1',
+    });
+    expect(prisma.scheduledMessage.update).toHaveBeenCalledWith({
+      where: { id: 'sched1' },
+      data: expect.objectContaining({ messageId: 'msg1', lockedUntil: null }),
+    });
+    expect(listener).toHaveBeenCalledWith({ id: 'msg1', roomId: 'room1' });
+  });
+
+  it('finishes a delivery when another invalidation lands during it', async () => {
+    const cache = new CacheService({
+      get: jest.fn(),
+    } as unknown as ConfigService);
+    // As in ChatService.saveMessage, which waits on the room's invalidation
+    chat.saveMessage.mockImplementation(async () => {
+      const invalidated = cache.invalidateMessages('room1');
+      setTimeout(() => void cache.invalidateMessages('room1'), 50); // a live send
+      await invalidated;
+      return { id: 'msg1', roomId: 'room1' };
+    });
+
+    await expect(service.deliverDue()).resolves.toBe(1);
+    // The sweep is released, so the next one delivers again
+    await expect(service.deliverDue()).resolves.toBe(1);
+  });
+
+  it('leaves messages claimed by another node alone', async () => {
+    prisma.scheduledMessage.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.deliverDue()).resolves.toBe(0);
+    expect(chat.saveMessage).not.toHaveBeenCalled();
+  });
+
+  it('fails messages the sender can no longer post', async () => {
+    chat.isMember.mockResolvedValue(false);
+
+    await expect(service.deliverDue()).resolves.toBe(0);
+    expect(chat.saveMessage).not.toHaveBeenCalled();
+    expect(prisma.scheduledMessage.update).toHaveBeenCalledWith({
+      where: { id: 'sched1' },
+      data: {
+        error: 'User is not a member of this room',
+        lockedUntil: null,
+      },
+    });
+  });
+
+  it('only schedules into the future', async () => {
+    await expect(
+      service.schedule('user1', 'room1', {
+        content: 'Too late',
+        sendAt: new Date(Date.now() - 1000),
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(prisma.scheduledMessage.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,277 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  HttpException,
+  Injectable,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma.service';
+import { ChatService } from './chat.service';
+import type { ScheduledMessage } from './chat.types';
+
+const SWEEP_MS = 5_000;
+// A node that claims a message has this long to deliver it before another
+// node may take over (e.g. after a crash mid-delivery)
+const LEASE_MS = 60_000;
+const BATCH_SIZE = 50;
+const MAX_SCHEDULE_AHEAD_MS = 365 * 24 * 60 * 60 * 1000;
+
+const SCHEDULED_SELECT = {
+  id: true,
+  roomId: true,
+  content: true,
+  replyToId: true,
+  sendAt: true,
+  error: true,
+  createdAt: true,
+} as const;
+
+type ScheduledRow = Prisma.ScheduledMessageGetPayload<{
+  select: typeof SCHEDULED_SELECT;
+}>;
+
+const toScheduledMessage = (row: ScheduledRow): ScheduledMessage => ({
+  id: row.id,
+  roomId: row.roomId,
+  content: row.content,
+  replyToId: row.replyToId,
+  sendAt: row.sendAt.toISOString(),
+  status: row.error ? 'failed' : 'pending',
+  error: row.error,
+  createdAt: row.createdAt.toISOString(),
+});
+
+// Not sent, not failed, and not leased by a node right now
+const claimable = (now: Date): Prisma.ScheduledMessageWhereInput => ({
+  sentAt: null,
+  error: null,
+  OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+});
+
+type SavedMessage = Awaited<ReturnType<ChatService['saveMessage']>>;
+type DeliveryListener = (message: SavedMessage) => void;
+
+/**
+ * Messages written now and sent later, kept in Postgres so they survive
+ * restarts.
+ *
+ * Every API node sweeps for due messages. A node leases each message with
+ * a conditional update before delivering it, so only one node sends it; if
+ * that node dies, the lease runs out and another node picks it up. The
+ * scheduled id doubles as the clientMsgId, so a retried delivery never
+ * creates a second message.
+ */
+@Injectable()
+export class ScheduledMessagesService implements OnModuleInit, OnModuleDestroy {
+  private sweeper: NodeJS.Timeout | undefined;
+  private sweeping = false;
+  private deliveryListener: DeliveryListener | undefined;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly chat: ChatService,
+  ) {}
+
+  onModuleInit() {
+    this.sweeper = setInterval(() => {
+      void this.deliverDue();
+    }, SWEEP_MS);
+    this.sweeper.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweeper);
+  }
+
+  /** Called with each delivered message, for broadcasting */
+  onDelivered(listener: DeliveryListener) {
+    this.deliveryListener = listener;
+  }
+
+  async schedule(
+    userId: string,
+    roomId: string,
+    input: { content: string; sendAt: Date; replyToId?: string | null },
+  ): Promise<ScheduledMessage> {
+    this.assertSendAt(input.sendAt);
+    await this.assertCanPost(userId, roomId, input.replyToId);
+
+    const row = await this.prisma.scheduledMessage.create({
+      data: {
+        roomId,
+        senderId: userId,
+        content: input.content,
+        replyToId: input.replyToId ?? null,
+        sendAt: input.sendAt,
+      },
+      select: SCHEDULED_SELECT,
+    });
+    return toScheduledMessage(row);
+  }
+
+  /** The caller's unsent messages, soonest first, optionally for one room */
+  async list(userId: string, roomId?: string): Promise<ScheduledMessage[]> {
+    const rows = await this.prisma.scheduledMessage.findMany({
+      where: { senderId: userId, sentAt: null, ...(roomId && { roomId }) },
+      select: SCHEDULED_SELECT,
+      orderBy: { sendAt: 'asc' },
+    });
+    return rows.map(toScheduledMessage);
+  }
+
+  /** Changes the content or time; a failed message is queued again */
+  async update(
+    userId: string,
+    id: string,
+    changes: { content?: string; sendAt?: Date },
+  ): Promise<ScheduledMessage> {
+    if (changes.sendAt) this.assertSendAt(changes.sendAt);
+    await this.findOwn(userId, id);
+
+    const { count } = await this.prisma.scheduledMessage.updateMany({
+      where: {
+        id,
+        sentAt: null,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+      },
+      data: { ...changes, error: null },
+    });
+    if (count === 0) {
+      throw new ConflictException('The message is already being sent');
+    }
+
+    const row = await this.prisma.scheduledMessage.findUniqueOrThrow({
+      where: { id },
+      select: SCHEDULED_SELECT,
+    });
+    return toScheduledMessage(row);
+  }
+
+  async cancel(userId: string, id: string): Promise<void> {
+    await this.findOwn(userId, id);
+
+    const { count } = await this.prisma.scheduledMessage.deleteMany({
+      where: {
+        id,
+        sentAt: null,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+      },
+    });
+    if (count === 0) {
+      throw new ConflictException('The message is already being sent');
+    }
+  }
+
+  /** Delivers every message that is due; returns how many were sent */
+  async deliverDue(): Promise<number> {
+    // Sweeps can outlast the interval; don't overlap on this node
+    if (this.sweeping) return 0;
+    this.sweeping = true;
+
+    let delivered = 0;
+    try {
+      const now = new Date();
+      const due = await this.prisma.scheduledMessage.findMany({
+        where: { ...claimable(now), sendAt: { lte: now } },
+        select: { id: true },
+        orderBy: { sendAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      for (const { id } of due) {
+        if (await this.deliver(id)) delivered++;
+      }
+    } catch (error) {
+      console.error('Scheduled message sweep error:', error);
+    } finally {
+      this.sweeping = false;
+    }
+    return delivered;
+  }
+
+  private async deliver(id: string): Promise<boolean> {
+    const now = new Date();
+    // Only the node whose update matches gets to send it
+    const { count } = await this.prisma.scheduledMessage.updateMany({
+      where: { id, ...claimable(now) },
+      data: { lockedUntil: new Date(now.getTime() + LEASE_MS) },
+    });
+    if (count === 0) return false;
+
+    const scheduled = await this.prisma.scheduledMessage.findUnique({
+      where: { id },
+      select: { roomId: true, senderId: true, content: true, replyToId: true },
+    });
+    if (!scheduled) return false; // cancelled after the lease expired
+
+    try {
+      await this.assertCanPost(
+        scheduled.senderId,
+        scheduled.roomId,
+        scheduled.replyToId,
+      );
+      const saved = await this.chat.saveMessage({
+        ...scheduled,
+        clientMsgId: id,
+      });
+
+      await this.prisma.scheduledMessage.update({
+        where: { id },
+        data: { sentAt: new Date(), messageId: saved.id, lockedUntil: null },
+      });
+      this.deliveryListener?.(saved);
+      return true;
+    } catch (error) {
+      // Rejections (left the room, channel became read-only, ...) are final;
+      // anything else is retried once the lease runs out
+      if (error instanceof HttpException) {
+        await this.prisma.scheduledMessage.update({
+          where: { id },
+          data: { error: error.message, lockedUntil: null },
+        });
+      } else {
+        console.error('Scheduled message delivery error:', error);
+      }
+      return false;
+    }
+  }
+
+  private async findOwn(userId: string, id: string) {
+    const scheduled = await this.prisma.scheduledMessage.findUnique({
+      where: { id },
+      select: { senderId: true, sentAt: true },
+    });
+    if (!scheduled || scheduled.senderId !== userId || scheduled.sentAt) {
+      throw new NotFoundException('Scheduled message not found');
+    }
+  }
+
+  private async assertCanPost(
+    userId: string,
+    roomId: string,
+    replyToId?: string | null,
+  ) {
+    if (!(await this.chat.isMember(userId, roomId))) {
+      throw new ForbiddenException('User is not a member of this room');
+    }
+    if (!(await this.chat.canPost(userId, roomId, replyToId))) {
+      throw new ForbiddenException('Only channel admins can post here');
+    }
+  }
+
+  private assertSendAt(sendAt: Date) {
+    const ahead = sendAt.getTime() - Date.now();
+    if (ahead <= 0) {
+      throw new BadRequestException('sendAt must be in the future');
+    }
+    if (ahead > MAX_SCHEDULE_AHEAD_MS) {
+      throw new BadRequestException(
+        'Messages can be scheduled up to a year ahead',
+      );
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { ConfigService } from '@nestjs/config';
+import { Test, TestingModule } from '@nestjs/testing';
+import { TypingService } from './typing.service';
+
+describe('TypingService', () => {
+  let service: TypingService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TypingService,
+        // No Redis URL, so typing state is kept in memory
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(TypingService);
+    await service.onModuleInit();
+  });
+
+  afterEach(async () => {
+    await service.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('announces a typer once and throttles refreshes', async () => {
+    await expect(service.start('room1', 'user1', 's1')).resolves.toEqual([
+      'user1',
+    ]);
+    await expect(service.start('room1', 'user1', 's1')).resolves.toBeNull();
+
+    jest.advanceTimersByTime(2500);
+    await expect(service.start('room1', 'user1', 's1')).resolves.toBeNull();
+    await expect(service.start('room1', 'user2', 's2')).resolves.toEqual([
+      'user1',
+      'user2',
+    ]);
+  });
+
+  it('returns the remaining typers when someone stops', async () => {
+    await service.start('room1', 'user1', 's1');
+    await service.start('room1', 'user2', 's2');
+
+    await expect(service.stop('room1', 'user1', 's1')).resolves.toEqual([
+      'user2',
+    ]);
+    await expect(service.stop('room1', 'user1', 's1')).resolves.toBeNull();
+  });
+
+  it('clears the typing state of a disconnected socket', async () => {
+    await service.start('room1', 'user1', 's1');
+    await service.start('room2', 'user1', 's1');
+
+    await expect(service.disconnect('user1', 's1')).resolves.toEqual([
+      { roomId: 'room1', userIds: [] },
+      { roomId: 'room2', userIds: [] },
+    ]);
+  });
+
+  it('expires typers that stop refreshing', async () => {
+    const listener = jest.fn();
+    service.onExpired(listener);
+    await service.start('room1', 'user1', 's1');
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(listener).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(2000);
+    expect(listener).toHaveBeenCalledWith('room1', []);
+    await expect(service.getTypers('room1')).resolves.toEqual([]);
+  });
+});
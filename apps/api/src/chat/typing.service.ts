@@ -0,0 +1,224 @@
+import { Injectable, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createClient, RedisClientType } from 'redis';
+
+// Clients refresh while the user keeps typing; a typer that goes quiet (or
+// whose node dies) is dropped once this passes
+const TYPING_TTL_MS = 6_000;
+// Refreshes closer together than this are ignored
+const THROTTLE_MS = 2_000;
+const SWEEP_MS = 1_000;
+
+const typingKey = (roomId: string) => `typing:room:${roomId}`;
+// Rooms with recent typing activity, scored by when it happened
+const ACTIVE_ROOMS_KEY = 'typing:rooms';
+
+type ExpiryListener = (roomId: string, userIds: string[]) => void;
+
+/**
+ * Tracks who is typing in which room, shared by all API nodes.
+ *
+ * Each room has a sorted set of typers scored by when their typing expires.
+ * Every node sweeps expired typers and the node whose ZREM succeeds reports
+ * the change, so each expiry is announced once. Without Redis, state is kept
+ * in memory for this node only.
+ */
+@Injectable()
+export class TypingService implements OnModuleInit, OnModuleDestroy {
+  private client: RedisClientType | undefined;
+  private sweeper: NodeJS.Timeout | undefined;
+  private expiryListener: ExpiryListener | undefined;
+  // In-memory fallback: roomId -> userId -> expiresAt
+  private rooms = new Map<string, Map<string, number>>();
+  // Last accepted refresh per `${roomId}:${userId}`, for throttling
+  private lastRefresh = new Map<string, number>();
+  // Rooms each local socket is typing in, cleared on disconnect
+  private socketRooms = new Map<string, Set<string>>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async onModuleInit() {
+    const redisUrl = this.configService.get<string>('app.redisUrl');
+    if (redisUrl) {
+      this.client = createClient({
+        url: redisUrl,
+        socket: {
+          reconnectStrategy: (retries) => Math.min(retries * 50, 1000),
+          connectTimeout: 10000,
+        },
+      });
+
+      this.client.on('error', (err) => {
+        console.error('Redis Typing Error:', err);
+      });
+
+      await this.client.connect();
+    }
+
+    this.sweeper = setInterval(() => {
+      void this.sweep();
+    }, SWEEP_MS);
+    this.sweeper.unref();
+  }
+
+  async onModuleDestroy() {
+    clearInterval(this.sweeper);
+
+    if (this.client) {
+      await this.client.quit();
+    }
+  }
+
+  private isEnabled(): boolean {
+    return this.client?.isReady === true;
+  }
+
+  /** Called with the remaining typers of a room when typers expire */
+  onExpired(listener: ExpiryListener) {
+    this.expiryListener = listener;
+  }
+
+  /**
+   * Marks the user as typing. Returns the room's typers when the user
+   * wasn't typing before, otherwise null (nothing to announce).
+   */
+  async start(
+    roomId: string,
+    userId: string,
+    socketId: string,
+  ): Promise<string[] | null> {
+    const throttleKey = `${roomId}:${userId}`;
+    const now = Date.now();
+    if (now - (this.lastRefresh.get(throttleKey) ?? 0) < THROTTLE_MS) {
+      return null;
+    }
+    this.lastRefresh.set(throttleKey, now);
+
+    let socketRooms = this.socketRooms.get(socketId);
+    if (!socketRooms) {
+      socketRooms = new Set();
+      this.socketRooms.set(socketId, socketRooms);
+    }
+    socketRooms.add(roomId);
+
+    const expiresAt = now + TYPING_TTL_MS;
+    if (!this.isEnabled() || !this.client) {
+      const typers = this.rooms.get(roomId) ?? new Map<string, number>();
+      this.rooms.set(roomId, typers);
+      const added = !typers.has(userId);
+      typers.set(userId, expiresAt);
+      return added ? this.getTypers(roomId) : null;
+    }
+
+    const key = typingKey(roomId);
+    const [added] = await this.client
+      .multi()
+      .zAdd(key, { score: expiresAt, value: userId })
+      .pExpire(key, TYPING_TTL_MS * 2)
+      .zAdd(ACTIVE_ROOMS_KEY, { score: now, value: roomId })
+      .exec();
+    return Number(added) === 1 ? this.getTypers(roomId) : null;
+  }
+
+  /**
+   * Clears the user's typing state. Returns the room's remaining typers
+   * when the user was typing, otherwise null.
+   */
+  async stop(
+    roomId: string,
+    userId: string,
+    socketId: string,
+  ): Promise<string[] | null> {
+    this.lastRefresh.delete(`${roomId}:${userId}`);
+    this.socketRooms.get(socketId)?.delete(roomId);
+
+    let removed: boolean;
+    if (!this.isEnabled() || !this.client) {
+      removed = this.rooms.get(roomId)?.delete(userId) ?? false;
+    } else {
+      removed = (await this.client.zRem(typingKey(roomId), userId)) === 1;
+    }
+    return removed ? this.getTypers(roomId) : null;
+  }
+
+  /** Stops the socket's typing everywhere; returns the rooms that changed */
+  async disconnect(
+    userId: string,
+    socketId: string,
+  ): Promise<Array<{ roomId: string; userIds: string[] }>> {
+    const roomIds = [...(this.socketRooms.get(socketId) ?? [])];
+    this.socketRooms.delete(socketId);
+
+    const changes: Array<{ roomId: string; userIds: string[] }> = [];
+    for (const roomId of roomIds) {
+      const userIds = await this.stop(roomId, userId, socketId);
+      if (userIds) changes.push({ roomId, userIds });
+    }
+    return changes;
+  }
+
+  async getTypers(roomId: string): Promise<string[]> {
+    const now = Date.now();
+    if (!this.isEnabled() || !this.client) {
+      const typers = this.rooms.get(roomId) ?? new Map<string, number>();
+      return [...typers]
+        .filter(([, expiresAt]) => expiresAt > now)
+        .map(([userId]) => userId);
+    }
+    return this.client.zRangeByScore(typingKey(roomId), now, '+inf');
+  }
+
+  // Drops expired typers and tells the listener about rooms that changed
+  private async sweep() {
+    try {
+      const changed =
+        this.isEnabled() && this.client
+          ? await this.sweepRedis(this.client)
+          : this.sweepMemory();
+      for (const roomId of changed) {
+        this.expiryListener?.(roomId, await this.getTypers(roomId));
+      }
+    } catch (error) {
+      console.error('Typing sweep error:', error);
+    }
+  }
+
+  private sweepMemory(): string[] {
+    const now = Date.now();
+    const changed: string[] = [];
+    for (const [roomId, typers] of this.rooms) {
+      let expired = false;
+      for (const [userId, expiresAt] of typers) {
+        if (expiresAt <= now) {
+          typers.delete(userId);
+          expired = true;
+        }
+      }
+      if (expired) changed.push(roomId);
+      if (typers.size === 0) this.rooms.delete(roomId);
+    }
+    return changed;
+  }
+
+  private async sweepRedis(client: RedisClientType): Promise<string[]> {
+    const now = Date.now();
+
+    // Rooms quiet for longer than the TTL have no typers left to expire
+    await client.zRemRangeByScore(
+      ACTIVE_ROOMS_KEY,
+      '-inf',
+      now - TYPING_TTL_MS * 2,
+    );
+    const roomIds = await client.zRange(ACTIVE_ROOMS_KEY, 0, -1);
+
+    const changed: string[] = [];
+    for (const roomId of roomIds) {
+      const key = typingKey(roomId);
+      const expired = await client.zRangeByScore(key, '-inf', now);
+      if (expired.length === 0) continue;
+      // Only the node that removes a typer announces it
+      if ((await client.zRem(key, expired)) > 0) changed.push(roomId);
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,214 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { fetchPage, isPrivateAddress, parseMetadata } from './unfurl';
+
+const ARTICLE = `<!doctype html>
+<html>
+<head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Tom &amp; Jerry&#39;s &quot;Guide&quot;">
+  <meta property="og:description" content="  All about
+    cats &#x26; mice ">
+  <meta property="og:image" content="/images/cover.png">
+  <meta property="og:site_name" content="Cartoons">
+</head>
+<body><meta property="og:title" content="Not in the head"></body>
+</html>`;
+
+const PLAIN = `<html><head>
+  <title>Plain page</title>
+  <meta name="description" content='Just a description'>
+  <meta name="twitter:image" content="javascript:alert(1)">
+</head></html>`;
+
+// Serves the pages the tests fetch, all on 127.0.0.1
+function fixtureServer() {
+  return http.createServer((req, res) => {
+    const html = (body: string | Buffer, type = 'text/html; charset=utf-8') => {
+      res.writeHead(200, { 'content-type': type });
+      res.end(body);
+    };
+    switch (req.url) {
+      case '/article':
+        return html(ARTICLE);
+      case '/plain':
+        return html(PLAIN);
+      case '/latin1':
+        return html(
+          Buffer.from('<title>Caf\xe9</title>', 'latin1'),
+          'text/html; charset=iso-8859-1',
+        );
+      case '/redirect':
+        res.writeHead(302, { location: '/article' });
+        return res.end();
+      case '/loop':
+        res.writeHead(301, { location: '/loop' });
+        return res.end();
+      case '/slow':
+        res.writeHead(200, { 'content-type': 'text/html' });
+        return res.write('<title>Never finishes'); // and never ends
+      case '/huge':
+        res.writeHead(200, { 'content-type': 'text/html' });
+        res.write('<title>Huge</title>');
+        return res.end('x'.repeat(1024 * 1024));
+      case '/image.png':
+        res.writeHead(200, { 'content-type': 'image/png' });
+        return res.end(Buffer.alloc(64));
+      default:
+        res.writeHead(404);
+        return res.end();
+    }
+  });
+}
+
+describe('unfurl', () => {
+  let server: http.Server;
+  let base: string;
+  const local = { allowPrivateNetworks: true };
+
+  beforeAll(async () => {
+    server = fixtureServer();
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  describe('fetchPage', () => {
+    it('fetches and reads OpenGraph metadata from the head', async () => {
+      const page = await fetchPage(`${base}/article`, local);
+
+      expect(parseMetadata(page.html, page.url)).toEqual({
+        title: 'Tom & Jerry\'s "Guide"',
+        description: 'All about cats & mice',
+        imageUrl: `${base}/images/cover.png`,
+        siteName: 'Cartoons',
+      });
+    });
+
+    it('falls back to the title tag and description meta tag', async () => {
+      const page = await fetchPage(`${base}/plain`, local);
+
+      expect(parseMetadata(page.html, page.url)).toEqual({
+        title: 'Plain page',
+        description: 'Just a description',
+        imageUrl: null, // only http(s) images are kept
+        siteName: null,
+      });
+    });
+
+    it('decodes the charset from the content type', async () => {
+      const page = await fetchPage(`${base}/latin1`, local);
+
+      expect(parseMetadata(page.html, page.url)?.title).toBe('Café');
+    });
+
+    it('follows redirects and reports the final URL', async () => {
+      const page = await fetchPage(`${base}/redirect`, local);
+
+      expect(page.url).toBe(`${base}/article`);
+    });
+
+    it('gives up after too many redirects', async () => {
+      await expect(
+        fetchPage(`${base}/loop`, { ...local, maxRedirects: 2 }),
+      ).rejects.toThrow('Too many redirects');
+    });
+
+    it('times out on pages that never finish', async () => {
+      await expect(
+        fetchPage(`${base}/slow`, { ...local, timeoutMs: 200 }),
+      ).rejects.toThrow('Timed out');
+    });
+
+    it('reads at most maxBytes of the body', async () => {
+      const page = await fetchPage(`${base}/huge`, {
+        ...local,
+        maxBytes: 4096,
+      });
+
+      expect(page.html.length).toBe(4096);
+      expect(parseMetadata(page.html, page.url)?.title).toBe('Huge');
+    });
+
+    it('refuses pages that are not HTML', async () => {
+      await expect(fetchPage(`${base}/image.png`, local)).rejects.toThrow(
+        'Not an HTML page (image/png)',
+      );
+    });
+
+    it('refuses error responses', async () => {
+      await expect(fetchPage(`${base}/missing`, local)).rejects.toThrow(
+        'Unexpected status 404',
+      );
+    });
+
+    it('refuses private addresses', async () => {
+      await expect(fetchPage(`${base}/article`)).rejects.toThrow(
+        '127.0.0.1 is a private address',
+      );
+      // Hostnames are checked once resolved
+      await expect(
+        fetchPage(`${base.replace('127.0.0.1', 'localhost')}/article`),
+      ).rejects.toThrow('localhost resolves to a private address');
+    });
+
+    it('refuses other protocols and credentials', async () => {
+      await expect(fetchPage('file:///etc/passwd')).rejects.toThrow(
+        'Unsupported protocol file:',
+      );
+      await expect(
+        fetchPage(`${base.replace('//', '//user:pw@')}/article`, local),
+      ).rejects.toThrow('URLs with credentials are not fetched');
+    });
+  });
+
+  describe('parseMetadata', () => {
+    it('returns null when there is nothing to show', () => {
+      expect(
+        parseMetadata('<html><head></head><body>Hi</body></html>', base),
+      ).toBeNull();
+    });
+
+    it('truncates long titles', () => {
+      const metadata = parseMetadata(
+        `<title>${'a'.repeat(500)}</title>`,
+        'https://example.com/',
+      );
+
+      expect(metadata?.title).toHaveLength(200);
+      expect(metadata?.title?.endsWith('…')).toBe(true);
+    });
+  });
+
+  describe('isPrivateAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+      'not-an-ip',
+    ])('blocks %s', (address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+
+    it.each(['93.184.216.34', '1.1.1.1', '2606:4700:4700::1111'])(
+      'allows %s',
+      (address) => {
+        expect(isPrivateAddress(address)).toBe(false);
+      },
+    );
+  });
+});
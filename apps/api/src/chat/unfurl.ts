@@ -0,0 +1,322 @@
+import { lookup, type LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+/** What a page says about itself, as shown on a link preview card */
+export interface PageMetadata {
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+}
+
+export interface FetchPageOptions {
+  timeoutMs?: number; // for the whole fetch, redirects included
+  maxBytes?: number; // of HTML read; the <head> is near the top anyway
+  maxRedirects?: number;
+  // Only for tests against a local fixture server
+  allowPrivateNetworks?: boolean;
+}
+
+/** The page couldn't (or mustn't) be fetched */
+export class UnfurlError extends Error {}
+
+const DEFAULT_TIMEOUT_MS = 5_000;
+const DEFAULT_MAX_BYTES = 512 * 1024;
+const DEFAULT_MAX_REDIRECTS = 3;
+const USER_AGENT = 'Mozilla/5.0 (compatible; LinkPreviewBot/1.0)';
+const TITLE_MAX = 200;
+const DESCRIPTION_MAX = 300;
+
+// Loopback, private, link-local, carrier-grade NAT, documentation, multicast
+// and reserved ranges. IPv4-mapped IPv6 addresses are checked against the
+// IPv4 rules too.
+const PRIVATE_NETWORKS = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, 'ipv6');
+}
+
+/** Whether an IP address is outside the public internet */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true; // not an address at all
+  return PRIVATE_NETWORKS.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Resolves like dns.lookup but refuses private addresses. The socket then
+// connects to the address checked here, so a second DNS answer (rebinding)
+// can't point the request somewhere else.
+const lookupPublic: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    const blocked = addresses.some((a) => isPrivateAddress(a.address));
+    if (blocked || addresses.length === 0) {
+      return callback(
+        new UnfurlError(`${hostname} resolves to a private address`),
+        '',
+        0,
+      );
+    }
+    if (options.all) {
+      (callback as (err: null, all: LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+};
+
+/**
+ * Fetches a page's HTML for unfurling. Only http(s) on public addresses is
+ * allowed, every redirect hop is checked again, and the fetch gives up
+ * after a timeout. At most maxBytes of the body are read.
+ */
+export async function fetchPage(
+  url: string,
+  options: FetchPageOptions = {},
+): Promise<{ url: string; html: string }> {
+  const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () => controller.abort(),
+    options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+  );
+
+  try {
+    let target = new URL(url);
+    for (let hop = 0; hop <= maxRedirects; hop++) {
+      assertFetchable(target, options);
+      const response = await request(target, options, controller.signal);
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        target = new URL(location, target);
+        continue;
+      }
+      if (status !== 200) {
+        response.resume();
+        throw new UnfurlError(`Unexpected status ${status}`);
+      }
+
+      const type = response.headers['content-type'] ?? '';
+      if (!/^(text\/html|application\/xhtml\+xml)\b/i.test(type)) {
+        response.resume();
+        throw new UnfurlError(`Not an HTML page (${type || 'no type'})`);
+      }
+
+      const body = await readBody(
+        response,
+        options.maxBytes ?? DEFAULT_MAX_BYTES,
+      );
+      return { url: target.toString(), html: decode(body, type) };
+    }
+    throw new UnfurlError('Too many redirects');
+  } catch (error) {
+    if (controller.signal.aborted) throw new UnfurlError('Timed out');
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function assertFetchable(url: URL, options: FetchPageOptions) {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnfurlError(`Unsupported protocol ${url.protocol}`);
+  }
+  if (url.username || url.password) {
+    throw new UnfurlError('URLs with credentials are not fetched');
+  }
+  // Literal addresses skip the DNS lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (
+    !options.allowPrivateNetworks &&
+    isIP(host) !== 0 &&
+    isPrivateAddress(host)
+  ) {
+    throw new UnfurlError(`${host} is a private address`);
+  }
+}
+
+function request(
+  url: URL,
+  options: FetchPageOptions,
+  signal: AbortSignal,
+): Promise<http.IncomingMessage> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      signal,
+      lookup: options.allowPrivateNetworks ? undefined : lookupPublic,
+      headers: {
+        'user-agent': USER_AGENT,
+        accept: 'text/html,application/xhtml+xml',
+        'accept-encoding': 'identity',
+      },
+    });
+    req.on('response', resolve);
+    req.on('error', reject);
+  });
+}
+
+async function readBody(
+  response: http.IncomingMessage,
+  maxBytes: number,
+): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response) {
+    const buffer = chunk as Buffer;
+    chunks.push(buffer);
+    size += buffer.length;
+    if (size >= maxBytes) {
+      response.destroy();
+      break;
+    }
+  }
+  return Buffer.concat(chunks).subarray(0, maxBytes);
+}
+
+function decode(body: Buffer, contentType: string): string {
+  const charset = /charset=([\w-]+)/i.exec(contentType)?.[1];
+  try {
+    return new TextDecoder(charset ?? 'utf-8').decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body); // unknown charset
+  }
+}
+
+/**
+ * Reads OpenGraph and Twitter card tags (falling back to <title> and the
+ * description meta tag) from a page's HTML. Returns null when the page has
+ * neither a title nor a description to show.
+ */
+export function parseMetadata(
+  html: string,
+  pageUrl: string,
+): PageMetadata | null {
+  const headEnd = html.search(/<\/head\s*>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta = new Map<string, string>();
+  for (const [tag] of head.matchAll(/<meta\s[^>]*>/gi)) {
+    const attrs = parseAttributes(tag);
+    const key = (attrs.property ?? attrs.name)?.toLowerCase();
+    if (key && attrs.content !== undefined && !meta.has(key)) {
+      meta.set(key, attrs.content);
+    }
+  }
+  const pick = (...keys: string[]) => {
+    for (const key of keys) {
+      const value = clean(meta.get(key));
+      if (value) return value;
+    }
+    return null;
+  };
+
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title\s*>/i.exec(head)?.[1];
+  const title = pick('og:title', 'twitter:title') ?? clean(titleTag);
+  const description = pick(
+    'og:description',
+    'twitter:description',
+    'description',
+  );
+  if (!title && !description) return null;
+
+  return {
+    title: title && truncate(title, TITLE_MAX),
+    description: description && truncate(description, DESCRIPTION_MAX),
+    imageUrl: absoluteHttpUrl(
+      pick(
+        'og:image:secure_url',
+        'og:image',
+        'twitter:image',
+        'twitter:image:src',
+      ),
+      pageUrl,
+    ),
+    siteName: pick('og:site_name'),
+  };
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const match of tag.matchAll(
+    /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g,
+  )) {
+    attrs[match[1]!.toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+  }
+  return attrs;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+// Decodes entities and collapses whitespace; empty becomes null
+function clean(value: string | undefined): string | null {
+  if (!value) return null;
+  const text = value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(#x[\da-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] !== '#') return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+      const point =
+        code[1] === 'x' || code[1] === 'X'
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff
+        ? String.fromCodePoint(point)
+        : entity;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text || null;
+}
+
+const truncate = (text: string, max: number) =>
+  text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+function absoluteHttpUrl(value: string | null, base: string): string | null {
+  if (!value) return null;
+  try {
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.toString()
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,42 @@
+import { ConfigService } from '@nestjs/config';
+import { CacheService } from './cache.service';
+
+describe('CacheService', () => {
+  let service: CacheService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    // No Redis configured: invalidations run but have nothing to delete
+    service = new CacheService({
+      get: jest.fn(),
+    } as unknown as ConfigService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('settles every caller of a debounced message invalidation', async () => {
+    const first = service.invalidateMessages('room1');
+    jest.advanceTimersByTime(50);
+    const second = service.invalidateMessages('room1');
+    await jest.advanceTimersByTimeAsync(100);
+
+    await expect(first).resolves.toBe(false);
+    await expect(second).resolves.toBe(false);
+  });
+
+  it('settles pending callers when invalidating conversations immediately', async () => {
+    const pending = service.invalidateConversations('user1');
+    await service.invalidateConversationsImmediate('user1');
+
+    await expect(pending).resolves.toBe(false);
+  });
+
+  it('settles pending callers on shutdown', async () => {
+    const pending = service.invalidateMessages('room1');
+    await service.onModuleDestroy();
+
+    await expect(pending).resolves.toBe(false);
+  });
+});
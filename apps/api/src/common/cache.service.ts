@@ -5,7 +5,11 @@ import { createClient, RedisClientType } from 'redis';
 @Injectable()
 export class CacheService implements OnModuleInit, OnModuleDestroy {
   private client: RedisClientType | undefined;
-  private invalidationQueue = new Map<string, NodeJS.Timeout>();
+  // Pending debounced invalidations, with everyone waiting on each
+  private invalidationQueue = new Map<
+    string,
+    { timeout: NodeJS.Timeout; waiters: ((result: boolean) => void)[] }
+  >();
 
   constructor(private readonly configService: ConfigService) {}
 
@@ -56,9 +60,10 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
   }
 
   async onModuleDestroy() {
-    // Clear all pending invalidation timers
-    for (const timeout of this.invalidationQueue.values()) {
+    // Clear all pending invalidation timers, releasing their callers
+    for (const { timeout, waiters } of this.invalidationQueue.values()) {
       clearTimeout(timeout);
+      waiters.forEach((resolve) => resolve(false));
     }
     this.invalidationQueue.clear();
 
@@ -133,7 +138,10 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     return `conversations:${userId}`;
   }
 
-  getMessagesCacheKey(conversationId: string, page: number = 0): string {
+  getMessagesCacheKey(
+    conversationId: string,
+    page: number | string = 0,
+  ): string {
     return `messages:${conversationId}:page:${page}`;
   }
 
@@ -165,47 +173,63 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     return this.get(this.getConversationsCacheKey(userId));
   }
 
-  async invalidateConversations(userId: string): Promise<boolean> {
-    const key = `conversations:${userId}`;
-
-    // Debounce rapid invalidations for the same key
-    if (this.invalidationQueue.has(key)) {
-      clearTimeout(this.invalidationQueue.get(key));
-    }
+  /**
+   * Runs `invalidate` once calls for `key` stop arriving for 100ms. Each
+   * call restarts the wait, and every caller along the way gets the result
+   * of the run that finally happens.
+   */
+  private debounceInvalidation(
+    key: string,
+    invalidate: () => Promise<boolean>,
+  ): Promise<boolean> {
+    const pending = this.invalidationQueue.get(key);
+    if (pending) clearTimeout(pending.timeout);
+    const waiters = pending?.waiters ?? [];
 
     return new Promise<boolean>((resolve) => {
+      waiters.push(resolve);
       const timeout = setTimeout(() => {
-        void (async () => {
-          this.invalidationQueue.delete(key);
-          const result = await this.del(this.getConversationsCacheKey(userId));
-          resolve(result);
-        })();
+        this.invalidationQueue.delete(key);
+        void invalidate().then(
+          (result) => waiters.forEach((done) => done(result)),
+          () => waiters.forEach((done) => done(false)),
+        );
       }, 100); // 100ms debounce
 
-      this.invalidationQueue.set(key, timeout);
+      this.invalidationQueue.set(key, { timeout, waiters });
     });
   }
 
+  async invalidateConversations(userId: string): Promise<boolean> {
+    // Debounce rapid invalidations for the same key
+    return this.debounceInvalidation(`conversations:${userId}`, () =>
+      this.del(this.getConversationsCacheKey(userId)),
+    );
+  }
+
   async invalidateConversationsImmediate(userId: string): Promise<boolean> {
     console.log(
       `🚀 Immediately invalidating conversations cache for user: ${userId}`,
     );
     const key = `conversations:${userId}`;
 
-    // Clear any pending debounced invalidation
-    if (this.invalidationQueue.has(key)) {
-      clearTimeout(this.invalidationQueue.get(key));
+    // Take over any pending debounced invalidation and its callers
+    const pending = this.invalidationQueue.get(key);
+    if (pending) {
+      clearTimeout(pending.timeout);
       this.invalidationQueue.delete(key);
     }
 
     // Immediately delete the cache
-    return await this.del(this.getConversationsCacheKey(userId));
+    const result = await this.del(this.getConversationsCacheKey(userId));
+    pending?.waiters.forEach((resolve) => resolve(result));
+    return result;
   }
 
   async cacheMessages(
     conversationId: string,
-    messages: any[],
-    page: number = 0,
+    messages: unknown,
+    page: number | string = 0,
     ttl: number = this.messagesTtl, // 10 minutes - messages change frequently but need reasonable cache
   ): Promise<boolean> {
     return this.set(
@@ -215,50 +239,33 @@ export class CacheService implements OnModuleInit, OnModuleDestroy {
     );
   }
 
-  async getCachedMessages(
+  async getCachedMessages<T = any[]>(
     conversationId: string,
-    page: number = 0,
-  ): Promise<any[] | null> {
-    return this.get(this.getMessagesCacheKey(conversationId, page));
+    page: number | string = 0,
+  ): Promise<T | null> {
+    return this.get<T>(this.getMessagesCacheKey(conversationId, page));
   }
 
   async invalidateMessages(conversationId: string): Promise<boolean> {
-    const key = `messages:${conversationId}`;
-
     // Debounce rapid invalidations for the same conversation
-    if (this.invalidationQueue.has(key)) {
-      clearTimeout(this.invalidationQueue.get(key));
-    }
-
-    return new Promise<boolean>((resolve) => {
-      const timeout = setTimeout(() => {
-        void (async () => {
-          this.invalidationQueue.delete(key);
-
-          // Invalidate all pages for this conversation
-          const pattern = `messages:${conversationId}:page:*`;
-          if (!this.isEnabled() || !this.client) {
-            resolve(false);
-            return;
-          }
-
-          try {
-            const keys = await this.client.keys(pattern);
-            if (keys.length > 0) {
-              await this.client.del(keys);
-              console.log(
-                `🗑️ Invalidated ${keys.length} message cache entries for conversation: ${conversationId}`,
-              );
-            }
-            resolve(true);
-          } catch (error) {
-            console.error('Redis invalidateMessages error:', error);
-            resolve(false);
-          }
-        })();
-      }, 100); // 100ms debounce
-
-      this.invalidationQueue.set(key, timeout);
+    return this.debounceInvalidation(`messages:${conversationId}`, async () => {
+      // Invalidate all pages for this conversation
+      const pattern = `messages:${conversationId}:page:*`;
+      if (!this.isEnabled() || !this.client) return false;
+
+      try {
+        const keys = await this.client.keys(pattern);
+        if (keys.length > 0) {
+          await this.client.del(keys);
+          console.log(
+            `🗑️ Invalidated ${keys.length} message cache entries for conversation: ${conversationId}`,
+          );
+        }
+        return true;
+      } catch (error) {
+        console.error('Redis invalidateMessages error:', error);
+        return false;
+      }
     });
   }
 }
@@ -18,10 +18,14 @@ describe('PrismaOptimizer', () => {
 
       expect(result.data).toHaveLength(2);
       expect(result.hasNextPage).toBe(true);
-      expect(result.nextCursor).toBe('2');
+      expect(result.nextCursor).toBe(
+        PrismaOptimizer.encodeCursor({
+          id: '2',
+          createdAt: new Date('2023-01-02'),
+        }),
+      );
       expect(mockQuery).toHaveBeenCalledWith({
         take: 3, // take + 1
-        cursor: undefined,
         where: undefined,
         orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
       });
@@ -34,9 +38,10 @@ describe('PrismaOptimizer', () => {
       ];
 
       const mockQuery = jest.fn().mockResolvedValue(mockData);
+      const position = { id: '2', createdAt: new Date('2023-01-02') };
 
       const result = await PrismaOptimizer.keysetPaginate(mockQuery, {
-        cursor: '2',
+        cursor: PrismaOptimizer.encodeCursor(position),
         take: 2,
         direction: 'forward',
       });
@@ -44,11 +49,20 @@ describe('PrismaOptimizer', () => {
       expect(result.data).toHaveLength(2);
       expect(result.hasNextPage).toBe(false);
       expect(result.hasPrevPage).toBe(true);
-      expect(result.prevCursor).toBe('3');
+      expect(result.prevCursor).toBe(
+        PrismaOptimizer.encodeCursor({
+          id: '3',
+          createdAt: new Date('2023-01-03'),
+        }),
+      );
       expect(mockQuery).toHaveBeenCalledWith({
         take: 3,
-        cursor: { id: '2' },
-        where: { id: { gt: '2' } },
+        where: {
+          OR: [
+            { createdAt: { gt: position.createdAt } },
+            { createdAt: position.createdAt, id: { gt: '2' } },
+          ],
+        },
         orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
       });
     });
@@ -59,9 +73,10 @@ describe('PrismaOptimizer', () => {
       ];
 
       const mockQuery = jest.fn().mockResolvedValue(mockData);
+      const position = { id: '3', createdAt: new Date('2023-01-03') };
 
       const result = await PrismaOptimizer.keysetPaginate(mockQuery, {
-        cursor: '3',
+        cursor: PrismaOptimizer.encodeCursor(position),
         take: 2,
         direction: 'backward',
       });
@@ -70,13 +85,39 @@ describe('PrismaOptimizer', () => {
       expect(result.hasNextPage).toBe(false);
       expect(mockQuery).toHaveBeenCalledWith({
         take: 3,
-        cursor: { id: '3' },
-        where: { id: { lt: '3' } },
+        where: {
+          OR: [
+            { createdAt: { lt: position.createdAt } },
+            { createdAt: position.createdAt, id: { lt: '3' } },
+          ],
+        },
         orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
       });
     });
   });
 
+  describe('cursor encoding', () => {
+    it('should round-trip (createdAt, id) positions', () => {
+      const position = {
+        id: 'a1b2c3d4-0000-4000-8000-000000000000',
+        createdAt: new Date('2023-01-01T10:00:00.123Z'),
+      };
+
+      const cursor = PrismaOptimizer.encodeCursor(position);
+
+      expect(PrismaOptimizer.decodeCursor(cursor)).toEqual(position);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(PrismaOptimizer.decodeCursor('not-a-cursor')).toBeNull();
+      expect(
+        PrismaOptimizer.decodeCursor(
+          Buffer.from('yesterday_abc').toString('base64url'),
+        ),
+      ).toBeNull();
+    });
+  });
+
   describe('executeTransaction', () => {
     it('should execute transaction with default timeout', async () => {
       const mockPrisma = {
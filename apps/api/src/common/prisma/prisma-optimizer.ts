@@ -19,46 +19,102 @@ export interface KeysetPaginationResult<T> {
   prevCursor?: string;
 }
 
+// Position of a row in (createdAt, id) order - ids alone are random uuids
+export interface KeysetCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface KeysetQueryArgs {
+  take: number;
+  where?: {
+    OR: Array<
+      | { createdAt: { gt: Date } | { lt: Date } }
+      | { createdAt: Date; id: { gt: string } | { lt: string } }
+    >;
+  };
+  orderBy: Array<{ createdAt: 'asc' | 'desc' } | { id: 'asc' | 'desc' }>;
+}
+
 export class PrismaOptimizer {
+  /**
+   * Encodes a row position as an opaque cursor string
+   */
+  static encodeCursor(row: KeysetCursor): string {
+    return Buffer.from(`${row.createdAt.toISOString()}_${row.id}`).toString(
+      'base64url',
+    );
+  }
+
+  /**
+   * Decodes a cursor produced by encodeCursor, or null if it is malformed
+   */
+  static decodeCursor(cursor: string): KeysetCursor | null {
+    const raw = Buffer.from(cursor, 'base64url').toString('utf8');
+    const sep = raw.indexOf('_');
+    if (sep <= 0) return null;
+
+    const createdAt = new Date(raw.slice(0, sep));
+    const id = raw.slice(sep + 1);
+    if (Number.isNaN(createdAt.getTime()) || !id) return null;
+
+    return { createdAt, id };
+  }
+
   /**
    * Efficient cursor-based pagination using keyset pagination
-   * More efficient than offset-based pagination for large datasets
+   * More efficient than offset-based pagination for large datasets.
+   * Rows are ordered by (createdAt, id); the cursor row itself is excluded.
+   * A malformed cursor is treated as no cursor - validate with decodeCursor
+   * first where that matters.
    */
   static async keysetPaginate<T extends { id: string; createdAt: Date }>(
-    query: (args: any) => Promise<T[]>,
+    query: (args: KeysetQueryArgs) => Promise<T[]>,
     options: KeysetPaginationOptions = {},
   ): Promise<KeysetPaginationResult<T>> {
     const { cursor, take = 20, direction = 'forward' } = options;
-    const limit = Math.min(take + 1, 100); // +1 to check if there's a next page, max 100
+    const pageSize = Math.min(Math.max(take, 1), 100); // max 100 per page
 
     const orderBy = direction === 'forward' ? 'asc' : 'desc';
-    const cursorCondition = cursor
+    const position = cursor ? PrismaOptimizer.decodeCursor(cursor) : null;
+    const where = position
       ? direction === 'forward'
-        ? { gt: cursor }
-        : { lt: cursor }
+        ? {
+            OR: [
+              { createdAt: { gt: position.createdAt } },
+              { createdAt: position.createdAt, id: { gt: position.id } },
+            ],
+          }
+        : {
+            OR: [
+              { createdAt: { lt: position.createdAt } },
+              { createdAt: position.createdAt, id: { lt: position.id } },
+            ],
+          }
       : undefined;
 
     const results = await query({
-      take: limit,
-      cursor: cursor ? { id: cursor } : undefined,
-      where: cursor ? { id: cursorCondition } : undefined,
+      take: pageSize + 1, // +1 to check if there's a next page
+      where,
       orderBy: [
         { createdAt: orderBy },
         { id: orderBy }, // Secondary sort for deterministic results
       ],
     });
 
-    const hasNextPage = results.length > take;
-    const data = hasNextPage ? results.slice(0, -1) : results;
+    const hasNextPage = results.length > pageSize;
+    const data = hasNextPage ? results.slice(0, pageSize) : results;
 
+    const last = data[data.length - 1];
+    const first = data[0];
     const nextCursor =
-      hasNextPage && data.length > 0 ? data[data.length - 1]?.id : undefined;
-    const prevCursor = data.length > 0 ? data[0]?.id : undefined;
+      hasNextPage && last ? PrismaOptimizer.encodeCursor(last) : undefined;
+    const prevCursor = first ? PrismaOptimizer.encodeCursor(first) : undefined;
 
     return {
       data,
       hasNextPage,
-      hasPrevPage: !!cursor,
+      hasPrevPage: !!position,
       nextCursor,
       prevCursor,
     };
@@ -93,11 +149,94 @@ export class PrismaOptimizer {
         id: true,
         roomId: true, // Add roomId
         content: true,
+        type: true,
+        createdAt: true,
+        clientMsgId: true,
+        replyToId: true,
+        editedAt: true,
+        deletedAt: true,
+        senderId: true,
+        sender: { select: { id: true, username: true } },
+        replyTo: {
+          select: { id: true, content: true, senderId: true, deletedAt: true },
+        },
+      },
+      // withSender plus the thread summary shown under parent messages
+      withThread: {
+        id: true,
+        roomId: true,
+        content: true,
+        type: true,
         createdAt: true,
         clientMsgId: true,
         replyToId: true,
+        editedAt: true,
+        deletedAt: true,
         senderId: true,
         sender: { select: { id: true, username: true } },
+        replyTo: {
+          select: { id: true, content: true, senderId: true, deletedAt: true },
+        },
+        forwardedFrom: {
+          select: {
+            id: true,
+            roomId: true,
+            senderId: true,
+            sender: { select: { username: true } },
+          },
+        },
+        _count: { select: { replies: true } },
+        replies: {
+          select: {
+            createdAt: true,
+            sender: { select: { id: true, username: true } },
+          },
+          orderBy: { createdAt: 'desc' as const },
+          take: 1,
+        },
+        attachments: {
+          select: {
+            id: true,
+            fileName: true,
+            mimeType: true,
+            size: true,
+            width: true,
+            height: true,
+            placeholderColor: true,
+            thumbnailWidths: true,
+            durationMs: true,
+            waveform: true,
+            playedAt: true,
+          },
+          orderBy: { createdAt: 'asc' as const },
+        },
+        linkPreview: {
+          select: {
+            url: true,
+            title: true,
+            description: true,
+            imageUrl: true,
+            siteName: true,
+            removedAt: true,
+          },
+        },
+        poll: {
+          select: {
+            id: true,
+            multipleChoice: true,
+            anonymous: true,
+            closesAt: true,
+            closedAt: true,
+            options: {
+              select: {
+                id: true,
+                text: true,
+                votes: { select: { userId: true } },
+              },
+              orderBy: { position: 'asc' as const },
+            },
+          },
+        },
       },
     },
     room: {
@@ -14,4 +14,47 @@ export default registerAs('app', () => ({
     messagesTtl: parseInt(process.env.CACHE_MESSAGES_TTL ?? '600', 10), // 10 minutes
     sessionTtl: parseInt(process.env.CACHE_SESSION_TTL ?? '3300', 10), // 55 minutes
   },
+
+  // Chat behaviour (in seconds)
+  chat: {
+    deleteForEveryoneWindow: parseInt(
+      process.env.MESSAGE_DELETE_WINDOW ?? '172800',
+      10,
+    ), // 48 hours
+  },
+
+  // 1:1 calls. Media goes peer to peer, so no TURN server is needed on a
+  // reachable network; list STUN/TURN URLs to get through NATs
+  calls: {
+    ringTimeout: parseInt(process.env.CALL_RING_TIMEOUT ?? '45', 10), // seconds
+    iceServers: (process.env.CALL_ICE_SERVERS ?? '')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean),
+  },
+
+  // File attachments
+  attachments: {
+    driver: process.env.ATTACHMENTS_DRIVER ?? 'local', // 'local' | 's3'
+    maxBytes: parseInt(process.env.ATTACHMENTS_MAX_BYTES ?? '10485760', 10), // 10 MB
+    allowedMimeTypes: (
+      process.env.ATTACHMENTS_ALLOWED_TYPES ??
+      'image/jpeg,image/png,image/gif,image/webp,image/heic,image/heif,image/avif,image/tiff,audio/webm,audio/ogg,audio/mp4,audio/mpeg,application/pdf,text/plain,application/zip'
+    )
+      .split(',')
+      .map((type) => type.trim()),
+    // Widths of the WebP thumbnails generated for images
+    thumbnailWidths: (process.env.ATTACHMENTS_THUMBNAIL_WIDTHS ?? '160,320,640')
+      .split(',')
+      .map((width) => parseInt(width, 10))
+      .filter((width) => width > 0),
+    localDir: process.env.ATTACHMENTS_DIR ?? './uploads',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT, // e.g. http://localhost:9000 for MinIO
+      region: process.env.S3_REGION ?? 'us-east-1',
+      bucket: process.env.S3_BUCKET,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    },
+  },
 }));
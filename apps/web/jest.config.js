@@ -11,6 +11,7 @@ const customJestConfig = {
     moduleNameMapper: {
         // Handle module aliases (this will be automatically configured for you based on your tsconfig.json paths)
         '^@/(.*)$': '<rootDir>/src/$1',
+        '^shared/(.*)$': '<rootDir>/../../packages/shared/src/$1',
     },
     testEnvironment: 'jest-environment-jsdom',
     testPathIgnorePatterns: ['<rootDir>/.next/', '<rootDir>/node_modules/', '<rootDir>/tests/'],
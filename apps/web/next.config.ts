@@ -3,6 +3,10 @@ import type { NextConfig } from 'next';
 const nextConfig: NextConfig = {
   /* config options here */
   output: 'standalone',
+  experimental: {
+    // Lets `shared/*` (tsconfig paths) compile straight from packages/shared
+    externalDir: true,
+  },
   eslint: {
     // Disable ESLint during builds - we handle linting separately in CI
     ignoreDuringBuilds: true,
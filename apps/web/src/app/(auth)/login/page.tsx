@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { safeNextPath } from '@/lib/auth';
 
 export default function LoginPage() {
   const [username, setU] = useState('');
@@ -46,8 +47,16 @@ export default function LoginPage() {
               start(async () => {
                 try {
                   await loginAction({ username, password });
+                  // Back to where the middleware sent us from (e.g. an
+                  // invite link), as long as it's a page of this app
+                  const next = new URLSearchParams(window.location.search).get(
+                    'next'
+                  );
                   // Force a full page reload instead of client navigation
-                  window.location.href = '/';
+                  window.location.href = safeNextPath(
+                    next,
+                    window.location.origin
+                  );
                 } catch (e: any) {
                   // NEXT_REDIRECT is expected when redirect() is called
                   if (e.message !== 'NEXT_REDIRECT') {
@@ -0,0 +1,119 @@
+'use client';
+
+import { useEffect, useState, useTransition } from 'react';
+import { useRouter } from 'next/navigation';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { previewInvite, redeemInvite } from '@/lib/api';
+import type { GroupInvitePreview } from '@/lib/types/chat';
+
+export default function JoinGroupClient({ token }: { token: string }) {
+  const router = useRouter();
+  const [preview, setPreview] = useState<GroupInvitePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pending, start] = useTransition();
+
+  useEffect(() => {
+    let cancelled = false;
+    previewInvite(token)
+      .then(p => {
+        if (!cancelled) setPreview(p);
+      })
+      .catch(() => {
+        // Revoked, expired and used-up links all end up here
+        if (!cancelled) setError('This invite link is no longer valid.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  // The main page selects the room once its conversation list has it
+  const openChat = (roomId: string) =>
+    router.push(`/?room=${encodeURIComponent(roomId)}`);
+
+  const join = () =>
+    start(async () => {
+      try {
+        const result = await redeemInvite(token);
+        if (result.status === 'joined') {
+          openChat(result.roomId);
+        } else {
+          setPreview(p => (p ? { ...p, status: 'pending' } : p));
+        }
+      } catch {
+        setError('Could not join the group. The link may have expired.');
+      }
+    });
+
+  return (
+    <div className="grid min-h-[100dvh] place-items-center p-4">
+      <Card className="w-full max-w-sm">
+        {error ? (
+          <CardHeader>
+            <CardTitle>Invite link</CardTitle>
+            <CardDescription>{error}</CardDescription>
+          </CardHeader>
+        ) : !preview ? (
+          <CardHeader>
+            <CardDescription>Loading invite…</CardDescription>
+          </CardHeader>
+        ) : (
+          <>
+            <CardHeader className="flex flex-col items-center text-center">
+              <Avatar className="h-16 w-16">
+                {preview.avatar ? (
+                  <AvatarImage src={preview.avatar} />
+                ) : (
+                  <AvatarFallback>
+                    {preview.name.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                )}
+              </Avatar>
+              <CardTitle>{preview.name}</CardTitle>
+              <CardDescription>
+                {preview.memberCount === 1
+                  ? '1 member'
+                  : `${preview.memberCount} members`}
+                {preview.requiresApproval && ' · admins approve new members'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {preview.status === 'member' ? (
+                <Button
+                  className="w-full"
+                  onClick={() => openChat(preview.roomId)}
+                >
+                  Open chat
+                </Button>
+              ) : preview.status === 'pending' ? (
+                <p className="text-center text-sm text-muted-foreground">
+                  Your request to join was sent. You&apos;ll see the group once
+                  an admin approves it.
+                </p>
+              ) : (
+                <Button disabled={pending} className="w-full" onClick={join}>
+                  {preview.requiresApproval ? 'Request to join' : 'Join group'}
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                className="w-full"
+                onClick={() => router.push('/')}
+              >
+                Back to chats
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+// app/(protected)/join/[token]/page.tsx
+import JoinGroupClient from './page.client';
+
+// Force dynamic rendering since this route requires authentication
+export const dynamic = 'force-dynamic';
+
+export default async function JoinGroupPage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  return <JoinGroupClient token={token} />;
+}
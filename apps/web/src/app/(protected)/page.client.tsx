@@ -1,13 +1,16 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { useSocket } from '@/providers/SocketProvider';
 import useChatStore from '@/stores/chatStore';
 import ChatView from '@/components/chat/ChatView';
+import CallScreen from '@/components/chat/CallScreen';
+import IncomingCallToast from '@/components/chat/IncomingCallToast';
 import NewChatButton from '@/components/chat/NewChatButton';
 import { ChatHeaderActions } from '@/components/chat/ChatHeaderActions';
 import { listConversations } from '@/lib/api';
-import type { Message } from '@/lib/types/chat';
+import type { Message, MessageDeleteScope } from '@/lib/types/chat';
 import type { Conversation } from '@/lib/types/chat';
 
 interface User {
@@ -26,20 +29,64 @@ export default function CleanProtectedPageClient({
   initialData,
 }: ChatPageClientProps) {
   const socket = useSocket();
+  const router = useRouter();
+  const requestedRoomId = useSearchParams().get('room');
 
   // All state and logic comes from Zustand
   const {
     user,
     conversations,
     messagesByRoom,
+    historyByRoom,
+    receiptsByRoom,
+    pinsByRoom,
+    scheduledByRoom,
+    presenceByUser,
+    typingByRoom,
     activeRoomId,
+    activeThread,
+    activeCall,
+    incomingCall,
+    loadingOlder,
+    loadingNewer,
+    focusedMessage,
     forceScrollToBottom,
     // Actions - these handle ALL the complexity
     initialize,
     cleanup,
     selectRoom,
     sendMessage,
+    sendAttachment,
     reactToMessage,
+    editMessage,
+    deleteMessage,
+    loadOlderMessages,
+    loadNewerMessages,
+    jumpToMessage,
+    openThread,
+    closeThread,
+    loadOlderThreadReplies,
+    markRead,
+    forwardMessages,
+    togglePin,
+    removeLinkPreview,
+    createPoll,
+    votePoll,
+    retractPollVote,
+    closePoll,
+    markVoicePlayed,
+    startCall,
+    acceptCall,
+    declineCall,
+    hangUp,
+    toggleMute,
+    toggleCamera,
+    scheduleMessage,
+    cancelScheduledMessage,
+    setTyping,
+    saveDraft,
+    updateConversationSettings,
+    reorderPinnedConversations,
   } = useChatStore();
 
   // SINGLE useEffect - just initialize everything
@@ -53,6 +100,15 @@ export default function CleanProtectedPageClient({
     };
   }, [socket, initialData, initialize, cleanup]);
 
+  // Opened with ?room=<id> (e.g. after joining through an invite link):
+  // select that room as soon as the conversation list has it
+  useEffect(() => {
+    if (!requestedRoomId) return;
+    if (!conversations.some(c => c.id === requestedRoomId)) return;
+    selectRoom(requestedRoomId);
+    router.replace('/');
+  }, [requestedRoomId, conversations, selectRoom, router]);
+
   // Event handlers - just call store actions
   const handleSendMessage = (text: string) => {
     sendMessage(text);
@@ -62,6 +118,31 @@ export default function CleanProtectedPageClient({
     reactToMessage(message.id, emoji);
   };
 
+  const handleEditMessage = (message: Message, content: string) => {
+    editMessage(message.id, content);
+  };
+
+  const handleDeleteMessage = (message: Message, scope: MessageDeleteScope) => {
+    deleteMessage(message.id, scope);
+  };
+
+  const handleOpenThread = (message: Message) => {
+    if (message.pending) return;
+    openThread(message.id);
+  };
+
+  const handleRead = useCallback(
+    (message: Message) => {
+      markRead(message.roomId, message.id);
+    },
+    [markRead]
+  );
+
+  const handleSendReply = (text: string) => {
+    if (!activeThread) return;
+    sendMessage(text, { replyToId: activeThread.parentId });
+  };
+
   const handleConversationSelect = (id: string) => {
     selectRoom(id);
   };
@@ -74,39 +155,174 @@ export default function CleanProtectedPageClient({
     // No need for manual refresh anymore
   };
 
-  const messages = activeRoomId ? messagesByRoom[activeRoomId] || [] : [];
+  // Replies in channels only show in their threads, as in the server's history
+  const isChannel =
+    conversations.find(c => c.id === activeRoomId)?.type === 'channel';
+  const messages = useMemo(() => {
+    const loaded = activeRoomId ? messagesByRoom[activeRoomId] || [] : [];
+    return isChannel ? loaded.filter(m => !m.replyToId) : loaded;
+  }, [activeRoomId, isChannel, messagesByRoom]);
+
+  // Fetched replies plus any loaded in the room (optimistic sends, live ones)
+  const threadReplies = useMemo(() => {
+    if (!activeThread) return [];
+    const byKey = new Map<string, Message>();
+    for (const m of activeThread.replies) byKey.set(m.id, m);
+    for (const m of messagesByRoom[activeThread.roomId] || []) {
+      if (m.replyToId === activeThread.parentId) byKey.set(m.id, m);
+    }
+    return [...byKey.values()].sort(
+      (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+    );
+  }, [activeThread, messagesByRoom]);
+
+  const receipts = useMemo(
+    () =>
+      activeRoomId ? Object.values(receiptsByRoom[activeRoomId] ?? {}) : [],
+    [activeRoomId, receiptsByRoom]
+  );
+
+  // A DM is online while the other member is, on any of their devices
+  const conversationsWithPresence = useMemo(
+    () =>
+      conversations.map(c => {
+        const peer = c.isGroup
+          ? undefined
+          : c.members?.find(m => m.id !== user?.id);
+        return {
+          ...c,
+          online: !!peer && !!presenceByUser[peer.id]?.online,
+          members: c.members?.map(m => ({
+            ...m,
+            online: !!presenceByUser[m.id]?.online,
+          })),
+        };
+      }),
+    [conversations, presenceByUser, user?.id]
+  );
 
   // Get active conversation details for header
   const activeConversation = conversations.find(c => c.id === activeRoomId);
+  const activePeer = activeConversation?.isGroup
+    ? undefined
+    : activeConversation?.members?.find(m => m.id !== user?.id);
   const activeHeader = activeConversation
     ? {
         name: activeConversation.name || 'Chat',
-        online: false, // TODO: Add online status
+        online: activePeer ? !!presenceByUser[activePeer.id]?.online : false,
+        lastSeenAt: activePeer
+          ? presenceByUser[activePeer.id]?.lastSeenAt
+          : undefined,
+        typing: (typingByRoom[activeConversation.id] ?? []).map(
+          id =>
+            activeConversation.members?.find(m => m.id === id)?.username ??
+            'Someone'
+        ),
         avatar: null, // TODO: Add avatar support
       }
     : undefined;
 
+  // Calls only happen in DMs, which are named after the other member
+  const callName = (roomId: string) =>
+    conversations.find(c => c.id === roomId)?.name || 'Unknown';
+
   return (
-    <ChatView
-      me={user?.id || ''}
-      currentUser={user ? { username: user.username, displayName: user.username } : undefined}
-      conversations={conversations}
-      activeId={activeRoomId}
-      onSelectConversation={handleConversationSelect}
-      activeHeader={activeHeader}
-      messages={messages}
-      onSendText={handleSendMessage}
-      onReact={handleReactToMessage}
-      onPickImage={() => {}} // TODO: Implement file upload
-      forceScrollToBottom={forceScrollToBottom}
-      rightHeaderSlot={
-        <ChatHeaderActions 
-          currentUser={user ? { username: user.username, displayName: user.username } : undefined} 
+    <>
+      <ChatView
+        me={user?.id || ''}
+        currentUser={user ? { username: user.username, displayName: user.username } : undefined}
+        conversations={conversationsWithPresence}
+        activeId={activeRoomId}
+        onSelectConversation={handleConversationSelect}
+        activeHeader={activeHeader}
+        onCall={activePeer ? startCall : undefined}
+        messages={messages}
+        onLoadOlder={loadOlderMessages}
+        loadingOlder={loadingOlder}
+        hasOlder={activeRoomId ? historyByRoom[activeRoomId]?.hasOlder : false}
+        onLoadNewer={loadNewerMessages}
+        loadingNewer={loadingNewer}
+        hasNewer={activeRoomId ? historyByRoom[activeRoomId]?.hasNewer : false}
+        focusMessageId={
+          focusedMessage?.roomId === activeRoomId
+            ? focusedMessage?.messageId
+            : undefined
+        }
+        focusKey={focusedMessage?.key}
+        onOpenSearchResult={hit => jumpToMessage(hit.roomId, hit.id)}
+        onUpdateSettings={updateConversationSettings}
+        onReorderPinned={reorderPinnedConversations}
+        onSendText={handleSendMessage}
+        scheduled={activeRoomId ? scheduledByRoom[activeRoomId] : undefined}
+        onScheduleText={scheduleMessage}
+        onCancelScheduled={cancelScheduledMessage}
+        onTyping={setTyping}
+        onDraftChange={saveDraft}
+        onReact={handleReactToMessage}
+        onEdit={handleEditMessage}
+        onDelete={handleDeleteMessage}
+        onOpenThread={handleOpenThread}
+        pins={activeRoomId ? pinsByRoom[activeRoomId] : undefined}
+        onTogglePin={togglePin}
+        onJumpToMessage={id => activeRoomId && jumpToMessage(activeRoomId, id)}
+        onForward={forwardMessages}
+        onRemovePreview={removeLinkPreview}
+        onCreatePoll={createPoll}
+        onVotePoll={votePoll}
+        onRetractPollVote={retractPollVote}
+        onClosePoll={closePoll}
+        onVoicePlayed={markVoicePlayed}
+        receipts={receipts}
+        onRead={handleRead}
+        thread={
+          activeThread
+            ? {
+                parent: activeThread.parent,
+                replies: threadReplies,
+                loading: activeThread.loading,
+                hasOlder: activeThread.hasOlder,
+              }
+            : undefined
+        }
+        onCloseThread={closeThread}
+        onLoadOlderReplies={loadOlderThreadReplies}
+        onSendReply={handleSendReply}
+        onPickImage={sendAttachment}
+        onSendVoice={sendAttachment}
+        forceScrollToBottom={forceScrollToBottom}
+        rightHeaderSlot={
+          <ChatHeaderActions 
+            currentUser={user ? { username: user.username, displayName: user.username } : undefined} 
+          />
+        }
+        sidebarTopSlot={
+          <NewChatButton onConversationCreated={handleConversationCreated} />
+        }
+      />
+      {activeCall && (
+        <CallScreen
+          name={callName(activeCall.roomId)}
+          video={activeCall.video}
+          phase={activeCall.phase}
+          muted={activeCall.muted}
+          cameraOff={activeCall.cameraOff}
+          localStream={activeCall.localStream}
+          remoteStream={activeCall.remoteStream}
+          connectedAt={activeCall.connectedAt}
+          error={activeCall.error}
+          onToggleMute={toggleMute}
+          onToggleCamera={toggleCamera}
+          onHangUp={hangUp}
         />
-      }
-      sidebarTopSlot={
-        <NewChatButton onConversationCreated={handleConversationCreated} />
-      }
-    />
+      )}
+      {incomingCall && !activeCall && (
+        <IncomingCallToast
+          name={callName(incomingCall.roomId)}
+          video={incomingCall.video}
+          onAccept={acceptCall}
+          onDecline={declineCall}
+        />
+      )}
+    </>
   );
 }
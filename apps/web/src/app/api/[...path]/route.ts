@@ -29,9 +29,10 @@ export async function GET(
     // Don't use credentials: 'include' as we're manually forwarding cookies
   });
 
-  // Create a proper response with all headers forwarded
-  const responseText = await response.text();
-  const nextResponse = new Response(responseText, {
+  // Create a proper response with all headers forwarded. Read bytes, not
+  // text, so attachment downloads survive the proxy intact
+  const responseBody = await response.arrayBuffer();
+  const nextResponse = new Response(responseBody, {
     status: response.status,
     statusText: response.statusText,
   });
@@ -57,17 +58,23 @@ export async function POST(
   const url = `${API}/${path.join('/')}`;
   const cookies = req.headers.get('cookie') || '';
 
+  // File uploads are forwarded as-is; the content-type carries the boundary
+  const contentType = req.headers.get('content-type') || '';
+  const multipart = contentType.startsWith('multipart/form-data');
+
   // Only use httpOnly cookies, don't mix with Authorization headers
   const response = await fetch(url, {
     method: 'POST',
     headers: {
-      'content-type': 'application/json',
+      'content-type': multipart ? contentType : 'application/json',
       // Forward all cookies from the request
       cookie: cookies,
       // Forward user-agent and other relevant headers
       'user-agent': req.headers.get('user-agent') || '',
     },
-    body: JSON.stringify(await req.json()),
+    body: multipart
+      ? await req.arrayBuffer()
+      : JSON.stringify(await req.json()),
     // Don't use credentials: 'include' as we're manually forwarding cookies
   });
 
@@ -85,3 +92,74 @@ export async function POST(
 
   return nextResponse;
 }
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+
+  // Skip auth routes - let them be handled by specific auth route handlers
+  if (path[0] === 'auth') {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const url = `${API}/${path.join('/')}`;
+  const cookies = req.headers.get('cookie') || '';
+
+  const response = await fetch(url, {
+    method: 'PATCH',
+    headers: {
+      'content-type': 'application/json',
+      cookie: cookies,
+      'user-agent': req.headers.get('user-agent') || '',
+    },
+    body: JSON.stringify(await req.json()),
+  });
+
+  const responseText = await response.text();
+  const nextResponse = new Response(responseText, {
+    status: response.status,
+    statusText: response.statusText,
+  });
+
+  response.headers.forEach((value, key) => {
+    nextResponse.headers.set(key, value);
+  });
+
+  return nextResponse;
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ path: string[] }> }
+) {
+  const { path } = await params;
+
+  // Skip auth routes - let them be handled by specific auth route handlers
+  if (path[0] === 'auth') {
+    return new Response('Not Found', { status: 404 });
+  }
+
+  const url = `${API}/${path.join('/')}${req.nextUrl.search}`;
+  const cookies = req.headers.get('cookie') || '';
+
+  const response = await fetch(url, {
+    method: 'DELETE',
+    headers: {
+      cookie: cookies,
+      'user-agent': req.headers.get('user-agent') || '',
+    },
+  });
+
+  const responseText = await response.text();
+  const nextResponse = new Response(responseText, {
+    status: response.status,
+    statusText: response.statusText,
+  });
+
+  response.headers.forEach((value, key) => {
+    nextResponse.headers.set(key, value);
+  });
+
+  return nextResponse;
+}
@@ -0,0 +1,205 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import { Mic, MicOff, PhoneOff, Video, VideoOff, X } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import type { CallPhase } from '@/lib/calls';
+import { cn } from '@/lib/theme';
+import { formatDuration } from '@/lib/voice';
+
+// Shows a stream in a media element; srcObject can't be set as a prop
+function StreamVideo({
+  stream,
+  muted,
+  className,
+}: {
+  stream: MediaStream | null;
+  muted?: boolean;
+  className?: string;
+}) {
+  const ref = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (ref.current) ref.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <video ref={ref} autoPlay playsInline muted={muted} className={className} />
+  );
+}
+
+function CallControl({
+  label,
+  onClick,
+  danger,
+  active,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  danger?: boolean;
+  active?: boolean; // toggled away from the default, e.g. muted
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label={label}
+      title={label}
+      className={cn(
+        'flex h-14 w-14 items-center justify-center rounded-full transition-colors',
+        danger
+          ? 'bg-red-600 text-white hover:bg-red-700'
+          : active
+            ? 'bg-white text-zinc-900'
+            : 'bg-white/15 text-white hover:bg-white/25'
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+/**
+ * Full-screen overlay for the call in progress. The remote stream plays
+ * through a video element for voice calls too, kept hidden, so there is a
+ * single place its audio comes from.
+ */
+export default function CallScreen({
+  name,
+  video,
+  phase,
+  muted,
+  cameraOff,
+  localStream,
+  remoteStream,
+  connectedAt,
+  error,
+  onToggleMute,
+  onToggleCamera,
+  onHangUp,
+}: {
+  name: string; // the other party
+  video: boolean;
+  phase: CallPhase;
+  muted: boolean;
+  cameraOff: boolean;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  connectedAt: number | null;
+  error?: string | null;
+  onToggleMute: () => void;
+  onToggleCamera: () => void;
+  onHangUp: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!connectedAt) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [connectedAt]);
+
+  const status =
+    phase === 'failed'
+      ? (error ?? 'Call failed')
+      : phase === 'active' && connectedAt
+        ? formatDuration(now - connectedAt)
+        : {
+            calling: 'Calling…',
+            ringing: 'Ringing…',
+            connecting: 'Connecting…',
+            active: 'Connecting…',
+          }[phase];
+  const showRemoteVideo = video && phase === 'active';
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`${video ? 'Video' : 'Voice'} call with ${name}`}
+      className="fixed inset-0 z-50 flex flex-col items-center justify-between bg-zinc-950 text-white"
+    >
+      <StreamVideo
+        stream={remoteStream}
+        className={
+          showRemoteVideo
+            ? 'absolute inset-0 h-full w-full object-cover'
+            : 'hidden'
+        }
+      />
+
+      <div
+        className={cn(
+          'relative z-10 flex flex-col items-center gap-3 pt-16',
+          showRemoteVideo && 'pt-6'
+        )}
+      >
+        {!showRemoteVideo && (
+          <Avatar className="h-24 w-24 text-2xl">
+            <AvatarFallback className="bg-zinc-700 text-white">
+              {name.slice(0, 2).toUpperCase()}
+            </AvatarFallback>
+          </Avatar>
+        )}
+        <div className="text-xl font-semibold">{name}</div>
+        <div
+          className={cn(
+            'text-sm tabular-nums',
+            phase === 'failed' ? 'text-red-300' : 'text-white/70'
+          )}
+          aria-live="polite"
+        >
+          {status}
+        </div>
+      </div>
+
+      {video && localStream && !cameraOff && (
+        <StreamVideo
+          stream={localStream}
+          muted
+          className="absolute bottom-28 right-4 z-10 h-40 w-28 rounded-xl object-cover shadow-lg sm:h-48 sm:w-36"
+        />
+      )}
+
+      <div className="relative z-10 flex items-center gap-6 pb-10">
+        {phase === 'failed' ? (
+          <CallControl label="Close" onClick={onHangUp}>
+            <X className="h-6 w-6" />
+          </CallControl>
+        ) : (
+          <>
+            <CallControl
+              label={muted ? 'Unmute' : 'Mute'}
+              onClick={onToggleMute}
+              active={muted}
+            >
+              {muted ? (
+                <MicOff className="h-6 w-6" />
+              ) : (
+                <Mic className="h-6 w-6" />
+              )}
+            </CallControl>
+            {video && (
+              <CallControl
+                label={cameraOff ? 'Turn camera on' : 'Turn camera off'}
+                onClick={onToggleCamera}
+                active={cameraOff}
+              >
+                {cameraOff ? (
+                  <VideoOff className="h-6 w-6" />
+                ) : (
+                  <Video className="h-6 w-6" />
+                )}
+              </CallControl>
+            )}
+            <CallControl label="Hang up" onClick={onHangUp} danger>
+              <PhoneOff className="h-6 w-6" />
+            </CallControl>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
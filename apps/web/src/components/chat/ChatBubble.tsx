@@ -1,6 +1,17 @@
 'use client';
 import { useMemo, useState } from 'react';
-import { Message } from '@/lib/types/chat';
+import {
+  Attachment,
+  Message,
+  MessageDeleteScope,
+  MessageEdit,
+  ReceiptStatus,
+} from '@/lib/types/chat';
+import { listMessageEdits } from '@/lib/api';
+import MessageAttachments from './MessageAttachments';
+import MessageContent from './MessageContent';
+import LinkPreviewCard from './LinkPreviewCard';
+import PollCard from './PollCard';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Check, CheckCheck, RefreshCw } from 'lucide-react';
 import {
@@ -14,37 +25,81 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from '@/components/ui/tooltip';
-import { Reply, Copy, SmilePlus, Trash2 } from 'lucide-react';
+import {
+  Reply,
+  Copy,
+  SmilePlus,
+  Trash2,
+  Pencil,
+  Pin,
+  PinOff,
+  Forward,
+} from 'lucide-react';
 import { cn, themeUtils } from '@/lib/theme';
+import { mentionsUser, splitMentions } from '@/lib/mentions';
+import { toPlainText } from 'shared/markdown';
 
 type BubbleProps = {
   m: Message;
   mine: boolean;
   me?: string; // Add current user ID for reaction checking
+  myUsername?: string; // mentions of the reader stand out
   avatar?: string | null;
   name?: string;
   isGroup?: boolean; // Add flag to indicate if this is a group chat
+  receiptStatus?: ReceiptStatus; // DMs: ticks on your own messages
+  seenBy?: string[]; // groups: members who read up to this message
   // optional callbacks
   onReply?: (m: Message) => void;
   onReact?: (m: Message, emoji: string) => void;
-  onDelete?: (m: Message) => void;
+  onDelete?: (m: Message, scope: MessageDeleteScope) => void;
   onRetry?: (m: Message) => void;
+  onEdit?: (m: Message, content: string) => void;
+  onOpenThread?: (m: Message) => void;
+  canDeleteForEveryone?: boolean; // sender or room admin
+  pinned?: boolean;
+  onTogglePin?: (m: Message) => void; // only when the user may pin
+  onForward?: (m: Message) => void;
+  onRemovePreview?: (m: Message) => void; // sender hides the link card
+  onVotePoll?: (m: Message, optionIds: string[]) => void;
+  onRetractPollVote?: (m: Message) => void;
+  onClosePoll?: (m: Message) => void; // offered to the sender and admins
+  nameOf?: (userId: string) => string | undefined; // public poll voters
+  onVoicePlayed?: (m: Message, attachment: Attachment) => void;
 };
 
 export default function ChatBubble({
   m,
   mine,
   me,
+  myUsername,
   avatar,
   name,
   isGroup,
+  receiptStatus,
+  seenBy,
   onReply,
   onReact,
   onDelete,
   onRetry,
+  onEdit,
+  onOpenThread,
+  canDeleteForEveryone,
+  pinned,
+  onTogglePin,
+  onForward,
+  onRemovePreview,
+  onVotePoll,
+  onRetractPollVote,
+  onClosePoll,
+  nameOf,
+  onVoicePlayed,
 }: BubbleProps) {
   const [showActions, setShowActions] = useState(false);
   const [showReactions, setShowReactions] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [edits, setEdits] = useState<MessageEdit[] | null>(null);
 
   const t = useMemo(
     () =>
@@ -62,45 +117,46 @@ export default function ChatBubble({
     } catch {}
   };
 
-  // naive autolink + code styling; keep it simple
-  const renderContent = (text?: string) => {
-    if (!text) return null;
-    // highlight code blocks ```...```
-    const parts = text.split(/```([\s\S]*?)```/g);
-    return (
-      <div className="space-y-2">
-        {parts.map((chunk, i) =>
-          i % 2 === 1 ? (
-            <pre
-              key={i}
-              className="whitespace-pre-wrap break-words rounded-lg bg-black/10 px-2 py-1 text-[12px] dark:bg-white/10"
-            >
-              <code>{chunk}</code>
-            </pre>
-          ) : (
-            <p key={i} className="whitespace-pre-wrap break-words text-sm">
-              {chunk.split(/(\s+)/).map((w, j) =>
-                urlRe.test(w) ? (
-                  <a
-                    key={j}
-                    href={w}
-                    target="_blank"
-                    rel="noreferrer"
-                    className="underline underline-offset-2"
-                  >
-                    {w}
-                  </a>
-                ) : (
-                  <span key={j}>{w}</span>
-                )
-              )}
-            </p>
-          )
-        )}
-      </div>
-    );
+  const startEditing = () => {
+    setDraft(m.content ?? '');
+    setEditing(true);
+  };
+
+  const saveEdit = () => {
+    const next = draft.trim();
+    if (next && next !== m.content) onEdit?.(m, next);
+    setEditing(false);
   };
 
+  // Earlier revisions are fetched lazily the first time the history is opened
+  const loadEdits = async () => {
+    try {
+      setEdits(await listMessageEdits(m.id));
+    } catch {
+      setEdits([]);
+    }
+  };
+
+  const renderMentions = (text: string) =>
+    splitMentions(text).map((part, k) =>
+      typeof part === 'string' ? (
+        part
+      ) : (
+        <span
+          key={k}
+          data-mention={part.mention}
+          className={cn(
+            'rounded font-semibold',
+            !mine &&
+              mentionsUser(part.mention, myUsername) &&
+              'bg-amber-300/60 px-0.5 dark:bg-amber-500/40'
+          )}
+        >
+          @{part.mention}
+        </span>
+      )
+    );
+
   return (
     <div
       className={`mb-1 flex gap-2 ${mine ? 'justify-end' : 'justify-start'}`}
@@ -129,7 +185,14 @@ export default function ChatBubble({
             {name}
           </div>
         )}
-        
+
+        {m.forwardedFrom && (
+          <div className="mb-1 ml-1 flex items-center gap-1 text-xs italic text-muted-foreground">
+            <Forward className="h-3 w-3" />
+            Forwarded from {m.forwardedFrom.username}
+          </div>
+        )}
+
         {/* Reply preview (if quoting) */}
         {m.replyToId && m.replyTo && (
           <div
@@ -137,8 +200,15 @@ export default function ChatBubble({
               mine ? 'border-white/30' : 'border-black/10 dark:border-white/10'
             }`}
           >
-            <div className="line-clamp-2 opacity-70">
-              {m.replyTo.content || 'Attachment'}
+            <div
+              className={cn(
+                'line-clamp-2 opacity-70',
+                m.replyTo.deleted && 'italic'
+              )}
+            >
+              {m.replyTo.deleted
+                ? 'Deleted message'
+                : toPlainText(m.replyTo.content ?? '') || 'Attachment'}
             </div>
           </div>
         )}
@@ -153,17 +223,80 @@ export default function ChatBubble({
               : cn(themeUtils.chat.theirMessage, 'rounded-bl-md')
           )}
         >
-          {/* Attachment preview */}
-          {m.fileUrl && (
-            <img
-              src={m.fileUrl}
-              alt="image"
-              className="mb-2 max-h-72 w-full rounded-lg object-cover"
+          {/* Attachments: image thumbnails, voice notes and file cards */}
+          {!!m.attachments?.length && !m.deleted && (
+            <MessageAttachments
+              attachments={m.attachments}
+              mine={mine}
+              onVoicePlayed={
+                onVoicePlayed ? a => onVoicePlayed(m, a) : undefined
+              }
             />
           )}
 
-          {/* Text */}
-          {renderContent(m.content)}
+          {/* Text (or inline editor) */}
+          {editing ? (
+            <div className="space-y-1">
+              <textarea
+                autoFocus
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onKeyDown={e => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit();
+                  } else if (e.key === 'Escape') {
+                    setEditing(false);
+                  }
+                }}
+                aria-label="Edit message"
+                className="w-full min-w-[12rem] resize-none rounded-lg bg-background/80 px-2 py-1 text-sm text-foreground"
+                rows={Math.min(6, Math.max(1, draft.split('\n').length))}
+              />
+              <div className="flex justify-end gap-2 text-xs">
+                <button onClick={() => setEditing(false)} className="underline">
+                  Cancel
+                </button>
+                <button onClick={saveEdit} className="font-medium underline">
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : m.deleted ? (
+            <p className="text-sm italic opacity-70">{m.content}</p>
+          ) : m.poll ? (
+            <PollCard
+              question={m.content}
+              poll={m.poll}
+              mine={mine}
+              nameOf={nameOf}
+              onVote={
+                onVotePoll ? optionIds => onVotePoll(m, optionIds) : undefined
+              }
+              onRetract={
+                onRetractPollVote ? () => onRetractPollVote(m) : undefined
+              }
+              onClose={
+                onClosePoll && canDeleteForEveryone
+                  ? () => onClosePoll(m)
+                  : undefined
+              }
+            />
+          ) : (
+            m.content && (
+              <MessageContent text={m.content} renderText={renderMentions} />
+            )
+          )}
+
+          {m.linkPreview && !m.deleted && !editing && (
+            <LinkPreviewCard
+              preview={m.linkPreview}
+              mine={mine}
+              onRemove={
+                mine && onRemovePreview ? () => onRemovePreview(m) : undefined
+              }
+            />
+          )}
 
           {/* Footer row: time • ticks • states */}
           <div
@@ -173,11 +306,43 @@ export default function ChatBubble({
           >
             <span>{t}</span>
             {mine &&
-              (m.read ? (
-                <CheckCheck className="h-3 w-3" />
+              receiptStatus &&
+              (receiptStatus === 'sent' ? (
+                <Check className="h-3 w-3" aria-label="Sent" />
               ) : (
-                <Check className="h-3 w-3" />
+                <CheckCheck
+                  className={cn(
+                    'h-3 w-3',
+                    receiptStatus === 'read' && 'text-sky-400'
+                  )}
+                  aria-label={receiptStatus === 'read' ? 'Read' : 'Delivered'}
+                />
               ))}
+            {mine && !!seenBy?.length && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    className="ml-1 underline-offset-2 hover:underline"
+                    title="Seen by"
+                  >
+                    Seen by {seenBy.length}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  align="end"
+                  className="z-30 w-48 rounded-xl border p-2 text-xs shadow"
+                >
+                  <div className="mb-1 font-medium">Seen by</div>
+                  <ul className="max-h-48 space-y-1 overflow-y-auto">
+                    {seenBy.map((seenName, i) => (
+                      <li key={i} className="truncate">
+                        {seenName}
+                      </li>
+                    ))}
+                  </ul>
+                </PopoverContent>
+              </Popover>
+            )}
             {m.pending && <span className="italic">sending…</span>}
             {m.error && (
               <span className="ml-1 text-red-500">
@@ -193,8 +358,70 @@ export default function ChatBubble({
                 )}
               </span>
             )}
-            {m.edited && <span className="ml-1 italic">edited</span>}
+            {m.edited && (
+              <Popover
+                onOpenChange={open => {
+                  if (open && edits === null) void loadEdits();
+                }}
+              >
+                <PopoverTrigger asChild>
+                  <button
+                    className="ml-1 italic underline-offset-2 hover:underline"
+                    title="View edit history"
+                  >
+                    edited
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  align={mine ? 'end' : 'start'}
+                  className="z-30 w-64 rounded-xl border p-2 text-xs shadow"
+                >
+                  <div className="mb-1 font-medium">Edit history</div>
+                  {edits === null ? (
+                    <div className="text-muted-foreground">Loading…</div>
+                  ) : edits.length === 0 ? (
+                    <div className="text-muted-foreground">
+                      No earlier versions
+                    </div>
+                  ) : (
+                    <ul className="max-h-48 space-y-2 overflow-y-auto">
+                      {edits.map(edit => (
+                        <li key={edit.id}>
+                          <div className="text-[10px] text-muted-foreground">
+                            {new Date(edit.editedAt).toLocaleString()}
+                          </div>
+                          <div className="whitespace-pre-wrap break-words">
+                            {edit.content}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </PopoverContent>
+              </Popover>
+            )}
           </div>
+
+          {/* Thread summary */}
+          {!!m.replyCount && (
+            <button
+              type="button"
+              onClick={() => onOpenThread?.(m)}
+              className="mt-1 flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+            >
+              {m.replyCount} {m.replyCount === 1 ? 'reply' : 'replies'}
+              {m.lastReplier && (
+                <span className="font-normal opacity-70">
+                  · {m.lastReplier.username}
+                  {m.lastReplyAt &&
+                    ` ${new Date(m.lastReplyAt).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}`}
+                </span>
+              )}
+            </button>
+          )}
         </div>
 
         {/* Hover actions */}
@@ -206,93 +433,179 @@ export default function ChatBubble({
             } z-20 flex items-center gap-1 opacity-0 transition-opacity group-hover:opacity-100`}
           >
             {/* Reply */}
-
-            <button
-              className={cn(
-                'pointer-events-auto px-2 py-1 text-xs shadow',
-                themeUtils.radius.md,
-                'bg-background/90 hover:bg-accent transition-colors'
-              )}
-              onClick={() => onReply?.(m)}
-            >
-              <span className="inline-flex items-center gap-1">
-                <Reply className="h-3 w-3" /> Reply
-              </span>
-            </button>
+            {!m.deleted && (
+              <button
+                className={cn(
+                  'pointer-events-auto px-2 py-1 text-xs shadow',
+                  themeUtils.radius.md,
+                  'bg-background/90 hover:bg-accent transition-colors'
+                )}
+                onClick={() => onReply?.(m)}
+              >
+                <span className="inline-flex items-center gap-1">
+                  <Reply className="h-3 w-3" /> Reply
+                </span>
+              </button>
+            )}
 
             {/* Copy */}
-          
-                <button
-                  className={cn(
-                    'pointer-events-auto px-2 py-1 text-xs shadow',
-                    themeUtils.radius.md,
-                    'bg-background/90 hover:bg-accent transition-colors'
-                  )}
-                  onClick={copyText}
-                >
-                  
-                  <span className="inline-flex items-center gap-1">
-                    <Copy className="h-3 w-3" /> Copy
-                  </span>
-                </button>
-           
+            {!m.deleted && (
+              <button
+                className={cn(
+                  'pointer-events-auto px-2 py-1 text-xs shadow',
+                  themeUtils.radius.md,
+                  'bg-background/90 hover:bg-accent transition-colors'
+                )}
+                onClick={copyText}
+              >
+                <span className="inline-flex items-center gap-1">
+                  <Copy className="h-3 w-3" /> Copy
+                </span>
+              </button>
+            )}
+
+            {/* Forward */}
+            {onForward && !m.pending && !m.error && !m.deleted && !m.poll && (
+              <button
+                className={cn(
+                  'pointer-events-auto px-2 py-1 text-xs shadow',
+                  themeUtils.radius.md,
+                  'bg-background/90 hover:bg-accent transition-colors'
+                )}
+                onClick={() => onForward(m)}
+              >
+                <span className="inline-flex items-center gap-1">
+                  <Forward className="h-3 w-3" /> Forward
+                </span>
+              </button>
+            )}
 
             {/* React (stable popover) */}
-            <Popover>
-              <PopoverTrigger asChild>
+            {!m.deleted && (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button
+                    className={cn(
+                      'pointer-events-auto px-2 py-1 text-xs shadow',
+                      themeUtils.radius.md,
+                      'bg-background/90 hover:bg-accent transition-colors'
+                    )}
+                    title="React"
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      <SmilePlus className="h-3 w-3" /> React
+                    </span>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent
+                  side={mine ? 'bottom' : 'bottom'}
+                  align={mine ? 'end' : 'start'}
+                  className="z-30 w-auto max-w-max whitespace-nowrap border p-1 shadow rounded-xl"
+                >
+                  {['👍', '❤️', '😂', '😮', '🙏'].map(e => (
+                    <button
+                      key={e}
+                      onClick={() => onReact?.(m, e)}
+                      className={cn(
+                        'px-2 py-1 text-base transition-colors',
+                        themeUtils.radius.lg,
+                        'hover:bg-muted'
+                      )}
+                    >
+                      {e}
+                    </button>
+                  ))}
+                </PopoverContent>
+              </Popover>
+            )}
+
+            {/* Edit (owner only) */}
+            {mine &&
+              onEdit &&
+              !m.pending &&
+              !m.error &&
+              !m.deleted &&
+              !m.poll &&
+              !editing && (
                 <button
                   className={cn(
                     'pointer-events-auto px-2 py-1 text-xs shadow',
                     themeUtils.radius.md,
                     'bg-background/90 hover:bg-accent transition-colors'
                   )}
-                  title="React"
+                  onClick={startEditing}
                 >
                   <span className="inline-flex items-center gap-1">
-                    <SmilePlus className="h-3 w-3" /> React
+                    <Pencil className="h-3 w-3" /> Edit
                   </span>
                 </button>
-              </PopoverTrigger>
-              <PopoverContent
-                side={mine ? 'bottom' : 'bottom'}
-                align={mine ? 'end' : 'start'}
-                className="z-30 w-auto max-w-max whitespace-nowrap border p-1 shadow rounded-xl"
+              )}
+
+            {/* Pin (group admins; anyone in DMs) */}
+            {onTogglePin && !m.pending && !m.error && !m.deleted && (
+              <button
+                className={cn(
+                  'pointer-events-auto px-2 py-1 text-xs shadow',
+                  themeUtils.radius.md,
+                  'bg-background/90 hover:bg-accent transition-colors'
+                )}
+                onClick={() => onTogglePin(m)}
               >
-                {['👍', '❤️', '😂', '😮', '🙏'].map(e => (
-                  <button
-                    key={e}
-                    onClick={() => onReact?.(m, e)}
-                    className={cn(
-                      'px-2 py-1 text-base transition-colors',
-                      themeUtils.radius.lg,
-                      'hover:bg-muted'
-                    )}
-                  >
-                    {e}
-                  </button>
-                ))}
-              </PopoverContent>
-            </Popover>
+                <span className="inline-flex items-center gap-1">
+                  {pinned ? (
+                    <>
+                      <PinOff className="h-3 w-3" /> Unpin
+                    </>
+                  ) : (
+                    <>
+                      <Pin className="h-3 w-3" /> Pin
+                    </>
+                  )}
+                </span>
+              </button>
+            )}
 
-            {/* Delete (owner only) */}
-            {mine && onDelete && !m.pending && !m.error && (
-              <Tooltip>
-                <TooltipTrigger asChild>
+            {/* Delete: for me, or for everyone (sender / admins) */}
+            {onDelete && !m.pending && !m.error && (
+              <Popover>
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <PopoverTrigger asChild>
+                      <button
+                        className={cn(
+                          'pointer-events-auto px-2 py-1 text-xs shadow',
+                          themeUtils.radius.md,
+                          'bg-background/90 hover:bg-destructive hover:text-destructive-foreground transition-colors'
+                        )}
+                      >
+                        <span className="inline-flex items-center gap-1">
+                          <Trash2 className="h-3 w-3" /> Delete
+                        </span>
+                      </button>
+                    </PopoverTrigger>
+                  </TooltipTrigger>
+                  <TooltipContent>Delete</TooltipContent>
+                </Tooltip>
+                <PopoverContent
+                  align={mine ? 'end' : 'start'}
+                  className="z-30 flex w-auto flex-col gap-1 rounded-xl border p-1 text-xs shadow"
+                >
                   <button
-                    className={cn(
-                      'pointer-events-auto px-2 py-1 text-xs shadow',
-                      themeUtils.radius.md,
-                      'bg-background/90 hover:bg-destructive hover:text-destructive-foreground transition-colors'
-                    )}
-                    onClick={() => onDelete?.(m)}
+                    onClick={() => onDelete(m, 'me')}
+                    className="rounded-lg px-2 py-1 text-left hover:bg-muted"
                   >
-                    <span className="inline-flex items-center gap-1">
-                      <Trash2 className="h-3 w-3" /> Delete
-                    </span>
+                    Delete for me
                   </button>
-                </TooltipTrigger>
-                <TooltipContent>Delete</TooltipContent>
-              </Tooltip>
+                  {canDeleteForEveryone && !m.deleted && (
+                    <button
+                      onClick={() => onDelete(m, 'everyone')}
+                      className="rounded-lg px-2 py-1 text-left text-destructive hover:bg-muted"
+                    >
+                      Delete for everyone
+                    </button>
+                  )}
+                </PopoverContent>
+              </Popover>
             )}
           </div>
         </TooltipProvider>
@@ -334,5 +647,3 @@ export default function ChatBubble({
     </div>
   );
 }
-
-const urlRe = /^(https?:\/\/[\w.-]+\.[a-z]{2,}(?:[^\s]*)$)/i;
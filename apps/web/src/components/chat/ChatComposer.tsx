@@ -1,5 +1,5 @@
 'use client';
-import { useRef, useEffect, useState } from 'react';
+import { useRef, useEffect, useMemo, useState, type PointerEvent } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -8,8 +8,30 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { Paperclip, Image as ImgIcon, Send } from 'lucide-react';
+import {
+  Paperclip,
+  Image as ImgIcon,
+  FileText,
+  BarChart3,
+  Mic,
+  Send,
+} from 'lucide-react';
 import { useKeyboardInsets } from '@/hooks/useKeyboardInsets';
+import { useVoiceRecorder } from '@/hooks/useVoiceRecorder';
+import SchedulePicker from './SchedulePicker';
+import PollComposer from './PollComposer';
+import MentionSuggestions, { type MentionOption } from './MentionSuggestions';
+import FormattingToolbar from './FormattingToolbar';
+import { mentionQueryAt } from '@/lib/mentions';
+import {
+  applyFormat,
+  formatForShortcut,
+  type TextFormat,
+} from '@/lib/formatting';
+import type { NewPoll, VoiceNoteMeta } from '@/lib/api';
+import { formatDuration } from '@/lib/voice';
+
+const MAX_MENTION_SUGGESTIONS = 6;
 import clsx from 'clsx';
 
 type Props = {
@@ -17,6 +39,14 @@ type Props = {
   setValue: (v: string) => void;
   onSend: () => void;
   onPick: (f: File) => void;
+  /** Optional: offer sending the message later */
+  onSchedule?: (sendAt: Date) => void;
+  /** Optional: offer posting a poll (group conversations) */
+  onCreatePoll?: (poll: NewPoll) => Promise<void>;
+  /** Optional: hold the mic button (shown while the box is empty) to record */
+  onSendVoice?: (file: File, voice: VoiceNoteMeta) => void;
+  /** Optional: who can be @mentioned, offered while typing `@name` */
+  mentionOptions?: MentionOption[];
   /** Optional: auto-focus textarea when mounting */
   autoFocus?: boolean;
 };
@@ -26,12 +56,80 @@ export default function ChatComposer({
   setValue,
   onSend,
   onPick,
+  onSchedule,
+  onCreatePoll,
+  onSendVoice,
+  mentionOptions,
   autoFocus,
 }: Props) {
   const fileRef = useRef<HTMLInputElement>(null);
+  const docRef = useRef<HTMLInputElement>(null);
   const taRef = useRef<HTMLTextAreaElement>(null);
   const [taHeight, setTaHeight] = useState<number>(44);
   const disabled = !value.trim();
+  const [mention, setMention] = useState<{
+    start: number;
+    query: string;
+  } | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const [pollOpen, setPollOpen] = useState(false);
+  const recorder = useVoiceRecorder();
+
+  const suggestions = useMemo(() => {
+    if (!mention || !mentionOptions) return [];
+    const query = mention.query.toLowerCase();
+    return mentionOptions
+      .filter(o => o.username.toLowerCase().startsWith(query))
+      .slice(0, MAX_MENTION_SUGGESTIONS);
+  }, [mention, mentionOptions]);
+  const activeSuggestion = Math.min(highlighted, suggestions.length - 1);
+
+  const trackMention = (ta: HTMLTextAreaElement) =>
+    setMention(mentionQueryAt(ta.value, ta.selectionStart));
+
+  // Replaces the typed `@na` with the full name and moves the caret past it
+  const pickMention = (username: string) => {
+    const ta = taRef.current;
+    if (!ta || !mention) return;
+    const inserted = `@${username} `;
+    setValue(
+      value.slice(0, mention.start) + inserted + value.slice(ta.selectionStart)
+    );
+    setMention(null);
+    const caret = mention.start + inserted.length;
+    requestAnimationFrame(() => {
+      ta.focus();
+      ta.setSelectionRange(caret, caret);
+    });
+  };
+
+  // Wraps (or unwraps) the selection and keeps it selected
+  const format = (f: TextFormat) => {
+    const ta = taRef.current;
+    if (!ta) return;
+    const edit = applyFormat(value, ta.selectionStart, ta.selectionEnd, f);
+    setValue(edit.value);
+    requestAnimationFrame(() => {
+      ta.focus();
+      ta.setSelectionRange(edit.selectionStart, edit.selectionEnd);
+    });
+  };
+
+  // Releasing over the button sends; sliding off it first throws it away
+  const finishRecording = async (e: PointerEvent<HTMLButtonElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const inside =
+      e.clientX >= rect.left &&
+      e.clientX <= rect.right &&
+      e.clientY >= rect.top &&
+      e.clientY <= rect.bottom;
+    if (!inside) {
+      await recorder.cancel();
+      return;
+    }
+    const note = await recorder.stop();
+    if (note) onSendVoice?.(note.file, note.voice);
+  };
 
   const keyboardInset = useKeyboardInsets();
 
@@ -128,7 +226,13 @@ export default function ChatComposer({
           paddingBottom: `calc(env(safe-area-inset-bottom) + ${keyboardInset}px)`,
         }}
       >
-        <div className="mx-auto w-full px-3 py-2">
+        <div className="relative mx-auto w-full px-3 py-2">
+          <MentionSuggestions
+            options={suggestions}
+            highlighted={activeSuggestion}
+            onPick={pickMention}
+          />
+          <FormattingToolbar onFormat={format} />
           <div className="flex items-end gap-1 rounded-2xl border bg-card/50">
             <input
               ref={fileRef}
@@ -142,6 +246,17 @@ export default function ChatComposer({
                 if (fileRef.current) fileRef.current.value = '';
               }}
             />
+            <input
+              ref={docRef}
+              type="file"
+              className="hidden"
+              aria-label="Attach file"
+              onChange={e => {
+                const f = e.target.files?.[0];
+                if (f) onPick(f);
+                if (docRef.current) docRef.current.value = '';
+              }}
+            />
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -156,15 +271,59 @@ export default function ChatComposer({
                 >
                   <ImgIcon className="h-4 w-4" /> Image
                 </DropdownMenuItem>
+                <DropdownMenuItem
+                  className="gap-2"
+                  onClick={() => docRef.current?.click()}
+                >
+                  <FileText className="h-4 w-4" /> File
+                </DropdownMenuItem>
+                {onCreatePoll && (
+                  <DropdownMenuItem
+                    className="gap-2"
+                    onClick={() => setPollOpen(true)}
+                  >
+                    <BarChart3 className="h-4 w-4" /> Poll
+                  </DropdownMenuItem>
+                )}
               </DropdownMenuContent>
             </DropdownMenu>
+            {onCreatePoll && (
+              <PollComposer
+                open={pollOpen}
+                onOpenChange={setPollOpen}
+                onCreate={onCreatePoll}
+              />
+            )}
+
+            {recorder.recording && (
+              <div
+                role="status"
+                className="flex flex-1 items-center gap-2 px-2 py-2 text-sm"
+              >
+                <span className="h-2 w-2 animate-pulse rounded-full bg-red-500" />
+                <span className="tabular-nums">
+                  {formatDuration(recorder.elapsedMs)}
+                </span>
+                <span className="truncate text-muted-foreground">
+                  Release to send, slide away to cancel
+                </span>
+              </div>
+            )}
 
             <Textarea
               ref={taRef}
               value={value}
-              onChange={e => setValue(e.target.value)}
+              onChange={e => {
+                setValue(e.target.value);
+                trackMention(e.target);
+                setHighlighted(0);
+              }}
+              onSelect={e => trackMention(e.currentTarget)}
               placeholder="Message"
-              className="min-h-0.5 w-full resize-none rounded-2xl px-2 py-2 text-base md:text-sm scrollbar-none"
+              className={clsx(
+                'min-h-0.5 w-full resize-none rounded-2xl px-2 py-2 text-base md:text-sm scrollbar-none',
+                recorder.recording && 'hidden'
+              )}
               rows={1}
               inputMode="text"
               autoCapitalize="sentences"
@@ -177,6 +336,33 @@ export default function ChatComposer({
                 fontSize: '16px'
               }}
               onKeyDown={e => {
+                const shortcut = formatForShortcut(e);
+                if (shortcut) {
+                  e.preventDefault();
+                  format(shortcut);
+                  return;
+                }
+                if (suggestions.length > 0) {
+                  if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+                    e.preventDefault();
+                    const step = e.key === 'ArrowDown' ? 1 : -1;
+                    setHighlighted(
+                      (activeSuggestion + step + suggestions.length) %
+                        suggestions.length
+                    );
+                    return;
+                  }
+                  if (e.key === 'Enter' || e.key === 'Tab') {
+                    e.preventDefault();
+                    pickMention(suggestions[activeSuggestion]!.username);
+                    return;
+                  }
+                  if (e.key === 'Escape') {
+                    e.preventDefault();
+                    setMention(null);
+                    return;
+                  }
+                }
                 if (e.key === 'Enter') {
                   if (isMobile) {
                     // Mobile: Return always creates new line
@@ -200,23 +386,46 @@ export default function ChatComposer({
               }}
             />
 
-            <Button
-              disabled={disabled}
-              className="rounded-full w-12 h-10"
-              aria-label={disabled ? 'Send (disabled)' : 'Send'}
-              onMouseDown={(e) => {
-                // Prevent button from stealing focus on mobile
-                if (isMobile) {
-                  e.preventDefault();
-                }
-              }}
-              onClick={handleSend}
-            >
-              <Send
-                className="rotate-45"
-                style={{ width: '100%', height: '100%' }}
-              />
-            </Button>
+            {onSchedule && (
+              <SchedulePicker disabled={disabled} onSchedule={onSchedule} />
+            )}
+
+            {onSendVoice && disabled ? (
+              <Button
+                type="button"
+                variant={recorder.recording ? 'destructive' : 'default'}
+                className="rounded-full w-12 h-10 touch-none"
+                aria-label="Hold to record a voice message"
+                title={recorder.error ?? 'Hold to record a voice message'}
+                onPointerDown={e => {
+                  e.currentTarget.setPointerCapture?.(e.pointerId);
+                  void recorder.start();
+                }}
+                onPointerUp={finishRecording}
+                onPointerCancel={() => void recorder.cancel()}
+                onContextMenu={e => e.preventDefault()}
+              >
+                <Mic style={{ width: '100%', height: '100%' }} />
+              </Button>
+            ) : (
+              <Button
+                disabled={disabled}
+                className="rounded-full w-12 h-10"
+                aria-label={disabled ? 'Send (disabled)' : 'Send'}
+                onMouseDown={(e) => {
+                  // Prevent button from stealing focus on mobile
+                  if (isMobile) {
+                    e.preventDefault();
+                  }
+                }}
+                onClick={handleSend}
+              >
+                <Send
+                  className="rotate-45"
+                  style={{ width: '100%', height: '100%' }}
+                />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -9,15 +9,45 @@ import {
 } from '@/components/ui/tooltip';
 import { Info, Phone, Video } from 'lucide-react';
 
+// "Alice is typing…", "Alice and Bob are typing…", "Alice and 2 others…"
+function formatTyping(names: string[]) {
+  const [first, second] = names;
+  if (names.length === 1) return `${first} is typing…`;
+  if (names.length === 2) return `${first} and ${second} are typing…`;
+  return `${first} and ${names.length - 1} others are typing…`;
+}
+
+// "last seen at 14:05" today, otherwise just the date
+function formatLastSeen(lastSeenAt?: string | null) {
+  if (!lastSeenAt) return 'last seen recently';
+  const date = new Date(lastSeenAt);
+  if (date.toDateString() === new Date().toDateString()) {
+    return `last seen at ${date.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    })}`;
+  }
+  return `last seen ${date.toLocaleDateString([], {
+    day: 'numeric',
+    month: 'short',
+  })}`;
+}
+
 export default function ChatHeader({
   name,
   online,
+  lastSeenAt,
+  typing = [],
   avatar,
+  onCall, // DMs only; calls are 1:1
   rightSlot, // e.g. <LogoutBtn />
 }: {
   name: string;
   online?: boolean;
+  lastSeenAt?: string | null;
+  typing?: string[]; // names of the others typing in this chat
   avatar?: string | null;
+  onCall?: (video: boolean) => void;
   rightSlot?: React.ReactNode;
 }) {
   return (
@@ -31,17 +61,29 @@ export default function ChatHeader({
       </Avatar>
       <div className="mr-auto leading-tight">
         <div className="text-sm font-medium">{name}</div>
-        <div className="text-xs text-muted-foreground">
-          {online ? 'online' : 'last seen recently'}
-          <span
-            className={`ml-2 inline-block h-2 w-2 rounded-full ${online ? 'bg-emerald-500' : 'bg-zinc-400'}`}
-          />
-        </div>
+        {typing.length > 0 ? (
+          <div className="text-xs text-emerald-600" aria-live="polite">
+            {formatTyping(typing)}
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            {online ? 'online' : formatLastSeen(lastSeenAt)}
+            <span
+              className={`ml-2 inline-block h-2 w-2 rounded-full ${online ? 'bg-emerald-500' : 'bg-zinc-400'}`}
+            />
+          </div>
+        )}
       </div>
       <TooltipProvider>
         <Tooltip>
           <TooltipTrigger asChild>
-            <Button variant="ghost" size="icon">
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Voice call"
+              disabled={!onCall}
+              onClick={() => onCall?.(false)}
+            >
               <Phone className="h-5 w-5" />
             </Button>
           </TooltipTrigger>
@@ -49,7 +91,13 @@ export default function ChatHeader({
         </Tooltip>
         <Tooltip>
           <TooltipTrigger asChild>
-            <Button variant="ghost" size="icon">
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label="Video call"
+              disabled={!onCall}
+              onClick={() => onCall?.(true)}
+            >
               <Video className="h-5 w-5" />
             </Button>
           </TooltipTrigger>
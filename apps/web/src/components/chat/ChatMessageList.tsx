@@ -8,9 +8,19 @@ import {
   forwardRef,
 } from 'react';
 import { Virtuoso, VirtuosoHandle } from 'react-virtuoso';
-import type { Message } from '@/lib/types/chat';
+import type {
+  Attachment,
+  Message,
+  MessageDeleteScope,
+  ReadReceipt,
+  ReceiptStatus,
+} from '@/lib/types/chat';
 import ChatBubble from './ChatBubble';
 
+// Virtuoso keeps the viewport still on prepend when firstItemIndex shrinks
+// by the number of items added on top, so start well above zero
+const START_INDEX = 1_000_000;
+
 // Message item types for the virtualized list
 type MessageItem =
   | { type: 'message'; message: Message; index: number }
@@ -43,6 +53,17 @@ function formatDateSeparator(date: Date): string {
   }
 }
 
+// Newest message the server has stored, i.e. one that can be marked read.
+// With a userId, that user's newest own message (group notices don't count)
+function latestSent(messages: Message[], userId?: string) {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (!m || m.pending || m.error) continue;
+    if (!userId || (m.userId === userId && m.type !== 'system')) return m;
+  }
+  return undefined;
+}
+
 function isSameDay(date1: Date, date2: Date): boolean {
   return (
     date1.getFullYear() === date2.getFullYear() &&
@@ -83,21 +104,65 @@ function groupMessagesByDay(messages: Message[]): MessageItem[] {
 export default function ChatMessageList({
   messages, // oldest -> newest
   me,
+  myUsername,
   conversationKey, // active room id
   getPeer,
   onStartReached,
+  loadingOlder,
+  hasOlder,
+  onEndReached,
+  loadingNewer,
+  hasNewer,
+  focusMessageId,
+  focusKey,
   onReact,
+  onEdit,
+  onDelete,
+  onOpenThread,
+  canModerate,
+  pinnedIds,
+  onTogglePin,
+  onForward,
+  onRemovePreview,
+  onVotePoll,
+  onRetractPollVote,
+  onClosePoll,
+  onVoicePlayed,
+  receipts,
+  onRead,
   forceScrollToBottom, // Add this prop to force scrolling
   isGroup, // Add this prop to indicate if it's a group chat
 }: {
   messages: Message[];
   me: string;
+  myUsername?: string;
   conversationKey?: string;
   getPeer?: (
     userId: string
   ) => { name?: string; avatar?: string | null } | undefined;
   onStartReached?: () => void;
+  loadingOlder?: boolean; // older history is being fetched
+  hasOlder?: boolean; // more history exists above the first message
+  onEndReached?: () => void;
+  loadingNewer?: boolean; // newer history is being fetched
+  hasNewer?: boolean; // the list stops short of the latest message
+  focusMessageId?: string; // scroll to and highlight this message...
+  focusKey?: number; // ...whenever this changes
   onReact?: (message: Message, emoji: string) => void;
+  onEdit?: (message: Message, content: string) => void;
+  onDelete?: (message: Message, scope: MessageDeleteScope) => void;
+  onOpenThread?: (message: Message) => void; // replying opens the thread too
+  canModerate?: boolean; // current user is a room owner/admin
+  pinnedIds?: Set<string>;
+  onTogglePin?: (message: Message) => void; // omitted when pinning isn't allowed
+  onForward?: (message: Message) => void;
+  onRemovePreview?: (message: Message) => void;
+  onVotePoll?: (message: Message, optionIds: string[]) => void;
+  onRetractPollVote?: (message: Message) => void;
+  onClosePoll?: (message: Message) => void;
+  onVoicePlayed?: (message: Message, attachment: Attachment) => void;
+  receipts?: ReadReceipt[]; // every member's read/delivered position
+  onRead?: (message: Message) => void; // newest message is on screen
   forceScrollToBottom?: number; // timestamp to force scroll
   isGroup?: boolean; // Add this prop type
 }) {
@@ -105,13 +170,52 @@ export default function ChatMessageList({
   const [atBottom, setAtBottom] = useState(true);
   const [unseen, setUnseen] = useState(0);
   const lastCountRef = useRef(0);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
   const lastConversationKeyRef = useRef<string | undefined>(undefined);
   const hasScrolledForCurrentConversation = useRef(false);
   const lastForceScrollRef = useRef<number>(0);
+  const handledFocusKeyRef = useRef<number | undefined>(undefined);
+  const [highlightId, setHighlightId] = useState<string | undefined>();
+
+  // A jump to a message wins over the usual snap-to-bottom behaviour
+  const focusPending = !!focusKey && focusKey !== handledFocusKeyRef.current;
 
   // Group messages by day
   const messageItems = useMemo(() => groupMessagesByDay(messages), [messages]);
 
+  // Shift firstItemIndex by however many items older history added on top
+  const prependRef = useRef<{
+    key?: string;
+    firstId?: string;
+    items: MessageItem[];
+    index: number;
+  }>({ items: [], index: START_INDEX });
+  const firstItemIndex = useMemo(() => {
+    const prev = prependRef.current;
+    const firstId = messages[0]?.id;
+    let index = prev.key === conversationKey ? prev.index : START_INDEX;
+
+    if (
+      prev.key === conversationKey &&
+      prev.firstId &&
+      firstId !== prev.firstId
+    ) {
+      const isPrevFirst = (item: MessageItem) =>
+        item.type === 'message' && item.message.id === prev.firstId;
+      const before = prev.items.findIndex(isPrevFirst);
+      const after = messageItems.findIndex(isPrevFirst);
+      if (before !== -1 && after > before) index -= after - before;
+    }
+
+    prependRef.current = {
+      key: conversationKey,
+      firstId,
+      items: messageItems,
+      index,
+    };
+    return index;
+  }, [messageItems, messages, conversationKey]);
+
   // Function to perform the scroll
   const performScrollToBottom = (reason: string) => {
     console.log(
@@ -142,7 +246,7 @@ export default function ChatMessageList({
               lastIndex
             );
             vRef.current.scrollToIndex({
-              index: lastIndex,
+              index: 'LAST',
               behavior: 'auto',
               align: 'start', // Try align: "start" to ensure we see the full message
             });
@@ -200,17 +304,21 @@ export default function ChatMessageList({
     if (conversationChanged) {
       hasScrolledForCurrentConversation.current = false;
       lastCountRef.current = messages.length;
+      lastMessageIdRef.current = messages[messages.length - 1]?.id;
       setUnseen(0);
 
       // Always scroll to bottom when conversation changes (user clicked on conversation)
-      if (messages.length > 0) {
+      if (messages.length > 0 && focusPending) {
+        hasScrolledForCurrentConversation.current = true;
+      } else if (messages.length > 0) {
         console.log('🚨 CONVERSATION CHANGE - scrolling to latest message');
         hasScrolledForCurrentConversation.current = true;
         performScrollToBottom('Conversation selection scroll');
       }
     } else if (
       !hasScrolledForCurrentConversation.current &&
-      messages.length > 0
+      messages.length > 0 &&
+      !focusPending
     ) {
       // First time loading messages for this conversation
       console.log('🚨 INITIAL CONVERSATION LOAD - scrolling to latest message');
@@ -227,6 +335,14 @@ export default function ChatMessageList({
     if (curr <= prev) return;
 
     const last = messages[curr - 1];
+
+    // Older history was prepended, or a new window is about to be focused
+    if (last?.id === lastMessageIdRef.current || focusPending) {
+      lastMessageIdRef.current = last?.id;
+      lastCountRef.current = curr;
+      return;
+    }
+    lastMessageIdRef.current = last?.id;
     const mine = last?.userId === me;
 
     console.log('📨 New message detected:', {
@@ -261,7 +377,79 @@ export default function ChatMessageList({
     }
 
     lastCountRef.current = curr;
-  }, [messages, me, atBottom]);
+  }, [messages, me, atBottom, focusPending]);
+
+  // Scroll to the focused message once it is in the list, then fade the highlight
+  useLayoutEffect(() => {
+    if (!focusPending || !focusMessageId) return;
+    const index = messageItems.findIndex(
+      item => item.type === 'message' && item.message.id === focusMessageId
+    );
+    if (index === -1) return; // wait for its history window to load
+
+    handledFocusKeyRef.current = focusKey;
+    hasScrolledForCurrentConversation.current = true;
+    lastCountRef.current = messages.length;
+    lastMessageIdRef.current = messages[messages.length - 1]?.id;
+    setHighlightId(focusMessageId);
+
+    requestAnimationFrame(() => {
+      requestAnimationFrame(() => {
+        vRef.current?.scrollToIndex({ index, align: 'center' });
+      });
+    });
+  }, [focusPending, focusKey, focusMessageId, messageItems, messages]);
+
+  useEffect(() => {
+    if (!highlightId) return;
+    const timer = setTimeout(() => setHighlightId(undefined), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightId]);
+
+  // Report the newest message as read while the user is looking at it
+  useEffect(() => {
+    if (!onRead || !atBottom || hasNewer) return;
+    const latest = latestSent(messages);
+    if (!latest) return;
+
+    const report = () => {
+      if (!document.hidden) onRead(latest);
+    };
+    report();
+    document.addEventListener('visibilitychange', report);
+    return () => document.removeEventListener('visibilitychange', report);
+  }, [onRead, atBottom, hasNewer, messages]);
+
+  // DMs tick every message you sent; groups list who has seen your latest one
+  const othersReceipts = useMemo(
+    () => (receipts ?? []).filter(r => r.userId !== me),
+    [receipts, me]
+  );
+  const latestMineId = useMemo(
+    () => latestSent(messages, me)?.id,
+    [messages, me]
+  );
+  const receiptFor = (
+    m: Message
+  ): { status?: ReceiptStatus; seenBy?: string[] } => {
+    if (m.userId !== me || m.pending || m.error) return {};
+    const reached = (at: string | null) => !!at && at >= m.createdAt;
+
+    if (isGroup) {
+      if (m.id !== latestMineId) return {};
+      return {
+        seenBy: othersReceipts
+          .filter(r => reached(r.lastReadAt))
+          .map(r => getPeer?.(r.userId)?.name ?? 'Unknown'),
+      };
+    }
+
+    const peer = othersReceipts[0];
+    if (!peer) return { status: 'sent' };
+    if (reached(peer.lastReadAt)) return { status: 'read' };
+    if (reached(peer.lastDeliveredAt)) return { status: 'delivered' };
+    return { status: 'sent' };
+  };
 
   // Clear pill when user is back at bottom
   useEffect(() => {
@@ -285,17 +473,49 @@ export default function ChatMessageList({
     []
   );
 
+  // Spinner row below the last message while newer history loads
+  const Footer = useMemo(
+    () =>
+      function Footer() {
+        return loadingNewer ? (
+          <div className="flex justify-center py-2 text-xs text-muted-foreground">
+            Loading newer messages…
+          </div>
+        ) : null;
+      },
+    [loadingNewer]
+  );
+
+  // Spinner row above the first message while older history loads
+  const Header = useMemo(
+    () =>
+      function Header() {
+        return loadingOlder ? (
+          <div className="flex justify-center py-2 text-xs text-muted-foreground">
+            Loading older messages…
+          </div>
+        ) : null;
+      },
+    [loadingOlder]
+  );
+
   return (
     <div className="relative h-full overflow-hidden">
       <Virtuoso
         ref={vRef}
         data={messageItems}
         className="h-full"
-        components={{ Scroller }}
+        components={{ Scroller, Header, Footer }}
         alignToBottom
         followOutput={false} // we do the jumps ourselves
         atBottomStateChange={setAtBottom}
-        startReached={onStartReached}
+        firstItemIndex={firstItemIndex}
+        startReached={() => {
+          if (hasOlder && !loadingOlder) onStartReached?.();
+        }}
+        endReached={() => {
+          if (hasNewer && !loadingNewer) onEndReached?.();
+        }}
         increaseViewportBy={{ top: 200, bottom: 400 }}
         computeItemKey={(i, item) => {
           if (item.type === 'dateSeparator') {
@@ -318,18 +538,54 @@ export default function ChatMessageList({
           }
 
           const m = item.message;
+
+          // Group changes are notices, not bubbles
+          if (m.type === 'system') {
+            return (
+              <div className="flex justify-center py-2">
+                <div className="max-w-[80%] rounded-lg bg-gray-100 dark:bg-gray-800 px-3 py-1 text-center text-xs text-gray-600 dark:text-gray-400">
+                  {m.content}
+                </div>
+              </div>
+            );
+          }
+
           const mine = m.userId === me;
           const peer = !mine && getPeer ? getPeer(m.userId) : undefined;
+          const receipt = receiptFor(m);
           return (
-            <ChatBubble
-              m={m}
-              mine={mine}
-              me={me}
-              name={peer?.name}
-              avatar={peer?.avatar}
-              isGroup={isGroup}
-              onReact={onReact}
-            />
+            <div
+              className={`rounded-xl transition-colors duration-700 ${
+                m.id === highlightId ? 'bg-primary/10' : ''
+              }`}
+            >
+              <ChatBubble
+                m={m}
+                mine={mine}
+                me={me}
+                myUsername={myUsername}
+                name={peer?.name}
+                avatar={peer?.avatar}
+                isGroup={isGroup}
+                receiptStatus={receipt.status}
+                seenBy={receipt.seenBy}
+                onReact={onReact}
+                onEdit={onEdit}
+                onDelete={onDelete}
+                onReply={onOpenThread}
+                onOpenThread={onOpenThread}
+                canDeleteForEveryone={mine || canModerate}
+                pinned={pinnedIds?.has(m.id)}
+                onTogglePin={onTogglePin}
+                onForward={onForward}
+                onRemovePreview={onRemovePreview}
+                onVotePoll={onVotePoll}
+                onRetractPollVote={onRetractPollVote}
+                onClosePoll={onClosePoll}
+                nameOf={uid => getPeer?.(uid)?.name}
+                onVoicePlayed={onVoicePlayed}
+              />
+            </div>
           );
         }}
       />
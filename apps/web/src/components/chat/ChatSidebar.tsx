@@ -1,6 +1,6 @@
 'use client';
 import { useState, useMemo } from 'react';
-import { Conversation } from '@/lib/types/chat';
+import { Conversation, MessageSearchHit } from '@/lib/types/chat';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -13,19 +13,148 @@ import {
   SheetTitle,
   SheetTrigger,
 } from '@/components/ui/sheet';
-import { Search, Menu, X } from 'lucide-react';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Search,
+  Menu,
+  Megaphone,
+  X,
+  BellOff,
+  ChevronDown,
+  ChevronRight,
+  MoreHorizontal,
+  Pin,
+} from 'lucide-react';
+import type { ConversationSettingsChange } from '@/lib/api';
+import {
+  MUTE_OPTIONS,
+  groupConversations,
+  isMuted,
+  isPinned,
+} from '@/lib/conversations';
+import { cn } from '@/lib/theme';
 import { SidebarFooter } from './SidebarFooter';
+import MessageSearchResults from './MessageSearchResults';
+
+type SettingsHandlers = {
+  onUpdateSettings?: (
+    roomId: string,
+    changes: ConversationSettingsChange
+  ) => void;
+  onReorderPinned?: (roomIds: string[]) => void;
+};
+
+function MenuItem({
+  onClick,
+  children,
+}: {
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="block w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+    >
+      {children}
+    </button>
+  );
+}
+
+// Pin, mute and archive, for this user only
+function ConversationMenu({
+  c,
+  onUpdate,
+  onMoveUp,
+  onMoveDown,
+}: {
+  c: Conversation;
+  onUpdate: (changes: ConversationSettingsChange) => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const pick = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label={`Options for ${c.name}`}
+          className="absolute right-1 top-1 rounded-md p-1 text-muted-foreground opacity-0 transition hover:bg-accent hover:text-foreground focus:opacity-100 group-hover:opacity-100 data-[state=open]:opacity-100"
+        >
+          <MoreHorizontal className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-48 p-1">
+        {!c.archived && (
+          <MenuItem onClick={pick(() => onUpdate({ pinned: !isPinned(c) }))}>
+            {isPinned(c) ? 'Unpin' : 'Pin to top'}
+          </MenuItem>
+        )}
+        {onMoveUp && <MenuItem onClick={pick(onMoveUp)}>Move up</MenuItem>}
+        {onMoveDown && (
+          <MenuItem onClick={pick(onMoveDown)}>Move down</MenuItem>
+        )}
+        <Separator className="my-1" />
+        {isMuted(c) ? (
+          <MenuItem onClick={pick(() => onUpdate({ muted: false }))}>
+            Unmute
+          </MenuItem>
+        ) : (
+          <>
+            <div className="px-2 py-1 text-xs text-muted-foreground">Mute</div>
+            {MUTE_OPTIONS.map(option => (
+              <MenuItem
+                key={option.label}
+                onClick={pick(() =>
+                  onUpdate({
+                    muted: true,
+                    mutedUntil: option.ms
+                      ? new Date(Date.now() + option.ms).toISOString()
+                      : null,
+                  })
+                )}
+              >
+                {option.label}
+              </MenuItem>
+            ))}
+          </>
+        )}
+        <Separator className="my-1" />
+        <MenuItem onClick={pick(() => onUpdate({ archived: !c.archived }))}>
+          {c.archived ? 'Unarchive' : 'Archive'}
+        </MenuItem>
+      </PopoverContent>
+    </Popover>
+  );
+}
 
 function ConversationItem({
   c,
   active,
   onClick,
   searchQuery = '',
+  onUpdateSettings,
+  onMoveUp,
+  onMoveDown,
 }: {
   c: Conversation;
   active?: boolean;
   onClick: () => void;
   searchQuery?: string;
+  onUpdateSettings?: SettingsHandlers['onUpdateSettings'];
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
 }) {
   // Function to highlight search matches like WhatsApp
   const highlightMatch = (text: string, query: string) => {
@@ -54,38 +183,225 @@ function ConversationItem({
     });
   };
 
+  // The open chat already shows the draft in its composer
+  const draft = active ? '' : c.draft?.trim();
+  // Muted rooms keep their counts for when they are unmuted, but show none
+  const muted = isMuted(c);
+
   return (
-    <button
-      onClick={onClick}
-      className={`flex w-full items-center gap-3 px-3 py-3 text-left transition border-b border-border/20
-      ${active ? 'bg-accent' : 'hover:bg-accent/50'} last:border-b-0`}
-    >
-      <Avatar>
-        {c.avatar ? (
-          <AvatarImage src={c.avatar} />
-        ) : (
-          <AvatarFallback>{c.name.slice(0, 2).toUpperCase()}</AvatarFallback>
-        )}
-      </Avatar>
-      <div className="min-w-0 flex-1">
-        <div className="flex items-center gap-2">
-          <span className="truncate text-sm font-medium">
-            {highlightMatch(c.name, searchQuery)}
-          </span>
-          {c.online && (
-            <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
+    <div className="group relative border-b border-border/20 last:border-b-0">
+      <button
+        onClick={onClick}
+        className={`flex w-full items-center gap-3 px-3 py-3 text-left transition
+      ${active ? 'bg-accent' : 'hover:bg-accent/50'}`}
+      >
+        <Avatar>
+          {c.avatar ? (
+            <AvatarImage src={c.avatar} />
+          ) : (
+            <AvatarFallback>{c.name.slice(0, 2).toUpperCase()}</AvatarFallback>
           )}
-          {c.unread ? (
-            <span className="ml-auto rounded-full bg-primary px-2 py-0.5 text-[10px] font-medium text-primary-foreground">
-              {c.unread}
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            {c.type === 'channel' && (
+              <Megaphone
+                className="h-3.5 w-3.5 shrink-0 text-muted-foreground"
+                aria-label="Channel"
+              />
+            )}
+            <span className="truncate text-sm font-medium">
+              {highlightMatch(c.name, searchQuery)}
             </span>
-          ) : null}
-        </div>
-        <div className="truncate text-xs text-muted-foreground">
-          {c.last ? highlightMatch(c.last, searchQuery) : ''}
+            {c.online && (
+              <span className="h-1.5 w-1.5 rounded-full bg-emerald-500" />
+            )}
+            {muted && (
+              <BellOff
+                className="h-3 w-3 shrink-0 text-muted-foreground"
+                aria-label="Muted"
+              />
+            )}
+            {isPinned(c) && (
+              <Pin
+                className="h-3 w-3 shrink-0 text-muted-foreground"
+                aria-label="Pinned"
+              />
+            )}
+            {c.unreadCount && !muted ? (
+              <span className="ml-auto flex items-center gap-1">
+                {!!c.mentionCount && (
+                  <span
+                    className="rounded-full bg-primary px-1.5 py-0.5 text-[10px] font-semibold text-primary-foreground"
+                    title={`${c.mentionCount} unread mention${c.mentionCount > 1 ? 's' : ''}`}
+                  >
+                    @
+                  </span>
+                )}
+                <span className="rounded-full bg-primary px-2 py-0.5 text-[10px] font-medium text-primary-foreground">
+                  {c.unreadCount > 99 ? '99+' : c.unreadCount}
+                </span>
+              </span>
+            ) : null}
+          </div>
+          <div className="truncate text-xs text-muted-foreground">
+            {draft ? (
+              <>
+                <span className="font-medium text-destructive">Draft:</span>{' '}
+                {highlightMatch(draft, searchQuery)}
+              </>
+            ) : c.last ? (
+              highlightMatch(c.last, searchQuery)
+            ) : (
+              ''
+            )}
+          </div>
         </div>
-      </div>
-    </button>
+      </button>
+      {onUpdateSettings && (
+        <ConversationMenu
+          c={c}
+          onUpdate={changes => onUpdateSettings(c.id, changes)}
+          onMoveUp={onMoveUp}
+          onMoveDown={onMoveDown}
+        />
+      )}
+    </div>
+  );
+}
+
+function SectionHeader({
+  first,
+  children,
+}: {
+  first?: boolean;
+  children: React.ReactNode;
+}) {
+  return (
+    <div
+      className={cn(
+        'px-2 py-3 bg-muted/20 border-b border-border/10',
+        !first && 'mt-2'
+      )}
+    >
+      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+        {children}
+      </h3>
+    </div>
+  );
+}
+
+/**
+ * The unfiltered list: pinned conversations in their own order, then unread,
+ * then the rest, with the archive collapsed at the bottom. The Recent header
+ * only appears when there is a section above it.
+ */
+function ConversationSections({
+  convos,
+  activeId,
+  setActive,
+  onUpdateSettings,
+  onReorderPinned,
+}: {
+  convos: Conversation[];
+  activeId?: string;
+  setActive: (id: string) => void;
+} & SettingsHandlers) {
+  const [showArchived, setShowArchived] = useState(false);
+  const { pinned, unread, recent, archived } = useMemo(
+    () => groupConversations(convos),
+    [convos]
+  );
+
+  // Swaps a pinned conversation with its neighbour
+  const move = (index: number, by: -1 | 1) => {
+    const order = pinned.map(c => c.id);
+    order.splice(index + by, 0, ...order.splice(index, 1));
+    onReorderPinned?.(order);
+  };
+
+  const item = (
+    c: Conversation,
+    moves?: Pick<
+      React.ComponentProps<typeof ConversationItem>,
+      'onMoveUp' | 'onMoveDown'
+    >
+  ) => (
+    <ConversationItem
+      key={c.id}
+      c={c}
+      active={c.id === activeId}
+      onClick={() => setActive(c.id)}
+      onUpdateSettings={onUpdateSettings}
+      {...moves}
+    />
+  );
+
+  return (
+    <>
+      {pinned.length > 0 && (
+        <>
+          <SectionHeader first>Pinned ({pinned.length})</SectionHeader>
+          <div className="border-b border-border/10">
+            {pinned.map((c, i) =>
+              item(
+                c,
+                onReorderPinned && {
+                  onMoveUp: i > 0 ? () => move(i, -1) : undefined,
+                  onMoveDown:
+                    i < pinned.length - 1 ? () => move(i, 1) : undefined,
+                }
+              )
+            )}
+          </div>
+        </>
+      )}
+
+      {unread.length > 0 && (
+        <>
+          <SectionHeader first={!pinned.length}>
+            Unread ({unread.length})
+          </SectionHeader>
+          <div className="border-b border-border/10">
+            {unread.map(c => item(c))}
+          </div>
+        </>
+      )}
+
+      {recent.length > 0 && (
+        <>
+          {(pinned.length > 0 || unread.length > 0) && (
+            <SectionHeader>Recent ({recent.length})</SectionHeader>
+          )}
+          <div className="border-b border-border/10">
+            {recent.map(c => item(c))}
+          </div>
+        </>
+      )}
+
+      {archived.length > 0 && (
+        <>
+          <button
+            type="button"
+            onClick={() => setShowArchived(v => !v)}
+            aria-expanded={showArchived}
+            className="mt-2 flex w-full items-center gap-1 px-2 py-3 text-xs font-medium uppercase tracking-wide text-muted-foreground hover:text-foreground"
+          >
+            {showArchived ? (
+              <ChevronDown className="h-3.5 w-3.5" />
+            ) : (
+              <ChevronRight className="h-3.5 w-3.5" />
+            )}
+            Archived ({archived.length})
+          </button>
+          {showArchived && (
+            <div className="border-b border-border/10">
+              {archived.map(c => item(c))}
+            </div>
+          )}
+        </>
+      )}
+    </>
   );
 }
 
@@ -96,6 +412,9 @@ export function DesktopSidebar({
   topSlot,
   currentUser,
   forceVisible = false, // New prop to override hidden state for mobile drawer
+  onOpenMessage, // enables message search below the chat matches
+  onUpdateSettings, // enables the pin/mute/archive menu
+  onReorderPinned,
 }: {
   convos: Conversation[];
   activeId?: string;
@@ -103,7 +422,8 @@ export function DesktopSidebar({
   topSlot?: React.ReactNode; // e.g. new chat button
   currentUser?: { username: string; displayName?: string };
   forceVisible?: boolean;
-}) {
+  onOpenMessage?: (hit: MessageSearchHit) => void;
+} & SettingsHandlers) {
   const [searchQuery, setSearchQuery] = useState('');
 
   // Debug conversations updates
@@ -124,48 +444,20 @@ export function DesktopSidebar({
     searchQuery,
   });
 
-  // Filter and group conversations based on search query and unread status
-  const { filteredConvos, groupedConvos } = useMemo(() => {
-    let filtered = convos;
-    
-    // Apply search filter if there's a search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = convos.filter(convo => {
-        // Search in conversation name
-        const nameMatch = convo.name.toLowerCase().includes(query);
-
-        // Search in last message
-        const messageMatch = convo.last?.toLowerCase().includes(query) ?? false;
-
-        return nameMatch || messageMatch;
-      });
-    }
-
-    // Sort by latest message timestamp first
-    const sortByTimestamp = (conversations: typeof filtered) => {
-      return [...conversations].sort((a, b) => {
-        // Conversations without messages go to the bottom
-        if (!a.lastMessageAt && !b.lastMessageAt) return 0;
-        if (!a.lastMessageAt) return 1;
-        if (!b.lastMessageAt) return -1;
-        
-        // Sort by timestamp descending (newest first)
-        return new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime();
-      });
-    };
-
-    // Group conversations by unread status
-    const unreadConvos = sortByTimestamp(filtered.filter(c => c.unread && c.unread > 0));
-    const recentConvos = sortByTimestamp(filtered.filter(c => !c.unread || c.unread === 0));
-
-    return {
-      filteredConvos: filtered,
-      groupedConvos: {
-        unread: unreadConvos,
-        recent: recentConvos,
-      },
-    };
+  // Searching shows a flat list; otherwise ConversationSections groups them
+  const filteredConvos = useMemo(() => {
+    if (!searchQuery.trim()) return convos;
+
+    const query = searchQuery.toLowerCase().trim();
+    return convos.filter(convo => {
+      // Search in conversation name
+      const nameMatch = convo.name.toLowerCase().includes(query);
+
+      // Search in last message
+      const messageMatch = convo.last?.toLowerCase().includes(query) ?? false;
+
+      return nameMatch || messageMatch;
+    });
   }, [convos, searchQuery]);
 
   return (
@@ -204,55 +496,17 @@ export function DesktopSidebar({
                   active={c.id === activeId}
                   onClick={() => setActive(c.id)}
                   searchQuery={searchQuery}
+                  onUpdateSettings={onUpdateSettings}
                 />
               ))
             ) : (
-              // When not searching, show grouped conversations with separators
-              <>
-                {groupedConvos.unread.length > 0 && (
-                  <>
-                    <div className="px-2 py-3 bg-muted/20 border-b border-border/10">
-                      <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                        Unread ({groupedConvos.unread.length})
-                      </h3>
-                    </div>
-                    <div className="border-b border-border/10">
-                      {groupedConvos.unread.map(c => (
-                        <ConversationItem
-                          key={c.id}
-                          c={c}
-                          active={c.id === activeId}
-                          onClick={() => setActive(c.id)}
-                          searchQuery={searchQuery}
-                        />
-                      ))}
-                    </div>
-                  </>
-                )}
-
-                {groupedConvos.recent.length > 0 && (
-                  <>
-                    {groupedConvos.unread.length > 0 && (
-                      <div className="px-2 py-3 bg-muted/20 border-b border-border/10 mt-2">
-                        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                          Recent ({groupedConvos.recent.length})
-                        </h3>
-                      </div>
-                    )}
-                    <div className="border-b border-border/10">
-                      {groupedConvos.recent.map(c => (
-                        <ConversationItem
-                          key={c.id}
-                          c={c}
-                          active={c.id === activeId}
-                          onClick={() => setActive(c.id)}
-                          searchQuery={searchQuery}
-                        />
-                      ))}
-                    </div>
-                  </>
-                )}
-              </>
+              <ConversationSections
+                convos={convos}
+                activeId={activeId}
+                setActive={setActive}
+                onUpdateSettings={onUpdateSettings}
+                onReorderPinned={onReorderPinned}
+              />
             )
           ) : searchQuery ? (
             <div className="flex flex-col items-center justify-center py-8 text-center">
@@ -266,6 +520,13 @@ export function DesktopSidebar({
             </div>
           ) : null}
         </div>
+        {onOpenMessage && searchQuery.trim() && (
+          <MessageSearchResults
+            query={searchQuery}
+            convos={convos}
+            onOpen={onOpenMessage}
+          />
+        )}
       </ScrollArea>
       <div className="absolute bottom-0 left-0 right-0 z-10">
         <SidebarFooter currentUser={currentUser} />
@@ -279,12 +540,14 @@ export function MobileSidebar({
   activeId,
   setActive,
   currentUser,
+  onUpdateSettings,
+  onReorderPinned,
 }: {
   convos: Conversation[];
   activeId?: string;
   setActive: (id: string) => void;
   currentUser?: { username: string; displayName?: string };
-}) {
+} & SettingsHandlers) {
   const [searchQuery, setSearchQuery] = useState('');
 
   // Debug conversations updates for mobile
@@ -297,48 +560,20 @@ export function MobileSidebar({
     }))
   );
 
-  // Filter and group conversations based on search query and unread status
-  const { filteredConvos, groupedConvos } = useMemo(() => {
-    let filtered = convos;
-    
-    // Apply search filter if there's a search query
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase().trim();
-      filtered = convos.filter(convo => {
-        // Search in conversation name
-        const nameMatch = convo.name.toLowerCase().includes(query);
-
-        // Search in last message
-        const messageMatch = convo.last?.toLowerCase().includes(query) ?? false;
-
-        return nameMatch || messageMatch;
-      });
-    }
-
-    // Sort by latest message timestamp first
-    const sortByTimestamp = (conversations: typeof filtered) => {
-      return [...conversations].sort((a, b) => {
-        // Conversations without messages go to the bottom
-        if (!a.lastMessageAt && !b.lastMessageAt) return 0;
-        if (!a.lastMessageAt) return 1;
-        if (!b.lastMessageAt) return -1;
-        
-        // Sort by timestamp descending (newest first)
-        return new Date(b.lastMessageAt).getTime() - new Date(a.lastMessageAt).getTime();
-      });
-    };
-
-    // Group conversations by unread status
-    const unreadConvos = sortByTimestamp(filtered.filter(c => c.unread && c.unread > 0));
-    const recentConvos = sortByTimestamp(filtered.filter(c => !c.unread || c.unread === 0));
-
-    return {
-      filteredConvos: filtered,
-      groupedConvos: {
-        unread: unreadConvos,
-        recent: recentConvos,
-      },
-    };
+  // Searching shows a flat list; otherwise ConversationSections groups them
+  const filteredConvos = useMemo(() => {
+    if (!searchQuery.trim()) return convos;
+
+    const query = searchQuery.toLowerCase().trim();
+    return convos.filter(convo => {
+      // Search in conversation name
+      const nameMatch = convo.name.toLowerCase().includes(query);
+
+      // Search in last message
+      const messageMatch = convo.last?.toLowerCase().includes(query) ?? false;
+
+      return nameMatch || messageMatch;
+    });
   }, [convos, searchQuery]);
 
   return (
@@ -385,55 +620,17 @@ export function MobileSidebar({
                     active={c.id === activeId}
                     onClick={() => setActive(c.id)}
                     searchQuery={searchQuery}
+                    onUpdateSettings={onUpdateSettings}
                   />
                 ))
               ) : (
-                // When not searching, show grouped conversations with separators
-                <>
-                  {groupedConvos.unread.length > 0 && (
-                    <>
-                      <div className="px-2 py-3 bg-muted/20 border-b border-border/10">
-                        <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                          Unread ({groupedConvos.unread.length})
-                        </h3>
-                      </div>
-                      <div className="border-b border-border/10">
-                        {groupedConvos.unread.map(c => (
-                          <ConversationItem
-                            key={c.id}
-                            c={c}
-                            active={c.id === activeId}
-                            onClick={() => setActive(c.id)}
-                            searchQuery={searchQuery}
-                          />
-                        ))}
-                      </div>
-                    </>
-                  )}
-
-                  {groupedConvos.recent.length > 0 && (
-                    <>
-                      {groupedConvos.unread.length > 0 && (
-                        <div className="px-2 py-3 bg-muted/20 border-b border-border/10 mt-2">
-                          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
-                            Recent ({groupedConvos.recent.length})
-                          </h3>
-                        </div>
-                      )}
-                      <div className="border-b border-border/10">
-                        {groupedConvos.recent.map(c => (
-                          <ConversationItem
-                            key={c.id}
-                            c={c}
-                            active={c.id === activeId}
-                            onClick={() => setActive(c.id)}
-                            searchQuery={searchQuery}
-                          />
-                        ))}
-                      </div>
-                    </>
-                  )}
-                </>
+                <ConversationSections
+                  convos={convos}
+                  activeId={activeId}
+                  setActive={setActive}
+                  onUpdateSettings={onUpdateSettings}
+                  onReorderPinned={onReorderPinned}
+                />
               )
             ) : searchQuery ? (
               <div className="flex flex-col items-center justify-center py-8 text-center">
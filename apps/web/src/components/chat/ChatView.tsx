@@ -1,23 +1,79 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import ChatHeader from './ChatHeader';
 import { DesktopSidebar } from './ChatSidebar'; // we embed our own mobile drawer below
 import ChatMessageList from './ChatMessageList';
 import ChatComposer from './ChatComposer';
-import type { Conversation, Message } from '@/lib/types/chat';
+import ThreadPanel from './ThreadPanel';
+import PinnedMessageBar from './PinnedMessageBar';
+import ForwardDialog from './ForwardDialog';
+import ScheduledMessagesBar from './ScheduledMessagesBar';
+import type { MentionOption } from './MentionSuggestions';
+import { BROADCAST_MENTION_MAX_MEMBERS } from '@/lib/mentions';
+import type {
+  Conversation,
+  ForwardResult,
+  Message,
+  MessageDeleteScope,
+  MessageSearchHit,
+  PinnedMessage,
+  ReadReceipt,
+  ScheduledMessage,
+} from '@/lib/types/chat';
+import type {
+  ConversationSettingsChange,
+  NewPoll,
+  VoiceNoteMeta,
+} from '@/lib/api';
 
 export default function ChatView({
   me,
   conversations,
   activeId,
   onSelectConversation,
-  activeHeader, // { name, online, avatar }
+  activeHeader, // { name, online, lastSeenAt, typing, avatar }
+  onCall,
   messages, // oldest -> newest
   onLoadOlder,
+  loadingOlder,
+  hasOlder,
+  onLoadNewer,
+  loadingNewer,
+  hasNewer,
+  focusMessageId,
+  focusKey,
+  onOpenSearchResult,
+  onUpdateSettings,
+  onReorderPinned,
   onSendText,
+  onDraftChange,
+  scheduled = [], // active room's unsent scheduled messages
+  onScheduleText,
+  onCancelScheduled,
+  onTyping,
   onPickImage,
+  onSendVoice,
   onReact,
+  onEdit,
+  onDelete,
+  onOpenThread,
+  pins = [], // active room's pins, newest first
+  onTogglePin,
+  onJumpToMessage,
+  onForward,
+  onRemovePreview,
+  onCreatePoll,
+  onVotePoll,
+  onRetractPollVote,
+  onClosePoll,
+  onVoicePlayed,
+  receipts, // active room's read receipts
+  onRead,
+  thread, // open thread, if any
+  onCloseThread,
+  onLoadOlderReplies,
+  onSendReply,
   rightHeaderSlot,
   sidebarTopSlot,
   forceScrollToBottom,
@@ -27,12 +83,65 @@ export default function ChatView({
   conversations: Conversation[];
   activeId?: string;
   onSelectConversation: (id: string) => void;
-  activeHeader?: { name: string; online?: boolean; avatar?: string | null };
+  activeHeader?: {
+    name: string;
+    online?: boolean;
+    lastSeenAt?: string | null;
+    typing?: string[];
+    avatar?: string | null;
+  };
+  onCall?: (video: boolean) => void;
   messages: Message[];
   onLoadOlder?: () => void;
+  loadingOlder?: boolean;
+  hasOlder?: boolean;
+  onLoadNewer?: () => void;
+  loadingNewer?: boolean;
+  hasNewer?: boolean;
+  focusMessageId?: string; // message to scroll to, e.g. a search hit
+  focusKey?: number;
+  onOpenSearchResult?: (hit: MessageSearchHit) => void;
+  onUpdateSettings?: (
+    roomId: string,
+    changes: ConversationSettingsChange
+  ) => void;
+  onReorderPinned?: (roomIds: string[]) => void;
   onSendText: (text: string) => void;
+  onDraftChange?: (roomId: string, text: string) => void;
+  scheduled?: ScheduledMessage[];
+  onScheduleText?: (text: string, sendAt: Date) => Promise<void>;
+  onCancelScheduled?: (id: string) => void;
+  onTyping?: (isTyping: boolean) => void;
   onPickImage: (file: File) => void;
+  onSendVoice?: (file: File, voice: VoiceNoteMeta) => void;
   onReact?: (message: Message, emoji: string) => void;
+  onEdit?: (message: Message, content: string) => void;
+  onDelete?: (message: Message, scope: MessageDeleteScope) => void;
+  onOpenThread?: (message: Message) => void;
+  pins?: PinnedMessage[];
+  onTogglePin?: (messageId: string) => void;
+  onJumpToMessage?: (messageId: string) => void;
+  onForward?: (
+    messageIds: string[],
+    roomIds: string[]
+  ) => Promise<ForwardResult[]>;
+  onRemovePreview?: (messageId: string) => void;
+  onCreatePoll?: (poll: NewPoll) => Promise<void>;
+  onVotePoll?: (messageId: string, optionIds: string[]) => void;
+  onRetractPollVote?: (messageId: string) => void;
+  onClosePoll?: (messageId: string) => void;
+  onVoicePlayed?: (messageId: string, attachmentId: string) => void;
+  receipts?: ReadReceipt[];
+  onRead?: (message: Message) => void;
+  thread?: {
+    parent: Message | null;
+    replies: Message[];
+    loading: boolean;
+    hasOlder: boolean;
+  };
+  onCloseThread?: () => void;
+  onLoadOlderReplies?: () => void;
+  onSendReply?: (text: string) => void;
   rightHeaderSlot?: React.ReactNode;
   sidebarTopSlot?: React.ReactNode;
   forceScrollToBottom?: number;
@@ -40,6 +149,48 @@ export default function ChatView({
 }) {
   const [text, setText] = useState('');
   const [drawerOpen, setDrawerOpen] = useState(false);
+  const [forwarding, setForwarding] = useState<Message | null>(null);
+
+  const activeConvo = conversations.find(c => c.id === activeId);
+  const canModerate =
+    activeConvo?.role === 'owner' || activeConvo?.role === 'admin';
+  // Channel members can only react and reply in threads
+  const readOnly = activeConvo?.type === 'channel' && !canModerate;
+  // Anyone can pin in DMs; groups and channels leave it to admins
+  const canPin = !!onTogglePin && (!activeConvo?.isGroup || canModerate);
+  const pinnedIds = new Set(pins.map(p => p.messageId));
+  const roomMembers = activeConvo?.members ?? [];
+  const mentionOptions: MentionOption[] = [
+    ...roomMembers
+      .filter(p => p.id !== me)
+      .map(p => ({ username: p.username })),
+    ...(activeConvo?.isGroup &&
+    (roomMembers.length <= BROADCAST_MENTION_MAX_MEMBERS || canModerate)
+      ? [
+          { username: 'all', hint: 'Everyone in this chat' },
+          { username: 'here', hint: 'Everyone online now' },
+        ]
+      : []),
+  ];
+
+  // The composer shows the room's draft, including edits from other devices
+  const draft = activeConvo?.draft ?? '';
+  useEffect(() => {
+    setText(draft);
+  }, [activeId, draft]);
+
+  const updateText = (value: string) => {
+    setText(value);
+    if (activeId) onDraftChange?.(activeId, value);
+  };
+  const getPeer = (uid: string) => {
+    const member = activeConvo?.members?.find(p => p.id === uid);
+    if (!member) return undefined;
+    return {
+      name: member?.username ?? member?.displayName,
+      avatar: member?.avatar,
+    };
+  };
 
   // Wrap selection so the mobile drawer closes after choosing a chat
   const handleSelectConversation = (id: string) => {
@@ -57,6 +208,9 @@ export default function ChatView({
           setActive={handleSelectConversation}
           topSlot={sidebarTopSlot}
           currentUser={currentUser}
+          onOpenMessage={onOpenSearchResult}
+          onUpdateSettings={onUpdateSettings}
+          onReorderPinned={onReorderPinned}
         />
       </aside>
 
@@ -87,52 +241,161 @@ export default function ChatView({
           <ChatHeader
             name={activeHeader?.name ?? ''}
             online={activeHeader?.online}
+            lastSeenAt={activeHeader?.lastSeenAt}
+            typing={activeHeader?.typing}
             avatar={activeHeader?.avatar}
+            onCall={onCall}
             rightSlot={rightHeaderSlot}
           />
         </div>
 
+        <PinnedMessageBar
+          key={activeId}
+          pins={pins}
+          onJump={id => onJumpToMessage?.(id)}
+          onUnpin={canPin ? onTogglePin : undefined}
+        />
+
         {/* Message list + composer */}
         <div className="flex h-0 flex-1 flex-col">
           <div className="flex-1 overflow-hidden">
             <ChatMessageList
               messages={messages}
               me={me}
+              myUsername={currentUser?.username}
               onStartReached={onLoadOlder}
+              loadingOlder={loadingOlder}
+              hasOlder={hasOlder}
+              onEndReached={onLoadNewer}
+              loadingNewer={loadingNewer}
+              hasNewer={hasNewer}
+              focusMessageId={focusMessageId}
+              focusKey={focusKey}
               onReact={onReact}
+              onEdit={onEdit}
+              onDelete={onDelete}
+              onOpenThread={onOpenThread}
+              canModerate={canModerate}
+              pinnedIds={pinnedIds}
+              onTogglePin={canPin ? m => onTogglePin?.(m.id) : undefined}
+              onForward={onForward ? setForwarding : undefined}
+              onRemovePreview={
+                onRemovePreview ? m => onRemovePreview(m.id) : undefined
+              }
+              onVotePoll={
+                onVotePoll
+                  ? (m, optionIds) => onVotePoll(m.id, optionIds)
+                  : undefined
+              }
+              onRetractPollVote={
+                onRetractPollVote ? m => onRetractPollVote(m.id) : undefined
+              }
+              onClosePoll={onClosePoll ? m => onClosePoll(m.id) : undefined}
+              onVoicePlayed={
+                onVoicePlayed ? (m, a) => onVoicePlayed(m.id, a.id) : undefined
+              }
+              receipts={receipts}
+              onRead={onRead}
               conversationKey={activeId}
               forceScrollToBottom={forceScrollToBottom}
-              isGroup={(() => {
-                const convo = conversations.find(c => c.id === activeId);
-                // Use the isGroup field from the backend instead of counting members
-                return convo?.isGroup ?? false;
-              })()}
-              getPeer={uid => {
-                const convo = conversations.find(c => c.id === activeId);
-                const member = convo?.members?.find(p => p.id === uid);
-                if (!member) return undefined;
-                return {
-                  name: member?.username ?? member?.displayName,
-                  avatar: member?.avatar,
-                };
-              }}
+              // Use the isGroup field from the backend instead of counting members
+              isGroup={activeConvo?.isGroup ?? false}
+              getPeer={getPeer}
             />
           </div>
 
-          <ChatComposer
-            value={text}
-            setValue={setText}
-            onSend={() => {
-              const t = text.trim();
-              if (!t) return;
-              onSendText(t);
-              setText('');
-            }}
-            onPick={onPickImage}
-          />
+          {readOnly ? (
+            <div className="border-t px-4 py-3 text-center text-sm text-muted-foreground">
+              Only admins can post in this channel. Reply in a thread to join
+              the conversation.
+            </div>
+          ) : (
+            <>
+              <ScheduledMessagesBar
+                scheduled={scheduled}
+                onCancel={id => onCancelScheduled?.(id)}
+              />
+              <ChatComposer
+                value={text}
+                setValue={v => {
+                  updateText(v);
+                  onTyping?.(v.trim().length > 0);
+                }}
+                onSend={() => {
+                  const t = text.trim();
+                  if (!t) return;
+                  onSendText(t);
+                  setText('');
+                }}
+                onPick={onPickImage}
+                onSendVoice={onSendVoice}
+                // Polls are for group conversations
+                onCreatePoll={activeConvo?.isGroup ? onCreatePoll : undefined}
+                mentionOptions={mentionOptions}
+                onSchedule={
+                  onScheduleText
+                    ? sendAt => {
+                        const t = text.trim();
+                        if (!t) return;
+                        updateText('');
+                        // Give the text back if the server refuses it
+                        onScheduleText(t, sendAt).catch(() => updateText(t));
+                      }
+                    : undefined
+                }
+              />
+            </>
+          )}
         </div>
       </div>
 
+      {/* Thread panel: full screen on mobile, right column on desktop */}
+      {thread && (
+        <aside className="fixed inset-0 z-40 bg-background md:static md:z-auto md:w-96 md:shrink-0 md:border-l">
+          <ThreadPanel
+            me={me}
+            myUsername={currentUser?.username}
+            parent={thread.parent}
+            replies={thread.replies}
+            loading={thread.loading}
+            hasOlder={thread.hasOlder}
+            onLoadOlder={onLoadOlderReplies}
+            onClose={() => onCloseThread?.()}
+            onSendReply={text => onSendReply?.(text)}
+            onReact={onReact}
+            onEdit={onEdit}
+            onDelete={onDelete}
+            onRemovePreview={
+              onRemovePreview ? m => onRemovePreview(m.id) : undefined
+            }
+            onVotePoll={
+              onVotePoll
+                ? (m, optionIds) => onVotePoll(m.id, optionIds)
+                : undefined
+            }
+            onRetractPollVote={
+              onRetractPollVote ? m => onRetractPollVote(m.id) : undefined
+            }
+            onClosePoll={onClosePoll ? m => onClosePoll(m.id) : undefined}
+            onVoicePlayed={
+              onVoicePlayed ? (m, a) => onVoicePlayed(m.id, a.id) : undefined
+            }
+            canModerate={canModerate}
+            isGroup={activeConvo?.isGroup ?? false}
+            getPeer={getPeer}
+          />
+        </aside>
+      )}
+
+      {onForward && (
+        <ForwardDialog
+          message={forwarding}
+          conversations={conversations}
+          onForward={onForward}
+          onClose={() => setForwarding(null)}
+        />
+      )}
+
       {/* Mobile slide-in sidebar */}
       {drawerOpen && (
         <>
@@ -148,6 +411,12 @@ export default function ChatView({
               topSlot={sidebarTopSlot}
               currentUser={currentUser}
               forceVisible={true}
+              onOpenMessage={hit => {
+                onOpenSearchResult?.(hit);
+                setDrawerOpen(false);
+              }}
+              onUpdateSettings={onUpdateSettings}
+              onReorderPinned={onReorderPinned}
             />
           </div>
         </>
@@ -0,0 +1,72 @@
+'use client';
+import {
+  Bold,
+  Code,
+  EyeOff,
+  Italic,
+  List,
+  SquareCode,
+  Strikethrough,
+  TextQuote,
+  type LucideIcon,
+} from 'lucide-react';
+import type { TextFormat } from '@/lib/formatting';
+
+const TOOLS: {
+  format: TextFormat;
+  label: string;
+  keys: string;
+  icon: LucideIcon;
+}[] = [
+  { format: 'bold', label: 'Bold', keys: 'B', icon: Bold },
+  { format: 'italic', label: 'Italic', keys: 'I', icon: Italic },
+  {
+    format: 'strike',
+    label: 'Strikethrough',
+    keys: 'Shift+X',
+    icon: Strikethrough,
+  },
+  { format: 'code', label: 'Code', keys: 'E', icon: Code },
+  {
+    format: 'codeBlock',
+    label: 'Code block',
+    keys: 'Shift+E',
+    icon: SquareCode,
+  },
+  { format: 'spoiler', label: 'Spoiler', keys: 'Shift+P', icon: EyeOff },
+  { format: 'quote', label: 'Quote', keys: 'Shift+9', icon: TextQuote },
+  { format: 'list', label: 'List', keys: 'Shift+8', icon: List },
+];
+
+/**
+ * Formatting buttons above the composer (desktop only; phones keep the
+ * room). They leave focus and the selection in the textarea.
+ */
+export default function FormattingToolbar({
+  onFormat,
+}: {
+  onFormat: (format: TextFormat) => void;
+}) {
+  return (
+    <div
+      role="toolbar"
+      aria-label="Formatting"
+      className="hidden gap-0.5 px-1 pb-1 md:flex"
+    >
+      {TOOLS.map(({ format, label, keys, icon: Icon }) => (
+        <button
+          key={format}
+          type="button"
+          aria-label={label}
+          title={`${label} (Ctrl+${keys})`}
+          className="rounded-md p-1.5 text-muted-foreground hover:bg-accent hover:text-foreground"
+          // Don't take focus (and the selection) from the textarea
+          onMouseDown={e => e.preventDefault()}
+          onClick={() => onFormat(format)}
+        >
+          <Icon className="h-4 w-4" />
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { Check } from 'lucide-react';
+import type { Conversation, ForwardResult, Message } from '@/lib/types/chat';
+
+// Server error codes worth spelling out; anything else is shown generically
+const FORWARD_ERRORS: Record<string, string> = {
+  not_a_member: 'you are no longer a member',
+  channel_read_only: 'only admins can post there',
+};
+
+/**
+ * Conversation picker for forwarding a message. Several conversations can
+ * be picked at once; the sheet stays open to list any that failed.
+ */
+export default function ForwardDialog({
+  message, // open while set
+  conversations,
+  onForward,
+  onClose,
+}: {
+  message: Message | null;
+  conversations: Conversation[];
+  onForward: (
+    messageIds: string[],
+    roomIds: string[]
+  ) => Promise<ForwardResult[]>;
+  onClose: () => void;
+}) {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [sending, setSending] = useState(false);
+  const [failures, setFailures] = useState<string[]>([]);
+
+  // Channels only take posts from their admins
+  const targets = conversations.filter(
+    c =>
+      (c.type !== 'channel' || c.role === 'owner' || c.role === 'admin') &&
+      c.name.toLowerCase().includes(query.trim().toLowerCase())
+  );
+  const nameOf = (roomId: string) =>
+    conversations.find(c => c.id === roomId)?.name ?? 'Unknown chat';
+
+  const close = () => {
+    setQuery('');
+    setSelected([]);
+    setFailures([]);
+    onClose();
+  };
+
+  const toggle = (roomId: string) =>
+    setSelected(ids =>
+      ids.includes(roomId) ? ids.filter(id => id !== roomId) : [...ids, roomId]
+    );
+
+  const send = async () => {
+    if (!message || selected.length === 0) return;
+    setSending(true);
+    try {
+      const results = await onForward([message.id], selected);
+      const failed = results.filter(
+        (r): r is Extract<ForwardResult, { status: 'failed' }> =>
+          r.status === 'failed'
+      );
+      if (failed.length === 0) return close();
+
+      setSelected(failed.map(r => r.roomId));
+      setFailures(
+        failed.map(
+          r =>
+            `${nameOf(r.roomId)}: ${FORWARD_ERRORS[r.error] ?? 'could not forward'}`
+        )
+      );
+    } catch {
+      setFailures(['Could not forward the message. Try again.']);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Sheet open={!!message} onOpenChange={open => !open && close()}>
+      <SheetContent className="w-[400px] sm:w-[540px]">
+        <SheetHeader>
+          <SheetTitle>Forward message</SheetTitle>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4 px-4">
+          <Input
+            placeholder="Search conversations"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+          />
+
+          <div className="max-h-[50vh] space-y-1 overflow-y-auto">
+            {targets.map(c => {
+              const picked = selected.includes(c.id);
+              return (
+                <button
+                  key={c.id}
+                  type="button"
+                  onClick={() => toggle(c.id)}
+                  className={`flex w-full items-center gap-3 rounded-lg p-2 text-left transition-colors ${
+                    picked ? 'bg-primary/10' : 'hover:bg-muted'
+                  }`}
+                >
+                  <Avatar className="h-8 w-8">
+                    {c.avatar ? (
+                      <AvatarImage src={c.avatar} />
+                    ) : (
+                      <AvatarFallback>
+                        {c.name.slice(0, 2).toUpperCase()}
+                      </AvatarFallback>
+                    )}
+                  </Avatar>
+                  <span className="min-w-0 flex-1 truncate">{c.name}</span>
+                  {picked && <Check className="h-4 w-4 text-primary" />}
+                </button>
+              );
+            })}
+            {targets.length === 0 && (
+              <p className="p-2 text-sm text-muted-foreground">
+                No conversations found
+              </p>
+            )}
+          </div>
+
+          {failures.length > 0 && (
+            <ul className="space-y-1 text-sm text-destructive">
+              {failures.map(f => (
+                <li key={f}>{f}</li>
+              ))}
+            </ul>
+          )}
+
+          <Button
+            className="w-full"
+            disabled={sending || selected.length === 0}
+            onClick={send}
+          >
+            {selected.length > 1
+              ? `Forward to ${selected.length} chats`
+              : 'Forward'}
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
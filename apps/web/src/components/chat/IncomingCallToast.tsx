@@ -0,0 +1,52 @@
+'use client';
+import { Phone, PhoneOff, Video } from 'lucide-react';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+
+/** Floating card for a call ringing on this device */
+export default function IncomingCallToast({
+  name,
+  video,
+  onAccept,
+  onDecline,
+}: {
+  name: string; // the caller
+  video: boolean;
+  onAccept: () => void;
+  onDecline: () => void;
+}) {
+  return (
+    <div
+      role="alertdialog"
+      aria-label={`Incoming ${video ? 'video' : 'voice'} call from ${name}`}
+      className="fixed inset-x-3 top-3 z-50 flex items-center gap-3 rounded-xl border bg-background p-3 shadow-lg sm:inset-x-auto sm:right-4 sm:w-80"
+    >
+      <Avatar className="h-10 w-10">
+        <AvatarFallback>{name.slice(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <div className="mr-auto min-w-0 leading-tight">
+        <div className="truncate text-sm font-medium">{name}</div>
+        <div className="text-xs text-muted-foreground">
+          Incoming {video ? 'video' : 'voice'} call…
+        </div>
+      </div>
+      <button
+        type="button"
+        onClick={onDecline}
+        aria-label="Decline"
+        title="Decline"
+        className="flex h-10 w-10 items-center justify-center rounded-full bg-red-600 text-white hover:bg-red-700"
+      >
+        <PhoneOff className="h-5 w-5" />
+      </button>
+      <button
+        type="button"
+        onClick={onAccept}
+        aria-label="Accept"
+        title="Accept"
+        className="flex h-10 w-10 items-center justify-center rounded-full bg-emerald-600 text-white hover:bg-emerald-700"
+      >
+        {video ? <Video className="h-5 w-5" /> : <Phone className="h-5 w-5" />}
+      </button>
+    </div>
+  );
+}
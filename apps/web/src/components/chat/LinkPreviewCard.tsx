@@ -0,0 +1,81 @@
+'use client';
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/theme';
+import type { LinkPreview } from '@/lib/types/chat';
+
+function hostOf(url: string) {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Card for the first link in a message. The image comes straight from the
+ * linked site, so it's loaded without a referrer and dropped if it fails.
+ */
+export default function LinkPreviewCard({
+  preview,
+  mine,
+  onRemove,
+}: {
+  preview: LinkPreview;
+  mine: boolean;
+  onRemove?: () => void; // only the sender may remove it
+}) {
+  const [imageFailed, setImageFailed] = useState(false);
+  const site = preview.siteName ?? hostOf(preview.url);
+
+  return (
+    <div
+      className={cn(
+        'relative mt-2 overflow-hidden rounded-lg border-l-4 bg-black/5 dark:bg-white/5',
+        mine ? 'border-white/60' : 'border-primary'
+      )}
+    >
+      <a
+        href={preview.url}
+        target="_blank"
+        rel="noreferrer"
+        className="block max-w-xs px-2 py-1.5 pr-7 hover:bg-black/5 dark:hover:bg-white/5"
+      >
+        <div className="truncate text-[11px] font-semibold opacity-70">
+          {site}
+        </div>
+        {preview.title && (
+          <div className="line-clamp-2 text-sm font-medium">
+            {preview.title}
+          </div>
+        )}
+        {preview.description && (
+          <div className="line-clamp-3 text-xs opacity-80">
+            {preview.description}
+          </div>
+        )}
+        {preview.imageUrl && !imageFailed && (
+          <img
+            src={preview.imageUrl}
+            alt=""
+            loading="lazy"
+            referrerPolicy="no-referrer"
+            onError={() => setImageFailed(true)}
+            className="mt-1.5 max-h-40 w-full rounded-md object-cover"
+          />
+        )}
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          aria-label="Remove preview"
+          title="Remove preview"
+          onClick={onRemove}
+          className="absolute right-1 top-1 rounded-full p-0.5 opacity-60 hover:bg-black/10 hover:opacity-100 dark:hover:bg-white/10"
+        >
+          <X className="h-3.5 w-3.5" />
+        </button>
+      )}
+    </div>
+  );
+}
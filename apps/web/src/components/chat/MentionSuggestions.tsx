@@ -0,0 +1,50 @@
+'use client';
+import { cn } from '@/lib/utils';
+
+export type MentionOption = {
+  username: string;
+  hint?: string; // e.g. what @all does
+};
+
+/** Member picker shown above the composer while typing `@name` */
+export default function MentionSuggestions({
+  options,
+  highlighted,
+  onPick,
+}: {
+  options: MentionOption[];
+  highlighted: number;
+  onPick: (username: string) => void;
+}) {
+  if (options.length === 0) return null;
+
+  return (
+    <ul
+      role="listbox"
+      aria-label="Mention suggestions"
+      className="absolute inset-x-3 bottom-full z-50 mb-1 overflow-hidden rounded-lg border bg-popover py-1 text-sm shadow-md"
+    >
+      {options.map((o, i) => (
+        <li key={o.username} role="option" aria-selected={i === highlighted}>
+          <button
+            type="button"
+            className={cn(
+              'flex w-full items-center gap-2 px-3 py-1.5 text-left',
+              i === highlighted ? 'bg-accent' : 'hover:bg-accent/50'
+            )}
+            // Keep focus (and the caret) in the textarea
+            onMouseDown={e => e.preventDefault()}
+            onClick={() => onPick(o.username)}
+          >
+            <span className="font-medium">@{o.username}</span>
+            {o.hint && (
+              <span className="truncate text-xs text-muted-foreground">
+                {o.hint}
+              </span>
+            )}
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { FileText } from 'lucide-react';
+import { attachmentUrl } from '@/lib/api';
+import { cn } from '@/lib/theme';
+import type { Attachment } from '@/lib/types/chat';
+import { isVoiceNote } from '@/lib/voice';
+import VoiceNotePlayer from './VoiceNotePlayer';
+
+// Largest box an image thumbnail is shown in, in CSS pixels
+const MAX_IMAGE_WIDTH = 320;
+const MAX_IMAGE_HEIGHT = 288;
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Fits the image into the thumbnail box without upscaling
+function displaySize(width: number, height: number) {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+  return {
+    width: Math.round(width * scale),
+    height: Math.round(height * scale),
+  };
+}
+
+function ImageAttachment({ attachment }: { attachment: Attachment }) {
+  const src = attachmentUrl(attachment);
+  const { width, height, placeholderColor, thumbnails = [] } = attachment;
+
+  // Without dimensions (e.g. an upload still in flight) fall back to the
+  // natural size
+  if (!width || !height) {
+    return (
+      <img
+        src={src}
+        alt={attachment.fileName}
+        className="max-h-72 w-full rounded-lg object-cover"
+      />
+    );
+  }
+
+  const box = displaySize(width, height);
+  const srcSet = [
+    ...thumbnails.map(t => `${attachmentUrl(t)} ${t.width}w`),
+    `${src} ${width}w`,
+  ].join(', ');
+
+  // Fixed width and aspect ratio reserve the final layout space up front, so
+  // the message list doesn't shift when the image arrives
+  return (
+    <img
+      src={src}
+      srcSet={srcSet}
+      sizes={`${box.width}px`}
+      alt={attachment.fileName}
+      loading="lazy"
+      width={box.width}
+      height={box.height}
+      className="block h-auto max-w-full rounded-lg"
+      style={{
+        width: box.width,
+        aspectRatio: `${width} / ${height}`,
+        backgroundColor: placeholderColor ?? undefined,
+      }}
+    />
+  );
+}
+
+export default function MessageAttachments({
+  attachments,
+  mine,
+  onVoicePlayed,
+}: {
+  attachments: Attachment[];
+  mine: boolean;
+  onVoicePlayed?: (attachment: Attachment) => void;
+}) {
+  return (
+    <div className="mb-2 space-y-1">
+      {attachments.map(a => {
+        const src = attachmentUrl(a);
+
+        if (isVoiceNote(a)) {
+          return (
+            <VoiceNotePlayer
+              key={a.id}
+              attachment={a}
+              mine={mine}
+              onPlay={onVoicePlayed && (() => onVoicePlayed(a))}
+            />
+          );
+        }
+
+        if (a.mimeType.startsWith('image/')) {
+          return (
+            <a
+              key={a.id}
+              href={src}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="block"
+            >
+              <ImageAttachment attachment={a} />
+            </a>
+          );
+        }
+
+        return (
+          <a
+            key={a.id}
+            href={src}
+            download={a.fileName}
+            className={cn(
+              'flex min-w-[12rem] items-center gap-2 rounded-lg border px-2 py-1.5 text-sm',
+              mine ? 'border-white/30' : 'border-black/10 dark:border-white/10'
+            )}
+          >
+            <FileText className="h-5 w-5 shrink-0 opacity-70" />
+            <span className="min-w-0 flex-1">
+              <span className="block truncate font-medium">{a.fileName}</span>
+              <span className="block text-xs opacity-70">
+                {formatSize(a.size)}
+              </span>
+            </span>
+          </a>
+        );
+      })}
+    </div>
+  );
+}
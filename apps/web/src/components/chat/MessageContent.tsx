@@ -0,0 +1,171 @@
+'use client';
+import { Fragment, useMemo, useState, type ReactNode } from 'react';
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from 'shared/markdown';
+import { highlight, type TokenKind } from '@/lib/highlight';
+import { cn } from '@/lib/theme';
+
+const TOKEN_CLASSES: Record<TokenKind, string | undefined> = {
+  keyword: 'font-semibold text-sky-600 dark:text-sky-400',
+  string: 'text-emerald-600 dark:text-emerald-400',
+  number: 'text-amber-600 dark:text-amber-400',
+  comment: 'italic opacity-60',
+  plain: undefined,
+};
+
+type TextRenderer = (text: string) => ReactNode;
+
+/**
+ * Formatted message text. Everything is built as React elements from the
+ * shared parser's tree, so nothing in a message is ever treated as HTML.
+ */
+export default function MessageContent({
+  text,
+  renderText = text => text, // plain runs, e.g. to highlight mentions
+}: {
+  text: string;
+  renderText?: TextRenderer;
+}) {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return <div className="space-y-2">{renderBlocks(blocks, renderText)}</div>;
+}
+
+function renderBlocks(blocks: MarkdownBlock[], renderText: TextRenderer) {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={i} className="whitespace-pre-wrap break-words text-sm">
+            {renderInlines(block.children, renderText)}
+          </p>
+        );
+      case 'code':
+        return (
+          <pre
+            key={i}
+            data-lang={block.lang ?? undefined}
+            className="overflow-x-auto whitespace-pre-wrap break-words rounded-lg bg-black/10 px-2 py-1 text-[12px] dark:bg-white/10"
+          >
+            <code>
+              {highlight(block.text, block.lang).map((token, j) => (
+                <span key={j} className={TOKEN_CLASSES[token.kind]}>
+                  {token.text}
+                </span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote
+            key={i}
+            className="space-y-2 border-l-2 border-current pl-2 opacity-80"
+          >
+            {renderBlocks(block.children, renderText)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, j) => (
+          <li key={j}>{renderInlines(item, renderText)}</li>
+        ));
+        return block.ordered ? (
+          <ol
+            key={i}
+            start={block.start}
+            className="list-decimal break-words pl-5 text-sm"
+          >
+            {items}
+          </ol>
+        ) : (
+          <ul key={i} className="list-disc break-words pl-5 text-sm">
+            {items}
+          </ul>
+        );
+      }
+    }
+  });
+}
+
+function renderInlines(
+  nodes: MarkdownInline[],
+  renderText: TextRenderer
+): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <Fragment key={i}>{renderText(node.text)}</Fragment>;
+      case 'code':
+        return (
+          <code
+            key={i}
+            className="rounded bg-black/10 px-1 py-0.5 text-[12px] dark:bg-white/10"
+          >
+            {node.text}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noreferrer"
+            className="underline underline-offset-2"
+          >
+            {node.href}
+          </a>
+        );
+      case 'bold':
+        return (
+          <strong key={i}>{renderInlines(node.children, renderText)}</strong>
+        );
+      case 'italic':
+        return <em key={i}>{renderInlines(node.children, renderText)}</em>;
+      case 'strike':
+        return <s key={i}>{renderInlines(node.children, renderText)}</s>;
+      case 'spoiler':
+        return (
+          <Spoiler key={i}>{renderInlines(node.children, renderText)}</Spoiler>
+        );
+    }
+  });
+}
+
+// Blurred until clicked; links inside don't open while hidden
+function Spoiler({ children }: { children: ReactNode }) {
+  const [revealed, setRevealed] = useState(false);
+  if (revealed) {
+    return (
+      <span className="rounded bg-black/10 px-0.5 dark:bg-white/10">
+        {children}
+      </span>
+    );
+  }
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      aria-label="Spoiler, click to reveal"
+      className={cn(
+        'cursor-pointer select-none rounded bg-black/20 px-0.5 blur-[3px]',
+        'dark:bg-white/20'
+      )}
+      onClickCapture={e => {
+        e.preventDefault();
+        e.stopPropagation();
+        setRevealed(true);
+      }}
+      onKeyDown={e => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault();
+          setRevealed(true);
+        }
+      }}
+    >
+      {children}
+    </span>
+  );
+}
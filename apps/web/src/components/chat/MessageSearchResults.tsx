@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { searchMessages, type MessageSearchFilters } from '@/lib/api';
+import type { Conversation, MessageSearchHit } from '@/lib/types/chat';
+
+const MIN_QUERY_LENGTH = 2;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Snippets come back with matches wrapped in <mark></mark>; render them as
+// text so message content is never interpreted as HTML
+function renderSnippet(snippet: string) {
+  return snippet.split(/<mark>([\s\S]*?)<\/mark>/g).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark
+        key={i}
+        className="rounded-sm bg-yellow-200 px-0.5 text-yellow-900 dark:bg-yellow-900/40 dark:text-yellow-200"
+      >
+        {part}
+      </mark>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+}
+
+export default function MessageSearchResults({
+  query,
+  convos,
+  onOpen,
+}: {
+  query: string;
+  convos: Conversation[];
+  onOpen: (hit: MessageSearchHit) => void;
+}) {
+  const [showFilters, setShowFilters] = useState(false);
+  const [roomId, setRoomId] = useState('');
+  const [senderId, setSenderId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<MessageSearchHit[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const q = query.trim();
+  const room = convos.find(c => c.id === roomId);
+
+  // Date inputs give local calendar days; send them as a full-day range
+  const filters: MessageSearchFilters = {
+    roomId: roomId || undefined,
+    senderId: senderId || undefined,
+    from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`).toISOString() : undefined,
+  };
+  const filtersKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    if (q.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setNextCursor(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const page = await searchMessages(q, JSON.parse(filtersKey));
+        if (cancelled) return;
+        setResults(page.results);
+        setNextCursor(page.nextCursor);
+      } catch (err) {
+        console.error('Failed to search messages:', err);
+        if (!cancelled) setError('Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [q, filtersKey]);
+
+  const loadMore = async () => {
+    if (!nextCursor || loading) return;
+    setLoading(true);
+    try {
+      const page = await searchMessages(q, filters, nextCursor);
+      setResults(prev => [...prev, ...page.results]);
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load more results:', err);
+      setError('Search failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (q.length < MIN_QUERY_LENGTH) return null;
+
+  return (
+    <div className="mt-2 border-t border-border/20 pt-2">
+      <div className="flex items-center justify-between px-2 py-1">
+        <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+          Messages
+        </h3>
+        <button
+          type="button"
+          aria-label="Search filters"
+          aria-pressed={showFilters}
+          className="text-muted-foreground transition-colors hover:text-foreground"
+          onClick={() => setShowFilters(v => !v)}
+        >
+          <SlidersHorizontal className="h-4 w-4" />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="space-y-2 px-2 pb-2 text-xs">
+          <select
+            aria-label="Chat"
+            className="w-full rounded-md border bg-background px-2 py-1.5"
+            value={roomId}
+            onChange={e => {
+              setRoomId(e.target.value);
+              setSenderId('');
+            }}
+          >
+            <option value="">All chats</option>
+            {convos.map(c => (
+              <option key={c.id} value={c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+          {room?.members && (
+            <select
+              aria-label="Sender"
+              className="w-full rounded-md border bg-background px-2 py-1.5"
+              value={senderId}
+              onChange={e => setSenderId(e.target.value)}
+            >
+              <option value="">Anyone</option>
+              {room.members.map(m => (
+                <option key={m.id} value={m.id}>
+                  {m.displayName || m.username}
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              aria-label="From date"
+              className="h-8 text-xs"
+              value={from}
+              onChange={e => setFrom(e.target.value)}
+            />
+            <Input
+              type="date"
+              aria-label="To date"
+              className="h-8 text-xs"
+              value={to}
+              onChange={e => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {results.map(hit => (
+        <button
+          key={hit.id}
+          type="button"
+          onClick={() => onOpen(hit)}
+          className="flex w-full flex-col gap-0.5 border-b border-border/20 px-3 py-2 text-left transition last:border-b-0 hover:bg-accent/50"
+        >
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <span className="truncate font-medium text-foreground">
+              {convos.find(c => c.id === hit.roomId)?.name ?? 'Chat'}
+            </span>
+            <span className="truncate">· {hit.senderUsername}</span>
+            <span className="ml-auto shrink-0">
+              {new Date(hit.createdAt).toLocaleDateString()}
+            </span>
+          </div>
+          <div className="line-clamp-2 text-sm">
+            {renderSnippet(hit.snippet)}
+          </div>
+        </button>
+      ))}
+
+      {loading && (
+        <div className="py-2 text-center text-xs text-muted-foreground">
+          Searching…
+        </div>
+      )}
+      {error && (
+        <div className="py-2 text-center text-xs text-red-500">{error}</div>
+      )}
+      {!loading && !error && results.length === 0 && (
+        <div className="py-2 text-center text-xs text-muted-foreground">
+          No messages found
+        </div>
+      )}
+      {nextCursor && !loading && (
+        <div className="flex justify-center py-1">
+          <button
+            type="button"
+            className="text-xs text-primary hover:underline"
+            onClick={loadMore}
+          >
+            More results
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
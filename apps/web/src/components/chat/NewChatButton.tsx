@@ -12,8 +12,16 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Plus, MessageCircle, Users, X } from 'lucide-react';
-import { startDm, createGroup, searchUsers } from '@/lib/api';
+import { Plus, MessageCircle, Megaphone, Users, X } from 'lucide-react';
+import {
+  startDm,
+  createGroup,
+  searchUsers,
+  createChannel,
+  joinChannel,
+  listChannels,
+} from '@/lib/api';
+import type { ChannelSummary } from '@/lib/types/chat';
 
 interface User {
   id: string;
@@ -28,7 +36,7 @@ export default function NewChatButton({
 }) {
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'dm' | 'group'>('dm');
+  const [activeTab, setActiveTab] = useState<'dm' | 'group' | 'channel'>('dm');
 
   // DM tab state
   const [dmUsername, setDmUsername] = useState('');
@@ -39,6 +47,11 @@ export default function NewChatButton({
   const [groupName, setGroupName] = useState('');
   const [selectedMembers, setSelectedMembers] = useState<User[]>([]);
 
+  // Channel tab state
+  const [channelName, setChannelName] = useState('');
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [channelsLoading, setChannelsLoading] = useState(false);
+
   const handleSearchUsers = async (query: string) => {
     if (!query.trim()) {
       setSearchResults([]);
@@ -98,6 +111,50 @@ export default function NewChatButton({
     }
   };
 
+  const handleSearchChannels = async (query: string) => {
+    setChannelsLoading(true);
+    try {
+      setChannels(await listChannels(query.trim()));
+    } catch (error) {
+      console.error('Failed to load channels:', error);
+      alert('Failed to load channels');
+    } finally {
+      setChannelsLoading(false);
+    }
+  };
+
+  const handleCreateChannel = async () => {
+    if (!channelName.trim()) return;
+
+    setLoading(true);
+    try {
+      const result = await createChannel(channelName.trim());
+      alert(`Created channel "${channelName.trim()}"`);
+      onConversationCreated(result.id);
+      setOpen(false);
+      setChannelName('');
+    } catch (error) {
+      console.error('Failed to create channel:', error);
+      alert('Failed to create channel');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChannel = async (channel: ChannelSummary) => {
+    setLoading(true);
+    try {
+      if (!channel.joined) await joinChannel(channel.id);
+      onConversationCreated(channel.id);
+      setOpen(false);
+    } catch (error) {
+      console.error('Failed to join channel:', error);
+      alert('Failed to join channel');
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const toggleMemberSelection = (user: User) => {
     setSelectedMembers(prev =>
       prev.find(m => m.id === user.id)
@@ -111,6 +168,8 @@ export default function NewChatButton({
     setGroupName('');
     setSelectedMembers([]);
     setSearchResults([]);
+    setChannelName('');
+    setChannels([]);
     setActiveTab('dm');
   };
 
@@ -158,6 +217,20 @@ export default function NewChatButton({
               <Users className="mr-2 inline h-4 w-4" />
               Group Chat
             </button>
+            <button
+              onClick={() => {
+                setActiveTab('channel');
+                handleSearchChannels('');
+              }}
+              className={`flex-1 rounded-md px-3 py-2 text-sm font-medium transition-colors ${
+                activeTab === 'channel'
+                  ? 'bg-background text-foreground shadow-sm'
+                  : 'text-muted-foreground hover:text-foreground'
+              }`}
+            >
+              <Megaphone className="mr-2 inline h-4 w-4" />
+              Channel
+            </button>
           </div>
 
           {/* DM Tab */}
@@ -291,6 +364,85 @@ export default function NewChatButton({
               </Button>
             </div>
           )}
+
+          {/* Channel Tab */}
+          {activeTab === 'channel' && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="channelName">New Channel</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="channelName"
+                    placeholder="Channel name..."
+                    value={channelName}
+                    onChange={e => setChannelName(e.target.value)}
+                    suppressHydrationWarning
+                  />
+                  <Button
+                    onClick={handleCreateChannel}
+                    disabled={loading || !channelName.trim()}
+                  >
+                    Create
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Anyone can find and join a channel. Only admins can post;
+                  everyone else can react and reply in threads.
+                </p>
+              </div>
+
+              <Separator />
+
+              <div className="space-y-2">
+                <Label htmlFor="channelSearch">Browse Channels</Label>
+                <Input
+                  id="channelSearch"
+                  placeholder="Search channels..."
+                  onChange={e => handleSearchChannels(e.target.value)}
+                  suppressHydrationWarning
+                />
+              </div>
+
+              {channelsLoading && (
+                <div className="text-sm text-muted-foreground">
+                  Loading channels...
+                </div>
+              )}
+
+              {!channelsLoading && channels.length === 0 && (
+                <div className="text-sm text-muted-foreground">
+                  No channels found
+                </div>
+              )}
+
+              {channels.length > 0 && (
+                <div className="max-h-60 overflow-y-auto space-y-1">
+                  {channels.map(channel => (
+                    <button
+                      key={channel.id}
+                      onClick={() => handleOpenChannel(channel)}
+                      disabled={loading}
+                      className="flex w-full items-center gap-3 text-left p-3 rounded-lg hover:bg-muted transition-colors"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-medium">
+                          {channel.name}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {channel.memberCount === 1
+                            ? '1 member'
+                            : `${channel.memberCount} members`}
+                        </div>
+                      </div>
+                      <span className="text-sm font-medium text-primary">
+                        {channel.joined ? 'Open' : 'Join'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </SheetContent>
     </Sheet>
@@ -0,0 +1,60 @@
+'use client';
+import { useState } from 'react';
+import { Pin, X } from 'lucide-react';
+import type { PinnedMessage } from '@/lib/types/chat';
+
+/**
+ * Strip under the chat header showing one pin at a time. Clicking jumps to
+ * that pin's message and moves on to the next (older) pin, wrapping around.
+ */
+export default function PinnedMessageBar({
+  pins, // newest first
+  onJump,
+  onUnpin, // only when the user may unpin
+}: {
+  pins: PinnedMessage[];
+  onJump: (messageId: string) => void;
+  onUnpin?: (messageId: string) => void;
+}) {
+  const [index, setIndex] = useState(0);
+
+  // Pins can disappear under us; stay within range
+  const position = pins.length ? index % pins.length : 0;
+  const pin = pins[position];
+  if (!pin) return null;
+
+  return (
+    <div className="flex items-center gap-2 border-b bg-background px-3 py-1.5">
+      <button
+        type="button"
+        className="flex min-w-0 flex-1 items-center gap-2 text-left"
+        onClick={() => {
+          onJump(pin.messageId);
+          setIndex((position + 1) % pins.length);
+        }}
+      >
+        <Pin className="h-4 w-4 shrink-0 text-primary" />
+        <span className="min-w-0 leading-tight">
+          <span className="block text-xs font-medium text-primary">
+            {pins.length > 1
+              ? `Pinned message ${position + 1} of ${pins.length}`
+              : 'Pinned message'}
+          </span>
+          <span className="block truncate text-sm text-muted-foreground">
+            {pin.content}
+          </span>
+        </span>
+      </button>
+      {onUnpin && (
+        <button
+          type="button"
+          aria-label="Unpin message"
+          className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+          onClick={() => onUnpin(pin.messageId)}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      )}
+    </div>
+  );
+}
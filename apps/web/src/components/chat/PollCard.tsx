@@ -0,0 +1,195 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { BarChart3, Check } from 'lucide-react';
+import { cn } from '@/lib/theme';
+import type { Poll } from '@/lib/types/chat';
+
+// Longest delay setTimeout takes; later close times are waited for in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const formatClosesAt = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+// The server stops taking votes at closesAt without announcing it, so the
+// card flips to closed on its own at that moment
+function useClosed(poll: Poll) {
+  const [now, setNow] = useState(() => Date.now());
+  const closesAt = poll.closesAt ? Date.parse(poll.closesAt) : null;
+
+  useEffect(() => {
+    if (poll.closedAt || closesAt === null || closesAt <= now) return;
+    const timer = setTimeout(
+      () => setNow(Date.now()),
+      Math.min(closesAt - now, MAX_TIMER_MS)
+    );
+    return () => clearTimeout(timer);
+  }, [poll.closedAt, closesAt, now]);
+
+  return !!poll.closedAt || (closesAt !== null && closesAt <= now);
+}
+
+/**
+ * Poll inside a message bubble. Single-choice polls vote on click;
+ * multiple-choice ones collect ticks until "Vote" is pressed. Tallies are
+ * shown live, with voter names on hover for public polls.
+ */
+export default function PollCard({
+  question,
+  poll,
+  mine,
+  nameOf,
+  onVote,
+  onRetract,
+  onClose,
+}: {
+  question: string;
+  poll: Poll;
+  mine: boolean;
+  nameOf?: (userId: string) => string | undefined;
+  onVote?: (optionIds: string[]) => void;
+  onRetract?: () => void;
+  onClose?: () => void; // only for the creator and room admins
+}) {
+  const closed = useClosed(poll);
+  const myVotes = poll.myVotes ?? [];
+  const [picked, setPicked] = useState<string[]>(myVotes);
+
+  // Follow choices made on the user's other devices
+  const myVotesKey = myVotes.join(',');
+  useEffect(() => {
+    setPicked(myVotesKey ? myVotesKey.split(',') : []);
+  }, [myVotesKey]);
+
+  const canVote = !closed && !!onVote;
+  const total = poll.options.reduce((sum, o) => sum + o.votes, 0);
+  const changed =
+    picked.length > 0 &&
+    (picked.length !== myVotes.length ||
+      picked.some(id => !myVotes.includes(id)));
+
+  const choose = (optionId: string) => {
+    if (!poll.multipleChoice) {
+      if (!myVotes.includes(optionId)) onVote?.([optionId]);
+      return;
+    }
+    setPicked(ids =>
+      ids.includes(optionId)
+        ? ids.filter(id => id !== optionId)
+        : [...ids, optionId]
+    );
+  };
+
+  const votersOf = (voterIds?: string[]) =>
+    voterIds?.length
+      ? voterIds.map(id => nameOf?.(id) ?? 'Unknown').join(', ')
+      : undefined;
+
+  const status = [
+    poll.anonymous ? 'Anonymous' : 'Public',
+    poll.multipleChoice ? 'multiple choice' : 'single choice',
+    closed
+      ? 'closed'
+      : poll.closesAt && `closes ${formatClosesAt(poll.closesAt)}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  const action = cn(
+    'rounded-md px-2 py-0.5 font-medium hover:bg-black/10 dark:hover:bg-white/10',
+    mine ? 'text-white' : 'text-primary'
+  );
+
+  return (
+    <div className="min-w-[14rem] max-w-xs space-y-2">
+      <div>
+        <div className="flex items-start gap-1.5 text-sm font-semibold">
+          <BarChart3 className="mt-0.5 h-4 w-4 shrink-0" aria-hidden />
+          <span className="break-words">{question}</span>
+        </div>
+        <div className="text-[11px] opacity-70">{status}</div>
+      </div>
+
+      <div
+        role={poll.multipleChoice ? 'group' : 'radiogroup'}
+        aria-label="Poll options"
+        className="space-y-1.5"
+      >
+        {poll.options.map(o => {
+          const share = total ? Math.round((o.votes / total) * 100) : 0;
+          const chosen = (poll.multipleChoice ? picked : myVotes).includes(
+            o.id
+          );
+          return (
+            <button
+              key={o.id}
+              type="button"
+              role={poll.multipleChoice ? 'checkbox' : 'radio'}
+              aria-checked={chosen}
+              aria-label={o.text}
+              disabled={!canVote}
+              onClick={() => choose(o.id)}
+              title={votersOf(o.voterIds)}
+              className={cn(
+                'relative block w-full overflow-hidden rounded-md border px-2 py-1 text-left text-sm disabled:cursor-default',
+                mine
+                  ? 'border-white/40'
+                  : 'border-black/10 dark:border-white/15',
+                canVote && 'hover:bg-black/5 dark:hover:bg-white/5'
+              )}
+            >
+              <span
+                aria-hidden
+                className="absolute inset-y-0 left-0 bg-current opacity-15 transition-[width]"
+                style={{ width: `${share}%` }}
+              />
+              <span className="relative flex items-center gap-2">
+                <span
+                  className={cn(
+                    'flex h-4 w-4 shrink-0 items-center justify-center border border-current',
+                    poll.multipleChoice ? 'rounded' : 'rounded-full'
+                  )}
+                >
+                  {chosen && <Check className="h-3 w-3" />}
+                </span>
+                <span className="min-w-0 flex-1 break-words">{o.text}</span>
+                <span className="text-xs tabular-nums opacity-80">
+                  {o.votes}
+                </span>
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 text-xs">
+        <span className="mr-auto opacity-70">
+          {poll.voterCount === 1 ? '1 voter' : `${poll.voterCount} voters`}
+        </span>
+        {canVote && poll.multipleChoice && changed && (
+          <button
+            type="button"
+            className={action}
+            onClick={() => onVote?.(picked)}
+          >
+            Vote
+          </button>
+        )}
+        {canVote && onRetract && myVotes.length > 0 && (
+          <button type="button" className={action} onClick={onRetract}>
+            Retract vote
+          </button>
+        )}
+        {!closed && onClose && (
+          <button type="button" className={action} onClick={onClose}>
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import type { NewPoll } from '@/lib/api';
+import { toLocalInput } from './SchedulePicker';
+
+// Same limits the server enforces
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 10;
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+/**
+ * Sheet for posting a poll from the composer's attachment menu. The poll
+ * only shows up in the chat once the server has created it.
+ */
+export default function PollComposer({
+  open,
+  onOpenChange,
+  onCreate,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (poll: NewPoll) => Promise<void>;
+}) {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState(['', '']);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const filled = options.map(o => o.trim()).filter(Boolean);
+  const duplicate =
+    new Set(filled.map(o => o.toLowerCase())).size !== filled.length;
+  const closeDate = closesAt ? new Date(closesAt) : null;
+  const closeValid = !closeDate || closeDate.getTime() > Date.now();
+  const ready =
+    !!question.trim() &&
+    filled.length >= MIN_OPTIONS &&
+    !duplicate &&
+    closeValid &&
+    !sending;
+
+  const reset = () => {
+    setQuestion('');
+    setOptions(['', '']);
+    setMultipleChoice(false);
+    setAnonymous(false);
+    setClosesAt('');
+    setError(null);
+  };
+
+  const close = () => {
+    reset();
+    onOpenChange(false);
+  };
+
+  const setOption = (index: number, text: string) =>
+    setOptions(prev => prev.map((o, i) => (i === index ? text : o)));
+
+  const submit = async () => {
+    if (!ready) return;
+    setSending(true);
+    setError(null);
+    try {
+      await onCreate({
+        question: question.trim(),
+        options: filled,
+        multipleChoice,
+        anonymous,
+        ...(closeDate ? { closesAt: closeDate.toISOString() } : {}),
+      });
+      close();
+    } catch {
+      setError('Could not post the poll. Try again.');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={next => !next && close()}>
+      <SheetContent className="w-[400px] overflow-y-auto sm:w-[540px]">
+        <SheetHeader>
+          <SheetTitle>New poll</SheetTitle>
+        </SheetHeader>
+
+        <div className="mt-4 space-y-4 px-4 pb-4">
+          <div className="space-y-2">
+            <Label htmlFor="poll-question">Question</Label>
+            <Input
+              id="poll-question"
+              value={question}
+              maxLength={MAX_QUESTION_LENGTH}
+              onChange={e => setQuestion(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Options</Label>
+            {options.map((option, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <Input
+                  aria-label={`Option ${i + 1}`}
+                  value={option}
+                  maxLength={MAX_OPTION_LENGTH}
+                  onChange={e => setOption(i, e.target.value)}
+                />
+                {options.length > MIN_OPTIONS && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label={`Remove option ${i + 1}`}
+                    onClick={() =>
+                      setOptions(prev => prev.filter((_, j) => j !== i))
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {options.length < MAX_OPTIONS && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="gap-1"
+                onClick={() => setOptions(prev => [...prev, ''])}
+              >
+                <Plus className="h-4 w-4" /> Add option
+              </Button>
+            )}
+            {duplicate && (
+              <p className="text-sm text-destructive">
+                Options must all be different
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label className="font-normal">
+              <input
+                type="checkbox"
+                checked={multipleChoice}
+                onChange={e => setMultipleChoice(e.target.checked)}
+              />
+              Allow multiple answers
+            </Label>
+            <Label className="font-normal">
+              <input
+                type="checkbox"
+                checked={anonymous}
+                onChange={e => setAnonymous(e.target.checked)}
+              />
+              Anonymous votes
+            </Label>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="poll-closes-at">Close at (optional)</Label>
+            <Input
+              id="poll-closes-at"
+              type="datetime-local"
+              min={toLocalInput(new Date())}
+              value={closesAt}
+              onChange={e => setClosesAt(e.target.value)}
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button className="w-full" disabled={!ready} onClick={submit}>
+            Post poll
+          </Button>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
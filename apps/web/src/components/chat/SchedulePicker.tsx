@@ -0,0 +1,95 @@
+'use client';
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { Clock } from 'lucide-react';
+
+// <input type="datetime-local"> wants local time without a zone
+export const toLocalInput = (date: Date) => {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const presets = (now: Date) => {
+  const inAnHour = new Date(now.getTime() + 60 * 60 * 1000);
+  const tomorrowMorning = new Date(now);
+  tomorrowMorning.setDate(now.getDate() + 1);
+  tomorrowMorning.setHours(9, 0, 0, 0);
+  return [
+    { label: 'In 1 hour', sendAt: inAnHour },
+    { label: 'Tomorrow at 9:00', sendAt: tomorrowMorning },
+  ];
+};
+
+/** Clock button next to Send for sending the typed message later */
+export default function SchedulePicker({
+  disabled,
+  onSchedule,
+}: {
+  disabled?: boolean;
+  onSchedule: (sendAt: Date) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const [custom, setCustom] = useState('');
+
+  const now = new Date();
+  const customDate = custom ? new Date(custom) : null;
+  const customValid = !!customDate && customDate.getTime() > now.getTime();
+
+  const pick = (sendAt: Date) => {
+    setOpen(false);
+    setCustom('');
+    onSchedule(sendAt);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={disabled}
+          aria-label="Schedule message"
+        >
+          <Clock className="h-5 w-5" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" side="top" className="w-64 space-y-2 p-3">
+        <p className="text-sm font-medium">Send later</p>
+        {presets(now).map(p => (
+          <button
+            key={p.label}
+            type="button"
+            className="block w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-accent"
+            onClick={() => pick(p.sendAt)}
+          >
+            {p.label}
+          </button>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <Input
+            type="datetime-local"
+            aria-label="Send at"
+            min={toLocalInput(now)}
+            value={custom}
+            onChange={e => setCustom(e.target.value)}
+          />
+          <Button
+            size="sm"
+            disabled={!customValid}
+            onClick={() => customDate && pick(customDate)}
+          >
+            Set
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
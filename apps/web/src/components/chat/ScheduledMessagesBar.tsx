@@ -0,0 +1,53 @@
+'use client';
+import { Clock, X } from 'lucide-react';
+import type { ScheduledMessage } from '@/lib/types/chat';
+
+const formatSendAt = (iso: string) =>
+  new Date(iso).toLocaleString([], {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Your messages waiting to be sent in this conversation, above the
+ * composer. Each one can be cancelled until the server starts sending it.
+ */
+export default function ScheduledMessagesBar({
+  scheduled, // soonest first
+  onCancel,
+}: {
+  scheduled: ScheduledMessage[];
+  onCancel: (id: string) => void;
+}) {
+  if (scheduled.length === 0) return null;
+
+  return (
+    <ul className="max-h-32 divide-y overflow-y-auto border-t bg-background text-sm">
+      {scheduled.map(m => (
+        <li key={m.id} className="flex items-center gap-2 px-3 py-1.5">
+          <Clock className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <span className="min-w-0 flex-1 truncate">{m.content}</span>
+          <span
+            className={
+              m.status === 'failed'
+                ? 'shrink-0 text-xs text-destructive'
+                : 'shrink-0 text-xs text-muted-foreground'
+            }
+            title={m.error ?? undefined}
+          >
+            {m.status === 'failed' ? 'Not sent' : formatSendAt(m.sendAt)}
+          </span>
+          <button
+            type="button"
+            aria-label="Cancel scheduled message"
+            className="rounded-md p-1 text-muted-foreground hover:bg-accent"
+            onClick={() => onCancel(m.id)}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import ChatBubble from './ChatBubble';
+import type { Attachment, Message, MessageDeleteScope } from '@/lib/types/chat';
+
+export default function ThreadPanel({
+  me,
+  myUsername,
+  parent, // null while the thread is loading
+  replies, // oldest -> newest
+  loading,
+  hasOlder,
+  onLoadOlder,
+  onClose,
+  onSendReply,
+  onReact,
+  onEdit,
+  onDelete,
+  onRemovePreview,
+  onVotePoll,
+  onRetractPollVote,
+  onClosePoll,
+  onVoicePlayed,
+  canModerate,
+  isGroup,
+  getPeer,
+}: {
+  me: string;
+  myUsername?: string;
+  parent: Message | null;
+  replies: Message[];
+  loading?: boolean;
+  hasOlder?: boolean;
+  onLoadOlder?: () => void;
+  onClose: () => void;
+  onSendReply: (text: string) => void;
+  onReact?: (message: Message, emoji: string) => void;
+  onEdit?: (message: Message, content: string) => void;
+  onDelete?: (message: Message, scope: MessageDeleteScope) => void;
+  onRemovePreview?: (message: Message) => void;
+  onVotePoll?: (message: Message, optionIds: string[]) => void;
+  onRetractPollVote?: (message: Message) => void;
+  onClosePoll?: (message: Message) => void;
+  onVoicePlayed?: (message: Message, attachment: Attachment) => void;
+  canModerate?: boolean;
+  isGroup?: boolean;
+  getPeer?: (
+    userId: string
+  ) => { name?: string; avatar?: string | null } | undefined;
+}) {
+  const [text, setText] = useState('');
+  // Older replies may not be loaded yet, so prefer the server's count
+  const replyCount = Math.max(parent?.replyCount ?? 0, replies.length);
+
+  const send = () => {
+    const t = text.trim();
+    if (!t || !parent || parent.deleted) return;
+    onSendReply(t);
+    setText('');
+  };
+
+  // The panel already is the thread: drop the parent's reply summary and
+  // the parent quote from every reply
+  const view = (m: Message): Message => {
+    if (m.id === parent?.id) return { ...m, replyCount: 0 };
+    if (m.replyToId === parent?.id) return { ...m, replyTo: null };
+    return m;
+  };
+
+  const renderBubble = (m: Message) => {
+    const mine = m.userId === me;
+    const peer = !mine && getPeer ? getPeer(m.userId) : undefined;
+    return (
+      <ChatBubble
+        key={m.clientMsgId ?? m.id}
+        m={view(m)}
+        mine={mine}
+        me={me}
+        myUsername={myUsername}
+        name={peer?.name}
+        avatar={peer?.avatar}
+        isGroup={isGroup}
+        onReact={onReact}
+        onEdit={onEdit}
+        onDelete={onDelete}
+        onRemovePreview={onRemovePreview}
+        onVotePoll={onVotePoll}
+        onRetractPollVote={onRetractPollVote}
+        onClosePoll={onClosePoll}
+        nameOf={uid => getPeer?.(uid)?.name}
+        onVoicePlayed={onVoicePlayed}
+        canDeleteForEveryone={mine || canModerate}
+      />
+    );
+  };
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between border-b px-3 py-2">
+        <h2 className="text-sm font-semibold">Thread</h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          aria-label="Close thread"
+          onClick={onClose}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {parent && renderBubble(parent)}
+
+        <div className="my-2 border-t px-3 pt-2 text-xs text-muted-foreground">
+          {replyCount === 1 ? '1 reply' : `${replyCount} replies`}
+        </div>
+
+        {hasOlder && (
+          <div className="flex justify-center py-1">
+            <button
+              type="button"
+              className="text-xs text-primary hover:underline disabled:opacity-50"
+              disabled={loading}
+              onClick={onLoadOlder}
+            >
+              Load earlier replies
+            </button>
+          </div>
+        )}
+
+        {loading && (
+          <div className="py-2 text-center text-xs text-muted-foreground">
+            Loading…
+          </div>
+        )}
+
+        {replies.map(renderBubble)}
+      </div>
+
+      <div className="flex items-end gap-2 border-t p-2">
+        <Textarea
+          value={text}
+          onChange={e => setText(e.target.value)}
+          placeholder="Reply in thread"
+          aria-label="Reply in thread"
+          className="min-h-0.5 flex-1 resize-none rounded-2xl px-2 py-2 text-base md:text-sm"
+          rows={1}
+          dir="auto"
+          disabled={!parent || parent.deleted}
+          onKeyDown={e => {
+            // Enter sends, Shift+Enter creates new line
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              send();
+            }
+          }}
+        />
+        <Button
+          className="rounded-full"
+          size="icon"
+          aria-label="Send reply"
+          disabled={!text.trim() || !parent || parent.deleted}
+          onClick={send}
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+import { useEffect, useRef, useState } from 'react';
+import type { KeyboardEvent, PointerEvent } from 'react';
+import { Mic, Pause, Play } from 'lucide-react';
+import { attachmentUrl } from '@/lib/api';
+import { cn } from '@/lib/theme';
+import type { Attachment } from '@/lib/types/chat';
+import { WAVEFORM_BARS, formatDuration } from '@/lib/voice';
+
+const SPEEDS = [1, 1.5, 2];
+// How far the arrow keys move the scrubber
+const SEEK_STEP_MS = 5000;
+
+/**
+ * Compact player for a voice note. The waveform doubles as the scrubber,
+ * and the length comes from the stored duration because browsers report
+ * none for recorded WebM audio.
+ */
+export default function VoiceNotePlayer({
+  attachment,
+  mine,
+  onPlay,
+}: {
+  attachment: Attachment;
+  mine: boolean;
+  onPlay?: () => void;
+}) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [playing, setPlaying] = useState(false);
+  const [positionMs, setPositionMs] = useState(0);
+  const [speed, setSpeed] = useState(SPEEDS[0]!);
+
+  const durationMs = attachment.durationMs ?? 0;
+  const bars = attachment.waveform?.length
+    ? attachment.waveform
+    : Array<number>(WAVEFORM_BARS).fill(0);
+  const progress = durationMs ? Math.min(1, positionMs / durationMs) : 0;
+
+  // Loading the source resets playbackRate to the default, so set both
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    audio.defaultPlaybackRate = speed;
+    audio.playbackRate = speed;
+  }, [speed]);
+
+  const toggle = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) void audio.play();
+    else audio.pause();
+  };
+
+  const seek = (ms: number) => {
+    const clamped = Math.min(durationMs, Math.max(0, ms));
+    if (audioRef.current) audioRef.current.currentTime = clamped / 1000;
+    setPositionMs(clamped);
+  };
+
+  const seekToPointer = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (!rect.width) return;
+    seek(((e.clientX - rect.left) / rect.width) * durationMs);
+  };
+
+  const onKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const target = {
+      ArrowLeft: positionMs - SEEK_STEP_MS,
+      ArrowDown: positionMs - SEEK_STEP_MS,
+      ArrowRight: positionMs + SEEK_STEP_MS,
+      ArrowUp: positionMs + SEEK_STEP_MS,
+      Home: 0,
+      End: durationMs,
+    }[e.key];
+    if (target === undefined) return;
+    e.preventDefault();
+    seek(target);
+  };
+
+  const nextSpeed = () =>
+    setSpeed(s => SPEEDS[(SPEEDS.indexOf(s) + 1) % SPEEDS.length]!);
+
+  return (
+    <div className="flex min-w-[14rem] max-w-xs items-center gap-2">
+      <audio
+        ref={audioRef}
+        src={attachmentUrl(attachment)}
+        preload="metadata"
+        onPlay={() => {
+          setPlaying(true);
+          onPlay?.();
+        }}
+        onPause={() => setPlaying(false)}
+        onEnded={() => {
+          setPlaying(false);
+          setPositionMs(0);
+        }}
+        onTimeUpdate={e => setPositionMs(e.currentTarget.currentTime * 1000)}
+      />
+
+      <button
+        type="button"
+        onClick={toggle}
+        aria-label={playing ? 'Pause voice message' : 'Play voice message'}
+        className={cn(
+          'flex h-9 w-9 shrink-0 items-center justify-center rounded-full',
+          mine ? 'bg-white/20' : 'bg-black/10 dark:bg-white/10'
+        )}
+      >
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </button>
+
+      <div className="min-w-0 flex-1">
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Voice message position"
+          aria-valuemin={0}
+          aria-valuemax={Math.round(durationMs / 1000)}
+          aria-valuenow={Math.round(positionMs / 1000)}
+          aria-valuetext={formatDuration(positionMs)}
+          onKeyDown={onKeyDown}
+          onPointerDown={e => {
+            e.currentTarget.setPointerCapture?.(e.pointerId);
+            seekToPointer(e);
+          }}
+          onPointerMove={e => {
+            if (e.buttons & 1) seekToPointer(e);
+          }}
+          className="flex h-8 cursor-pointer touch-none items-center gap-px"
+        >
+          {bars.map((level, i) => (
+            <span
+              key={i}
+              aria-hidden
+              className={cn(
+                'flex-1 rounded-full bg-current',
+                i / bars.length < progress ? 'opacity-100' : 'opacity-40'
+              )}
+              style={{ height: `${Math.max(10, level)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center gap-1 text-[11px] tabular-nums opacity-80">
+          <span>
+            {formatDuration(playing || positionMs ? positionMs : durationMs)}
+          </span>
+          {mine && attachment.playedAt && (
+            <Mic
+              className="h-3 w-3 text-sky-300"
+              aria-label="Played"
+              role="img"
+            />
+          )}
+        </div>
+      </div>
+
+      <button
+        type="button"
+        onClick={nextSpeed}
+        aria-label={`Playback speed ${speed}×`}
+        className="shrink-0 rounded-full px-1.5 py-0.5 text-xs font-semibold tabular-nums hover:bg-black/10 dark:hover:bg-white/10"
+      >
+        {speed}×
+      </button>
+    </div>
+  );
+}
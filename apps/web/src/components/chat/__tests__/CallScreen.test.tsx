@@ -0,0 +1,82 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import CallScreen from '../CallScreen';
+
+const props = {
+  name: 'Alice',
+  video: false,
+  phase: 'calling' as const,
+  muted: false,
+  cameraOff: false,
+  localStream: null,
+  remoteStream: null,
+  connectedAt: null,
+  onToggleMute: jest.fn(),
+  onToggleCamera: jest.fn(),
+  onHangUp: jest.fn(),
+};
+
+describe('CallScreen', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('shows how far the call has got', () => {
+    const { rerender } = render(<CallScreen {...props} />);
+    expect(
+      screen.getByRole('dialog', { name: 'Voice call with Alice' })
+    ).toBeInTheDocument();
+    expect(screen.getByText('Calling…')).toBeInTheDocument();
+
+    rerender(<CallScreen {...props} phase="ringing" />);
+    expect(screen.getByText('Ringing…')).toBeInTheDocument();
+
+    rerender(<CallScreen {...props} phase="connecting" />);
+    expect(screen.getByText('Connecting…')).toBeInTheDocument();
+  });
+
+  it('counts up once connected', () => {
+    jest.useFakeTimers();
+    render(
+      <CallScreen {...props} phase="active" connectedAt={Date.now() - 5_000} />
+    );
+    expect(screen.getByText('0:05')).toBeInTheDocument();
+
+    act(() => {
+      jest.advanceTimersByTime(60_000);
+    });
+    expect(screen.getByText('1:05')).toBeInTheDocument();
+  });
+
+  it('offers the camera control on video calls only', async () => {
+    const user = userEvent.setup();
+    const { rerender } = render(<CallScreen {...props} />);
+    expect(
+      screen.queryByRole('button', { name: 'Turn camera off' })
+    ).not.toBeInTheDocument();
+
+    rerender(<CallScreen {...props} video muted />);
+    await user.click(screen.getByRole('button', { name: 'Unmute' }));
+    await user.click(screen.getByRole('button', { name: 'Turn camera off' }));
+    await user.click(screen.getByRole('button', { name: 'Hang up' }));
+
+    expect(props.onToggleMute).toHaveBeenCalledTimes(1);
+    expect(props.onToggleCamera).toHaveBeenCalledTimes(1);
+    expect(props.onHangUp).toHaveBeenCalledTimes(1);
+  });
+
+  it('shows why a call failed until it is closed', async () => {
+    const user = userEvent.setup();
+    render(
+      <CallScreen {...props} phase="failed" error="Microphone unavailable" />
+    );
+
+    expect(screen.getByText('Microphone unavailable')).toBeInTheDocument();
+    expect(
+      screen.queryByRole('button', { name: 'Mute' })
+    ).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Close' }));
+    expect(props.onHangUp).toHaveBeenCalledTimes(1);
+  });
+});
@@ -27,6 +27,11 @@ jest.mock('@/components/ui/popover', () => ({
   }) => (asChild ? children : <div>{children}</div>),
 }));
 
+jest.mock('@/lib/api', () => ({
+  listMessageEdits: jest.fn().mockResolvedValue([]),
+  attachmentUrl: jest.requireActual('@/lib/api').attachmentUrl,
+}));
+
 jest.mock('@/components/ui/tooltip', () => ({
   TooltipProvider: ({ children }: { children: React.ReactNode }) => (
     <div>{children}</div>
@@ -139,20 +144,65 @@ describe('ChatBubble', () => {
   });
 
   it('renders component without crashing for read messages', () => {
-    const readMessage = { ...mockMessage, read: true };
-    render(<ChatBubble {...defaultProps} m={readMessage} mine={true} />);
+    render(<ChatBubble {...defaultProps} mine={true} receiptStatus="read" />);
 
     // Check for check marks (read state)
-    const checkIcon = document.querySelector(
-      '.lucide-check, .lucide-check-check'
-    );
-    if (checkIcon) {
-      expect(checkIcon).toBeInTheDocument();
-    }
+    const checkIcon = document.querySelector('.lucide-check-check');
+    expect(checkIcon).toBeInTheDocument();
     // Just ensure it renders without error
     expect(screen.getByText(/Hello/)).toBeInTheDocument();
   });
 
+  it('shows sent, delivered and read ticks on own messages', () => {
+    const { rerender } = render(
+      <ChatBubble {...defaultProps} mine={true} receiptStatus="sent" />
+    );
+    expect(screen.getByLabelText('Sent')).toBeInTheDocument();
+
+    rerender(
+      <ChatBubble {...defaultProps} mine={true} receiptStatus="delivered" />
+    );
+    expect(screen.getByLabelText('Delivered')).toBeInTheDocument();
+
+    rerender(<ChatBubble {...defaultProps} mine={true} receiptStatus="read" />);
+    expect(screen.getByLabelText('Read')).toBeInTheDocument();
+  });
+
+  it('lists who has seen a message in groups', () => {
+    render(
+      <ChatBubble
+        {...defaultProps}
+        mine={true}
+        isGroup={true}
+        seenBy={['bob', 'carol']}
+      />
+    );
+
+    expect(screen.getByText('Seen by 2')).toBeInTheDocument();
+    expect(screen.getByText('carol')).toBeInTheDocument();
+  });
+
+  it('highlights mentions, more strongly when they mention the reader', () => {
+    render(
+      <ChatBubble
+        {...defaultProps}
+        myUsername="Bob"
+        m={{
+          ...mockMessage,
+          content: 'Thanks @carol and @bob! mail@example.com',
+        }}
+      />
+    );
+
+    const toCarol = screen.getByText('@carol');
+    const toBob = screen.getByText('@bob');
+    expect(toCarol).toHaveAttribute('data-mention', 'carol');
+    expect(toCarol).not.toHaveClass('bg-amber-300/60');
+    expect(toBob).toHaveClass('bg-amber-300/60');
+    // An email address is not a mention
+    expect(document.querySelectorAll('[data-mention]')).toHaveLength(2);
+  });
+
   it('displays reactions when present', () => {
     const messageWithReactions = {
       ...mockMessage,
@@ -175,4 +225,196 @@ describe('ChatBubble', () => {
     expect(reactionArea?.textContent).toContain('2');
     expect(reactionArea?.textContent).toContain('1');
   });
+
+  it('shows an edited marker with edit history for edited messages', () => {
+    const editedMessage = { ...mockMessage, edited: true };
+    render(<ChatBubble {...defaultProps} m={editedMessage} />);
+
+    expect(screen.getByTitle('View edit history')).toHaveTextContent('edited');
+    expect(screen.getByText('Edit history')).toBeInTheDocument();
+  });
+
+  it('lets the sender edit their message inline', async () => {
+    const user = userEvent.setup();
+    const onEdit = jest.fn();
+    render(<ChatBubble {...defaultProps} mine={true} onEdit={onEdit} />);
+
+    await user.click(screen.getByText('Edit'));
+    const editor = screen.getByLabelText('Edit message');
+    await user.clear(editor);
+    await user.type(editor, 'Fixed typo{Enter}');
+
+    expect(onEdit).toHaveBeenCalledWith(mockMessage, 'Fixed typo');
+    expect(screen.queryByLabelText('Edit message')).not.toBeInTheDocument();
+  });
+
+  it('does not offer editing on other users messages', () => {
+    render(<ChatBubble {...defaultProps} mine={false} onEdit={jest.fn()} />);
+    expect(screen.queryByText('Edit')).not.toBeInTheDocument();
+  });
+
+  it('offers delete for me and, when allowed, for everyone', async () => {
+    const user = userEvent.setup();
+    const onDelete = jest.fn();
+    const { rerender } = render(
+      <ChatBubble {...defaultProps} onDelete={onDelete} />
+    );
+
+    expect(screen.queryByText('Delete for everyone')).not.toBeInTheDocument();
+    await user.click(screen.getByText('Delete for me'));
+    expect(onDelete).toHaveBeenCalledWith(mockMessage, 'me');
+
+    rerender(
+      <ChatBubble
+        {...defaultProps}
+        mine={true}
+        onDelete={onDelete}
+        canDeleteForEveryone
+      />
+    );
+    await user.click(screen.getByText('Delete for everyone'));
+    expect(onDelete).toHaveBeenCalledWith(mockMessage, 'everyone');
+  });
+
+  it('renders a tombstone for messages deleted for everyone', () => {
+    const deletedMessage = {
+      ...mockMessage,
+      content: 'This message was deleted',
+      deleted: true,
+    };
+    render(
+      <ChatBubble
+        {...defaultProps}
+        m={deletedMessage}
+        onEdit={jest.fn()}
+        onDelete={jest.fn()}
+        canDeleteForEveryone
+      />
+    );
+
+    expect(screen.getByText('This message was deleted')).toHaveClass('italic');
+    expect(screen.queryByText('Reply')).not.toBeInTheDocument();
+    expect(screen.queryByText('Delete for everyone')).not.toBeInTheDocument();
+  });
+
+  it('marks reply previews of deleted messages', () => {
+    const reply = {
+      ...mockMessage,
+      replyToId: '0',
+      replyTo: { id: '0', content: 'This message was deleted', deleted: true },
+    };
+    render(<ChatBubble {...defaultProps} m={reply} />);
+
+    expect(screen.getByText('Deleted message')).toBeInTheDocument();
+  });
+
+  it('shows the reply count and opens the thread', async () => {
+    const user = userEvent.setup();
+    const onOpenThread = jest.fn();
+    const parent = {
+      ...mockMessage,
+      replyCount: 3,
+      lastReplyAt: '2024-01-15T11:00:00Z',
+      lastReplier: { id: 'user2', username: 'jane' },
+    };
+    render(
+      <ChatBubble {...defaultProps} m={parent} onOpenThread={onOpenThread} />
+    );
+
+    const summary = screen.getByRole('button', { name: /3 replies/ });
+    expect(summary).toHaveTextContent('jane');
+    await user.click(summary);
+    expect(onOpenThread).toHaveBeenCalledWith(parent);
+  });
+
+  it('hides the thread summary when there are no replies', () => {
+    render(<ChatBubble {...defaultProps} onOpenThread={jest.fn()} />);
+    expect(screen.queryByText(/repl(y|ies)$/)).not.toBeInTheDocument();
+  });
+
+  it('renders image thumbnails and file cards for attachments', () => {
+    const withFiles: Message = {
+      ...mockMessage,
+      content: '',
+      attachments: [
+        {
+          id: 'a1',
+          fileName: 'cat.png',
+          mimeType: 'image/png',
+          size: 2048,
+          url: '/attachments/a1',
+        },
+        {
+          id: 'a2',
+          fileName: 'report.pdf',
+          mimeType: 'application/pdf',
+          size: 3 * 1024 * 1024,
+          url: '/attachments/a2',
+        },
+      ],
+    };
+    render(<ChatBubble {...defaultProps} m={withFiles} />);
+
+    expect(screen.getByAltText('cat.png')).toHaveAttribute(
+      'src',
+      '/api/attachments/a1'
+    );
+    expect(screen.getByText('report.pdf').closest('a')).toHaveAttribute(
+      'href',
+      '/api/attachments/a2'
+    );
+    expect(screen.getByText('3.0 MB')).toBeInTheDocument();
+  });
+
+  it('reserves image space from the attachment metadata', () => {
+    const photo: Message = {
+      ...mockMessage,
+      content: '',
+      attachments: [
+        {
+          id: 'a1',
+          fileName: 'beach.jpg',
+          mimeType: 'image/jpeg',
+          size: 500_000,
+          url: '/attachments/a1',
+          width: 1600,
+          height: 1200,
+          placeholderColor: '#336699',
+          thumbnails: [{ width: 320, url: '/attachments/a1/thumbnails/320' }],
+        },
+      ],
+    };
+    render(<ChatBubble {...defaultProps} m={photo} />);
+
+    const img = screen.getByAltText('beach.jpg');
+    expect(img).toHaveAttribute('width', '320');
+    expect(img).toHaveAttribute('height', '240');
+    expect(img).toHaveAttribute(
+      'srcset',
+      '/api/attachments/a1/thumbnails/320 320w, /api/attachments/a1 1600w'
+    );
+    expect(img).toHaveStyle({
+      aspectRatio: '1600 / 1200',
+      backgroundColor: '#336699',
+    });
+  });
+
+  it('drops attachments from messages deleted for everyone', () => {
+    const deleted: Message = {
+      ...mockMessage,
+      content: 'This message was deleted',
+      deleted: true,
+      attachments: [
+        {
+          id: 'a1',
+          fileName: 'cat.png',
+          mimeType: 'image/png',
+          size: 2048,
+          url: '/attachments/a1',
+        },
+      ],
+    };
+    render(<ChatBubble {...defaultProps} m={deleted} />);
+    expect(screen.queryByAltText('cat.png')).not.toBeInTheDocument();
+  });
 });
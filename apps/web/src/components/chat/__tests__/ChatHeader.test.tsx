@@ -44,6 +44,56 @@ describe('ChatHeader', () => {
     expect(screen.getByText('last seen recently')).toBeInTheDocument();
   });
 
+  it('shows when an offline user was last seen', () => {
+    const lastSeenAt = new Date();
+    lastSeenAt.setHours(9, 5);
+    const time = lastSeenAt.toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+    const { rerender } = render(
+      <ChatHeader
+        {...defaultProps}
+        online={false}
+        lastSeenAt={lastSeenAt.toISOString()}
+      />
+    );
+    expect(screen.getByText(`last seen at ${time}`)).toBeInTheDocument();
+
+    const earlier = new Date('2024-01-03T12:00:00Z');
+    const day = earlier.toLocaleDateString([], {
+      day: 'numeric',
+      month: 'short',
+    });
+    rerender(
+      <ChatHeader
+        {...defaultProps}
+        online={false}
+        lastSeenAt={earlier.toISOString()}
+      />
+    );
+    expect(screen.getByText(`last seen ${day}`)).toBeInTheDocument();
+  });
+
+  it('shows who is typing instead of the status', () => {
+    const { rerender } = render(
+      <ChatHeader {...defaultProps} typing={['Alice']} />
+    );
+    expect(screen.getByText('Alice is typing…')).toBeInTheDocument();
+    expect(screen.queryByText('online')).not.toBeInTheDocument();
+
+    rerender(<ChatHeader {...defaultProps} typing={['Alice', 'Bob']} />);
+    expect(screen.getByText('Alice and Bob are typing…')).toBeInTheDocument();
+
+    rerender(
+      <ChatHeader {...defaultProps} typing={['Alice', 'Bob', 'Carol']} />
+    );
+    expect(
+      screen.getByText('Alice and 2 others are typing…')
+    ).toBeInTheDocument();
+  });
+
   it('displays avatar fallback when no avatar provided', () => {
     render(<ChatHeader {...defaultProps} avatar={null} />);
     // Avatar fallback should show first 2 letters of name
@@ -59,6 +109,18 @@ describe('ChatHeader', () => {
     expect(buttons).toHaveLength(3); // phone, video, info buttons
   });
 
+  it('starts voice and video calls in DMs only', async () => {
+    const user = userEvent.setup();
+    const onCall = jest.fn();
+    const { rerender } = render(<ChatHeader {...defaultProps} />);
+    expect(screen.getByRole('button', { name: 'Voice call' })).toBeDisabled();
+
+    rerender(<ChatHeader {...defaultProps} onCall={onCall} />);
+    await user.click(screen.getByRole('button', { name: 'Voice call' }));
+    await user.click(screen.getByRole('button', { name: 'Video call' }));
+    expect(onCall.mock.calls).toEqual([[false], [true]]);
+  });
+
   it('renders rightSlot content when provided', () => {
     const rightSlotContent = <button data-testid="logout-btn">Logout</button>;
     render(<ChatHeader {...defaultProps} rightSlot={rightSlotContent} />);
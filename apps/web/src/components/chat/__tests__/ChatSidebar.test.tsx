@@ -0,0 +1,109 @@
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DesktopSidebar } from '../ChatSidebar';
+import type { Conversation } from '@/lib/types/chat';
+
+jest.mock('../SidebarFooter', () => ({
+  SidebarFooter: () => null,
+}));
+
+// Radix's scroll area needs ResizeObserver, which jsdom lacks
+jest.mock('@/components/ui/scroll-area', () => ({
+  ScrollArea: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+}));
+
+const convo = (
+  id: string,
+  extra: Partial<Conversation> = {}
+): Conversation => ({
+  id,
+  name: id,
+  lastMessageAt: '2024-01-15T10:00:00Z',
+  ...extra,
+});
+
+const convos = [
+  convo('Quiet', { unreadCount: 4, muted: true, mutedUntil: null }),
+  convo('Second', { pinOrder: 1 }),
+  convo('Busy', { unreadCount: 2 }),
+  convo('First', { pinOrder: 0 }),
+  convo('Old', { archived: true }),
+];
+
+const names = () =>
+  screen
+    .getAllByRole('button', { name: /^Options for / })
+    .map(b => b.getAttribute('aria-label')!.replace('Options for ', ''));
+
+describe('DesktopSidebar', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('puts pinned conversations first and keeps the archive collapsed', async () => {
+    const user = userEvent.setup();
+    render(
+      <DesktopSidebar
+        convos={convos}
+        setActive={jest.fn()}
+        forceVisible
+        onUpdateSettings={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Pinned (2)')).toBeInTheDocument();
+    // A muted room stays out of Unread despite its unread messages
+    expect(screen.getByText('Unread (1)')).toBeInTheDocument();
+    expect(screen.getByText('Recent (1)')).toBeInTheDocument();
+    expect(screen.getByLabelText('Muted')).toBeInTheDocument();
+    // Nor does it show a badge for them
+    expect(screen.getByText('2')).toBeInTheDocument();
+    expect(screen.queryByText('4')).not.toBeInTheDocument();
+    expect(names()).toEqual(['First', 'Second', 'Busy', 'Quiet']);
+
+    await user.click(screen.getByRole('button', { name: 'Archived (1)' }));
+    expect(names()).toEqual(['First', 'Second', 'Busy', 'Quiet', 'Old']);
+  });
+
+  it('changes settings from the conversation menu', async () => {
+    const user = userEvent.setup();
+    const onUpdateSettings = jest.fn();
+    const onReorderPinned = jest.fn();
+    render(
+      <DesktopSidebar
+        convos={convos}
+        setActive={jest.fn()}
+        forceVisible
+        onUpdateSettings={onUpdateSettings}
+        onReorderPinned={onReorderPinned}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: 'Options for First' }));
+    expect(
+      screen.queryByRole('button', { name: 'Move up' })
+    ).not.toBeInTheDocument();
+    await user.click(screen.getByRole('button', { name: 'Move down' }));
+    expect(onReorderPinned).toHaveBeenCalledWith(['Second', 'First']);
+
+    await user.click(screen.getByRole('button', { name: 'Options for Busy' }));
+    const menu = screen.getByRole('dialog');
+    await user.click(within(menu).getByRole('button', { name: 'For 1 hour' }));
+    expect(onUpdateSettings).toHaveBeenCalledWith('Busy', {
+      muted: true,
+      mutedUntil: expect.any(String),
+    });
+
+    await user.click(screen.getByRole('button', { name: 'Options for Quiet' }));
+    await user.click(screen.getByRole('button', { name: 'Unmute' }));
+    expect(onUpdateSettings).toHaveBeenLastCalledWith('Quiet', {
+      muted: false,
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import LinkPreviewCard from '../LinkPreviewCard';
+import type { LinkPreview } from '@/lib/types/chat';
+
+const preview: LinkPreview = {
+  url: 'https://www.example.com/article',
+  title: 'An article',
+  description: 'What it is about',
+  imageUrl: 'https://cdn.example.com/cover.png',
+  siteName: null,
+};
+
+describe('LinkPreviewCard', () => {
+  it('links to the page and falls back to its host for the site', () => {
+    const { container } = render(
+      <LinkPreviewCard preview={preview} mine={false} />
+    );
+
+    expect(screen.getByRole('link')).toHaveAttribute(
+      'href',
+      'https://www.example.com/article'
+    );
+    expect(screen.getByText('example.com')).toBeInTheDocument();
+    expect(screen.getByText('An article')).toBeInTheDocument();
+    expect(screen.getByText('What it is about')).toBeInTheDocument();
+
+    const image = container.querySelector('img')!;
+    expect(image).toHaveAttribute('referrerpolicy', 'no-referrer');
+    fireEvent.error(image);
+    expect(container.querySelector('img')).not.toBeInTheDocument();
+  });
+
+  it('offers removal only when given a handler', async () => {
+    const user = userEvent.setup();
+    const onRemove = jest.fn();
+    const { rerender } = render(
+      <LinkPreviewCard preview={preview} mine={false} />
+    );
+    expect(
+      screen.queryByRole('button', { name: 'Remove preview' })
+    ).not.toBeInTheDocument();
+
+    rerender(<LinkPreviewCard preview={preview} mine onRemove={onRemove} />);
+    await user.click(screen.getByRole('button', { name: 'Remove preview' }));
+
+    expect(onRemove).toHaveBeenCalled();
+  });
+});
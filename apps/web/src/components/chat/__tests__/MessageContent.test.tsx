@@ -0,0 +1,60 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import MessageContent from '../MessageContent';
+
+describe('MessageContent', () => {
+  it('renders inline formatting', () => {
+    render(
+      <MessageContent text="**bold** _italic_ ~~gone~~ `code` snake_case_name" />
+    );
+
+    expect(screen.getByText('bold').tagName).toBe('STRONG');
+    expect(screen.getByText('italic').tagName).toBe('EM');
+    expect(screen.getByText('gone').tagName).toBe('S');
+    expect(screen.getByText('code').tagName).toBe('CODE');
+    expect(screen.getByText(/snake_case_name/)).toBeInTheDocument();
+  });
+
+  it('renders quotes, lists and highlighted code blocks', () => {
+    const { container } = render(
+      <MessageContent
+        text={
+          '> quoted\n\n- one\n- two\n\n```ts\nconst answer = 42; // yes\n```'
+        }
+      />
+    );
+
+    expect(container.querySelector('blockquote')).toHaveTextContent('quoted');
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+
+    const code = container.querySelector('pre[data-lang="ts"] code');
+    expect(code).toHaveTextContent('const answer = 42; // yes');
+    expect(screen.getByText('const')).toHaveClass('font-semibold');
+    expect(screen.getByText('// yes')).toHaveClass('italic');
+  });
+
+  it('keeps spoilers hidden until clicked', async () => {
+    const user = userEvent.setup();
+    render(<MessageContent text="The butler ||did it||" />);
+
+    const spoiler = screen.getByRole('button', {
+      name: 'Spoiler, click to reveal',
+    });
+    await user.click(spoiler);
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(screen.getByText('did it')).toBeInTheDocument();
+  });
+
+  it('never renders message text as markup', () => {
+    const { container } = render(
+      <MessageContent
+        text={'<img src=x onerror="alert(1)"> javascript:alert(1)'}
+      />
+    );
+
+    expect(container.querySelector('img')).not.toBeInTheDocument();
+    expect(container.querySelector('a')).not.toBeInTheDocument();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)">');
+  });
+});
@@ -0,0 +1,84 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import MessageSearchResults from '../MessageSearchResults';
+import { searchMessages } from '@/lib/api';
+import type { Conversation, MessageSearchHit } from '@/lib/types/chat';
+
+jest.mock('@/lib/api', () => ({
+  searchMessages: jest.fn(),
+}));
+
+describe('MessageSearchResults', () => {
+  const convos: Conversation[] = [
+    {
+      id: 'room1',
+      name: 'Design',
+      members: [{ id: 'user2', username: 'bob' }],
+    },
+  ];
+
+  const hit: MessageSearchHit = {
+    id: 'm1',
+    roomId: 'room1',
+    userId: 'user2',
+    senderUsername: 'bob',
+    createdAt: '2024-01-15T10:30:00Z',
+    snippet: 'we <mark>decided</mark> to ship',
+  };
+
+  beforeEach(() => {
+    (searchMessages as jest.Mock).mockResolvedValue({
+      results: [hit],
+      nextCursor: null,
+      hasMore: false,
+    });
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders highlighted snippets and opens the hit', async () => {
+    const user = userEvent.setup();
+    const onOpen = jest.fn();
+    render(
+      <MessageSearchResults query="decided" convos={convos} onOpen={onOpen} />
+    );
+
+    const match = await screen.findByText('decided');
+    expect(match.tagName).toBe('MARK');
+    expect(searchMessages).toHaveBeenCalledWith('decided', {});
+
+    await user.click(screen.getByText('Design'));
+    expect(onOpen).toHaveBeenCalledWith(hit);
+  });
+
+  it('passes room and sender filters to the search', async () => {
+    const user = userEvent.setup();
+    render(
+      <MessageSearchResults
+        query="decided"
+        convos={convos}
+        onOpen={jest.fn()}
+      />
+    );
+
+    await user.click(screen.getByLabelText('Search filters'));
+    await user.selectOptions(screen.getByLabelText('Chat'), 'room1');
+    await user.selectOptions(screen.getByLabelText('Sender'), 'user2');
+
+    await screen.findByText('decided');
+    expect(searchMessages).toHaveBeenLastCalledWith('decided', {
+      roomId: 'room1',
+      senderId: 'user2',
+    });
+  });
+
+  it('waits for at least two characters', () => {
+    render(
+      <MessageSearchResults query="d" convos={convos} onOpen={jest.fn()} />
+    );
+    expect(screen.queryByText('Messages')).not.toBeInTheDocument();
+    expect(searchMessages).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,57 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PinnedMessageBar from '../PinnedMessageBar';
+import type { PinnedMessage } from '@/lib/types/chat';
+
+const pin = (messageId: string, content: string): PinnedMessage => ({
+  roomId: 'room1',
+  messageId,
+  content,
+  senderId: 'user1',
+  createdAt: '2025-01-01T10:00:00.000Z',
+  pinnedBy: { id: 'user1', username: 'alice' },
+  pinnedAt: '2025-01-01T11:00:00.000Z',
+});
+
+describe('PinnedMessageBar', () => {
+  const pins = [pin('m2', 'Newest pin'), pin('m1', 'Oldest pin')];
+
+  it('renders nothing without pins', () => {
+    const { container } = render(
+      <PinnedMessageBar pins={[]} onJump={jest.fn()} />
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('jumps to the shown pin and cycles to the next one', async () => {
+    const user = userEvent.setup();
+    const onJump = jest.fn();
+    render(<PinnedMessageBar pins={pins} onJump={onJump} />);
+
+    expect(screen.getByText('Pinned message 1 of 2')).toBeInTheDocument();
+    await user.click(screen.getByText('Newest pin'));
+    expect(onJump).toHaveBeenLastCalledWith('m2');
+
+    expect(screen.getByText('Pinned message 2 of 2')).toBeInTheDocument();
+    await user.click(screen.getByText('Oldest pin'));
+    expect(onJump).toHaveBeenLastCalledWith('m1');
+
+    // Wraps back around to the newest
+    expect(screen.getByText('Newest pin')).toBeInTheDocument();
+  });
+
+  it('only offers unpinning when allowed', async () => {
+    const user = userEvent.setup();
+    const onUnpin = jest.fn();
+    const { rerender } = render(
+      <PinnedMessageBar pins={pins} onJump={jest.fn()} />
+    );
+    expect(screen.queryByLabelText('Unpin message')).not.toBeInTheDocument();
+
+    rerender(
+      <PinnedMessageBar pins={pins} onJump={jest.fn()} onUnpin={onUnpin} />
+    );
+    await user.click(screen.getByLabelText('Unpin message'));
+    expect(onUnpin).toHaveBeenCalledWith('m2');
+  });
+});
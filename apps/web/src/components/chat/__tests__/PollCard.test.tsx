@@ -0,0 +1,117 @@
+import { act, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import PollCard from '../PollCard';
+import type { Poll } from '@/lib/types/chat';
+
+const poll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 'poll1',
+  multipleChoice: false,
+  anonymous: false,
+  closesAt: null,
+  closedAt: null,
+  options: [
+    { id: 'opt-a', text: 'Pizza', votes: 1, voterIds: ['bob-id'] },
+    { id: 'opt-b', text: 'Sushi', votes: 3, voterIds: ['a', 'b', 'c'] },
+  ],
+  voterCount: 4,
+  ...overrides,
+});
+
+describe('PollCard', () => {
+  it('votes on click for single-choice polls and shows the tally', async () => {
+    const user = userEvent.setup();
+    const onVote = jest.fn();
+    render(
+      <PollCard
+        question="Lunch?"
+        poll={poll()}
+        mine={false}
+        nameOf={id => (id === 'bob-id' ? 'bob' : undefined)}
+        onVote={onVote}
+      />
+    );
+
+    expect(screen.getByText('Lunch?')).toBeInTheDocument();
+    expect(screen.getByText('4 voters')).toBeInTheDocument();
+    expect(screen.getByRole('radio', { name: 'Pizza' })).toHaveAttribute(
+      'title',
+      'bob'
+    );
+
+    await user.click(screen.getByRole('radio', { name: 'Sushi' }));
+    expect(onVote).toHaveBeenCalledWith(['opt-b']);
+  });
+
+  it('collects several choices before voting on multiple-choice polls', async () => {
+    const user = userEvent.setup();
+    const onVote = jest.fn();
+    render(
+      <PollCard
+        question="Which days?"
+        poll={poll({ multipleChoice: true, anonymous: true })}
+        mine={false}
+        onVote={onVote}
+      />
+    );
+
+    expect(screen.getByText(/Anonymous · multiple choice/)).toBeInTheDocument();
+    await user.click(screen.getByRole('checkbox', { name: 'Pizza' }));
+    await user.click(screen.getByRole('checkbox', { name: 'Sushi' }));
+    expect(onVote).not.toHaveBeenCalled();
+
+    await user.click(screen.getByRole('button', { name: 'Vote' }));
+    expect(onVote).toHaveBeenCalledWith(['opt-a', 'opt-b']);
+  });
+
+  it('offers retracting a vote and closing when allowed', async () => {
+    const user = userEvent.setup();
+    const onRetract = jest.fn();
+    const onClose = jest.fn();
+    render(
+      <PollCard
+        question="Lunch?"
+        poll={poll({ myVotes: ['opt-a'] })}
+        mine
+        onVote={jest.fn()}
+        onRetract={onRetract}
+        onClose={onClose}
+      />
+    );
+
+    expect(screen.getByRole('radio', { name: 'Pizza' })).toBeChecked();
+    await user.click(screen.getByRole('button', { name: 'Retract vote' }));
+    await user.click(screen.getByRole('button', { name: 'Close poll' }));
+
+    expect(onRetract).toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalled();
+  });
+
+  it('stops taking votes once the close time passes', () => {
+    jest.useFakeTimers();
+    try {
+      const closesAt = new Date(Date.now() + 60_000).toISOString();
+      render(
+        <PollCard
+          question="Lunch?"
+          poll={poll({ closesAt, myVotes: ['opt-a'] })}
+          mine={false}
+          onVote={jest.fn()}
+          onRetract={jest.fn()}
+        />
+      );
+      expect(screen.getByRole('radio', { name: 'Sushi' })).toBeEnabled();
+
+      act(() => {
+        jest.advanceTimersByTime(60_000);
+      });
+
+      expect(screen.getByRole('radio', { name: 'Sushi' })).toBeDisabled();
+      expect(screen.getByText(/closed$/)).toBeInTheDocument();
+      expect(
+        screen.queryByRole('button', { name: 'Retract vote' })
+      ).not.toBeInTheDocument();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
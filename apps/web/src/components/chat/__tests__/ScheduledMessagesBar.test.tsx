@@ -0,0 +1,53 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ScheduledMessagesBar from '../ScheduledMessagesBar';
+import type { ScheduledMessage } from '@/lib/types/chat';
+
+const scheduled = (
+  id: string,
+  content: string,
+  error: string | null = null
+): ScheduledMessage => ({
+  id,
+  roomId: 'room1',
+  content,
+  replyToId: null,
+  sendAt: '2025-01-02T09:00:00.000Z',
+  status: error ? 'failed' : 'pending',
+  error,
+  createdAt: '2025-01-01T10:00:00.000Z',
+});
+
+describe('ScheduledMessagesBar', () => {
+  it('renders nothing without scheduled messages', () => {
+    const { container } = render(
+      <ScheduledMessagesBar scheduled={[]} onCancel={jest.fn()} />
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('marks failed messages and cancels by id', async () => {
+    const user = userEvent.setup();
+    const onCancel = jest.fn();
+    render(
+      <ScheduledMessagesBar
+        scheduled={[
+          scheduled('s1', 'Good morning'),
+          scheduled('s2', 'Too late', 'User is not a member of this room'),
+        ]}
+        onCancel={onCancel}
+      />
+    );
+
+    expect(screen.getByText('Good morning')).toBeInTheDocument();
+    expect(screen.getByText('Not sent')).toHaveAttribute(
+      'title',
+      'User is not a member of this room'
+    );
+
+    await user.click(
+      screen.getAllByLabelText('Cancel scheduled message')[1] as HTMLElement
+    );
+    expect(onCancel).toHaveBeenCalledWith('s2');
+  });
+});
@@ -0,0 +1,103 @@
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import ThreadPanel from '../ThreadPanel';
+import type { Message } from '@/lib/types/chat';
+
+// Mock Radix UI components used by the bubbles
+jest.mock('@/components/ui/popover', () => ({
+  Popover: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+  PopoverContent: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+  PopoverTrigger: ({
+    children,
+    asChild,
+  }: {
+    children: React.ReactNode;
+    asChild?: boolean;
+  }) => (asChild ? children : <div>{children}</div>),
+}));
+
+jest.mock('@/components/ui/tooltip', () => ({
+  TooltipProvider: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+  Tooltip: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+  TooltipTrigger: ({
+    children,
+    asChild,
+  }: {
+    children: React.ReactNode;
+    asChild?: boolean;
+  }) => (asChild ? children : <div>{children}</div>),
+  TooltipContent: ({ children }: { children: React.ReactNode }) => (
+    <div>{children}</div>
+  ),
+}));
+
+jest.mock('@/lib/api', () => ({
+  listMessageEdits: jest.fn().mockResolvedValue([]),
+}));
+
+describe('ThreadPanel', () => {
+  const parent: Message = {
+    id: 'p1',
+    content: 'Lunch plans?',
+    createdAt: '2024-01-15T10:30:00Z',
+    userId: 'user1',
+    roomId: 'conv1',
+    replyCount: 2,
+  };
+
+  const reply: Message = {
+    id: 'r1',
+    content: 'Pizza',
+    createdAt: '2024-01-15T10:31:00Z',
+    userId: 'user2',
+    roomId: 'conv1',
+    replyToId: 'p1',
+    replyTo: { id: 'p1', content: 'Lunch plans?', userId: 'user1' },
+  };
+
+  const defaultProps = {
+    me: 'user2',
+    parent,
+    replies: [reply],
+    onClose: jest.fn(),
+    onSendReply: jest.fn(),
+  };
+
+  it('renders the parent once and its replies', () => {
+    render(<ThreadPanel {...defaultProps} />);
+
+    expect(screen.getAllByText(/Lunch/)).toHaveLength(1);
+    expect(screen.getByText(/Pizza/)).toBeInTheDocument();
+    expect(screen.getByText('2 replies')).toBeInTheDocument();
+  });
+
+  it('sends replies from the composer', async () => {
+    const user = userEvent.setup();
+    const onSendReply = jest.fn();
+    render(<ThreadPanel {...defaultProps} onSendReply={onSendReply} />);
+
+    await user.type(screen.getByLabelText('Reply in thread'), 'Sushi{Enter}');
+
+    expect(onSendReply).toHaveBeenCalledWith('Sushi');
+    expect(screen.getByLabelText('Reply in thread')).toHaveValue('');
+  });
+
+  it('loads earlier replies when more exist', async () => {
+    const user = userEvent.setup();
+    const onLoadOlder = jest.fn();
+    render(
+      <ThreadPanel {...defaultProps} hasOlder onLoadOlder={onLoadOlder} />
+    );
+
+    await user.click(screen.getByText('Load earlier replies'));
+    expect(onLoadOlder).toHaveBeenCalled();
+  });
+});
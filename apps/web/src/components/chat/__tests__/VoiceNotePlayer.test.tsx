@@ -0,0 +1,94 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import VoiceNotePlayer from '../VoiceNotePlayer';
+import type { Attachment } from '@/lib/types/chat';
+
+const note = (overrides: Partial<Attachment> = {}): Attachment => ({
+  id: 'att1',
+  fileName: 'voice-note.webm',
+  mimeType: 'audio/webm',
+  size: 2048,
+  url: '/attachments/att1',
+  durationMs: 65_000,
+  waveform: [10, 80, 40, 100],
+  playedAt: null,
+  ...overrides,
+});
+
+describe('VoiceNotePlayer', () => {
+  // jsdom doesn't play media; pretend it starts right away
+  beforeEach(() => {
+    jest.spyOn(HTMLMediaElement.prototype, 'play').mockImplementation(function (
+      this: HTMLMediaElement
+    ) {
+      this.dispatchEvent(new Event('play'));
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('shows the stored length and reports the first play', async () => {
+    const user = userEvent.setup();
+    const onPlay = jest.fn();
+    render(
+      <VoiceNotePlayer attachment={note()} mine={false} onPlay={onPlay} />
+    );
+
+    expect(screen.getByText('1:05')).toBeInTheDocument();
+    await user.click(
+      screen.getByRole('button', { name: 'Play voice message' })
+    );
+
+    expect(onPlay).toHaveBeenCalledTimes(1);
+    expect(
+      screen.getByRole('button', { name: 'Pause voice message' })
+    ).toBeInTheDocument();
+  });
+
+  it('cycles the playback speed', async () => {
+    const user = userEvent.setup();
+    const { container } = render(
+      <VoiceNotePlayer attachment={note()} mine={false} />
+    );
+    const audio = container.querySelector('audio')!;
+
+    await user.click(screen.getByRole('button', { name: 'Playback speed 1×' }));
+    expect(audio.playbackRate).toBe(1.5);
+    await user.click(
+      screen.getByRole('button', { name: 'Playback speed 1.5×' })
+    );
+    expect(audio.playbackRate).toBe(2);
+    await user.click(screen.getByRole('button', { name: 'Playback speed 2×' }));
+    expect(audio.playbackRate).toBe(1);
+  });
+
+  it('seeks with the keyboard on the waveform', () => {
+    render(<VoiceNotePlayer attachment={note()} mine={false} />);
+    const scrubber = screen.getByRole('slider', {
+      name: 'Voice message position',
+    });
+
+    fireEvent.keyDown(scrubber, { key: 'ArrowRight' });
+    expect(scrubber).toHaveAttribute('aria-valuenow', '5');
+    fireEvent.keyDown(scrubber, { key: 'End' });
+    expect(scrubber).toHaveAttribute('aria-valuetext', '1:05');
+    fireEvent.keyDown(scrubber, { key: 'ArrowRight' });
+    expect(scrubber).toHaveAttribute('aria-valuenow', '65');
+  });
+
+  it('marks the sender’s note once it has been played', () => {
+    const { rerender } = render(<VoiceNotePlayer attachment={note()} mine />);
+    expect(
+      screen.queryByRole('img', { name: 'Played' })
+    ).not.toBeInTheDocument();
+
+    rerender(
+      <VoiceNotePlayer
+        attachment={note({ playedAt: '2025-09-17T10:00:00.000Z' })}
+        mine
+      />
+    );
+    expect(screen.getByRole('img', { name: 'Played' })).toBeInTheDocument();
+  });
+});
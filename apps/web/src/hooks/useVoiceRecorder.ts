@@ -0,0 +1,127 @@
+// hooks/useVoiceRecorder.ts
+import { useEffect, useRef, useState } from 'react';
+import type { VoiceNoteMeta } from '@/lib/api';
+import {
+  measureRecording,
+  recordingFileName,
+  recordingType,
+} from '@/lib/voice';
+
+// Shorter presses count as a tap on the button, not a recording
+const MIN_RECORDING_MS = 500;
+
+export type VoiceRecording = { file: File; voice: VoiceNoteMeta };
+
+type Session = {
+  recorder: MediaRecorder;
+  stream: MediaStream;
+  chunks: Blob[];
+  type: string;
+  startedAt: number;
+  timer: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Push-to-record: start() when the button goes down, stop() when it comes
+ * up (resolving with the note, or null when it was too short) and cancel()
+ * to throw the recording away. The microphone is only held while recording.
+ */
+export function useVoiceRecorder() {
+  const [recording, setRecording] = useState(false);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const session = useRef<Session | null>(null);
+  // Pending while the microphone permission prompt is up, so a release
+  // during it still ends the recording
+  const opening = useRef<Promise<void> | null>(null);
+
+  const release = (current: Session) => {
+    if (session.current === current) session.current = null;
+    clearInterval(current.timer);
+    current.stream.getTracks().forEach(t => t.stop());
+    setRecording(false);
+    setElapsedMs(0);
+  };
+
+  const open = async (type: string) => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      setError('Microphone access was denied');
+      return;
+    }
+    const recorder = new MediaRecorder(stream, { mimeType: type });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = e => {
+      if (e.data.size) chunks.push(e.data);
+    };
+    recorder.start();
+    const startedAt = Date.now();
+    session.current = {
+      recorder,
+      stream,
+      chunks,
+      type,
+      startedAt,
+      timer: setInterval(() => setElapsedMs(Date.now() - startedAt), 200),
+    };
+    setRecording(true);
+  };
+
+  const start = async () => {
+    if (session.current || opening.current) return;
+    setError(null);
+    const type = recordingType();
+    if (!type || !navigator.mediaDevices?.getUserMedia) {
+      setError('Voice messages are not supported in this browser');
+      return;
+    }
+    opening.current = open(type);
+    await opening.current;
+    opening.current = null;
+  };
+
+  const stop = async (): Promise<VoiceRecording | null> => {
+    await opening.current;
+    const current = session.current;
+    if (!current) return null;
+    const recordedMs = Date.now() - current.startedAt;
+    const stopped = new Promise(resolve => {
+      current.recorder.onstop = resolve;
+    });
+    current.recorder.stop();
+    release(current);
+    if (recordedMs < MIN_RECORDING_MS) return null;
+    await stopped;
+    // MediaRecorder labels its output with codecs (audio/webm;codecs=opus);
+    // the upload allow-list only knows the container
+    const blob = new Blob(current.chunks, { type: current.type });
+    const voice = await measureRecording(blob, recordedMs);
+    const file = new File([blob], recordingFileName(current.type), {
+      type: current.type,
+    });
+    return { file, voice };
+  };
+
+  const cancel = async () => {
+    await opening.current;
+    const current = session.current;
+    if (!current) return;
+    current.recorder.stop();
+    release(current);
+  };
+
+  // Let go of the microphone if the composer goes away mid-recording
+  useEffect(
+    () => () => {
+      const current = session.current;
+      if (!current) return;
+      current.recorder.stop();
+      release(current);
+    },
+    []
+  );
+
+  return { recording, elapsedMs, error, start, stop, cancel };
+}
@@ -0,0 +1,20 @@
+import { safeNextPath } from '../auth';
+
+describe('safeNextPath', () => {
+  const origin = 'https://chat.example.com';
+
+  it('keeps paths within the app', () => {
+    expect(safeNextPath('/invite/abc?x=1#top', origin)).toBe(
+      '/invite/abc?x=1#top'
+    );
+  });
+
+  it('sends anything that leaves the site home', () => {
+    expect(safeNextPath(null, origin)).toBe('/');
+    expect(safeNextPath('https://evil.com', origin)).toBe('/');
+    expect(safeNextPath('//evil.com', origin)).toBe('/');
+    // Browsers read a backslash as a slash, making this //evil.com
+    expect(safeNextPath('/\\evil.com', origin)).toBe('/');
+    expect(safeNextPath('/\t/evil.com', origin)).toBe('/');
+  });
+});
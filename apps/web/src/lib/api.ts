@@ -1,4 +1,27 @@
-import { Conversation, Message } from './types/chat';
+import {
+  Attachment,
+  ChannelSummary,
+  Conversation,
+  ConversationSettings,
+  ForwardResult,
+  GroupInfo,
+  GroupInviteLink,
+  GroupInvitePreview,
+  GroupJoinRequest,
+  InviteRedemption,
+  Message,
+  MessageDeleteScope,
+  MessageDeletion,
+  MessageEdit,
+  MessagePage,
+  MessageSearchPage,
+  PinnedMessage,
+  PinRemoval,
+  PollUpdate,
+  ReadReceipt,
+  ScheduledMessage,
+  ThreadPage,
+} from './types/chat';
 
 const BASE = '/api'; // goes through Next BFF: /app/api/[...path]/route.ts
 
@@ -275,14 +298,196 @@ export async function apiPostData<T>(
   return parseApiResponse<T>(response);
 }
 
+export async function apiPatchData<T>(
+  path: string,
+  data?: Json,
+  init?: RequestInit
+): Promise<T> {
+  const response = await apiPatch<T>(path, data, init);
+  return parseApiResponse<T>(response);
+}
+
+export async function apiPutData<T>(
+  path: string,
+  data?: Json,
+  init?: RequestInit
+): Promise<T> {
+  const response = await apiPut<T>(path, data, init);
+  return parseApiResponse<T>(response);
+}
+
+export async function apiDeleteData<T>(
+  path: string,
+  init?: RequestInit
+): Promise<T> {
+  const response = await apiDelete<T>(path, init);
+  return parseApiResponse<T>(response);
+}
+
 export const getMe = () =>
   apiGetData<{ id: string; username: string }>('/users/me');
 
 export const listConversations = () =>
   apiGetData<Conversation[]>('/chat/conversations');
 
-export const listMessages = (roomId: string, limit = 5000) =>
-  apiGetData<Message[]>(`/chat/rooms/${roomId}/messages?limit=${limit}`);
+export const listMessages = (
+  roomId: string,
+  opts: { cursor?: string; direction?: 'before' | 'after'; limit?: number } = {}
+) => {
+  const params = new URLSearchParams({ limit: String(opts.limit ?? 50) });
+  if (opts.cursor) params.set('cursor', opts.cursor);
+  if (opts.direction) params.set('direction', opts.direction);
+  return apiGetData<MessagePage>(`/chat/rooms/${roomId}/messages?${params}`);
+};
+
+export const listThreadReplies = (
+  messageId: string,
+  opts: { cursor?: string; direction?: 'before' | 'after'; limit?: number } = {}
+) => {
+  const params = new URLSearchParams({ limit: String(opts.limit ?? 50) });
+  if (opts.cursor) params.set('cursor', opts.cursor);
+  if (opts.direction) params.set('direction', opts.direction);
+  return apiGetData<ThreadPage>(
+    `/chat/messages/${messageId}/replies?${params}`
+  );
+};
+
+export const getMessageContext = (messageId: string, limit = 50) =>
+  apiGetData<MessagePage>(
+    `/chat/messages/${messageId}/context?limit=${limit}`
+  );
+
+export type MessageSearchFilters = {
+  roomId?: string;
+  senderId?: string;
+  from?: string; // ISO date-time
+  to?: string;
+};
+
+export const searchMessages = (
+  q: string,
+  filters: MessageSearchFilters = {},
+  cursor?: string
+) => {
+  const params = new URLSearchParams({ q });
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, value);
+  }
+  if (cursor) params.set('cursor', cursor);
+  return apiGetData<MessageSearchPage>(`/chat/search?${params}`);
+};
+
+export const editMessage = (messageId: string, content: string) =>
+  apiPatchData<Message>(`/chat/messages/${messageId}`, { content });
+
+export const listMessageEdits = (messageId: string) =>
+  apiGetData<MessageEdit[]>(`/chat/messages/${messageId}/edits`);
+
+export const deleteMessage = (messageId: string, scope: MessageDeleteScope) =>
+  apiDeleteData<MessageDeletion>(
+    `/chat/messages/${messageId}?scope=${scope}`
+  );
+
+export const forwardMessages = (messageIds: string[], roomIds: string[]) =>
+  apiPostData<ForwardResult[]>('/chat/messages/forward', {
+    messageIds,
+    roomIds,
+  });
+
+export const listReadReceipts = (roomId: string) =>
+  apiGetData<ReadReceipt[]>(`/chat/rooms/${roomId}/receipts`);
+
+export const markRoomRead = (roomId: string, messageId: string) =>
+  apiPostData<{ receipt: ReadReceipt | null }>(`/chat/rooms/${roomId}/read`, {
+    messageId,
+  });
+
+// Only the settings given change; archiving unpins and pinning unarchives
+export type ConversationSettingsChange = {
+  muted?: boolean;
+  mutedUntil?: string | null; // with muted: true; null mutes until unmuted
+  archived?: boolean;
+  pinned?: boolean;
+};
+
+export const updateConversationSettings = (
+  roomId: string,
+  changes: ConversationSettingsChange
+) =>
+  apiPatchData<ConversationSettings>(`/chat/rooms/${roomId}/settings`, changes);
+
+// Must list every pinned conversation, in the new order
+export const reorderPinnedConversations = (roomIds: string[]) =>
+  apiPutData<ConversationSettings[]>('/chat/conversations/pin-order', {
+    roomIds,
+  });
+
+export const listPins = (roomId: string) =>
+  apiGetData<PinnedMessage[]>(`/chat/rooms/${roomId}/pins`);
+
+export const pinMessage = (messageId: string) =>
+  apiPostData<PinnedMessage>(`/chat/messages/${messageId}/pin`);
+
+export const unpinMessage = (messageId: string) =>
+  apiDeleteData<PinRemoval>(`/chat/messages/${messageId}/pin`);
+
+export const removeLinkPreview = (messageId: string) =>
+  apiDeleteData<{ ok: true }>(`/chat/messages/${messageId}/preview`);
+
+export type NewPoll = {
+  question: string;
+  options: string[];
+  multipleChoice?: boolean;
+  anonymous?: boolean;
+  closesAt?: string; // ISO
+};
+
+export const createPoll = (roomId: string, poll: NewPoll) =>
+  apiPostData<Message>(`/chat/rooms/${roomId}/polls`, poll);
+
+export const closePoll = (messageId: string) =>
+  apiPostData<PollUpdate>(`/chat/messages/${messageId}/poll/close`);
+
+export const scheduleMessage = (
+  roomId: string,
+  message: { content: string; sendAt: string; replyToId?: string }
+) => apiPostData<ScheduledMessage>(`/chat/rooms/${roomId}/scheduled`, message);
+
+export const listScheduledMessages = (roomId?: string) =>
+  apiGetData<ScheduledMessage[]>(
+    roomId ? `/chat/scheduled?roomId=${roomId}` : '/chat/scheduled'
+  );
+
+export const updateScheduledMessage = (
+  id: string,
+  changes: { content?: string; sendAt?: string }
+) => apiPatchData<ScheduledMessage>(`/chat/scheduled/${id}`, changes);
+
+export const cancelScheduledMessage = (id: string) =>
+  apiDeleteData<{ ok: true }>(`/chat/scheduled/${id}`);
+
+// The browser sets the multipart boundary itself, so no content-type here
+// What the recording browser measured for a voice note
+export type VoiceNoteMeta = {
+  durationMs: number;
+  waveform: number[]; // peak levels 0-100
+};
+
+export const uploadAttachment = (file: File, voice?: VoiceNoteMeta) => {
+  const body = new FormData();
+  body.append('file', file);
+  if (voice) {
+    body.append('durationMs', String(voice.durationMs));
+    body.append('waveform', voice.waveform.join(','));
+  }
+  return apiFetch('/attachments', { method: 'POST', body }).then(res =>
+    parseApiResponse<Attachment>(res)
+  );
+};
+
+// Attachment URLs from the API are relative to it; route them through the BFF
+export const attachmentUrl = ({ url }: Pick<Attachment, 'url'>) =>
+  url.startsWith('/') ? `${BASE}${url}` : url;
 
 export const startDm = (username: string) =>
   apiPostData<{ id: string }>('/chat/dm/start', { username });
@@ -290,6 +495,77 @@ export const startDm = (username: string) =>
 export const createGroup = (name: string, memberIds: string[]) =>
   apiPostData<{ id: string }>('/chat/groups', { name, memberIds });
 
+export const updateGroup = (
+  roomId: string,
+  changes: { name?: string; avatar?: string | null }
+) => apiPatchData<GroupInfo>(`/chat/groups/${roomId}`, changes);
+
+export const addGroupMembers = (roomId: string, userIds: string[]) =>
+  apiPostData<GroupInfo>(`/chat/groups/${roomId}/members`, { userIds });
+
+export const removeGroupMember = (roomId: string, userId: string) =>
+  apiDeleteData<GroupInfo>(`/chat/groups/${roomId}/members/${userId}`);
+
+export const setGroupMemberRole = (
+  roomId: string,
+  userId: string,
+  role: 'admin' | 'member'
+) =>
+  apiPatchData<GroupInfo>(`/chat/groups/${roomId}/members/${userId}`, {
+    role,
+  });
+
+export const transferGroupOwnership = (roomId: string, userId: string) =>
+  apiPostData<GroupInfo>(`/chat/groups/${roomId}/owner`, { userId });
+
+export const leaveGroup = (roomId: string) =>
+  apiPostData<{ ok: true }>(`/chat/groups/${roomId}/leave`, {});
+
+export const listChannels = (q = '') =>
+  apiGetData<ChannelSummary[]>(`/chat/channels?q=${encodeURIComponent(q)}`);
+
+export const createChannel = (name: string) =>
+  apiPostData<{ id: string }>('/chat/channels', { name });
+
+export const joinChannel = (roomId: string) =>
+  apiPostData<GroupInfo>(`/chat/channels/${roomId}/join`);
+
+export const leaveChannel = (roomId: string) =>
+  apiPostData<{ ok: true }>(`/chat/channels/${roomId}/leave`);
+
+export const createInvite = (
+  roomId: string,
+  options: {
+    expiresInSeconds?: number;
+    maxUses?: number;
+    requiresApproval?: boolean;
+  } = {}
+) => apiPostData<GroupInviteLink>(`/chat/groups/${roomId}/invites`, options);
+
+export const listInvites = (roomId: string) =>
+  apiGetData<GroupInviteLink[]>(`/chat/groups/${roomId}/invites`);
+
+export const revokeInvite = (roomId: string, inviteId: string) =>
+  apiDeleteData<{ ok: true }>(`/chat/groups/${roomId}/invites/${inviteId}`);
+
+export const listJoinRequests = (roomId: string) =>
+  apiGetData<GroupJoinRequest[]>(`/chat/groups/${roomId}/join-requests`);
+
+export const approveJoinRequest = (roomId: string, userId: string) =>
+  apiPostData<GroupInfo>(`/chat/groups/${roomId}/join-requests/${userId}`);
+
+export const rejectJoinRequest = (roomId: string, userId: string) =>
+  apiDeleteData<{ ok: true }>(`/chat/groups/${roomId}/join-requests/${userId}`);
+
+export const previewInvite = (token: string) =>
+  apiGetData<GroupInvitePreview>(`/chat/invites/${encodeURIComponent(token)}`);
+
+export const redeemInvite = (token: string) =>
+  apiPostData<InviteRedemption>(`/chat/invites/${encodeURIComponent(token)}`);
+
+export const inviteUrl = ({ token }: Pick<GroupInviteLink, 'token'>) =>
+  `${getBaseUrl()}/join/${token}`;
+
 export const searchUsers = (q: string) =>
   apiGetData<Array<{ id: string; username: string; displayName?: string }>>(
     `/users/search?q=${encodeURIComponent(q)}`
@@ -1,2 +1,17 @@
 export const API = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001';
 export const ACCESS_COOKIE = process.env.NEXT_PUBLIC_AUTH_COOKIE || 'access';
+
+/**
+ * Where to go after signing in: `next` if it resolves to a page of this app,
+ * else home. Resolving it the way the browser will catches `//host` and
+ * `/\host`, which both leave the site.
+ */
+export function safeNextPath(next: string | null, origin: string): string {
+  if (!next?.startsWith('/')) return '/';
+  try {
+    const url = new URL(next, origin);
+    return url.origin === origin ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+}
@@ -0,0 +1,103 @@
+import type { Call } from '@/lib/types/chat';
+
+// How far along this device's call is; failed ones stay up to show why
+export type CallPhase =
+  | 'calling'
+  | 'ringing'
+  | 'connecting'
+  | 'active'
+  | 'failed';
+
+/** Microphone, plus the camera for video calls */
+export const openCallMedia = (video: boolean) =>
+  navigator.mediaDevices.getUserMedia({
+    audio: true,
+    video: video ? { facingMode: 'user' } : false,
+  });
+
+export const stopMedia = (stream: MediaStream | null | undefined) =>
+  stream?.getTracks().forEach(t => t.stop());
+
+export type CallSession = {
+  /** Caller: the offer to send once the callee has answered */
+  createOffer: () => Promise<string>;
+  /** Callee: takes the caller's offer and returns the answer to send back */
+  answerOffer: (sdp: string) => Promise<string>;
+  /** Caller: takes the callee's answer */
+  acceptAnswer: (sdp: string) => Promise<void>;
+  addIceCandidate: (candidate: RTCIceCandidateInit) => Promise<void>;
+  close: () => void;
+};
+
+/**
+ * One side of a call's peer connection. Without ICE servers only host
+ * candidates are gathered, which is enough on the same network; anything
+ * else needs STUN/TURN URLs configured on the server.
+ */
+export function createCallSession({
+  call,
+  stream,
+  onIceCandidate,
+  onRemoteStream,
+  onFailed,
+}: {
+  call: Pick<Call, 'iceServers'>;
+  stream: MediaStream;
+  onIceCandidate: (candidate: RTCIceCandidateInit) => void;
+  onRemoteStream: (stream: MediaStream) => void;
+  onFailed: () => void;
+}): CallSession {
+  const peer = new RTCPeerConnection({
+    iceServers: call.iceServers.length ? [{ urls: call.iceServers }] : [],
+  });
+  // Candidates can arrive before the description they belong to
+  let pending: RTCIceCandidateInit[] | null = [];
+
+  stream.getTracks().forEach(track => peer.addTrack(track, stream));
+
+  peer.onicecandidate = e => {
+    if (e.candidate) onIceCandidate(e.candidate.toJSON());
+  };
+  peer.ontrack = e => {
+    const [remote] = e.streams;
+    if (remote) onRemoteStream(remote);
+  };
+  peer.onconnectionstatechange = () => {
+    if (peer.connectionState === 'failed') onFailed();
+  };
+
+  const flush = async () => {
+    const queued = pending ?? [];
+    pending = null;
+    for (const candidate of queued) await peer.addIceCandidate(candidate);
+  };
+
+  return {
+    createOffer: async () => {
+      const offer = await peer.createOffer();
+      await peer.setLocalDescription(offer);
+      return offer.sdp ?? '';
+    },
+    answerOffer: async sdp => {
+      await peer.setRemoteDescription({ type: 'offer', sdp });
+      await flush();
+      const answer = await peer.createAnswer();
+      await peer.setLocalDescription(answer);
+      return answer.sdp ?? '';
+    },
+    acceptAnswer: async sdp => {
+      await peer.setRemoteDescription({ type: 'answer', sdp });
+      await flush();
+    },
+    addIceCandidate: async candidate => {
+      if (pending) pending.push(candidate);
+      else await peer.addIceCandidate(candidate);
+    },
+    close: () => {
+      peer.onicecandidate = null;
+      peer.ontrack = null;
+      peer.onconnectionstatechange = null;
+      peer.close();
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import type { Conversation } from '@/lib/types/chat';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// null mutes until unmuted
+export const MUTE_OPTIONS: { label: string; ms: number | null }[] = [
+  { label: 'For 1 hour', ms: HOUR_MS },
+  { label: 'For 8 hours', ms: 8 * HOUR_MS },
+  { label: 'For 1 week', ms: 7 * 24 * HOUR_MS },
+  { label: 'Until I unmute', ms: null },
+];
+
+/** Timed mutes run out on their own, without the server lifting them */
+export const isMuted = (
+  c: Pick<Conversation, 'muted' | 'mutedUntil'>,
+  now = Date.now()
+) => !!c.muted && (!c.mutedUntil || Date.parse(c.mutedUntil) > now);
+
+export const isPinned = (c: Pick<Conversation, 'pinOrder'>) =>
+  c.pinOrder != null;
+
+// Newest message first; conversations without messages go to the bottom
+const byLatestMessage = (a: Conversation, b: Conversation) => {
+  if (!a.lastMessageAt && !b.lastMessageAt) return 0;
+  if (!a.lastMessageAt) return 1;
+  if (!b.lastMessageAt) return -1;
+  return Date.parse(b.lastMessageAt) - Date.parse(a.lastMessageAt);
+};
+
+/**
+ * Sidebar sections. Pinned conversations keep their manual order, unread
+ * ones come next unless muted, and archived ones are kept apart.
+ */
+export function groupConversations(convos: Conversation[], now = Date.now()) {
+  const pinned: Conversation[] = [];
+  const unread: Conversation[] = [];
+  const recent: Conversation[] = [];
+  const archived: Conversation[] = [];
+
+  for (const c of convos) {
+    if (c.archived) archived.push(c);
+    else if (isPinned(c)) pinned.push(c);
+    else if (c.unreadCount && !isMuted(c, now)) unread.push(c);
+    else recent.push(c);
+  }
+
+  pinned.sort((a, b) => a.pinOrder! - b.pinOrder!);
+  unread.sort(byLatestMessage);
+  recent.sort(byLatestMessage);
+  archived.sort(byLatestMessage);
+  return { pinned, unread, recent, archived };
+}
@@ -0,0 +1,134 @@
+// Composer-side helpers for the message formatting syntax (parsed by
+// shared/markdown): wrapping the selection in markers and the keyboard
+// shortcuts that do it.
+
+const INLINE_MARKERS = {
+  bold: '**',
+  italic: '_',
+  strike: '~~',
+  code: '`',
+  spoiler: '||',
+} as const;
+
+const LINE_PREFIXES = {
+  quote: '> ',
+  list: '- ',
+} as const;
+
+export type TextFormat =
+  | keyof typeof INLINE_MARKERS
+  | keyof typeof LINE_PREFIXES
+  | 'codeBlock';
+
+export type TextEdit = {
+  value: string;
+  selectionStart: number;
+  selectionEnd: number;
+};
+
+// Matched against `${Shift+}${KeyboardEvent.code}` while Ctrl/⌘ is held
+export const FORMAT_SHORTCUTS: Record<string, TextFormat> = {
+  KeyB: 'bold',
+  KeyI: 'italic',
+  'Shift+KeyX': 'strike',
+  KeyE: 'code',
+  'Shift+KeyE': 'codeBlock',
+  'Shift+KeyP': 'spoiler',
+  'Shift+Digit9': 'quote',
+  'Shift+Digit8': 'list',
+};
+
+/** The format bound to a keydown, if any */
+export function formatForShortcut(e: {
+  ctrlKey: boolean;
+  metaKey: boolean;
+  shiftKey: boolean;
+  altKey: boolean;
+  code: string;
+}): TextFormat | undefined {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return undefined;
+  return FORMAT_SHORTCUTS[`${e.shiftKey ? 'Shift+' : ''}${e.code}`];
+}
+
+/**
+ * Applies a format to the selected text, or removes it when the selection
+ * already has it. With nothing selected, inline markers are inserted with
+ * the caret between them.
+ */
+export function applyFormat(
+  value: string,
+  start: number,
+  end: number,
+  format: TextFormat
+): TextEdit {
+  if (format === 'codeBlock') return wrapCodeBlock(value, start, end);
+  if (format === 'quote' || format === 'list') {
+    return toggleLinePrefix(value, start, end, LINE_PREFIXES[format]);
+  }
+
+  // Markers must hug the text, so leave surrounding spaces outside
+  while (start < end && /\s/.test(value[start]!)) start++;
+  while (end > start && /\s/.test(value[end - 1]!)) end--;
+
+  const marker = INLINE_MARKERS[format];
+  const m = marker.length;
+  if (
+    start >= m &&
+    value.slice(start - m, start) === marker &&
+    value.slice(end, end + m) === marker
+  ) {
+    return {
+      value:
+        value.slice(0, start - m) +
+        value.slice(start, end) +
+        value.slice(end + m),
+      selectionStart: start - m,
+      selectionEnd: end - m,
+    };
+  }
+  return {
+    value:
+      value.slice(0, start) +
+      marker +
+      value.slice(start, end) +
+      marker +
+      value.slice(end),
+    selectionStart: start + m,
+    selectionEnd: end + m,
+  };
+}
+
+function toggleLinePrefix(
+  value: string,
+  start: number,
+  end: number,
+  prefix: string
+): TextEdit {
+  const from = value.lastIndexOf('\n', start - 1) + 1;
+  const lineEnd = value.indexOf('\n', end);
+  const to = lineEnd === -1 ? value.length : lineEnd;
+
+  const lines = value.slice(from, to).split('\n');
+  const formatted = lines.every(line => line.startsWith(prefix))
+    ? lines.map(line => line.slice(prefix.length))
+    : lines.map(line => prefix + line);
+  const block = formatted.join('\n');
+  return {
+    value: value.slice(0, from) + block + value.slice(to),
+    selectionStart: from,
+    selectionEnd: from + block.length,
+  };
+}
+
+// Fences go on their own lines, around the selected text
+function wrapCodeBlock(value: string, start: number, end: number): TextEdit {
+  const before = start > 0 && value[start - 1] !== '\n' ? '\n' : '';
+  const after = end < value.length && value[end] !== '\n' ? '\n' : '';
+  const open = `${before}\`\`\`\n`;
+  const code = value.slice(start, end);
+  return {
+    value: `${value.slice(0, start)}${open}${code}\n\`\`\`${after}${value.slice(end)}`,
+    selectionStart: start + open.length,
+    selectionEnd: start + open.length + code.length,
+  };
+}
@@ -0,0 +1,155 @@
+// Small syntax highlighter for fenced code in messages. It only tells apart
+// keywords, strings, comments and numbers, which is enough for chat snippets
+// and keeps a highlighting library out of the bundle.
+
+export type TokenKind = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+export type Token = { kind: TokenKind; text: string };
+
+type Grammar = {
+  keywords: string; // space separated
+  comment?: string; // regex sources
+  string: string;
+  ignoreCase?: boolean; // keywords (SQL)
+};
+
+const C_COMMENT = String.raw`\/\/[^\n]*|\/\*[\s\S]*?(?:\*\/|$)`;
+const HASH_COMMENT = String.raw`#[^\n]*`;
+// Unterminated strings run to the end of the line
+const DOUBLE_QUOTED = String.raw`"(?:\\.|[^"\\\n])*"?`;
+const SINGLE_QUOTED = String.raw`'(?:\\.|[^'\\\n])*'?`;
+const BACKTICKED = String.raw`\`(?:\\.|[^\`\\])*\`?`;
+
+const JS: Grammar = {
+  keywords: `
+    as async await break case catch class const continue default delete do
+    else enum export extends false finally for from function if implements
+    import in instanceof interface let new null of private protected
+    public readonly return static super switch this throw true try type
+    typeof undefined var void while yield
+  `,
+  comment: C_COMMENT,
+  string: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICKED].join('|'),
+};
+
+const PYTHON: Grammar = {
+  keywords: `
+    and as assert async await break class continue def del elif else
+    except False finally for from global if import in is lambda None
+    nonlocal not or pass raise return True try while with yield
+  `,
+  comment: HASH_COMMENT,
+  string: [
+    String.raw`"""[\s\S]*?(?:"""|$)`,
+    String.raw`'''[\s\S]*?(?:'''|$)`,
+    DOUBLE_QUOTED,
+    SINGLE_QUOTED,
+  ].join('|'),
+};
+
+const BASH: Grammar = {
+  keywords: `
+    case do done echo elif else esac exit export fi for function if in
+    local return then while
+  `,
+  comment: HASH_COMMENT,
+  string: [DOUBLE_QUOTED, SINGLE_QUOTED].join('|'),
+};
+
+const SQL: Grammar = {
+  keywords: `
+    and as asc by create delete desc distinct drop exists from group
+    having in index insert into is join left limit not null offset on or
+    order select set table union update values where with
+  `,
+  comment: String.raw`--[^\n]*|\/\*[\s\S]*?(?:\*\/|$)`,
+  string: SINGLE_QUOTED,
+  ignoreCase: true,
+};
+
+const JSON_GRAMMAR: Grammar = {
+  keywords: 'true false null',
+  string: DOUBLE_QUOTED,
+};
+
+const GO: Grammar = {
+  keywords: `
+    break case chan const continue default defer else false for func go if
+    import interface map nil package range return select struct switch
+    true type var
+  `,
+  comment: C_COMMENT,
+  string: [DOUBLE_QUOTED, SINGLE_QUOTED, BACKTICKED].join('|'),
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: JS,
+  javascript: JS,
+  jsx: JS,
+  ts: JS,
+  typescript: JS,
+  tsx: JS,
+  py: PYTHON,
+  python: PYTHON,
+  sh: BASH,
+  bash: BASH,
+  shell: BASH,
+  zsh: BASH,
+  sql: SQL,
+  json: JSON_GRAMMAR,
+  go: GO,
+};
+
+const compiled = new Map<Grammar, { re: RegExp; keywords: Set<string> }>();
+
+function compile(grammar: Grammar) {
+  let entry = compiled.get(grammar);
+  if (!entry) {
+    const parts = [
+      grammar.comment ?? '(?!)',
+      grammar.string,
+      String.raw`\b\d[\w.]*`,
+      String.raw`[A-Za-z_$][\w$]*`,
+    ];
+    entry = {
+      re: new RegExp(parts.map(p => `(${p})`).join('|'), 'g'),
+      keywords: new Set(grammar.keywords.trim().split(/\s+/)),
+    };
+    compiled.set(grammar, entry);
+  }
+  return entry;
+}
+
+/**
+ * Splits code into tokens that together spell the input exactly. Unknown
+ * languages come back as a single plain token.
+ */
+export function highlight(code: string, lang: string | null): Token[] {
+  const grammar = lang ? GRAMMARS[lang.toLowerCase()] : undefined;
+  if (!grammar) return [{ kind: 'plain', text: code }];
+
+  const { re, keywords } = compile(grammar);
+  const tokens: Token[] = [];
+  const plain = (text: string) => {
+    const prev = tokens[tokens.length - 1];
+    if (prev?.kind === 'plain') prev.text += text;
+    else tokens.push({ kind: 'plain', text });
+  };
+
+  let last = 0;
+  for (const match of code.matchAll(re)) {
+    if (match.index > last) plain(code.slice(last, match.index));
+    const [text, comment, string, number, word] = match;
+    if (comment) tokens.push({ kind: 'comment', text });
+    else if (string) tokens.push({ kind: 'string', text });
+    else if (number) tokens.push({ kind: 'number', text });
+    else if (
+      word &&
+      keywords.has(grammar.ignoreCase ? word.toLowerCase() : word)
+    ) {
+      tokens.push({ kind: 'keyword', text });
+    } else plain(text);
+    last = match.index + text.length;
+  }
+  if (last < code.length) plain(code.slice(last));
+  return tokens;
+}
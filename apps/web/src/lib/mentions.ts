@@ -0,0 +1,40 @@
+// Same rules as the API: usernames are [a-z0-9_], and an @ inside a word
+// (e.g. an email address) isn't a mention
+const MENTION_RE = /(?<![\w@])@([a-z0-9_]+)/gi;
+
+// Mention everyone in the room, or everyone online in it. In rooms bigger
+// than the limit only admins may (matches the API)
+export const BROADCAST_MENTIONS = ['all', 'here'] as const;
+export const BROADCAST_MENTION_MAX_MEMBERS = 20;
+
+export type TextPart = string | { mention: string };
+
+/** Splits text into plain runs and mentioned names (without the @) */
+export function splitMentions(text: string): TextPart[] {
+  const parts: TextPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(MENTION_RE)) {
+    if (match.index > last) parts.push(text.slice(last, match.index));
+    parts.push({ mention: match[1]! });
+    last = match.index + match[0].length;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+/** Whether a mentioned name (from splitMentions) reaches the given user */
+export const mentionsUser = (name: string, username?: string) =>
+  (BROADCAST_MENTIONS as readonly string[]).includes(name.toLowerCase()) ||
+  (!!username && name.toLowerCase() === username.toLowerCase());
+
+/**
+ * The partly typed name when the caret sits right after `@name`, with the
+ * index of the @, so the name can be completed in place.
+ */
+export function mentionQueryAt(
+  text: string,
+  caret: number
+): { start: number; query: string } | null {
+  const match = /(?<![\w@])@([a-z0-9_]*)$/i.exec(text.slice(0, caret));
+  return match ? { start: match.index, query: match[1]! } : null;
+}
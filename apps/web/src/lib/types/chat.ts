@@ -5,6 +5,82 @@ export type Member = {
   displayName?: string | null;
   avatar?: string | null;
   online?: boolean;
+  role?: MemberRole;
+};
+
+export type MemberRole = 'owner' | 'admin' | 'member';
+
+// Channels: anyone can join, only admins post, everyone can reply in threads
+export type RoomType = 'dm' | 'group' | 'channel';
+
+// Pushed to members whenever a group's name, avatar or members change
+export type GroupInfo = {
+  id: string;
+  type: RoomType;
+  name: string;
+  avatar: string | null;
+  members: Member[];
+};
+
+// Entry in the channel directory
+export type ChannelSummary = {
+  id: string;
+  name: string;
+  avatar: string | null;
+  memberCount: number;
+  joined: boolean;
+};
+
+// Shareable link into a group, as listed to its admins
+export type GroupInviteLink = {
+  id: string;
+  token: string;
+  roomId: string;
+  createdBy: { id: string; username: string };
+  expiresAt: string | null; // null = never
+  maxUses: number | null; // null = unlimited
+  uses: number;
+  requiresApproval: boolean;
+  createdAt: string;
+};
+
+// What the /join/[token] page shows before joining
+export type GroupInvitePreview = {
+  roomId: string;
+  name: string;
+  avatar: string | null;
+  memberCount: number;
+  requiresApproval: boolean;
+  expiresAt: string | null;
+  status: 'none' | 'member' | 'pending'; // your standing in the group
+};
+
+export type InviteRedemption = {
+  status: 'joined' | 'pending'; // pending: waits for an admin's approval
+  roomId: string;
+};
+
+export type GroupJoinRequest = {
+  userId: string;
+  username: string;
+  createdAt: string;
+};
+
+export type Attachment = {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // bytes
+  url: string; // API path (/attachments/:id), or a blob: URL while uploading
+  // Images only; lets the bubble reserve space before the image loads
+  width?: number | null;
+  height?: number | null;
+  placeholderColor?: string | null;
+  thumbnails?: Array<{ width: number; url: string }>; // smallest first
+  // Voice notes only, measured by the recording browser
+  durationMs?: number | null;
+  waveform?: number[]; // peak levels 0-100
+  playedAt?: string | null; // DMs: when the recipient first listened
 };
 
 export type Message = {
@@ -13,34 +89,288 @@ export type Message = {
   userId: string; // senderId on the backend -> userId on the UI
   content: string;
   createdAt: string; // ISO
-  fileUrl?: string | null;
-  read?: boolean;
+  type?: 'text' | 'system' | 'poll'; // system: group change notice, sent by the actor
+  attachments?: Attachment[];
   pending?: boolean;
   clientMsgId?: string | null; // <-- add this (optional)
   replyToId?: string | null;
 
-  replyTo?: { id?: string; content?: string; userId?: string } | null;
+  replyTo?: {
+    id?: string;
+    content?: string;
+    userId?: string;
+    deleted?: boolean;
+  } | null;
   error?: boolean;
   edited?: boolean;
+  editedAt?: string | null;
+  deleted?: boolean; // deleted for everyone; content holds the tombstone
+  replyCount?: number; // replies in this message's thread
+  lastReplyAt?: string | null;
+  lastReplier?: { id: string; username: string } | null;
   reactions?: Reaction[];
+  forwardedFrom?: ForwardSource | null;
+  linkPreview?: LinkPreview | null; // filled in shortly after sending
+  poll?: Poll | null; // when type is poll; content holds the question
   
   // Add sender information for display purposes
   senderUsername?: string;
   senderDisplayName?: string | null;
 };
 
+// The original a forwarded message was copied from
+export type ForwardSource = {
+  messageId: string;
+  roomId: string;
+  userId: string; // original sender
+  username: string;
+};
+
+// Card for the first link in a message, unfurled by the server
+export type LinkPreview = {
+  url: string;
+  title: string | null;
+  description: string | null;
+  imageUrl: string | null;
+  siteName: string | null;
+};
+
+// A message's preview was added, replaced or removed (null)
+export type MessagePreviewUpdate = {
+  roomId: string;
+  messageId: string;
+  linkPreview: LinkPreview | null;
+};
+
+// The recipient of a DM listened to a voice note for the first time
+export type VoiceNotePlayed = {
+  roomId: string;
+  messageId: string;
+  attachmentId: string;
+  playedAt: string;
+};
+
+// A 1:1 call in a DM. The server relays the WebRTC signaling between the
+// two devices in it; iceServers are STUN/TURN URLs, empty on a LAN
+export type CallStatus = 'calling' | 'ringing' | 'active';
+
+export type Call = {
+  id: string;
+  roomId: string;
+  callerId: string;
+  calleeId: string;
+  video: boolean;
+  status: CallStatus;
+  startedAt: string;
+  answeredAt: string | null;
+  iceServers: string[];
+};
+
+export type CallOutcome = 'missed' | 'declined' | 'completed';
+
+// Sent to both parties when a call ends; durationMs only for completed ones
+export type CallEnd = {
+  call: Call;
+  outcome: CallOutcome;
+  durationMs: number | null;
+};
+
+// A poll posted in a group; votes are tallied by the server
+export type PollOption = {
+  id: string;
+  text: string;
+  votes: number;
+  voterIds?: string[]; // left out of anonymous polls
+};
+
+export type Poll = {
+  id: string;
+  multipleChoice: boolean;
+  anonymous: boolean;
+  closesAt: string | null; // voting stops then, even if not closed by hand
+  closedAt: string | null;
+  options: PollOption[];
+  voterCount: number;
+  myVotes?: string[]; // option ids the current user picked
+};
+
+// New tally for everyone in the room; never carries myVotes
+export type PollUpdate = {
+  roomId: string;
+  messageId: string;
+  poll: Poll;
+};
+
+// The current user's own choice, sent to all their devices
+export type PollVotes = {
+  roomId: string;
+  messageId: string;
+  optionIds: string[];
+};
+
+// Forwarding reports per target room
+export type ForwardResult =
+  | { roomId: string; status: 'sent'; messages: Message[] }
+  | { roomId: string; status: 'failed'; error: string };
+
 export type Conversation = {
   id: string; // roomId
   name: string;
   avatar?: string | null;
   last?: string | null;
   lastMessageAt?: string | null; // ISO timestamp for sorting
-  unread?: number;
+  unreadCount?: number; // from the server, based on your read position
+  mentionCount?: number; // unread messages that @mention you
+  draft?: string | null; // your unsent composer text
+  muted?: boolean; // until mutedUntil when set, which may have passed
+  mutedUntil?: string | null;
+  archived?: boolean;
+  pinOrder?: number | null; // position among your pinned chats, lowest first
   online?: boolean;
+  type?: RoomType;
   isGroup?: boolean; // Add this field from backend response
+  role?: string; // current user's role in the room
   members?: Member[]; // <-- make optional so optimistic items compile
 };
 
+// Your own settings for a conversation, synced between your devices
+export type ConversationSettings = {
+  roomId: string;
+  muted: boolean;
+  mutedUntil: string | null;
+  archived: boolean;
+  pinOrder: number | null;
+};
+
+export type MessageEdit = {
+  id: string;
+  content: string; // content before this edit
+  editedAt: string; // ISO
+};
+
+export type MessagePage = {
+  messages: Message[]; // oldest -> newest
+  olderCursor: string | null;
+  newerCursor: string | null;
+  hasOlder: boolean;
+  hasNewer: boolean;
+};
+
+export type ThreadPage = MessagePage & {
+  parent: Message;
+};
+
+export type ThreadSummary = {
+  messageId: string; // thread parent
+  roomId: string;
+  replyCount: number;
+  lastReplyAt: string | null;
+  lastReplier: { id: string; username: string } | null;
+};
+
+export type MessageSearchHit = {
+  id: string;
+  roomId: string;
+  userId: string;
+  senderUsername: string;
+  createdAt: string;
+  snippet: string; // matched terms wrapped in <mark></mark>
+};
+
+export type MessageSearchPage = {
+  results: MessageSearchHit[]; // newest first
+  nextCursor: string | null;
+  hasMore: boolean;
+};
+
+// A member's position in a room: read/delivered up to the message created then
+export type ReadReceipt = {
+  roomId: string;
+  userId: string;
+  lastReadMessageId: string | null;
+  lastReadAt: string | null; // ISO createdAt of the last read message
+  lastDeliveredAt: string | null;
+};
+
+// A pinned message with a preview of its content (msg:pinned)
+export type PinnedMessage = {
+  roomId: string;
+  messageId: string;
+  content: string;
+  senderId: string;
+  createdAt: string;
+  pinnedBy: { id: string; username: string };
+  pinnedAt: string;
+};
+
+export type PinRemoval = { roomId: string; messageId: string };
+
+// You were @mentioned (by name, @all or @here) in a message
+export type MentionNotice = {
+  roomId: string;
+  messageId: string;
+  userId: string;
+  senderId: string;
+  senderUsername: string | null;
+  kind: 'user' | 'all' | 'here';
+  preview: string;
+};
+
+// Composer text you left in a room, synced from your other devices
+export type RoomDraft = {
+  roomId: string;
+  content: string | null; // null once cleared
+  updatedAt: string;
+};
+
+// Your message waiting to be sent later; failed ones keep the reason
+export type ScheduledMessage = {
+  id: string; // becomes the clientMsgId of the delivered message
+  roomId: string;
+  content: string;
+  replyToId: string | null;
+  sendAt: string;
+  status: 'pending' | 'failed';
+  error: string | null;
+  createdAt: string;
+};
+
+// Badge counts for one member of a room (unread:update)
+export type UnreadCounts = {
+  roomId: string;
+  userId: string;
+  unreadCount: number;
+  mentionCount: number;
+};
+
+export type UserPresence = {
+  userId: string;
+  online: boolean; // on any device
+  lastSeenAt: string | null; // null while online or if never seen
+};
+
+// Everyone currently typing in a room
+export type TypingUpdate = {
+  roomId: string;
+  userIds: string[];
+};
+
+// Tick shown on your own messages in DMs
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+export type MessageDeleteScope = 'me' | 'everyone';
+
+export type MessageDeletion =
+  | {
+      scope: 'everyone';
+      messageId: string;
+      roomId: string;
+      content: string;
+      deletedAt: string;
+      deletedBy: string;
+    }
+  | { scope: 'me'; messageId: string; roomId: string; userId: string };
+
 export type Reaction = {
   emoji: string;
   count: number; // required to match backend
@@ -0,0 +1,76 @@
+import type { VoiceNoteMeta } from '@/lib/api';
+import type { Attachment } from '@/lib/types/chat';
+
+// Bars drawn for a note (the API takes up to 128)
+export const WAVEFORM_BARS = 48;
+
+// Containers the API accepts for voice notes, in order of preference. Which
+// one MediaRecorder can produce depends on the browser
+const RECORDING_TYPES = ['audio/webm', 'audio/ogg', 'audio/mp4'];
+
+const EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+/** First recording type this browser supports, if it can record at all */
+export const recordingType = () =>
+  typeof MediaRecorder === 'undefined'
+    ? undefined
+    : RECORDING_TYPES.find(t => MediaRecorder.isTypeSupported(t));
+
+export const recordingFileName = (type: string) =>
+  `voice-note.${EXTENSIONS[type] ?? 'audio'}`;
+
+/** Audio attachments recorded in the app carry their length; plain audio files don't */
+export const isVoiceNote = (a: Attachment) =>
+  a.mimeType.startsWith('audio/') && a.durationMs != null;
+
+export function formatDuration(ms: number) {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+/** Loudest sample in each of `bars` equal slices, scaled so the loudest is 100 */
+export function peakLevels(samples: Float32Array, bars = WAVEFORM_BARS) {
+  const size = Math.max(1, Math.floor(samples.length / bars));
+  const peaks = Array.from({ length: bars }, (_, i) => {
+    let peak = 0;
+    const end = Math.min(samples.length, (i + 1) * size);
+    for (let j = i * size; j < end; j++) {
+      peak = Math.max(peak, Math.abs(samples[j]!));
+    }
+    return peak;
+  });
+  const loudest = Math.max(...peaks);
+  return peaks.map(p => (loudest ? Math.round((p / loudest) * 100) : 0));
+}
+
+/**
+ * Duration and waveform of a finished recording, worked out here because the
+ * server doesn't decode audio. Falls back to the time spent recording and a
+ * flat waveform when the browser can't decode what it recorded.
+ */
+export async function measureRecording(
+  blob: Blob,
+  recordedMs: number
+): Promise<VoiceNoteMeta> {
+  try {
+    const context = new AudioContext();
+    try {
+      const audio = await context.decodeAudioData(await blob.arrayBuffer());
+      return {
+        durationMs: Math.max(1, Math.round(audio.duration * 1000)),
+        waveform: peakLevels(audio.getChannelData(0)),
+      };
+    } finally {
+      void context.close();
+    }
+  } catch {
+    return {
+      durationMs: Math.max(1, Math.round(recordedMs)),
+      waveform: Array<number>(WAVEFORM_BARS).fill(0),
+    };
+  }
+}
@@ -9,7 +9,10 @@ export function middleware(req: NextRequest) {
   const refreshToken = req.cookies.get('refresh')?.value;
   const isAuth =
     pathname.startsWith('/login') || pathname.startsWith('/register');
-  const isProtected = pathname === '/' || pathname.startsWith('/chat');
+  const isProtected =
+    pathname === '/' ||
+    pathname.startsWith('/chat') ||
+    pathname.startsWith('/join');
 
   // Debug logging - show all cookies
   const allCookies = req.cookies
@@ -56,4 +59,6 @@ export function middleware(req: NextRequest) {
   return NextResponse.next();
 }
 
-export const config = { matcher: ['/', '/chat/:path*', '/login', '/register'] };
+export const config = {
+  matcher: ['/', '/chat/:path*', '/join/:path*', '/login', '/register'],
+};
@@ -1,21 +1,113 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { Conversation, Message } from '@/lib/types/chat';
+import type {
+  Call,
+  CallEnd,
+  Conversation,
+  ConversationSettings,
+  ForwardResult,
+  GroupInfo,
+  MentionNotice,
+  Message,
+  MessageDeleteScope,
+  MessageDeletion,
+  MessagePage,
+  MessagePreviewUpdate,
+  PinnedMessage,
+  PinRemoval,
+  PollUpdate,
+  PollVotes,
+  ReadReceipt,
+  RoomDraft,
+  ScheduledMessage,
+  ThreadSummary,
+  TypingUpdate,
+  UnreadCounts,
+  UserPresence,
+  VoiceNotePlayed,
+} from '@/lib/types/chat';
+import type {
+  ConversationSettingsChange,
+  NewPoll,
+  VoiceNoteMeta,
+} from '@/lib/api';
+import {
+  createCallSession,
+  openCallMedia,
+  stopMedia,
+  type CallPhase,
+  type CallSession,
+} from '@/lib/calls';
+import { isMuted, isPinned } from '@/lib/conversations';
+import { toPlainText } from 'shared/markdown';
 
 interface User {
   id: string;
   username: string;
 }
 
+// Where older history resumes for a room
+interface RoomHistory {
+  olderCursor: string | null;
+  hasOlder: boolean;
+  newerCursor: string | null;
+  hasNewer: boolean; // the loaded window is behind the latest messages
+}
+
+// Message the list should scroll to and highlight (search results)
+interface FocusedMessage {
+  roomId: string;
+  messageId: string;
+  key: number; // changes on every jump, even to the same message
+}
+
+// Thread side panel; replies already in messagesByRoom are merged in on render
+interface ThreadState {
+  parentId: string;
+  roomId: string;
+  parent: Message | null;
+  replies: Message[]; // fetched from the thread endpoint, oldest first
+  olderCursor: string | null;
+  hasOlder: boolean;
+  loading: boolean;
+}
+
+// The call this device is in. call stays null until the server confirms an
+// outgoing invite; media streams are only held for the length of the call
+interface ActiveCall {
+  call: Call | null;
+  roomId: string;
+  video: boolean;
+  outgoing: boolean;
+  phase: CallPhase;
+  muted: boolean;
+  cameraOff: boolean;
+  localStream: MediaStream | null;
+  remoteStream: MediaStream | null;
+  connectedAt: number | null; // when the other side's media arrived
+  error: string | null;
+}
+
 interface ChatState {
   // Data
   user: User | null;
   conversations: Conversation[];
   messagesByRoom: Record<string, Message[]>;
+  historyByRoom: Record<string, RoomHistory>;
+  receiptsByRoom: Record<string, Record<string, ReadReceipt>>; // by userId
+  pinsByRoom: Record<string, PinnedMessage[]>; // newest pin first
+  scheduledByRoom: Record<string, ScheduledMessage[]>; // soonest first
+  presenceByUser: Record<string, UserPresence>;
+  typingByRoom: Record<string, string[]>; // other users typing, by roomId
   activeRoomId: string | undefined;
+  activeThread: ThreadState | null;
+  activeCall: ActiveCall | null;
+  incomingCall: Call | null; // ringing on this device, not yet answered
 
   // UI State
   loadingOlder: boolean;
+  loadingNewer: boolean;
+  focusedMessage: FocusedMessage | null;
   forceScrollToBottom: number;
 
   // Tracking state
@@ -32,8 +124,54 @@ interface ChatActions {
   ) => void;
   cleanup: () => void;
   selectRoom: (roomId: string) => void;
-  sendMessage: (content: string) => Promise<void>;
+  sendMessage: (
+    content: string,
+    opts?: { replyToId?: string }
+  ) => Promise<void>;
+  sendAttachment: (file: File, voice?: VoiceNoteMeta) => Promise<void>;
   reactToMessage: (messageId: string, emoji: string) => Promise<void>;
+  editMessage: (messageId: string, content: string) => Promise<void>;
+  deleteMessage: (
+    messageId: string,
+    scope: MessageDeleteScope
+  ) => Promise<void>;
+  loadOlderMessages: () => Promise<void>;
+  loadNewerMessages: () => Promise<void>;
+  jumpToMessage: (roomId: string, messageId: string) => Promise<void>;
+  openThread: (messageId: string) => Promise<void>;
+  closeThread: () => void;
+  loadOlderThreadReplies: () => Promise<void>;
+  markRead: (roomId: string, messageId: string) => Promise<void>;
+  forwardMessages: (
+    messageIds: string[],
+    roomIds: string[]
+  ) => Promise<ForwardResult[]>;
+  togglePin: (messageId: string) => Promise<void>;
+  removeLinkPreview: (messageId: string) => Promise<void>;
+  createPoll: (poll: NewPoll) => Promise<void>;
+  votePoll: (messageId: string, optionIds: string[]) => void;
+  retractPollVote: (messageId: string) => void;
+  closePoll: (messageId: string) => Promise<void>;
+  markVoicePlayed: (messageId: string, attachmentId: string) => void;
+  startCall: (video: boolean) => Promise<void>;
+  acceptCall: () => Promise<void>;
+  declineCall: () => void;
+  hangUp: () => void;
+  toggleMute: () => void;
+  toggleCamera: () => void;
+  scheduleMessage: (
+    content: string,
+    sendAt: Date,
+    opts?: { replyToId?: string }
+  ) => Promise<void>;
+  cancelScheduledMessage: (id: string) => Promise<void>;
+  setTyping: (isTyping: boolean) => void;
+  saveDraft: (roomId: string, content: string) => void;
+  updateConversationSettings: (
+    roomId: string,
+    changes: ConversationSettingsChange
+  ) => Promise<void>;
+  reorderPinnedConversations: (roomIds: string[]) => Promise<void>;
 
   // Internal methods (prefixed with _)
   _bootstrapData: () => Promise<void>;
@@ -55,6 +193,45 @@ interface ChatActions {
     error: string;
     details?: any;
   }) => void;
+  _handleMessageEdited: (message: Message) => void;
+  _handleEditAck: (payload: { messageId: string }) => void;
+  _handleEditNack: (payload: { messageId: string; error: string }) => void;
+  _handleMessageDeleted: (
+    payload: Extract<MessageDeletion, { scope: 'everyone' }>
+  ) => void;
+  _handleMessageHidden: (payload: {
+    messageId: string;
+    roomId: string;
+  }) => void;
+  _handleThreadUpdated: (summary: ThreadSummary) => void;
+  _handleReceiptUpdate: (receipt: ReadReceipt) => void;
+  _loadReceipts: (roomId: string) => Promise<void>;
+  _handlePinned: (pin: PinnedMessage) => void;
+  _handleUnpinned: (removal: PinRemoval) => void;
+  _handleLinkPreview: (update: MessagePreviewUpdate) => void;
+  _handlePollUpdate: (update: PollUpdate) => void;
+  _handlePollVoted: (votes: PollVotes) => void;
+  _handleVoicePlayed: (played: VoiceNotePlayed) => void;
+  _updateCall: (updates: Partial<ActiveCall>) => void;
+  _endCall: (error?: string) => void;
+  _handleCallInvited: (call: Call) => void;
+  _handleIncomingCall: (call: Call) => void;
+  _handleCallRinging: (call: Call) => void;
+  _handleCallAccepted: (call: Call) => Promise<void>;
+  _handleCallOffer: (payload: { callId: string; sdp: string }) => Promise<void>;
+  _handleCallAnswer: (payload: {
+    callId: string;
+    sdp: string;
+  }) => Promise<void>;
+  _handleCallIce: (payload: {
+    callId: string;
+    candidate: RTCIceCandidateInit;
+  }) => void;
+  _handleCallEnded: (end: CallEnd) => void;
+  _handleCallNack: (payload: { callId?: string; error: string }) => void;
+  _loadPins: (roomId: string) => Promise<void>;
+  _setScheduled: (roomId: string, scheduled: ScheduledMessage[]) => void;
+  _loadScheduled: (roomId: string) => Promise<void>;
   _handleRoomHistory: (payload: { roomId: string; history: Message[] }) => void;
   _handleConversationCreated: (data: {
     conversationId: string;
@@ -63,17 +240,28 @@ interface ChatActions {
     name?: string;
     initiatedBy: string;
   }) => void;
+  _handleRoomUpdated: (group: GroupInfo) => void;
+  _handleRoomRemoved: (payload: { roomId: string }) => void;
   _setActiveRoom: (roomId: string) => void;
   _addJoinedRoom: (roomId: string) => void;
   _addLoadedRoom: (roomId: string) => void;
   _addLoadingRoom: (roomId: string) => void;
   _removeLoadingRoom: (roomId: string) => void;
   _setMessages: (roomId: string, messages: Message[]) => void;
+  _setHistory: (roomId: string, history: RoomHistory) => void;
   _addMessage: (message: Message) => void;
   _updateConversationPreview: (roomId: string, content: string) => void;
   _updateAllConversationPreviews: () => void;
-  _incrementUnreadCount: (roomId: string) => void;
-  _clearUnreadCount: (roomId: string) => void;
+  _handleUnreadUpdate: (
+    counts: Pick<UnreadCounts, 'roomId' | 'unreadCount' | 'mentionCount'>
+  ) => void;
+  _handlePresenceState: (presence: UserPresence[]) => void;
+  _handlePresenceUpdate: (presence: UserPresence) => void;
+  _handleTypingUpdate: (update: TypingUpdate) => void;
+  _setDraft: (roomId: string, content: string | null) => void;
+  _handleDraftUpdate: (draft: RoomDraft) => void;
+  _handleConversationSettings: (settings: ConversationSettings) => void;
+  _handleMention: (notice: MentionNotice) => void;
   _updateMessage: (
     roomId: string,
     messageId: string,
@@ -86,6 +274,143 @@ interface ChatActions {
 type ChatStore = ChatState & ChatActions;
 
 let socket: any = null;
+// Peer connection of the active call, once there is someone to connect to
+let callSession: CallSession | null = null;
+
+const callMediaError = (video: boolean) =>
+  video ? 'Camera or microphone unavailable' : 'Microphone unavailable';
+
+// The server forgets typers that stop refreshing, so typing is re-sent this
+// often while the user keeps typing
+const TYPING_REFRESH_MS = 3000;
+let typingSent: { roomId: string; at: number } | null = null;
+
+// Drafts are saved once typing pauses for this long, per room
+const DRAFT_SAVE_MS = 1000;
+const draftTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const cancelDraftSave = (roomId: string) => {
+  clearTimeout(draftTimers.get(roomId));
+  draftTimers.delete(roomId);
+};
+
+// Message snapshots taken before an optimistic edit, restored on nack
+const pendingEdits = new Map<
+  string,
+  Pick<Message, 'content' | 'edited' | 'editedAt'>
+>();
+
+// Conversation preview for a message that only carries files (matches the API)
+const ATTACHMENT_PREVIEW = '📎 Attachment';
+
+const previewOf = (m: Message) =>
+  toPlainText(m.content) ||
+  (m.attachments?.length ? ATTACHMENT_PREVIEW : '');
+
+// A message as loaded in the room or, for a thread's parent, the open thread
+const findLoadedMessage = (
+  state: ChatState,
+  roomId: string,
+  messageId: string
+) => {
+  const thread = state.activeThread;
+  return (
+    state.messagesByRoom[roomId]?.find(m => m.id === messageId) ??
+    (thread?.parent?.id === messageId ? thread.parent : undefined)
+  );
+};
+
+// Generate proper UUID for clientMsgId (with fallback for older browsers)
+function createClientMsgId(): string {
+  if (typeof crypto !== 'undefined' && crypto.randomUUID) {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    const v = c === 'x' ? r : (r & 0x3) | 0x8;
+    return v.toString(16);
+  });
+}
+
+// Measures a picked image so its optimistic bubble reserves the right space
+function readImageSize(
+  file: File
+): Promise<{ width: number; height: number } | null> {
+  if (!file.type.startsWith('image/')) return Promise.resolve(null);
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+      URL.revokeObjectURL(url);
+    };
+    img.onerror = () => {
+      resolve(null);
+      URL.revokeObjectURL(url);
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Applies a freshly fetched latest page on top of what is already loaded.
+ * Older pages the user scrolled through are kept when the page overlaps
+ * them; otherwise there may be a gap, so the room restarts from the page.
+ * ISO timestamps from the API compare correctly as strings.
+ */
+function historyOf(page: MessagePage): RoomHistory {
+  return {
+    olderCursor: page.olderCursor,
+    hasOlder: page.hasOlder,
+    newerCursor: page.newerCursor,
+    hasNewer: page.hasNewer,
+  };
+}
+
+function mergeLatestPage(state: ChatStore, roomId: string, page: MessagePage) {
+  const existing = state.messagesByRoom[roomId] || [];
+  const oldest = page.messages[0];
+  const known = new Set(existing.map(m => m.id));
+  const overlaps = page.messages.some(m => known.has(m.id));
+
+  if (!oldest || !page.hasOlder || !overlaps) {
+    state._setMessages(roomId, page.messages);
+    state._setHistory(roomId, historyOf(page));
+    return;
+  }
+
+  const kept = existing.filter(
+    m => !m.pending && m.createdAt < oldest.createdAt
+  );
+  state._setMessages(roomId, [...kept, ...page.messages]);
+  const history = state.historyByRoom[roomId];
+  state._setHistory(
+    roomId,
+    kept.length === 0 || !history
+      ? historyOf(page)
+      : { ...history, newerCursor: page.newerCursor, hasNewer: false }
+  );
+}
+
+// Positions only move forward, but updates may arrive out of order
+function mergeReceipt(
+  current: ReadReceipt | undefined,
+  next: ReadReceipt
+): ReadReceipt {
+  if (!current) return next;
+  const read =
+    (next.lastReadAt ?? '') > (current.lastReadAt ?? '') ? next : current;
+  const delivered =
+    (next.lastDeliveredAt ?? '') > (current.lastDeliveredAt ?? '')
+      ? next
+      : current;
+  return {
+    ...next,
+    lastReadMessageId: read.lastReadMessageId,
+    lastReadAt: read.lastReadAt,
+    lastDeliveredAt: delivered.lastDeliveredAt,
+  };
+}
 
 const useChatStore = create<ChatStore>()(
   devtools(
@@ -94,8 +419,19 @@ const useChatStore = create<ChatStore>()(
       user: null,
       conversations: [],
       messagesByRoom: {},
+      historyByRoom: {},
+      receiptsByRoom: {},
+      pinsByRoom: {},
+      scheduledByRoom: {},
+      presenceByUser: {},
+      typingByRoom: {},
       activeRoomId: undefined,
+      activeThread: null,
+      activeCall: null,
+      incomingCall: null,
       loadingOlder: false,
+      loadingNewer: false,
+      focusedMessage: null,
       forceScrollToBottom: 0,
       joinedRooms: new Set(),
       loadedRooms: new Set(),
@@ -158,6 +494,7 @@ const useChatStore = create<ChatStore>()(
 
       cleanup: () => {
         if (socket) {
+          get().hangUp();
           socket.off('msg:new');
           socket.off('msg:ack');
           socket.off('msg:nack');
@@ -165,9 +502,46 @@ const useChatStore = create<ChatStore>()(
           socket.off('msg:react');
           socket.off('msg:react:ack');
           socket.off('msg:react:nack');
+          socket.off('msg:edited');
+          socket.off('msg:edit:ack');
+          socket.off('msg:edit:nack');
+          socket.off('msg:deleted');
+          socket.off('msg:hidden');
+          socket.off('msg:delete:nack');
+          socket.off('thread:updated');
+          socket.off('msg:pinned');
+          socket.off('msg:unpinned');
+          socket.off('msg:preview');
+          socket.off('poll:updated');
+          socket.off('poll:voted');
+          socket.off('poll:vote:nack');
+          socket.off('voice:played');
+          socket.off('voice:played:nack');
+          socket.off('call:invited');
+          socket.off('call:incoming');
+          socket.off('call:ringing');
+          socket.off('call:accepted');
+          socket.off('call:offer');
+          socket.off('call:answer');
+          socket.off('call:ice');
+          socket.off('call:ended');
+          socket.off('call:nack');
+          socket.off('receipt:update');
+          socket.off('receipt:nack');
+          socket.off('unread:update');
+          socket.off('presence:state');
+          socket.off('presence:update');
+          socket.off('typing:update');
+          socket.off('draft:updated');
+          socket.off('conversation:settings');
+          socket.off('mention:new');
+          socket.off('room:updated');
+          socket.off('room:removed');
           socket.off('client:reconnected');
           socket = null;
         }
+        draftTimers.forEach(timer => clearTimeout(timer));
+        draftTimers.clear();
       },
 
       selectRoom: (roomId: string) => {
@@ -176,8 +550,20 @@ const useChatStore = create<ChatStore>()(
         // Set active room
         state._setActiveRoom(roomId);
 
-        // Clear unread count when selecting a conversation
-        state._clearUnreadCount(roomId);
+        if (typingSent && typingSent.roomId !== roomId) state.setTyping(false);
+
+        // Threads belong to a room - close any from the previous one
+        if (state.activeThread && state.activeThread.roomId !== roomId) {
+          state.closeThread();
+        }
+        if (state.focusedMessage && state.focusedMessage.roomId !== roomId) {
+          set({ focusedMessage: null }, false, 'clearFocusedMessage');
+        }
+
+        // Unread counts clear once the latest message is marked read
+        void state._loadReceipts(roomId);
+        void state._loadPins(roomId);
+        void state._loadScheduled(roomId);
 
         // Join room if not already joined
         if (!state.joinedRooms.has(roomId) && socket) {
@@ -205,18 +591,35 @@ const useChatStore = create<ChatStore>()(
         }
       },
 
-      sendMessage: async (content: string) => {
+      sendMessage: async (content: string, opts?: { replyToId?: string }) => {
         const state = get();
         if (!state.activeRoomId || !state.user || !socket) return;
 
-        // Generate proper UUID for clientMsgId (with fallback for older browsers)
-        const clientMsgId = (typeof crypto !== 'undefined' && crypto.randomUUID) ? 
-          crypto.randomUUID() : 
-          'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
-            const r = Math.random() * 16 | 0;
-            const v = c === 'x' ? r : (r & 0x3 | 0x8);
-            return v.toString(16);
-          });
+        // Asked on the first send, which browsers accept as a user gesture;
+        // used to alert about mentions in other rooms
+        if (
+          typeof Notification !== 'undefined' &&
+          Notification.permission === 'default'
+        ) {
+          void Notification.requestPermission();
+        }
+
+        const replyToId = opts?.replyToId;
+        const replyTarget = replyToId
+          ? (state.messagesByRoom[state.activeRoomId] || []).find(
+              m => m.id === replyToId
+            ) ??
+            (state.activeThread?.parentId === replyToId
+              ? state.activeThread.parent
+              : null)
+          : null;
+
+        // Viewing older history (after a search jump) - back to the latest first
+        if (state.historyByRoom[state.activeRoomId]?.hasNewer) {
+          await state._loadRoomMessages(state.activeRoomId);
+        }
+
+        const clientMsgId = createClientMsgId();
         const optimisticMessage: Message = {
           id: clientMsgId,
           content,
@@ -225,21 +628,104 @@ const useChatStore = create<ChatStore>()(
           createdAt: new Date().toISOString(),
           pending: true,
           clientMsgId,
+          replyToId: replyToId ?? null,
+          replyTo: replyTarget
+            ? {
+                id: replyTarget.id,
+                content: replyTarget.content,
+                userId: replyTarget.userId,
+                deleted: replyTarget.deleted,
+              }
+            : null,
         };
 
         // Add optimistic message
         state._addOptimisticMessage(optimisticMessage);
         state._triggerScrollToBottom();
 
-        // Update conversation preview immediately for our own messages
-        state._updateConversationPreview(state.activeRoomId, content);
+        // Update conversation preview immediately for our own messages,
+        // except channel replies, which stay in their threads
+        const conversation = state.conversations.find(
+          c => c.id === state.activeRoomId
+        );
+        if (!(replyToId && conversation?.type === 'channel')) {
+          state._updateConversationPreview(
+            state.activeRoomId,
+            toPlainText(content)
+          );
+        }
 
         // Send to server with correct field name
         socket.emit('msg:send', {
           roomId: state.activeRoomId, // Changed from conversationId to roomId
           content,
           clientMsgId,
+          ...(replyToId ? { replyToId } : {}),
+        });
+        // The server ends typing when the message arrives, and clears the
+        // draft unless this was a thread reply
+        if (typingSent?.roomId === state.activeRoomId) typingSent = null;
+        if (!replyToId) {
+          cancelDraftSave(state.activeRoomId);
+          state._setDraft(state.activeRoomId, null);
+        }
+      },
+
+      // Uploads first, then sends the message referencing the stored file.
+      // The optimistic bubble previews the local file meanwhile. Voice notes
+      // come with the duration and waveform measured while recording.
+      sendAttachment: async (file: File, voice?: VoiceNoteMeta) => {
+        const state = get();
+        if (!state.activeRoomId || !state.user || !socket) return;
+        const roomId = state.activeRoomId;
+
+        if (state.historyByRoom[roomId]?.hasNewer) {
+          await state._loadRoomMessages(roomId);
+        }
+
+        const clientMsgId = createClientMsgId();
+        const size = await readImageSize(file);
+        state._addOptimisticMessage({
+          id: clientMsgId,
+          content: '',
+          userId: state.user.id,
+          roomId,
+          createdAt: new Date().toISOString(),
+          pending: true,
+          clientMsgId,
+          attachments: [
+            {
+              id: clientMsgId,
+              fileName: file.name,
+              mimeType: file.type,
+              size: file.size,
+              url: URL.createObjectURL(file),
+              width: size?.width,
+              height: size?.height,
+              durationMs: voice?.durationMs,
+              waveform: voice?.waveform,
+            },
+          ],
         });
+        state._triggerScrollToBottom();
+        state._updateConversationPreview(roomId, ATTACHMENT_PREVIEW);
+
+        try {
+          const { uploadAttachment } = await import('@/lib/api');
+          const attachment = await uploadAttachment(file, voice);
+          socket?.emit('msg:send', {
+            roomId,
+            content: '',
+            clientMsgId,
+            attachmentIds: [attachment.id],
+          });
+        } catch (error) {
+          console.error('❌ Failed to upload attachment:', error);
+          get()._updateMessage(roomId, clientMsgId, {
+            pending: false,
+            error: true,
+          });
+        }
       },
 
       reactToMessage: async (messageId: string, emoji: string) => {
@@ -327,296 +813,1398 @@ const useChatStore = create<ChatStore>()(
         }
       },
 
-      // INTERNAL METHODS - Store uses these internally
-      _bootstrapData: async () => {
-        try {
-          const { getMe, listConversations } = await import('@/lib/api');
-          const [user, conversations] = await Promise.all([
-            getMe(),
-            listConversations(),
-          ]);
+      editMessage: async (messageId: string, content: string) => {
+        const state = get();
+        if (!state.activeRoomId || !state.user || !socket) return;
 
-          set({ user, conversations }, false, 'bootstrap-data');
+        const roomId = state.activeRoomId;
+        const message = (state.messagesByRoom[roomId] || []).find(
+          m => m.id === messageId
+        );
+        if (!message || message.userId !== state.user.id) return;
 
-          if (conversations.length > 0 && conversations[0]) {
-            get().selectRoom(conversations[0].id);
-          }
+        const trimmed = content.trim();
+        if (!trimmed || trimmed === message.content) return;
 
-          // Load messages for all conversations to ensure proper previews
-          // This is important for showing the correct "last received message" in the conversation list
-          console.log(
-            '🔄 Loading messages for all conversations to update previews'
-          );
-          for (const conversation of conversations) {
-            if (
-              !get().loadedRooms.has(conversation.id) &&
-              !get().loadingRooms.has(conversation.id)
-            ) {
-              // Load messages in the background (don't await)
-              get()._loadRoomMessages(conversation.id).catch(console.error);
-            }
-          }
-        } catch (error) {
-          console.error('Bootstrap failed:', error);
-        }
+        console.log('✏️ Editing message:', messageId);
+
+        // Optimistically apply the edit, remembering the previous revision
+        pendingEdits.set(messageId, {
+          content: message.content,
+          edited: message.edited,
+          editedAt: message.editedAt,
+        });
+        state._updateMessage(roomId, messageId, {
+          content: trimmed,
+          edited: true,
+          editedAt: new Date().toISOString(),
+        });
+        state._updateAllConversationPreviews();
+
+        socket.emit('msg:edit', { messageId, roomId, content: trimmed });
       },
 
-      _syncAllRoomsAfterBackground: async () => {
-        console.log('🔄 WhatsApp-style: Syncing all rooms after background period');
+      deleteMessage: async (messageId: string, scope: MessageDeleteScope) => {
         const state = get();
-        
-        // Get all conversations that the user has (not just loaded rooms)
-        const allRoomIds = state.conversations.map(conv => conv.id);
-        console.log('🔄 Syncing all user conversations:', allRoomIds.length);
-        
-        // Sync all conversation rooms concurrently (like WhatsApp bulk sync)
-        const syncPromises = allRoomIds.map(roomId => 
-          state._syncRoomAfterReconnection(roomId)
-        );
-        
+        if (!state.activeRoomId || !socket) return;
+
+        console.log('🗑️ Deleting message:', messageId, 'scope:', scope);
+
+        // Not optimistic: the server decides whether the delete is allowed
+        // and answers with msg:deleted / msg:hidden
+        socket.emit('msg:delete', {
+          messageId,
+          roomId: state.activeRoomId,
+          scope,
+        });
+      },
+
+      loadOlderMessages: async () => {
+        const state = get();
+        const roomId = state.activeRoomId;
+        if (!roomId || state.loadingOlder) return;
+
+        const history = state.historyByRoom[roomId];
+        if (!history?.hasOlder || !history.olderCursor) return;
+
+        set({ loadingOlder: true }, false, 'loadOlderMessages/start');
+
         try {
-          await Promise.all(syncPromises);
-          console.log('✅ All rooms synced successfully after background');
+          const { listMessages } = await import('@/lib/api');
+          const page = await listMessages(roomId, {
+            cursor: history.olderCursor,
+            direction: 'before',
+          });
+
+          const current = get().messagesByRoom[roomId] || [];
+          const known = new Set(current.map(m => m.id));
+          get()._setMessages(roomId, [
+            ...page.messages.filter(m => !known.has(m.id)),
+            ...current,
+          ]);
+          get()._setHistory(roomId, {
+            ...history,
+            olderCursor: page.olderCursor,
+            hasOlder: page.hasOlder,
+          });
+
+          console.log(
+            '📜 Loaded older messages:',
+            page.messages.length,
+            'for room:',
+            roomId
+          );
         } catch (error) {
-          console.error('❌ Error syncing rooms after background:', error);
+          console.error('Failed to load older messages:', error);
+        } finally {
+          set({ loadingOlder: false }, false, 'loadOlderMessages/end');
         }
       },
 
-      _syncRoomAfterReconnection: async (roomId: string) => {
-        console.log('🔄 Syncing room after reconnection (bypassing cache):', roomId);
+      loadNewerMessages: async () => {
         const state = get();
-        state._addLoadingRoom(roomId);
+        const roomId = state.activeRoomId;
+        if (!roomId || state.loadingNewer) return;
 
-        try {
-          const { listMessages } = await import('@/lib/api');
+        const history = state.historyByRoom[roomId];
+        if (!history?.hasNewer || !history.newerCursor) return;
 
-          // Bypass cache by calling listMessages directly without trackRequest
-          console.log('📡 Fetching fresh messages from API for room:', roomId);
-          const freshMessages = await listMessages(roomId);
+        set({ loadingNewer: true }, false, 'loadNewerMessages/start');
 
-          console.log('🔄 Updating room with fresh messages:', {
-            roomId,
-            oldCount: state.messagesByRoom[roomId]?.length || 0,
-            newCount: freshMessages.length,
+        try {
+          const { listMessages } = await import('@/lib/api');
+          const page = await listMessages(roomId, {
+            cursor: history.newerCursor,
+            direction: 'after',
           });
 
-          state._setMessages(roomId, freshMessages);
-          state._addLoadedRoom(roomId);
-
-          // Update conversation previews
-          state._updateAllConversationPreviews();
+          const current = get().messagesByRoom[roomId] || [];
+          const known = new Set(current.map(m => m.id));
+          get()._setMessages(roomId, [
+            ...current,
+            ...page.messages.filter(m => !known.has(m.id)),
+          ]);
+          get()._setHistory(roomId, {
+            ...history,
+            newerCursor: page.newerCursor ?? history.newerCursor,
+            hasNewer: page.hasNewer,
+          });
 
-          console.log('✅ Room synced successfully after reconnection:', roomId);
+          // Caught up - previews can follow the room again
+          if (!page.hasNewer) get()._updateAllConversationPreviews();
         } catch (error) {
-          console.error('❌ Failed to sync room after reconnection:', error);
+          console.error('Failed to load newer messages:', error);
         } finally {
-          state._removeLoadingRoom(roomId);
+          set({ loadingNewer: false }, false, 'loadNewerMessages/end');
         }
       },
 
-      _loadRoomMessages: async (roomId: string) => {
+      jumpToMessage: async (roomId: string, messageId: string) => {
         const state = get();
-        state._addLoadingRoom(roomId);
+        const loaded = (state.messagesByRoom[roomId] || []).some(
+          m => m.id === messageId
+        );
 
         try {
-          const { listMessages } = await import('@/lib/api');
-          const { trackRequest } = await import('@/lib/request-tracker');
+          // Replace the room's window with the history around the message
+          if (!loaded) {
+            const { getMessageContext } = await import('@/lib/api');
+            const page = await getMessageContext(messageId);
+
+            state._setMessages(roomId, page.messages);
+            state._setHistory(roomId, historyOf(page));
+            state._addLoadedRoom(roomId);
+          }
 
-          const messages = await trackRequest(`messages-${roomId}`, () =>
-            listMessages(roomId)
+          set(
+            { focusedMessage: { roomId, messageId, key: Date.now() } },
+            false,
+            'jumpToMessage'
           );
+          if (get().activeRoomId !== roomId) state.selectRoom(roomId);
+        } catch (error) {
+          console.error('Failed to jump to message:', error);
+        }
+      },
 
-          state._setMessages(roomId, messages);
-          state._addLoadedRoom(roomId);
+      openThread: async (messageId: string) => {
+        const state = get();
+        if (!state.activeRoomId) return;
+        if (state.activeThread?.parentId === messageId) return;
 
-          // Update conversation previews after loading messages to show only received messages
-          state._updateAllConversationPreviews();
+        const roomId = state.activeRoomId;
+        const parent =
+          (state.messagesByRoom[roomId] || []).find(m => m.id === messageId) ??
+          null;
 
-          console.log(
-            '✅ Messages loaded and conversation previews updated for room:',
-            roomId
+        set(
+          {
+            activeThread: {
+              parentId: messageId,
+              roomId,
+              parent,
+              replies: [],
+              olderCursor: null,
+              hasOlder: false,
+              loading: true,
+            },
+          },
+          false,
+          'openThread'
+        );
+
+        try {
+          const { listThreadReplies } = await import('@/lib/api');
+          const page = await listThreadReplies(messageId);
+
+          // Ignore the result if another thread was opened meanwhile
+          if (get().activeThread?.parentId !== messageId) return;
+
+          set(
+            state => ({
+              activeThread: state.activeThread && {
+                ...state.activeThread,
+                parent: page.parent,
+                replies: page.messages,
+                olderCursor: page.olderCursor,
+                hasOlder: page.hasOlder,
+                loading: false,
+              },
+            }),
+            false,
+            'openThread/loaded'
           );
         } catch (error) {
-          console.error('Failed to load messages:', error);
-        } finally {
-          state._removeLoadingRoom(roomId);
+          console.error('Failed to load thread:', error);
+          set(
+            state => ({
+              activeThread: state.activeThread && {
+                ...state.activeThread,
+                loading: false,
+              },
+            }),
+            false,
+            'openThread/failed'
+          );
         }
       },
 
-      _handleNewMessage: async (rawMessage: Message) => {
-        console.log('🔵 _handleNewMessage called with:', rawMessage);
-        const message = { ...rawMessage } as Message;
-        console.log('🔵 Adding message to store for roomId:', message.roomId);
-        const currentState = get();
-        console.log(
-          '🔵 Current messages for room before add:',
-          currentState.messagesByRoom[message.roomId]?.length || 0
-        );
-        get()._addMessage(message);
-        const afterState = get();
-        console.log(
-          '🔵 Current messages for room after add:',
-          afterState.messagesByRoom[message.roomId]?.length || 0
+      closeThread: () => set({ activeThread: null }, false, 'closeThread'),
+
+      loadOlderThreadReplies: async () => {
+        const thread = get().activeThread;
+        if (!thread || thread.loading || !thread.hasOlder) return;
+        if (!thread.olderCursor) return;
+
+        set(
+          { activeThread: { ...thread, loading: true } },
+          false,
+          'loadOlderThreadReplies/start'
         );
 
-        // Only update conversation preview if this message is from someone else (received message)
-        const currentUser = afterState.user;
-        if (currentUser && message.userId !== currentUser.id) {
-          console.log(
-            '🔔 Message from someone else - updating conversation preview'
-          );
+        try {
+          const { listThreadReplies } = await import('@/lib/api');
+          const page = await listThreadReplies(thread.parentId, {
+            cursor: thread.olderCursor,
+            direction: 'before',
+          });
 
-          // Check if conversation exists in local state
-          const conversationExists = afterState.conversations.some(
-            c => c.id === message.roomId
+          set(
+            state => {
+              const current = state.activeThread;
+              if (current?.parentId !== thread.parentId) return state;
+
+              const known = new Set(current.replies.map(m => m.id));
+              return {
+                activeThread: {
+                  ...current,
+                  replies: [
+                    ...page.messages.filter(m => !known.has(m.id)),
+                    ...current.replies,
+                  ],
+                  olderCursor: page.olderCursor,
+                  hasOlder: page.hasOlder,
+                  loading: false,
+                },
+              };
+            },
+            false,
+            'loadOlderThreadReplies/loaded'
           );
-          console.log(
-            '🔍 Conversation exists in local state:',
-            conversationExists,
-            'for roomId:',
-            message.roomId
+        } catch (error) {
+          console.error('Failed to load older replies:', error);
+          set(
+            state => ({
+              activeThread: state.activeThread && {
+                ...state.activeThread,
+                loading: false,
+              },
+            }),
+            false,
+            'loadOlderThreadReplies/failed'
           );
+        }
+      },
+
+      // Reports that the user has seen the room up to this message. The REST
+      // endpoint covers the gaps while the socket is reconnecting.
+      markRead: async (roomId: string, messageId: string) => {
+        const state = get();
+        const me = state.user?.id;
+        const message = state.messagesByRoom[roomId]?.find(
+          m => m.id === messageId
+        );
+        if (!me || !message || message.pending) return;
+
+        const own = state.receiptsByRoom[roomId]?.[me];
+        if (own?.lastReadAt && own.lastReadAt >= message.createdAt) return;
+
+        // Reaching the newest message clears the badge; the server confirms
+        const messages = state.messagesByRoom[roomId] || [];
+        if (
+          messages[messages.length - 1]?.id === messageId &&
+          !state.historyByRoom[roomId]?.hasNewer
+        ) {
+          state._handleUnreadUpdate({
+            roomId,
+            unreadCount: 0,
+            mentionCount: 0,
+          });
+        }
+
+        // Record it locally first so repeated calls don't resend
+        state._handleReceiptUpdate({
+          roomId,
+          userId: me,
+          lastReadMessageId: messageId,
+          lastReadAt: message.createdAt,
+          lastDeliveredAt: message.createdAt,
+        });
+
+        if (socket?.connected) {
+          socket.emit('room:read', { roomId, messageId });
+          return;
+        }
+
+        try {
+          const { markRoomRead } = await import('@/lib/api');
+          const { receipt } = await markRoomRead(roomId, messageId);
+          if (receipt) get()._handleReceiptUpdate(receipt);
+        } catch (error) {
+          console.error('❌ Failed to mark room as read:', error);
+        }
+      },
+
+      // Failures are reported per room rather than thrown, so callers can
+      // say which conversations didn't get the messages
+      forwardMessages: async (messageIds: string[], roomIds: string[]) => {
+        const { forwardMessages } = await import('@/lib/api');
+        const results = await forwardMessages(messageIds, roomIds);
+
+        // msg:new follows over the socket; applying it now is deduped by id
+        for (const result of results) {
+          if (result.status !== 'sent') continue;
+          for (const message of result.messages) {
+            void get()._handleNewMessage(message);
+          }
+          const last = result.messages[result.messages.length - 1];
+          if (last) {
+            get()._updateConversationPreview(result.roomId, previewOf(last));
+          }
+        }
+        return results;
+      },
+
+      // Not optimistic: the server checks the role and answers everyone in
+      // the room with msg:pinned / msg:unpinned
+      togglePin: async (messageId: string) => {
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+
+        const pinned = (get().pinsByRoom[roomId] || []).some(
+          p => p.messageId === messageId
+        );
+        try {
+          const { pinMessage, unpinMessage } = await import('@/lib/api');
+          if (pinned) {
+            get()._handleUnpinned(await unpinMessage(messageId));
+          } else {
+            get()._handlePinned(await pinMessage(messageId));
+          }
+        } catch (error) {
+          console.error('📌 Failed to toggle pin:', error);
+        }
+      },
+
+      // Only the sender may; the rest of the room hears it as msg:preview
+      removeLinkPreview: async (messageId: string) => {
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+
+        try {
+          const { removeLinkPreview } = await import('@/lib/api');
+          await removeLinkPreview(messageId);
+          get()._handleLinkPreview({ roomId, messageId, linkPreview: null });
+        } catch (error) {
+          console.error('🔗 Failed to remove link preview:', error);
+        }
+      },
+
+      // Posted over HTTP like attachments; msg:new follows and is deduped
+      createPoll: async (poll: NewPoll) => {
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+
+        const { createPoll } = await import('@/lib/api');
+        const message = await createPoll(roomId, poll);
+        void get()._handleNewMessage(message);
+        get()._updateConversationPreview(roomId, previewOf(message));
+      },
+
+      // Not optimistic: the server answers the room with poll:updated and
+      // this user's devices with poll:voted
+      votePoll: (messageId: string, optionIds: string[]) => {
+        const roomId = get().activeRoomId;
+        if (!roomId || !socket) return;
+
+        socket.emit('poll:vote', { roomId, messageId, optionIds });
+      },
+
+      retractPollVote: (messageId: string) => {
+        const roomId = get().activeRoomId;
+        if (!roomId || !socket) return;
+
+        socket.emit('poll:retract', { roomId, messageId });
+      },
+
+      closePoll: async (messageId: string) => {
+        try {
+          const { closePoll } = await import('@/lib/api');
+          get()._handlePollUpdate(await closePoll(messageId));
+        } catch (error) {
+          console.error('📊 Failed to close poll:', error);
+        }
+      },
+
+      // Only the recipient's first listen in a DM counts. The server ignores
+      // the others as well; this just saves the round trip
+      markVoicePlayed: (messageId: string, attachmentId: string) => {
+        const state = get();
+        const roomId = state.activeRoomId;
+        if (!roomId || !socket) return;
+        const message = findLoadedMessage(state, roomId, messageId);
+        const note = message?.attachments?.find(a => a.id === attachmentId);
+        const room = state.conversations.find(c => c.id === roomId);
+        if (!message || !note || note.playedAt || room?.isGroup) return;
+        if (message.userId === state.user?.id) return;
+
+        socket.emit('voice:played', { roomId, attachmentId });
+      },
+
+      // Calls are 1:1, so only in DMs. The microphone (and camera) are
+      // opened before inviting, so the permission prompt never keeps the
+      // other side waiting on a call that can't start
+      startCall: async (video: boolean) => {
+        const { activeRoomId: roomId, activeCall, conversations } = get();
+        const room = conversations.find(c => c.id === roomId);
+        if (!roomId || !socket || activeCall || !room || room.isGroup) return;
+
+        const placeholder: ActiveCall = {
+          call: null,
+          roomId,
+          video,
+          outgoing: true,
+          phase: 'calling',
+          muted: false,
+          cameraOff: false,
+          localStream: null,
+          remoteStream: null,
+          connectedAt: null,
+          error: null,
+        };
+        set({ activeCall: placeholder }, false, 'call-start');
+
+        let stream: MediaStream;
+        try {
+          stream = await openCallMedia(video);
+        } catch (error) {
+          console.error('📞 Failed to open call media:', error);
+          get()._endCall(callMediaError(video));
+          return;
+        }
+        // Hung up while the permission prompt was open
+        if (get().activeCall !== placeholder || !socket) {
+          stopMedia(stream);
+          return;
+        }
+
+        get()._updateCall({ localStream: stream });
+        socket.emit('call:invite', { roomId, video });
+      },
+
+      acceptCall: async () => {
+        const call = get().incomingCall;
+        if (!call || !socket) return;
+
+        const pending: ActiveCall = {
+          call,
+          roomId: call.roomId,
+          video: call.video,
+          outgoing: false,
+          phase: 'connecting',
+          muted: false,
+          cameraOff: false,
+          localStream: null,
+          remoteStream: null,
+          connectedAt: null,
+          error: null,
+        };
+        set({ incomingCall: null, activeCall: pending }, false, 'call-accept');
+
+        let stream: MediaStream;
+        try {
+          stream = await openCallMedia(call.video);
+        } catch (error) {
+          console.error('📞 Failed to open call media:', error);
+          socket?.emit('call:reject', { callId: call.id });
+          get()._endCall(callMediaError(call.video));
+          return;
+        }
+        // The caller gave up meanwhile
+        if (get().activeCall !== pending || !socket) {
+          stopMedia(stream);
+          return;
+        }
+
+        // Ready before answering, so the caller's offer has somewhere to go
+        callSession = createCallSession({
+          call,
+          stream,
+          onIceCandidate: candidate =>
+            socket?.emit('call:ice', { callId: call.id, candidate }),
+          onRemoteStream: remoteStream =>
+            get()._updateCall({
+              remoteStream,
+              phase: 'active',
+              connectedAt: Date.now(),
+            }),
+          onFailed: () => get().hangUp(),
+        });
+        get()._updateCall({ localStream: stream });
+        socket.emit('call:accept', { callId: call.id });
+      },
+
+      declineCall: () => {
+        const call = get().incomingCall;
+        if (!call) return;
+        socket?.emit('call:reject', { callId: call.id });
+        set({ incomingCall: null }, false, 'call-decline');
+      },
+
+      // Ends the call here right away; the server's call:ended for it is
+      // then ignored
+      hangUp: () => {
+        const activeCall = get().activeCall;
+        if (!activeCall) return;
+        const { call, outgoing } = activeCall;
+        if (call && socket && activeCall.phase !== 'failed') {
+          socket.emit(
+            outgoing && call.status !== 'active'
+              ? 'call:cancel'
+              : 'call:hangup',
+            { callId: call.id }
+          );
+        }
+        get()._endCall();
+      },
+
+      toggleMute: () => {
+        const activeCall = get().activeCall;
+        if (!activeCall?.localStream) return;
+        const muted = !activeCall.muted;
+        activeCall.localStream
+          .getAudioTracks()
+          .forEach(t => (t.enabled = !muted));
+        get()._updateCall({ muted });
+      },
+
+      toggleCamera: () => {
+        const activeCall = get().activeCall;
+        if (!activeCall?.localStream || !activeCall.video) return;
+        const cameraOff = !activeCall.cameraOff;
+        activeCall.localStream
+          .getVideoTracks()
+          .forEach(t => (t.enabled = !cameraOff));
+        get()._updateCall({ cameraOff });
+      },
+
+      // Nothing is shown in the chat until the server delivers it as msg:new
+      scheduleMessage: async (
+        content: string,
+        sendAt: Date,
+        opts?: { replyToId?: string }
+      ) => {
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+
+        const { scheduleMessage } = await import('@/lib/api');
+        const scheduled = await scheduleMessage(roomId, {
+          content,
+          sendAt: sendAt.toISOString(),
+          ...(opts?.replyToId ? { replyToId: opts.replyToId } : {}),
+        });
+        get()._setScheduled(roomId, [
+          ...(get().scheduledByRoom[roomId] || []),
+          scheduled,
+        ]);
+      },
+
+      cancelScheduledMessage: async (id: string) => {
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+
+        try {
+          const { cancelScheduledMessage } = await import('@/lib/api');
+          await cancelScheduledMessage(id);
+        } catch (error) {
+          // Most likely it is being sent right now; msg:new will clear it
+          console.error('🕒 Failed to cancel scheduled message:', error);
+          return;
+        }
+        get()._setScheduled(
+          roomId,
+          (get().scheduledByRoom[roomId] || []).filter(m => m.id !== id)
+        );
+      },
+
+      // Starts are repeated while typing continues; a stop is sent once, for
+      // whichever room the typing started in
+      setTyping: (isTyping: boolean) => {
+        if (!socket?.connected) return;
+
+        if (!isTyping) {
+          if (!typingSent) return;
+          socket.emit('typing', { roomId: typingSent.roomId, isTyping: false });
+          typingSent = null;
+          return;
+        }
+
+        const roomId = get().activeRoomId;
+        if (!roomId) return;
+        const now = Date.now();
+        if (typingSent?.roomId === roomId) {
+          if (now - typingSent.at < TYPING_REFRESH_MS) return;
+        } else if (typingSent) {
+          socket.emit('typing', { roomId: typingSent.roomId, isTyping: false });
+        }
+        typingSent = { roomId, at: now };
+        socket.emit('typing', { roomId, isTyping: true });
+      },
+
+      // Shown locally right away; the server only hears about it once
+      // typing pauses, and passes it on to the user's other devices
+      saveDraft: (roomId: string, content: string) => {
+        get()._setDraft(roomId, content || null);
+
+        cancelDraftSave(roomId);
+        draftTimers.set(
+          roomId,
+          setTimeout(() => {
+            draftTimers.delete(roomId);
+            socket?.emit('draft:save', { roomId, content });
+          }, DRAFT_SAVE_MS)
+        );
+      },
+
+      // Applied from the response; other devices get conversation:settings
+      updateConversationSettings: async (
+        roomId: string,
+        changes: ConversationSettingsChange
+      ) => {
+        try {
+          const { updateConversationSettings } = await import('@/lib/api');
+          get()._handleConversationSettings(
+            await updateConversationSettings(roomId, changes)
+          );
+        } catch (error) {
+          console.error('Failed to update conversation settings:', error);
+        }
+      },
+
+      // Reordered locally first so the list moves at once; put back if it fails
+      reorderPinnedConversations: async (roomIds: string[]) => {
+        const previous = get().conversations.filter(isPinned);
+        const { _handleConversationSettings } = get();
+        const reorder = (order: string[]) =>
+          set(
+            state => ({
+              conversations: state.conversations.map(convo =>
+                order.includes(convo.id)
+                  ? { ...convo, pinOrder: order.indexOf(convo.id) }
+                  : convo
+              ),
+            }),
+            false,
+            'pins-reordered'
+          );
+        reorder(roomIds);
+
+        try {
+          const { reorderPinnedConversations } = await import('@/lib/api');
+          const settings = await reorderPinnedConversations(roomIds);
+          settings.forEach(_handleConversationSettings);
+        } catch (error) {
+          console.error('Failed to reorder pinned conversations:', error);
+          reorder(
+            [...previous]
+              .sort((a, b) => a.pinOrder! - b.pinOrder!)
+              .map(c => c.id)
+          );
+        }
+      },
+
+      // INTERNAL METHODS - Store uses these internally
+      _bootstrapData: async () => {
+        try {
+          const { getMe, listConversations } = await import('@/lib/api');
+          const [user, conversations] = await Promise.all([
+            getMe(),
+            listConversations(),
+          ]);
+
+          set({ user, conversations }, false, 'bootstrap-data');
+
+          if (conversations.length > 0 && conversations[0]) {
+            get().selectRoom(conversations[0].id);
+          }
+
+          // Load messages for all conversations to ensure proper previews
+          // This is important for showing the correct "last received message" in the conversation list
+          console.log(
+            '🔄 Loading messages for all conversations to update previews'
+          );
+          for (const conversation of conversations) {
+            if (
+              !get().loadedRooms.has(conversation.id) &&
+              !get().loadingRooms.has(conversation.id)
+            ) {
+              // Load messages in the background (don't await)
+              get()._loadRoomMessages(conversation.id).catch(console.error);
+            }
+          }
+        } catch (error) {
+          console.error('Bootstrap failed:', error);
+        }
+      },
+
+      _syncAllRoomsAfterBackground: async () => {
+        console.log('🔄 WhatsApp-style: Syncing all rooms after background period');
+        const state = get();
+        
+        // Get all conversations that the user has (not just loaded rooms)
+        const allRoomIds = state.conversations.map(conv => conv.id);
+        console.log('🔄 Syncing all user conversations:', allRoomIds.length);
+        
+        // Sync all conversation rooms concurrently (like WhatsApp bulk sync)
+        const syncPromises = allRoomIds.map(roomId => 
+          state._syncRoomAfterReconnection(roomId)
+        );
+        
+        // Receipts for the open room may have moved while we were away
+        if (state.activeRoomId) {
+          void state._loadReceipts(state.activeRoomId);
+          void state._loadPins(state.activeRoomId);
+          void state._loadScheduled(state.activeRoomId);
+        }
+
+        try {
+          await Promise.all(syncPromises);
+          console.log('✅ All rooms synced successfully after background');
+        } catch (error) {
+          console.error('❌ Error syncing rooms after background:', error);
+        }
+      },
+
+      _syncRoomAfterReconnection: async (roomId: string) => {
+        console.log('🔄 Syncing room after reconnection (bypassing cache):', roomId);
+        const state = get();
+        state._addLoadingRoom(roomId);
+
+        try {
+          const { listMessages } = await import('@/lib/api');
+
+          // Bypass cache by calling listMessages directly without trackRequest
+          console.log('📡 Fetching fresh messages from API for room:', roomId);
+          const page = await listMessages(roomId);
+
+          console.log('🔄 Updating room with fresh messages:', {
+            roomId,
+            oldCount: get().messagesByRoom[roomId]?.length || 0,
+            newCount: page.messages.length,
+          });
+
+          mergeLatestPage(get(), roomId, page);
+          state._addLoadedRoom(roomId);
+
+          // Update conversation previews
+          state._updateAllConversationPreviews();
+
+          console.log('✅ Room synced successfully after reconnection:', roomId);
+        } catch (error) {
+          console.error('❌ Failed to sync room after reconnection:', error);
+        } finally {
+          state._removeLoadingRoom(roomId);
+        }
+      },
+
+      _loadRoomMessages: async (roomId: string) => {
+        const state = get();
+        state._addLoadingRoom(roomId);
+
+        try {
+          const { listMessages } = await import('@/lib/api');
+          const { trackRequest } = await import('@/lib/request-tracker');
+
+          const page = await trackRequest(`messages-${roomId}`, () =>
+            listMessages(roomId)
+          );
+
+          state._setMessages(roomId, page.messages);
+          state._setHistory(roomId, historyOf(page));
+          state._addLoadedRoom(roomId);
+
+          // Update conversation previews after loading messages to show only received messages
+          state._updateAllConversationPreviews();
+
+          console.log(
+            '✅ Messages loaded and conversation previews updated for room:',
+            roomId
+          );
+        } catch (error) {
+          console.error('Failed to load messages:', error);
+        } finally {
+          state._removeLoadingRoom(roomId);
+        }
+      },
+
+      _handleNewMessage: async (rawMessage: Message) => {
+        console.log('🔵 _handleNewMessage called with:', rawMessage);
+        const message = { ...rawMessage } as Message;
+        console.log('🔵 Adding message to store for roomId:', message.roomId);
+        const currentState = get();
+        console.log(
+          '🔵 Current messages for room before add:',
+          currentState.messagesByRoom[message.roomId]?.length || 0
+        );
+        // A room showing older history gets the message once it pages forward
+        if (!currentState.historyByRoom[message.roomId]?.hasNewer) {
+          get()._addMessage(message);
+        }
+        const afterState = get();
+        console.log(
+          '🔵 Current messages for room after add:',
+          afterState.messagesByRoom[message.roomId]?.length || 0
+        );
+
+        // Only update conversation preview if this message is from someone else (received message)
+        const currentUser = afterState.user;
+        if (currentUser && message.userId !== currentUser.id) {
+          console.log(
+            '🔔 Message from someone else - updating conversation preview'
+          );
+
+          // Check if conversation exists in local state
+          const conversationExists = afterState.conversations.some(
+            c => c.id === message.roomId
+          );
+          console.log(
+            '🔍 Conversation exists in local state:',
+            conversationExists,
+            'for roomId:',
+            message.roomId
+          );
+
+          if (!conversationExists) {
+            console.log(
+              '⚠️ Conversation not found in local state - refreshing conversations list...'
+            );
+            try {
+              // Refresh conversations to ensure we have the latest data
+              const { listConversations } = await import('@/lib/api');
+              const updatedConversations = await listConversations();
+
+              console.log(
+                '📋 Refreshed conversations count:',
+                updatedConversations.length
+              );
+              console.log(
+                '🔍 Looking for roomId after refresh:',
+                message.roomId
+              );
+              const refreshedConversation = updatedConversations.find(
+                c => c.id === message.roomId
+              );
+              console.log(
+                '🔍 Found conversation after refresh:',
+                !!refreshedConversation,
+                refreshedConversation?.name
+              );
+
+              set(
+                { conversations: updatedConversations },
+                false,
+                'refresh-conversations-on-new-message'
+              );
+
+              // Auto-join the room if we're not already joined
+              if (socket && !get().joinedRooms.has(message.roomId)) {
+                console.log(
+                  '🚀 Auto-joining room for new message:',
+                  message.roomId
+                );
+                get()._addJoinedRoom(message.roomId);
+                socket.emit('room:join', { id: message.roomId });
+              }
+            } catch (error) {
+              console.error('❌ Failed to refresh conversations:', error);
+            }
+          }
+
+          // Delivery ticks are only shown in DMs; groups show "seen by"
+          const conversation = get().conversations.find(
+            c => c.id === message.roomId
+          );
+          // Channel replies stay in their threads, preview included
+          if (!(message.replyToId && conversation?.type === 'channel')) {
+            get()._updateConversationPreview(
+              message.roomId,
+              previewOf(message)
+            );
+          }
+          if (conversation && !conversation.isGroup) {
+            socket?.emit('msg:delivered', {
+              roomId: message.roomId,
+              messageId: message.id,
+            });
+          }
+
+          // Unread counts follow via unread:update from the server
+        } else {
+          console.log(
+            '🚫 Message from current user - NOT updating conversation preview or unread count'
+          );
+
+          // Scheduled messages arrive with the scheduled id as clientMsgId
+          const scheduled = afterState.scheduledByRoom[message.roomId] || [];
+          if (scheduled.some(m => m.id === message.clientMsgId)) {
+            get()._setScheduled(
+              message.roomId,
+              scheduled.filter(m => m.id !== message.clientMsgId)
+            );
+            get()._updateConversationPreview(
+              message.roomId,
+              previewOf(message)
+            );
+          }
+        }
+        // Don't auto-scroll for incoming messages - let ChatMessageList handle it based on user position
+        // get()._triggerScrollToBottom();
+      },
+
+      _handleMessageAck: (payload: {
+        clientMsgId: string;
+        serverId: string;
+      }) => {
+        console.log('✅ Message acknowledged:', payload);
+
+        const state = get();
+        if (!state.activeRoomId) return;
+
+        // Find and update the pending message to mark it as sent
+        const messages = state.messagesByRoom[state.activeRoomId] || [];
+        const messageIndex = messages.findIndex(
+          (m: Message) => m.clientMsgId === payload.clientMsgId
+        );
+
+        if (messageIndex !== -1) {
+          const updatedMessages = [...messages];
+          const originalMessage = updatedMessages[messageIndex];
+
+          // Update the message with the server ID and remove pending status
+          updatedMessages[messageIndex] = {
+            ...originalMessage,
+            id: payload.serverId,
+            pending: false, // Mark as no longer pending (sent successfully)
+          } as Message;
+
+          set(
+            (state: ChatStore) => ({
+              ...state,
+              messagesByRoom: {
+                ...state.messagesByRoom,
+                [state.activeRoomId!]: updatedMessages,
+              },
+            }),
+            false,
+            'message-ack'
+          );
+
+          console.log(
+            '📝 Message marked as sent (no longer pending):',
+            payload.serverId
+          );
+        }
+      },
+      _handleMessageNack: (payload: {
+        clientMsgId: string;
+        error: string;
+        details?: any;
+      }) => {
+        const state = get();
+        if (!state.activeRoomId) return;
+
+        console.error('❌ Message failed to send:', payload);
+
+        // Mark the message as failed
+        state._updateMessage(state.activeRoomId, payload.clientMsgId, {
+          pending: false,
+          error: true,
+        });
+      },
+
+      _handleMessageEdited: (message: Message) => {
+        console.log('✏️ Message edited:', message.id);
+        const state = get();
+        if (!state.messagesByRoom[message.roomId]) return;
+
+        pendingEdits.delete(message.id);
+        state._updateMessage(message.roomId, message.id, {
+          content: message.content,
+          edited: true,
+          editedAt: message.editedAt,
+        });
+        state._updateAllConversationPreviews();
+      },
+
+      _handleEditAck: (payload: { messageId: string }) => {
+        pendingEdits.delete(payload.messageId);
+      },
+
+      _handleEditNack: (payload: { messageId: string; error: string }) => {
+        console.error('❌ Message edit failed:', payload);
+        const previous = pendingEdits.get(payload.messageId);
+        pendingEdits.delete(payload.messageId);
+        if (!previous) return;
+
+        // Roll back the optimistic edit wherever the message lives
+        const state = get();
+        for (const [roomId, messages] of Object.entries(state.messagesByRoom)) {
+          if (messages.some(m => m.id === payload.messageId)) {
+            state._updateMessage(roomId, payload.messageId, previous);
+            state._updateAllConversationPreviews();
+            break;
+          }
+        }
+      },
+
+      _handleMessageDeleted: (
+        payload: Extract<MessageDeletion, { scope: 'everyone' }>
+      ) => {
+        console.log('🗑️ Message deleted for everyone:', payload.messageId);
+        const state = get();
+        pendingEdits.delete(payload.messageId);
+
+        const applyTombstone = (m: Message): Message => {
+          if (m.id === payload.messageId) {
+            return {
+              ...m,
+              content: payload.content,
+              deleted: true,
+              edited: false,
+              editedAt: null,
+              reactions: [],
+            };
+          }
+          // Keep reply previews in sync with the tombstone
+          if (m.replyToId === payload.messageId && m.replyTo) {
+            return {
+              ...m,
+              replyTo: {
+                ...m.replyTo,
+                content: payload.content,
+                deleted: true,
+              },
+            };
+          }
+          return m;
+        };
+
+        const thread = state.activeThread;
+        if (thread?.roomId === payload.roomId) {
+          set(
+            {
+              activeThread: {
+                ...thread,
+                parent: thread.parent && applyTombstone(thread.parent),
+                replies: thread.replies.map(applyTombstone),
+              },
+            },
+            false,
+            'threadMessageDeleted'
+          );
+        }
+
+        // The server drops pins of messages deleted for everyone
+        state._handleUnpinned(payload);
+
+        const messages = state.messagesByRoom[payload.roomId];
+        if (!messages) return;
+
+        state._setMessages(payload.roomId, messages.map(applyTombstone));
+        state._updateAllConversationPreviews();
+      },
+
+      _handleMessageHidden: (payload: {
+        messageId: string;
+        roomId: string;
+      }) => {
+        console.log('🙈 Message hidden:', payload.messageId);
+        const state = get();
+        const messages = state.messagesByRoom[payload.roomId];
+        if (!messages) return;
+
+        state._setMessages(
+          payload.roomId,
+          messages.filter(m => m.id !== payload.messageId)
+        );
+        state._updateAllConversationPreviews();
+      },
+
+      _handleThreadUpdated: (summary: ThreadSummary) => {
+        console.log('🧵 Thread updated:', summary.messageId);
+        get()._updateMessage(summary.roomId, summary.messageId, {
+          replyCount: summary.replyCount,
+          lastReplyAt: summary.lastReplyAt,
+          lastReplier: summary.lastReplier,
+        });
+      },
+
+      _handleReceiptUpdate: (receipt: ReadReceipt) =>
+        set(
+          state => {
+            const room = state.receiptsByRoom[receipt.roomId] || {};
+            return {
+              receiptsByRoom: {
+                ...state.receiptsByRoom,
+                [receipt.roomId]: {
+                  ...room,
+                  [receipt.userId]: mergeReceipt(room[receipt.userId], receipt),
+                },
+              },
+            };
+          },
+          false,
+          'receipt-update'
+        ),
+
+      _loadReceipts: async (roomId: string) => {
+        try {
+          const { listReadReceipts } = await import('@/lib/api');
+          const receipts = await listReadReceipts(roomId);
+          for (const receipt of receipts) get()._handleReceiptUpdate(receipt);
+        } catch (error) {
+          console.error('Failed to load read receipts:', error);
+        }
+      },
+
+      _handlePinned: (pin: PinnedMessage) =>
+        set(
+          state => ({
+            pinsByRoom: {
+              ...state.pinsByRoom,
+              [pin.roomId]: [
+                pin,
+                ...(state.pinsByRoom[pin.roomId] || []).filter(
+                  p => p.messageId !== pin.messageId
+                ),
+              ],
+            },
+          }),
+          false,
+          'msg-pinned'
+        ),
+
+      _handleUnpinned: ({ roomId, messageId }: PinRemoval) =>
+        set(
+          state => {
+            const pins = state.pinsByRoom[roomId];
+            if (!pins?.some(p => p.messageId === messageId)) return state;
+            return {
+              pinsByRoom: {
+                ...state.pinsByRoom,
+                [roomId]: pins.filter(p => p.messageId !== messageId),
+              },
+            };
+          },
+          false,
+          'msg-unpinned'
+        ),
+
+      _handleLinkPreview: ({
+        roomId,
+        messageId,
+        linkPreview,
+      }: MessagePreviewUpdate) =>
+        get()._updateMessage(roomId, messageId, { linkPreview }),
+
+      // Room-wide tallies don't say what this user picked, so that's kept
+      _handlePollUpdate: ({ roomId, messageId, poll }: PollUpdate) => {
+        const current = findLoadedMessage(get(), roomId, messageId);
+        get()._updateMessage(roomId, messageId, {
+          poll: { ...poll, myVotes: current?.poll?.myVotes },
+        });
+      },
 
-          if (!conversationExists) {
-            console.log(
-              '⚠️ Conversation not found in local state - refreshing conversations list...'
-            );
-            try {
-              // Refresh conversations to ensure we have the latest data
-              const { listConversations } = await import('@/lib/api');
-              const updatedConversations = await listConversations();
+      _handlePollVoted: ({ roomId, messageId, optionIds }: PollVotes) => {
+        const poll = findLoadedMessage(get(), roomId, messageId)?.poll;
+        if (!poll) return;
+        get()._updateMessage(roomId, messageId, {
+          poll: { ...poll, myVotes: optionIds },
+        });
+      },
 
-              console.log(
-                '📋 Refreshed conversations count:',
-                updatedConversations.length
-              );
-              console.log(
-                '🔍 Looking for roomId after refresh:',
-                message.roomId
-              );
-              const refreshedConversation = updatedConversations.find(
-                c => c.id === message.roomId
-              );
-              console.log(
-                '🔍 Found conversation after refresh:',
-                !!refreshedConversation,
-                refreshedConversation?.name
-              );
+      _handleVoicePlayed: ({
+        roomId,
+        messageId,
+        attachmentId,
+        playedAt,
+      }: VoiceNotePlayed) => {
+        const message = findLoadedMessage(get(), roomId, messageId);
+        if (!message?.attachments) return;
+        get()._updateMessage(roomId, messageId, {
+          attachments: message.attachments.map(a =>
+            a.id === attachmentId ? { ...a, playedAt } : a
+          ),
+        });
+      },
 
-              set(
-                { conversations: updatedConversations },
-                false,
-                'refresh-conversations-on-new-message'
-              );
+      _updateCall: (updates: Partial<ActiveCall>) =>
+        set(
+          state =>
+            state.activeCall
+              ? { activeCall: { ...state.activeCall, ...updates } }
+              : {},
+          false,
+          'call-updated'
+        ),
 
-              // Auto-join the room if we're not already joined
-              if (socket && !get().joinedRooms.has(message.roomId)) {
-                console.log(
-                  '🚀 Auto-joining room for new message:',
-                  message.roomId
-                );
-                get()._addJoinedRoom(message.roomId);
-                socket.emit('room:join', { id: message.roomId });
-              }
-            } catch (error) {
-              console.error('❌ Failed to refresh conversations:', error);
-            }
-          }
+      // Releases the peer connection and media. With an error the call
+      // screen stays up to show it until dismissed
+      _endCall: (error?: string) => {
+        callSession?.close();
+        callSession = null;
+        const activeCall = get().activeCall;
+        stopMedia(activeCall?.localStream);
+        set(
+          {
+            activeCall:
+              activeCall && error
+                ? {
+                    ...activeCall,
+                    phase: 'failed',
+                    localStream: null,
+                    remoteStream: null,
+                    error,
+                  }
+                : null,
+          },
+          false,
+          'call-ended'
+        );
+      },
 
-          get()._updateConversationPreview(
-            message.roomId,
-            message.content || '[File]'
-          );
+      _handleCallInvited: (call: Call) => {
+        const activeCall = get().activeCall;
+        // Hung up before the server confirmed the call
+        if (!activeCall?.outgoing || activeCall.call) {
+          socket?.emit('call:cancel', { callId: call.id });
+          return;
+        }
+        get()._updateCall({ call });
+      },
 
-          // Only increment unread count if this is NOT the currently active conversation
-          const isActiveConversation = get().activeRoomId === message.roomId;
-          console.log('🔍 Unread count check:', {
-            messageRoomId: message.roomId,
-            activeRoomId: get().activeRoomId,
-            isActiveConversation,
-            messageFromUserId: message.userId,
-            currentUserId: currentUser.id,
-          });
+      // Rings every device of the callee; the first to answer takes the call
+      _handleIncomingCall: (call: Call) => {
+        set({ incomingCall: call }, false, 'call-incoming');
+        socket?.emit('call:ringing', { callId: call.id });
+      },
 
-          if (!isActiveConversation) {
-            console.log(
-              '📫 Message for inactive conversation - incrementing unread count for room:',
-              message.roomId
-            );
-            get()._incrementUnreadCount(message.roomId);
-          } else {
-            console.log(
-              '👁️ Message for active conversation - not incrementing unread count (user is viewing)'
-            );
+      _handleCallRinging: (call: Call) => {
+        if (get().activeCall?.call?.id !== call.id) return;
+        get()._updateCall({ call, phase: 'ringing' });
+      },
+
+      _handleCallAccepted: async (call: Call) => {
+        const { activeCall, incomingCall } = get();
+        if (activeCall?.call?.id !== call.id) {
+          // Answered on another of our devices
+          if (incomingCall?.id === call.id) {
+            set({ incomingCall: null }, false, 'call-answered-elsewhere');
           }
-        } else {
-          console.log(
-            '🚫 Message from current user - NOT updating conversation preview or unread count'
-          );
+          return;
+        }
+        if (!activeCall.outgoing) {
+          get()._updateCall({ call });
+          return;
+        }
+        if (!activeCall.localStream) return;
+
+        get()._updateCall({ call, phase: 'connecting' });
+        callSession = createCallSession({
+          call,
+          stream: activeCall.localStream,
+          onIceCandidate: candidate =>
+            socket?.emit('call:ice', { callId: call.id, candidate }),
+          onRemoteStream: remoteStream =>
+            get()._updateCall({
+              remoteStream,
+              phase: 'active',
+              connectedAt: Date.now(),
+            }),
+          onFailed: () => get().hangUp(),
+        });
+        try {
+          const sdp = await callSession.createOffer();
+          socket?.emit('call:offer', { callId: call.id, sdp });
+        } catch (error) {
+          console.error('📞 Failed to create call offer:', error);
+          get().hangUp();
         }
-        // Don't auto-scroll for incoming messages - let ChatMessageList handle it based on user position
-        // get()._triggerScrollToBottom();
       },
 
-      _handleMessageAck: (payload: {
-        clientMsgId: string;
-        serverId: string;
-      }) => {
-        console.log('✅ Message acknowledged:', payload);
+      _handleCallOffer: async ({ callId, sdp }) => {
+        if (get().activeCall?.call?.id !== callId || !callSession) return;
+        try {
+          const answer = await callSession.answerOffer(sdp);
+          socket?.emit('call:answer', { callId, sdp: answer });
+        } catch (error) {
+          console.error('📞 Failed to answer call offer:', error);
+          get().hangUp();
+        }
+      },
 
-        const state = get();
-        if (!state.activeRoomId) return;
+      _handleCallAnswer: async ({ callId, sdp }) => {
+        if (get().activeCall?.call?.id !== callId || !callSession) return;
+        try {
+          await callSession.acceptAnswer(sdp);
+        } catch (error) {
+          console.error('📞 Failed to accept call answer:', error);
+          get().hangUp();
+        }
+      },
 
-        // Find and update the pending message to mark it as sent
-        const messages = state.messagesByRoom[state.activeRoomId] || [];
-        const messageIndex = messages.findIndex(
-          (m: Message) => m.clientMsgId === payload.clientMsgId
-        );
+      _handleCallIce: ({ callId, candidate }) => {
+        if (get().activeCall?.call?.id !== callId || !callSession) return;
+        callSession.addIceCandidate(candidate).catch(error => {
+          console.error('📞 Failed to add ICE candidate:', error);
+        });
+      },
 
-        if (messageIndex !== -1) {
-          const updatedMessages = [...messages];
-          const originalMessage = updatedMessages[messageIndex];
+      // The call record itself arrives as a system message (msg:new)
+      _handleCallEnded: ({ call }: CallEnd) => {
+        const { activeCall, incomingCall } = get();
+        if (incomingCall?.id === call.id) {
+          set({ incomingCall: null }, false, 'call-ended-ringing');
+        }
+        if (activeCall?.call?.id === call.id) get()._endCall();
+      },
 
-          // Update the message with the server ID and remove pending status
-          updatedMessages[messageIndex] = {
-            ...originalMessage,
-            id: payload.serverId,
-            pending: false, // Mark as no longer pending (sent successfully)
-          } as Message;
+      // Only failures of this device's own call end it; an invite that was
+      // refused has no callId yet
+      _handleCallNack: ({ callId, error }) => {
+        console.error('📞 Call signaling failed:', error);
+        const activeCall = get().activeCall;
+        if (!activeCall || activeCall.phase === 'failed') return;
+        if (callId ? activeCall.call?.id === callId : !activeCall.call) {
+          get()._endCall(error);
+        }
+      },
 
+      _loadPins: async (roomId: string) => {
+        try {
+          const { listPins } = await import('@/lib/api');
+          const pins = await listPins(roomId);
           set(
-            (state: ChatStore) => ({
-              ...state,
-              messagesByRoom: {
-                ...state.messagesByRoom,
-                [state.activeRoomId!]: updatedMessages,
-              },
-            }),
+            state => ({ pinsByRoom: { ...state.pinsByRoom, [roomId]: pins } }),
             false,
-            'message-ack'
-          );
-
-          console.log(
-            '📝 Message marked as sent (no longer pending):',
-            payload.serverId
+            'pins-loaded'
           );
+        } catch (error) {
+          console.error('Failed to load pinned messages:', error);
         }
       },
-      _handleMessageNack: (payload: {
-        clientMsgId: string;
-        error: string;
-        details?: any;
-      }) => {
-        const state = get();
-        if (!state.activeRoomId) return;
 
-        console.error('❌ Message failed to send:', payload);
+      _setScheduled: (roomId: string, scheduled: ScheduledMessage[]) =>
+        set(
+          state => ({
+            scheduledByRoom: {
+              ...state.scheduledByRoom,
+              [roomId]: [...scheduled].sort((a, b) =>
+                a.sendAt.localeCompare(b.sendAt)
+              ),
+            },
+          }),
+          false,
+          'scheduled-updated'
+        ),
 
-        // Mark the message as failed
-        state._updateMessage(state.activeRoomId, payload.clientMsgId, {
-          pending: false,
-          error: true,
-        });
+      _loadScheduled: async (roomId: string) => {
+        try {
+          const { listScheduledMessages } = await import('@/lib/api');
+          get()._setScheduled(roomId, await listScheduledMessages(roomId));
+        } catch (error) {
+          console.error('Failed to load scheduled messages:', error);
+        }
       },
 
       _refreshSocketListeners: () => {
@@ -634,6 +2222,37 @@ const useChatStore = create<ChatStore>()(
           _handleRoomHistory,
           _handleReactionUpdate,
           _handleConversationCreated,
+          _handleRoomUpdated,
+          _handleRoomRemoved,
+          _handleMessageEdited,
+          _handleEditAck,
+          _handleEditNack,
+          _handleMessageDeleted,
+          _handleMessageHidden,
+          _handleThreadUpdated,
+          _handlePinned,
+          _handleUnpinned,
+          _handleLinkPreview,
+          _handlePollUpdate,
+          _handlePollVoted,
+          _handleVoicePlayed,
+          _handleCallInvited,
+          _handleIncomingCall,
+          _handleCallRinging,
+          _handleCallAccepted,
+          _handleCallOffer,
+          _handleCallAnswer,
+          _handleCallIce,
+          _handleCallEnded,
+          _handleCallNack,
+          _handleReceiptUpdate,
+          _handleUnreadUpdate,
+          _handlePresenceState,
+          _handlePresenceUpdate,
+          _handleTypingUpdate,
+          _handleDraftUpdate,
+          _handleConversationSettings,
+          _handleMention,
         } = get();
 
         // Remove existing listeners first to avoid duplicates
@@ -644,6 +2263,41 @@ const useChatStore = create<ChatStore>()(
         socket.off('msg:react');
         socket.off('msg:react:ack');
         socket.off('msg:react:nack');
+        socket.off('msg:edited');
+        socket.off('msg:edit:ack');
+        socket.off('msg:edit:nack');
+        socket.off('msg:deleted');
+        socket.off('msg:hidden');
+        socket.off('msg:delete:nack');
+        socket.off('thread:updated');
+        socket.off('msg:pinned');
+        socket.off('msg:unpinned');
+        socket.off('msg:preview');
+        socket.off('poll:updated');
+        socket.off('poll:voted');
+        socket.off('poll:vote:nack');
+        socket.off('voice:played');
+        socket.off('voice:played:nack');
+        socket.off('call:invited');
+        socket.off('call:incoming');
+        socket.off('call:ringing');
+        socket.off('call:accepted');
+        socket.off('call:offer');
+        socket.off('call:answer');
+        socket.off('call:ice');
+        socket.off('call:ended');
+        socket.off('call:nack');
+        socket.off('receipt:update');
+        socket.off('receipt:nack');
+        socket.off('unread:update');
+        socket.off('presence:state');
+        socket.off('presence:update');
+        socket.off('typing:update');
+        socket.off('draft:updated');
+        socket.off('conversation:settings');
+        socket.off('mention:new');
+        socket.off('room:updated');
+        socket.off('room:removed');
         socket.off('conversation:created');
         socket.off('connect');
         socket.off('disconnect');
@@ -674,6 +2328,49 @@ const useChatStore = create<ChatStore>()(
         socket.on('msg:react:nack', (data: any) => {
           console.error('🎭 Reaction failed:', data);
         });
+        socket.on('msg:edited', _handleMessageEdited);
+        socket.on('msg:edit:ack', _handleEditAck);
+        socket.on('msg:edit:nack', _handleEditNack);
+        socket.on('msg:deleted', _handleMessageDeleted);
+        socket.on('msg:hidden', _handleMessageHidden);
+        socket.on('msg:delete:nack', (data: any) => {
+          console.error('🗑️ Message delete failed:', data);
+        });
+        socket.on('thread:updated', _handleThreadUpdated);
+        socket.on('msg:pinned', _handlePinned);
+        socket.on('msg:unpinned', _handleUnpinned);
+        socket.on('msg:preview', _handleLinkPreview);
+        socket.on('poll:updated', _handlePollUpdate);
+        socket.on('poll:voted', _handlePollVoted);
+        socket.on('poll:vote:nack', (data: any) => {
+          console.error('📊 Poll vote failed:', data);
+        });
+        socket.on('voice:played', _handleVoicePlayed);
+        socket.on('voice:played:nack', (data: any) => {
+          console.error('🎤 Marking voice note played failed:', data);
+        });
+        socket.on('call:invited', _handleCallInvited);
+        socket.on('call:incoming', _handleIncomingCall);
+        socket.on('call:ringing', _handleCallRinging);
+        socket.on('call:accepted', _handleCallAccepted);
+        socket.on('call:offer', _handleCallOffer);
+        socket.on('call:answer', _handleCallAnswer);
+        socket.on('call:ice', _handleCallIce);
+        socket.on('call:ended', _handleCallEnded);
+        socket.on('call:nack', _handleCallNack);
+        socket.on('receipt:update', _handleReceiptUpdate);
+        socket.on('unread:update', _handleUnreadUpdate);
+        socket.on('presence:state', _handlePresenceState);
+        socket.on('presence:update', _handlePresenceUpdate);
+        socket.on('typing:update', _handleTypingUpdate);
+        socket.on('draft:updated', _handleDraftUpdate);
+        socket.on('conversation:settings', _handleConversationSettings);
+        socket.on('mention:new', _handleMention);
+        socket.on('room:updated', _handleRoomUpdated);
+        socket.on('room:removed', _handleRoomRemoved);
+        socket.on('receipt:nack', (data: any) => {
+          console.error('👁️ Read receipt failed:', data);
+        });
         socket.on('conversation:created', (data: any) => {
           console.log('🟢 === WebSocket Event Received ===');
           console.log('🟢 Event type: conversation:created');
@@ -695,7 +2392,15 @@ const useChatStore = create<ChatStore>()(
         });
         socket.on('disconnect', () => {
           console.log('🔴 Socket disconnected');
+          // Typing updates missed while offline would leave indicators stuck
+          set({ typingByRoom: {} }, false, 'clear-typing');
+          // The server ends our calls when this socket goes away
+          if (get().activeCall) get()._endCall('Connection lost');
+          set({ incomingCall: null }, false, 'clear-incoming-call');
         });
+
+        // The snapshot sent on connect may have arrived before these listeners
+        if (socket.connected) socket.emit('presence:sync');
         
         console.log('✅ Socket listeners refreshed successfully');
       },
@@ -788,6 +2493,8 @@ const useChatStore = create<ChatStore>()(
             socket.emit('room:join', { id: data.conversationId });
 
             console.log('✅ Room join event emitted for:', data.conversationId);
+            // New members' presence isn't in the snapshot we have
+            socket.emit('presence:sync');
             console.log(
               '🔍 Updated joined rooms:',
               Array.from(get().joinedRooms)
@@ -910,6 +2617,18 @@ const useChatStore = create<ChatStore>()(
           'setMessages'
         ),
 
+      _setHistory: (roomId: string, history: RoomHistory) =>
+        set(
+          state => ({
+            historyByRoom: {
+              ...state.historyByRoom,
+              [roomId]: history,
+            },
+          }),
+          false,
+          'setHistory'
+        ),
+
       _addMessage: (message: Message) =>
         set(
           state => {
@@ -1040,6 +2759,9 @@ const useChatStore = create<ChatStore>()(
             );
 
             const updatedConversations = state.conversations.map(convo => {
+              // The loaded window does not end at the room's latest message
+              if (state.historyByRoom[convo.id]?.hasNewer) return convo;
+
               const messages = state.messagesByRoom[convo.id] || [];
               console.log(
                 '🔍 Conversation:',
@@ -1053,7 +2775,7 @@ const useChatStore = create<ChatStore>()(
               const latestMessage = messages
                 .slice()
                 .reverse() // Start from the latest messages
-                .find(msg => msg.content && msg.content.trim() !== ''); // Find first non-empty message
+                .find(msg => previewOf(msg).trim() !== ''); // Find first non-empty message
 
               console.log(
                 '🔍 Latest message found:',
@@ -1066,7 +2788,7 @@ const useChatStore = create<ChatStore>()(
                 latestMessage?.userId === state.user!.id
               );
 
-              const newLast = latestMessage?.content || null;
+              const newLast = latestMessage ? previewOf(latestMessage) : null;
               
               // Just show the message content without sender information
               let formattedLast = newLast;
@@ -1106,18 +2828,35 @@ const useChatStore = create<ChatStore>()(
             const messages = state.messagesByRoom[roomId];
             if (!messages) return state;
 
-            const updatedMessages = messages.map(msg =>
+            const matches = (msg: Message) =>
               // Search by clientMsgId first (for pending messages), then by id
-              msg.clientMsgId === messageId || msg.id === messageId
-                ? { ...msg, ...updates }
-                : msg
+              msg.clientMsgId === messageId || msg.id === messageId;
+            const updatedMessages = messages.map(msg =>
+              matches(msg) ? { ...msg, ...updates } : msg
             );
 
+            // The open thread holds its own copies of the parent and replies
+            const thread = state.activeThread;
+            const activeThread =
+              thread?.roomId === roomId
+                ? {
+                    ...thread,
+                    parent:
+                      thread.parent && matches(thread.parent)
+                        ? { ...thread.parent, ...updates }
+                        : thread.parent,
+                    replies: thread.replies.map(msg =>
+                      matches(msg) ? { ...msg, ...updates } : msg
+                    ),
+                  }
+                : thread;
+
             return {
               messagesByRoom: {
                 ...state.messagesByRoom,
                 [roomId]: updatedMessages,
               },
+              activeThread,
             };
           },
           false,
@@ -1141,93 +2880,164 @@ const useChatStore = create<ChatStore>()(
           'addOptimisticMessage'
         ),
 
-      _incrementUnreadCount: (roomId: string) =>
+      _setDraft: (roomId: string, content: string | null) =>
         set(
-          state => {
-            console.log('📫 _incrementUnreadCount called for roomId:', roomId);
-            console.log(
-              '📫 Available conversations:',
-              state.conversations.map(c => ({
-                id: c.id,
-                name: c.name,
-                unread: c.unread,
-              }))
-            );
+          state => ({
+            conversations: state.conversations.map(convo =>
+              convo.id === roomId ? { ...convo, draft: content } : convo
+            ),
+          }),
+          false,
+          'draft-update'
+        ),
 
-            const targetConversation = state.conversations.find(
-              convo => convo.id === roomId
-            );
-            if (!targetConversation) {
-              console.warn(
-                '⚠️ Cannot increment unread count - conversation not found in store:',
-                roomId
-              );
-              console.warn(
-                '📋 Current conversations:',
-                state.conversations.map(c => c.id)
-              );
-              console.warn(
-                '🔄 This might be a timing issue - conversation may not be loaded yet'
-              );
-              return state; // Return unchanged state if conversation doesn't exist
-            }
+      // From another of the user's devices
+      _handleDraftUpdate: ({ roomId, content }: RoomDraft) => {
+        cancelDraftSave(roomId);
+        get()._setDraft(roomId, content);
+      },
 
-            const updatedConversations = state.conversations.map(convo => {
-              if (convo.id === roomId) {
-                const currentUnread = convo.unread || 0;
-                console.log(
-                  '📫 Incrementing unread count for:',
-                  convo.name,
-                  'from',
-                  currentUnread,
-                  'to',
-                  currentUnread + 1
-                );
-                return {
-                  ...convo,
-                  unread: currentUnread + 1,
-                };
-              }
-              return convo;
-            });
+      // Also sent when a new message takes a room out of the archive
+      _handleConversationSettings: ({
+        roomId,
+        ...settings
+      }: ConversationSettings) =>
+        set(
+          state => ({
+            conversations: state.conversations.map(convo =>
+              convo.id === roomId ? { ...convo, ...settings } : convo
+            ),
+          }),
+          false,
+          'conversation-settings'
+        ),
 
-            console.log(
-              '✅ Unread count incremented successfully for:',
-              roomId
-            );
-            return {
-              conversations: updatedConversations,
-            };
-          },
+      // The mention badge follows via unread:update; this only alerts when
+      // the user isn't already looking at the room, and it isn't muted
+      _handleMention: (notice: MentionNotice) => {
+        const looking =
+          !document.hidden && get().activeRoomId === notice.roomId;
+        if (
+          looking ||
+          typeof Notification === 'undefined' ||
+          Notification.permission !== 'granted'
+        ) {
+          return;
+        }
+
+        const room = get().conversations.find(c => c.id === notice.roomId);
+        if (room && isMuted(room)) return;
+        const sender = notice.senderUsername ?? 'Someone';
+        new Notification(
+          room?.isGroup
+            ? `${sender} mentioned you in ${room.name}`
+            : `${sender} mentioned you`,
+          { body: notice.preview, tag: notice.messageId }
+        );
+      },
+
+      _handleUnreadUpdate: counts =>
+        set(
+          state => ({
+            conversations: state.conversations.map(convo =>
+              convo.id === counts.roomId
+                ? {
+                    ...convo,
+                    unreadCount: counts.unreadCount,
+                    mentionCount: counts.mentionCount,
+                  }
+                : convo
+            ),
+          }),
           false,
-          'incrementUnreadCount'
+          'unread-update'
         ),
 
-      _clearUnreadCount: (roomId: string) =>
+      _handlePresenceState: presence =>
         set(
           state => {
-            const updatedConversations = state.conversations.map(convo => {
-              if (convo.id === roomId && convo.unread) {
-                console.log(
-                  '📬 Clearing unread count for:',
-                  convo.name,
-                  'was',
-                  convo.unread
-                );
-                return {
-                  ...convo,
-                  unread: 0,
-                };
-              }
-              return convo;
-            });
+            const presenceByUser = { ...state.presenceByUser };
+            for (const p of presence) presenceByUser[p.userId] = p;
+            return { presenceByUser };
+          },
+          false,
+          'presence-state'
+        ),
 
-            return {
-              conversations: updatedConversations,
-            };
+      _handleRoomUpdated: group =>
+        set(
+          state => ({
+            conversations: state.conversations.map(c =>
+              c.id === group.id
+                ? {
+                    ...c,
+                    name: group.name,
+                    avatar: group.avatar,
+                    members: group.members,
+                    role: group.members.find(m => m.id === state.user?.id)
+                      ?.role,
+                  }
+                : c
+            ),
+          }),
+          false,
+          'room-updated'
+        ),
+
+      // Removed from a group (kicked, or left on another device)
+      _handleRoomRemoved: ({ roomId }) => {
+        const state = get();
+        const messagesByRoom = { ...state.messagesByRoom };
+        delete messagesByRoom[roomId];
+        const pinsByRoom = { ...state.pinsByRoom };
+        delete pinsByRoom[roomId];
+        const scheduledByRoom = { ...state.scheduledByRoom };
+        delete scheduledByRoom[roomId];
+        const joinedRooms = new Set(state.joinedRooms);
+        joinedRooms.delete(roomId);
+        const loadedRooms = new Set(state.loadedRooms);
+        loadedRooms.delete(roomId);
+
+        set(
+          {
+            conversations: state.conversations.filter(c => c.id !== roomId),
+            messagesByRoom,
+            pinsByRoom,
+            scheduledByRoom,
+            joinedRooms,
+            loadedRooms,
+            activeRoomId:
+              state.activeRoomId === roomId ? undefined : state.activeRoomId,
+            activeThread:
+              state.activeThread?.roomId === roomId ? null : state.activeThread,
           },
           false,
-          'clearUnreadCount'
+          'room-removed'
+        );
+      },
+
+      _handleTypingUpdate: ({ roomId, userIds }) =>
+        set(
+          state => ({
+            typingByRoom: {
+              ...state.typingByRoom,
+              [roomId]: userIds.filter(id => id !== state.user?.id),
+            },
+          }),
+          false,
+          'typing-update'
+        ),
+
+      _handlePresenceUpdate: presence =>
+        set(
+          state => ({
+            presenceByUser: {
+              ...state.presenceByUser,
+              [presence.userId]: presence,
+            },
+          }),
+          false,
+          'presence-update'
         ),
 
       _triggerScrollToBottom: () =>
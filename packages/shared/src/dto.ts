@@ -14,13 +14,33 @@ export const RoomDTO = z.object({
 });
 export type RoomDTO = z.infer<typeof RoomDTO>;
 
-export const MessageIn = z.object({
+export const MessageIn = z
+  .object({
+    roomId: z.uuid(),
+    content: z.string().max(4000),
+    clientMsgId: z.uuid(),
+    replyToId: z.uuid().nullable().optional(),
+    attachmentIds: z.array(z.uuid()).max(10).optional(), // uploaded via POST /attachments
+  })
+  .refine(m => m.content.trim().length > 0 || !!m.attachmentIds?.length, {
+    message: 'Message needs content or attachments',
+    path: ['content'],
+  });
+export type MessageIn = z.infer<typeof MessageIn>;
+
+export const MessageEditIn = z.object({
+  messageId: z.uuid(),
   roomId: z.uuid(),
   content: z.string().min(1).max(4000),
-  clientMsgId: z.uuid(),
-  replyToId: z.uuid().nullable().optional(),
 });
-export type MessageIn = z.infer<typeof MessageIn>;
+export type MessageEditIn = z.infer<typeof MessageEditIn>;
+
+export const MessageDeleteIn = z.object({
+  messageId: z.uuid(),
+  roomId: z.uuid(),
+  scope: z.enum(['me', 'everyone']),
+});
+export type MessageDeleteIn = z.infer<typeof MessageDeleteIn>;
 
 export const ReactionDTO = z.object({
   emoji: z.string(),
@@ -38,6 +58,7 @@ export const MessageOut = z.object({
   clientMsgId: z.uuid().optional(),
   replyToId: z.uuid().nullable().optional(),
   reactions: z.array(ReactionDTO).optional(),
+  editedAt: z.string().nullable().optional(),
 });
 export type MessageOut = z.infer<typeof MessageOut>;
 
@@ -48,16 +69,82 @@ export const ReactionIn = z.object({
 });
 export type ReactionIn = z.infer<typeof ReactionIn>;
 
+// room:read and msg:delivered; the message is the newest one seen/received
+export const ReceiptIn = z.object({
+  roomId: z.uuid(),
+  messageId: z.uuid(),
+});
+export type ReceiptIn = z.infer<typeof ReceiptIn>;
+
 export const TypingEvent = z.object({
   roomId: z.uuid(),
   isTyping: z.boolean(),
 });
 export type TypingEvent = z.infer<typeof TypingEvent>;
 
+// Composer text for a room; empty clears the draft
+export const DraftIn = z.object({
+  roomId: z.uuid(),
+  content: z.string().max(4000),
+});
+export type DraftIn = z.infer<typeof DraftIn>;
+
+// poll:vote replaces the voter's choice; poll:retract takes it back
+export const PollVoteIn = z.object({
+  roomId: z.uuid(),
+  messageId: z.uuid(),
+  optionIds: z.array(z.uuid()).min(1).max(10),
+});
+export type PollVoteIn = z.infer<typeof PollVoteIn>;
+
+export const PollRetractIn = z.object({
+  roomId: z.uuid(),
+  messageId: z.uuid(),
+});
+export type PollRetractIn = z.infer<typeof PollRetractIn>;
+
+// A DM recipient started listening to a voice note
+export const VoicePlayedIn = z.object({
+  roomId: z.uuid(),
+  attachmentId: z.uuid(),
+});
+export type VoicePlayedIn = z.infer<typeof VoicePlayedIn>;
+
+// 1:1 calls in a DM. The other events (ringing, accept, reject, cancel,
+// hangup) only name the call
+export const CallInviteIn = z.object({
+  roomId: z.uuid(),
+  video: z.boolean().default(false),
+});
+export type CallInviteIn = z.infer<typeof CallInviteIn>;
+
+export const CallIdIn = z.object({
+  callId: z.uuid(),
+});
+export type CallIdIn = z.infer<typeof CallIdIn>;
+
+// WebRTC offer or answer, relayed as is
+export const CallDescriptionIn = z.object({
+  callId: z.uuid(),
+  sdp: z.string().min(1).max(100_000),
+});
+export type CallDescriptionIn = z.infer<typeof CallDescriptionIn>;
+
+export const CallIceIn = z.object({
+  callId: z.uuid(),
+  candidate: z.object({
+    candidate: z.string().max(2_000),
+    sdpMid: z.string().max(64).nullish(),
+    sdpMLineIndex: z.number().int().min(0).nullish(),
+    usernameFragment: z.string().max(256).nullish(),
+  }),
+});
+export type CallIceIn = z.infer<typeof CallIceIn>;
+
 export const PresenceEvent = z.object({
   userId: z.uuid(),
   online: z.boolean(),
-  lastSeen: z.string(),
+  lastSeenAt: z.string().nullable(),
 });
 export type PresenceEvent = z.infer<typeof PresenceEvent>;
 
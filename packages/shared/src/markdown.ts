@@ -0,0 +1,344 @@
+/**
+ * Message formatting rules, shared so the web client renders messages and
+ * the API builds previews and search text the same way.
+ *
+ *   **bold**  *italic* or _italic_  ~~strike~~  `code`  ||spoiler||
+ *   ```lang fenced code```  > quotes  - or * or 1. list items
+ *
+ * A backslash escapes the next punctuation character; bare http(s) URLs
+ * become links. The parser returns a tree, never HTML: renderers build
+ * their own elements from it, so message text can't inject markup.
+ */
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string }
+  | {
+      type: 'bold' | 'italic' | 'strike' | 'spoiler';
+      children: MarkdownInline[];
+    };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'code'; lang: string | null; text: string }
+  | { type: 'quote'; children: MarkdownBlock[] }
+  | {
+      type: 'list';
+      ordered: boolean;
+      start: number;
+      items: MarkdownInline[][];
+    };
+
+/** Stands in for spoiler text wherever formatting is stripped */
+export const SPOILER_PLACEHOLDER = '▒▒▒▒';
+
+const FENCE_OPEN_RE = /^\s*```([\w#+.-]*)\s*$/;
+const QUOTE_RE = /^\s*>\s?/;
+const LIST_ITEM_RE = /^\s*(?:[-*]|(\d{1,9})[.)])\s+(.*)$/;
+const URL_RE = /https?:\/\/[\w-]+(?:\.[\w-]+)*(?::\d+)?(?:[/?#][^\s<>"]*)?/iy;
+const ESCAPABLE_RE = /[!-/:-@[-`{-~]/;
+// Longest first, so `**` isn't read as two italic markers
+const DELIMITERS = [
+  ['**', 'bold'],
+  ['~~', 'strike'],
+  ['||', 'spoiler'],
+  ['*', 'italic'],
+  ['_', 'italic'],
+] as const;
+// Quotes and emphasis can nest; past this they are taken literally
+const MAX_DEPTH = 8;
+
+/** Parses message text into blocks of inline runs */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  return parseBlocks(text.replace(/\r\n?/g, '\n').split('\n'), 0);
+}
+
+/**
+ * The text as it reads without formatting: markers are dropped, links show
+ * their URL and spoilers are masked. Blocks and list items go on their own
+ * lines.
+ */
+export function toPlainText(text: string): string {
+  return parseMarkdown(text).map(blockText).join('\n');
+}
+
+/**
+ * URLs linked in the text, in order. Links inside code or spoilers are
+ * left out, so a preview never shows what the sender kept hidden.
+ */
+export function findLinks(text: string): string[] {
+  const links: string[] = [];
+  const fromInlines = (nodes: MarkdownInline[]) => {
+    for (const node of nodes) {
+      if (node.type === 'link') links.push(node.href);
+      else if ('children' in node && node.type !== 'spoiler') {
+        fromInlines(node.children);
+      }
+    }
+  };
+  const fromBlocks = (blocks: MarkdownBlock[]) => {
+    for (const block of blocks) {
+      if (block.type === 'paragraph') fromInlines(block.children);
+      else if (block.type === 'quote') fromBlocks(block.children);
+      else if (block.type === 'list') block.items.forEach(fromInlines);
+    }
+  };
+  fromBlocks(parseMarkdown(text));
+  return links;
+}
+
+function blockText(block: MarkdownBlock): string {
+  switch (block.type) {
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'code':
+      return block.text;
+    case 'quote':
+      return block.children.map(blockText).join('\n');
+    case 'list':
+      return block.items
+        .map(
+          (item, i) =>
+            `${block.ordered ? `${block.start + i}.` : '•'} ${inlineText(item)}`
+        )
+        .join('\n');
+  }
+}
+
+function inlineText(nodes: MarkdownInline[]): string {
+  return nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text;
+        case 'link':
+          return node.href;
+        case 'spoiler':
+          return SPOILER_PLACEHOLDER;
+        default:
+          return inlineText(node.children);
+      }
+    })
+    .join('');
+}
+
+function parseBlocks(lines: string[], depth: number): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  const endParagraph = () => {
+    if (paragraph.length) {
+      blocks.push({
+        type: 'paragraph',
+        children: parseInline(paragraph.join('\n'), depth),
+      });
+    }
+    paragraph = [];
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    const fence = FENCE_OPEN_RE.exec(line);
+    const fenceEnd = fence ? findFenceEnd(lines, i + 1) : -1;
+    if (fence && fenceEnd !== -1) {
+      endParagraph();
+      const body = lines.slice(i + 1, fenceEnd + 1);
+      // The closing ``` may end the last line of code
+      body[body.length - 1] = body[body.length - 1]!.replace(/```\s*$/, '');
+      if (!body[body.length - 1]!.trim()) body.pop();
+      blocks.push({
+        type: 'code',
+        lang: fence[1] || null,
+        text: body.join('\n'),
+      });
+      i = fenceEnd + 1;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line) && depth < MAX_DEPTH) {
+      endParagraph();
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE_RE.test(lines[i]!)) {
+        quoted.push(lines[i]!.replace(QUOTE_RE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(quoted, depth + 1) });
+      continue;
+    }
+
+    const item = LIST_ITEM_RE.exec(line);
+    if (item) {
+      endParagraph();
+      const ordered = item[1] !== undefined;
+      const items: MarkdownInline[][] = [];
+      let next: RegExpExecArray | null = item;
+      // A list runs while items keep the same kind (bullets or numbers)
+      while (next && (next[1] !== undefined) === ordered) {
+        items.push(parseInline(next[2]!, depth));
+        next = ++i < lines.length ? LIST_ITEM_RE.exec(lines[i]!) : null;
+      }
+      blocks.push({
+        type: 'list',
+        ordered,
+        start: ordered ? Number(item[1]) : 1,
+        items,
+      });
+      continue;
+    }
+
+    if (line.trim()) paragraph.push(line);
+    else endParagraph();
+    i++;
+  }
+  endParagraph();
+  return blocks;
+}
+
+// The line that closes a fence opened just before `from`, or -1
+function findFenceEnd(lines: string[], from: number): number {
+  for (let i = from; i < lines.length; i++) {
+    if (/```\s*$/.test(lines[i]!)) return i;
+  }
+  return -1;
+}
+
+function parseInline(text: string, depth: number): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let plain = '';
+  const push = (node: MarkdownInline) => {
+    if (plain) nodes.push({ type: 'text', text: plain });
+    plain = '';
+    nodes.push(node);
+  };
+
+  let i = 0;
+  scan: while (i < text.length) {
+    const ch = text[i]!;
+
+    if (ch === '\\' && ESCAPABLE_RE.test(text[i + 1] ?? '')) {
+      plain += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    // Code spans close on a run of as many backticks as opened them
+    if (ch === '`') {
+      let run = 1;
+      while (text[i + run] === '`') run++;
+      const fence = '`'.repeat(run);
+      const end = findRun(text, fence, i + run);
+      if (end !== -1 && end > i + run) {
+        push({ type: 'code', text: text.slice(i + run, end) });
+        i = end + run;
+        continue;
+      }
+      plain += fence;
+      i += run;
+      continue;
+    }
+
+    // URLs go first so markers inside them (foo_bar, a*b) stay put
+    if ((ch === 'h' || ch === 'H') && !/\w/.test(text[i - 1] ?? '')) {
+      URL_RE.lastIndex = i;
+      const url = URL_RE.exec(text);
+      if (url) {
+        const href = trimUrl(url[0]);
+        push({ type: 'link', href });
+        i += href.length;
+        continue;
+      }
+    }
+
+    if (depth < MAX_DEPTH) {
+      for (const [marker, type] of DELIMITERS) {
+        if (!canOpen(text, i, marker)) continue;
+        const end = findClose(text, i + marker.length, marker);
+        if (end === -1) continue;
+        push({
+          type,
+          children: parseInline(text.slice(i + marker.length, end), depth + 1),
+        });
+        i = end + marker.length;
+        continue scan;
+      }
+    }
+
+    plain += ch;
+    i++;
+  }
+  if (plain) nodes.push({ type: 'text', text: plain });
+  return nodes;
+}
+
+// Start of the next run of exactly `fence` backticks, or -1
+function findRun(text: string, fence: string, from: number): number {
+  for (let i = text.indexOf(fence, from); i !== -1; ) {
+    let end = i;
+    while (text[end] === '`') end++;
+    if (end - i === fence.length) return i;
+    i = text.indexOf(fence, end);
+  }
+  return -1;
+}
+
+// Markers hug their text: `** x**` and `2 * 3 * 4` aren't emphasis, and
+// `_` only counts at word edges so snake_case survives
+function canOpen(text: string, i: number, marker: string): boolean {
+  if (!text.startsWith(marker, i)) return false;
+  const next = text[i + marker.length];
+  if (next === undefined || /\s/.test(next)) return false;
+  if (marker.length === 1 && next === marker) return false;
+  return marker !== '_' || !/\w/.test(text[i - 1] ?? '');
+}
+
+function findClose(text: string, from: number, marker: string): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    // Markers inside code spans don't count
+    if (text[i] === '`') {
+      let run = 1;
+      while (text[i + run] === '`') run++;
+      const end = findRun(text, '`'.repeat(run), i + run);
+      i = end === -1 ? i + run : end + run;
+      continue;
+    }
+    // `***x***` closes its inner italic first, then the bold
+    if (
+      i > from &&
+      text.startsWith(marker, i) &&
+      !/\s/.test(text[i - 1]!) &&
+      text[i + marker.length] !== marker[0] &&
+      (marker !== '_' || !/\w/.test(text[i + marker.length] ?? ''))
+    ) {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+// Trailing punctuation usually ends the sentence, not the URL; a closing
+// paren stays when the URL opened one (wiki links)
+function trimUrl(url: string): string {
+  let end = url.length;
+  while (end > 0) {
+    const ch = url[end - 1]!;
+    if (/[.,:;!?'*_~|]/.test(ch)) {
+      end--;
+    } else if (ch === ')') {
+      const head = url.slice(0, end);
+      if (head.split('(').length >= head.split(')').length) break;
+      end--;
+    } else {
+      break;
+    }
+  }
+  return url.slice(0, end);
+}